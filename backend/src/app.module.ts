@@ -9,11 +9,14 @@ import * as winston from 'winston'
 // Configuration
 import { databaseConfig } from './config/database.config'
 import { redisConfig } from './config/redis.config'
+import { authConfig } from './config/auth.config'
 
 // Modules
+import { AuthModule } from './modules/auth/auth.module'
 import { IncidentsModule } from './modules/incidents/incidents.module'
 import { EntitiesModule } from './modules/entities/entities.module'
 import { CasesModule } from './modules/cases/cases.module'
+import { NotificationsModule } from './modules/notifications/notifications.module'
 import { SearchModule } from './modules/search/search.module'
 import { IngestionModule } from './modules/ingestion/ingestion.module'
 import { HealthModule } from './modules/health/health.module'
@@ -24,7 +27,7 @@ import { HealthModule } from './modules/health/health.module'
     ConfigModule.forRoot({
       isGlobal: true,
       envFilePath: ['.env.local', '.env'],
-      load: [databaseConfig, redisConfig]
+      load: [databaseConfig, redisConfig, authConfig]
     }),
 
     // Logging
@@ -89,10 +92,12 @@ import { HealthModule } from './modules/health/health.module'
     ScheduleModule.forRoot(),
 
     // Feature modules
+    AuthModule,
     HealthModule,
     IncidentsModule,
     EntitiesModule,
     CasesModule,
+    NotificationsModule,
     SearchModule,
     IngestionModule
   ]
@@ -0,0 +1,11 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { User } from '../../entities';
+
+/**
+ * Resolves the authenticated user for routes whose behaviour depends on who
+ * is asking, such as per-case access checks. Undefined on public routes.
+ */
+export const CurrentUser = createParamDecorator((_data: unknown, ctx: ExecutionContext): User | undefined => {
+  const request = ctx.switchToHttp().getRequest();
+  return request.user;
+});
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+
+/**
+ * Opt a route or controller out of JWT authentication.
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { UserRole } from '../../entities/user.entity';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Minimum role required for a route. Roles are ranked, so
+ * @Roles('analyst') also admits admins.
+ */
+export const Roles = (role: UserRole) => SetMetadata(ROLES_KEY, role);
@@ -0,0 +1,9 @@
+import { registerAs } from '@nestjs/config'
+
+export const authConfig = registerAs('auth', () => ({
+  jwtSecret: process.env.JWT_SECRET,
+  jwtExpiresIn: process.env.JWT_EXPIRES_IN || '24h',
+  // Seeded on startup when the users table is empty
+  adminUsername: process.env.ADMIN_USERNAME || 'admin',
+  adminPassword: process.env.ADMIN_PASSWORD
+}))
@@ -0,0 +1,8 @@
+import { IsArray, IsString, ArrayNotEmpty } from 'class-validator';
+
+export class CaseIncidentsDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  incidentIds: string[];
+}
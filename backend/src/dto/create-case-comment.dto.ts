@@ -0,0 +1,15 @@
+import { IsString, IsNotEmpty, IsOptional, IsUUID } from 'class-validator';
+
+export class CreateCaseCommentDto {
+  @IsString()
+  @IsNotEmpty()
+  body: string;
+
+  @IsString()
+  @IsOptional()
+  incidentId?: string;
+
+  @IsUUID()
+  @IsOptional()
+  parentId?: string;
+}
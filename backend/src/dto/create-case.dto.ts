@@ -1,4 +1,8 @@
-import { IsString, IsArray, IsOptional } from 'class-validator';
+import { IsString, IsArray, IsOptional, IsIn } from 'class-validator';
+import { CaseStatus, CaseVisibility } from '../entities/case-file.entity';
+
+export const CASE_STATUSES: CaseStatus[] = ['draft', 'active', 'closed'];
+export const CASE_VISIBILITIES: CaseVisibility[] = ['private', 'shared', 'team'];
 
 export class CreateCaseDto {
   @IsString()
@@ -7,7 +11,29 @@ export class CreateCaseDto {
   @IsString()
   notes: string;
 
+  @IsIn(CASE_STATUSES)
+  @IsOptional()
+  status?: CaseStatus;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  tags?: string[];
+
+  @IsString()
+  @IsOptional()
+  assignee?: string;
+
+  // New cases are private to their creator unless stated otherwise
+  @IsIn(CASE_VISIBILITIES)
+  @IsOptional()
+  visibility?: CaseVisibility;
+
   @IsArray()
   @IsOptional()
   incidentIds?: string[];
+
+  @IsArray()
+  @IsOptional()
+  entityIds?: string[];
 }
@@ -0,0 +1,31 @@
+import { IsString, IsOptional, IsBoolean, IsUrl } from 'class-validator';
+
+export class CreateIngestionConfigDto {
+  @IsString()
+  name: string;
+
+  // Id of a registered data source, e.g. uk-police, tfl or gdelt
+  @IsString()
+  source: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+
+  // Cron expression; null or omitted for on-demand only
+  @IsString()
+  @IsOptional()
+  schedule?: string | null;
+
+  @IsUrl({ require_tld: false })
+  @IsOptional()
+  url?: string | null;
+
+  @IsString()
+  @IsOptional()
+  apiKey?: string | null;
+}
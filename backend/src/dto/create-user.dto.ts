@@ -0,0 +1,23 @@
+import { IsString, IsOptional, IsIn, MinLength, Matches } from 'class-validator';
+import { UserRole } from '../entities/user.entity';
+
+export const USER_ROLES: UserRole[] = ['viewer', 'analyst', 'admin'];
+
+export class CreateUserDto {
+  // Usernames double as @mention handles
+  @IsString()
+  @Matches(/^[A-Za-z0-9][\w.-]*$/, { message: 'username may only contain letters, numbers, dots, dashes and underscores' })
+  username: string;
+
+  @IsString()
+  @MinLength(8)
+  password: string;
+
+  @IsString()
+  @IsOptional()
+  displayName?: string;
+
+  @IsIn(USER_ROLES)
+  @IsOptional()
+  role?: UserRole;
+}
@@ -0,0 +1,31 @@
+import { IsString, IsOptional, IsIn, IsBooleanString } from 'class-validator';
+
+export type ImportFormat = 'csv' | 'geojson' | 'jsonl';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['csv', 'geojson', 'jsonl'];
+
+// Multipart form fields sent alongside the uploaded file
+export class PreviewIncidentsDto {
+  @IsIn(IMPORT_FORMATS)
+  @IsOptional()
+  format?: ImportFormat;
+}
+
+export class ImportIncidentsDto extends PreviewIncidentsDto {
+  // JSON object of incident field to column, e.g. {"title":"Summary","lat":"Latitude"}
+  @IsString()
+  mapping: string;
+
+  @IsString()
+  @IsOptional()
+  source?: string;
+
+  @IsIn(['crime', 'tfl', 'news'])
+  @IsOptional()
+  type?: 'crime' | 'tfl' | 'news';
+
+  // Validate and report without saving anything
+  @IsBooleanString()
+  @IsOptional()
+  dryRun?: string;
+}
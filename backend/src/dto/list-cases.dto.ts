@@ -0,0 +1,30 @@
+import { IsString, IsOptional, IsIn, IsInt, Min } from 'class-validator';
+
+export class ListCasesDto {
+  // Comma-separated list of statuses
+  @IsString()
+  @IsOptional()
+  status?: string;
+
+  @IsString()
+  @IsOptional()
+  tag?: string;
+
+  @IsString()
+  @IsOptional()
+  search?: string;
+
+  @IsIn(['me'])
+  @IsOptional()
+  owner?: 'me';
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  limit?: number = 50;
+}
@@ -0,0 +1,19 @@
+import { IsArray, IsUUID, ArrayNotEmpty, IsString, IsNotEmpty, MaxLength } from 'class-validator';
+
+export class MergeEntitiesDto {
+  // Entity that survives and receives the others' links and aliases
+  @IsUUID()
+  targetId: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID('all', { each: true })
+  sourceIds: string[];
+}
+
+export class EntityAliasDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  alias: string;
+}
@@ -0,0 +1,9 @@
+import { IsIn } from 'class-validator';
+import { CaseSharePermission } from '../entities/case-share.entity';
+
+export const CASE_SHARE_PERMISSIONS: CaseSharePermission[] = ['read', 'edit'];
+
+export class ShareCaseDto {
+  @IsIn(CASE_SHARE_PERMISSIONS)
+  permission: CaseSharePermission;
+}
@@ -0,0 +1,36 @@
+import { IsString, IsArray, IsOptional, IsIn } from 'class-validator';
+import { CaseStatus, CaseVisibility } from '../entities/case-file.entity';
+import { CASE_STATUSES, CASE_VISIBILITIES } from './create-case.dto';
+
+export class UpdateCaseDto {
+  @IsString()
+  @IsOptional()
+  title?: string;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+
+  @IsIn(CASE_STATUSES)
+  @IsOptional()
+  status?: CaseStatus;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  tags?: string[];
+
+  // null unassigns the case
+  @IsString()
+  @IsOptional()
+  assignee?: string | null;
+
+  // Only the owner or an admin may change visibility
+  @IsIn(CASE_VISIBILITIES)
+  @IsOptional()
+  visibility?: CaseVisibility;
+
+  @IsArray()
+  @IsOptional()
+  entityIds?: string[];
+}
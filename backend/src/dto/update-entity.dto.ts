@@ -0,0 +1,7 @@
+import { IsObject } from 'class-validator';
+
+export class UpdateEntityDto {
+  // Merged into the stored attributes; a null value removes that attribute
+  @IsObject()
+  metadata: Record<string, any>;
+}
@@ -0,0 +1,29 @@
+import { IsString, IsOptional, IsBoolean, IsUrl } from 'class-validator';
+
+export class UpdateIngestionConfigDto {
+  @IsString()
+  @IsOptional()
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+
+  // null switches the source to on-demand only
+  @IsString()
+  @IsOptional()
+  schedule?: string | null;
+
+  @IsUrl({ require_tld: false })
+  @IsOptional()
+  url?: string | null;
+
+  // Omit to keep the stored key; null clears it
+  @IsString()
+  @IsOptional()
+  apiKey?: string | null;
+}
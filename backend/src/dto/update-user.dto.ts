@@ -0,0 +1,22 @@
+import { IsString, IsOptional, IsIn, IsBoolean, MinLength } from 'class-validator';
+import { UserRole } from '../entities/user.entity';
+import { USER_ROLES } from './create-user.dto';
+
+export class UpdateUserDto {
+  @IsString()
+  @MinLength(8)
+  @IsOptional()
+  password?: string;
+
+  @IsString()
+  @IsOptional()
+  displayName?: string;
+
+  @IsIn(USER_ROLES)
+  @IsOptional()
+  role?: UserRole;
+
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
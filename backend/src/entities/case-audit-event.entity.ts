@@ -0,0 +1,45 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+export type CaseAuditAction =
+  | 'case_created'
+  | 'title_changed'
+  | 'notes_edited'
+  | 'status_changed'
+  | 'tags_changed'
+  | 'entities_changed'
+  | 'assignee_changed'
+  | 'comment_added'
+  | 'comment_deleted'
+  | 'incidents_added'
+  | 'incident_removed'
+  | 'case_exported'
+  | 'visibility_changed'
+  | 'share_granted'
+  | 'share_revoked'
+  | 'case_deleted';
+
+/**
+ * Append-only record of changes to a case file. Rows are never updated or
+ * deleted, and the case id is a plain column so history survives case deletion.
+ */
+@Entity('case_audit_events')
+@Index(['caseId', 'createdAt'])
+export class CaseAuditEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  caseId: string;
+
+  @Column()
+  action: CaseAuditAction;
+
+  @Column()
+  actor: string;
+
+  @Column('jsonb', { nullable: true })
+  details?: Record<string, any>;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
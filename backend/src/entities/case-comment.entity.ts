@@ -0,0 +1,50 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { CaseFile } from './case-file.entity';
+
+/**
+ * Discussion on a case. Comments with an incidentId belong to that incident's
+ * thread inside the case; replies point at their parent via parentId.
+ */
+@Entity('case_comments')
+@Index(['caseId', 'createdAt'])
+export class CaseComment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  caseId: string;
+
+  @ManyToOne(() => CaseFile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'caseId' })
+  caseFile: CaseFile;
+
+  @Column({ nullable: true })
+  incidentId?: string;
+
+  @Column('uuid', { nullable: true })
+  parentId?: string;
+
+  @Column()
+  author: string;
+
+  @Column('text')
+  body: string;
+
+  @Column('text', { array: true, default: '{}' })
+  mentions: string[];
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
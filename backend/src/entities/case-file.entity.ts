@@ -1,5 +1,24 @@
-import { Entity, PrimaryGeneratedColumn, Column, ManyToMany, JoinTable } from 'typeorm';
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToMany,
+  OneToMany,
+  JoinTable,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
 import { Incident } from './incident.entity';
+import { Entity as AppEntity } from './entity.entity';
+import { CaseShare, CaseSharePermission } from './case-share.entity';
+
+export type CaseStatus = 'draft' | 'active' | 'closed';
+
+/**
+ * Who besides the owner can open a case: nobody (private), the users it has
+ * been shared with (shared), or every signed-in user (team).
+ */
+export type CaseVisibility = 'private' | 'shared' | 'team';
 
 @Entity('case_files')
 export class CaseFile {
@@ -12,7 +31,46 @@ export class CaseFile {
   @Column('text')
   notes: string;
 
+  @Column({ default: 'draft' })
+  status: CaseStatus;
+
+  @Column('text', { array: true, default: '{}' })
+  tags: string[];
+
+  @Column({ type: 'varchar', nullable: true })
+  assignee?: string | null;
+
+  // Null for cases created before ownership existed; those stay team-editable
+  @Column({ type: 'varchar', nullable: true })
+  owner?: string | null;
+
+  // Defaults to team so existing cases remain visible after the column is added
+  @Column({ default: 'team' })
+  visibility: CaseVisibility;
+
+  @OneToMany(() => CaseShare, share => share.caseFile)
+  shares: CaseShare[];
+
   @ManyToMany(() => Incident)
   @JoinTable()
   incidents: Incident[];
+
+  @ManyToMany(() => AppEntity)
+  @JoinTable()
+  entities: AppEntity[];
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+
+  // Populated by list queries, not persisted
+  incidentCount?: number;
+
+  // What the requesting user may do with the case, not persisted
+  access?: {
+    permission: CaseSharePermission;
+    canManage: boolean;
+  };
 }
@@ -0,0 +1,41 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Unique,
+} from 'typeorm';
+import { CaseFile } from './case-file.entity';
+
+export type CaseSharePermission = 'read' | 'edit';
+
+/**
+ * Grants a named user access to a case whose visibility is 'shared'.
+ */
+@Entity('case_shares')
+@Unique(['caseId', 'username'])
+export class CaseShare {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  caseId: string;
+
+  @ManyToOne(() => CaseFile, caseFile => caseFile.shares, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'caseId' })
+  caseFile: CaseFile;
+
+  @Column()
+  username: string;
+
+  @Column({ default: 'read' })
+  permission: CaseSharePermission;
+
+  @Column()
+  grantedBy: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
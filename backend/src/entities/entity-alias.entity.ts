@@ -0,0 +1,40 @@
+import { Entity as TypeOrmEntity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, Index, Unique } from 'typeorm';
+import { Entity } from './entity.entity';
+
+export type EntityAliasOrigin = 'observed' | 'manual';
+
+/**
+ * A name an entity has been seen under. New names are resolved through their
+ * normalised form, so "Camden High St" finds the entity already known as
+ * "On or near Camden High Street".
+ */
+@TypeOrmEntity('entity_aliases')
+@Unique(['type', 'alias'])
+@Index(['type', 'normalizedAlias'])
+export class EntityAlias {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  entityId: string;
+
+  @ManyToOne(() => Entity, entity => entity.aliases, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'entityId' })
+  entity: Entity;
+
+  // Copied from the entity so aliases are unique per type
+  @Column()
+  type: Entity['type'];
+
+  @Column()
+  alias: string;
+
+  @Column()
+  normalizedAlias: string;
+
+  @Column({ default: 'observed' })
+  origin: EntityAliasOrigin;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,51 @@
+import { Entity as TypeOrmEntity, PrimaryColumn, Column, ManyToOne, JoinColumn, UpdateDateColumn, Index } from 'typeorm';
+import { Entity } from './entity.entity';
+
+/**
+ * Two entities named in the same incidents, materialised from the incident
+ * links by EntityCoOccurrenceService. Each pair is stored once, with the
+ * lower id as the source.
+ */
+@TypeOrmEntity('entity_links')
+@Index(['targetId'])
+@Index(['weight'])
+export class EntityLink {
+  @PrimaryColumn('uuid')
+  sourceId: string;
+
+  @ManyToOne(() => Entity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'sourceId' })
+  source: Entity;
+
+  @PrimaryColumn('uuid')
+  targetId: string;
+
+  @ManyToOne(() => Entity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'targetId' })
+  target: Entity;
+
+  // Incidents linked to both entities
+  @Column('int')
+  coOccurrences: number;
+
+  // 0-1: how close together in time the two entities' incidents are on average
+  @Column('float')
+  timeProximity: number;
+
+  // 0-1: how close together their incidents are on the map; 0 when either has no coordinates
+  @Column('float')
+  spatialProximity: number;
+
+  // Co-occurrences scaled by the two proximities, for ranking and edge thickness
+  @Column('float')
+  weight: number;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  firstCoOccurredAt?: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastCoOccurredAt?: Date | null;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -0,0 +1,58 @@
+import { Entity as TypeOrmEntity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, Index } from 'typeorm';
+import { Entity } from './entity.entity';
+import { Incident } from './incident.entity';
+
+export type MentionLabel = 'person' | 'organisation' | 'place' | 'vehicle' | 'weapon';
+
+/**
+ * Where an extractor found an entity in an incident's text, and how sure it
+ * was. An incident's link to an entity carries the confidence of its best mention.
+ */
+@TypeOrmEntity('entity_mentions')
+@Index(['incidentId'])
+@Index(['entityId'])
+export class EntityMention {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  incidentId: string;
+
+  @ManyToOne(() => Incident, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'incidentId' })
+  incident: Incident;
+
+  @Column('uuid')
+  entityId: string;
+
+  @ManyToOne(() => Entity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'entityId' })
+  entity: Entity;
+
+  @Column()
+  field: 'title' | 'description';
+
+  // Surface form as written in the text
+  @Column()
+  text: string;
+
+  // Character offsets of the mention within the field
+  @Column('int')
+  start: number;
+
+  @Column('int')
+  end: number;
+
+  @Column()
+  label: MentionLabel;
+
+  @Column('float')
+  confidence: number;
+
+  // Name of the EntityExtractionModel that produced the mention
+  @Column()
+  extractor: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
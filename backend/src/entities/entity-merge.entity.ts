@@ -0,0 +1,74 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+/**
+ * Links moved from one join table when an entity was merged away, so a split
+ * can put them back. sharedOwnerIds were already linked to the survivor.
+ */
+export interface EntityMergeLinks {
+  table: string;
+  ownerIds: string[];
+  sharedOwnerIds: string[];
+}
+
+/**
+ * Attributes of the absorbed entity as they were before the merge.
+ * addedMetadataKeys are the metadata keys the survivor took from it.
+ */
+export interface EntityMergeAttributes {
+  metadata: Record<string, any> | null;
+  location: { lat: number; lng: number } | null;
+  firstSeenAt: Date | null;
+  lastSeenAt: Date | null;
+  addedMetadataKeys: string[];
+}
+
+/**
+ * One entity folded into another. The absorbed entity is deleted; this row
+ * keeps what is needed to split it out again under its original id.
+ */
+@Entity('entity_merges')
+@Index(['survivorId', 'createdAt'])
+export class EntityMerge {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  survivorId: string;
+
+  @Column('uuid')
+  absorbedId: string;
+
+  @Column()
+  absorbedName: string;
+
+  @Column()
+  absorbedType: string;
+
+  @Column('jsonb', { nullable: true })
+  absorbedAttributes?: EntityMergeAttributes | null;
+
+  @Column('jsonb', { default: () => "'[]'" })
+  links: EntityMergeLinks[];
+
+  @Column('uuid', { array: true, default: '{}' })
+  aliasIds: string[];
+
+  @Column('uuid', { array: true, default: '{}' })
+  mentionIds: string[];
+
+  // Merge score and reasons when it came from a resolution candidate
+  @Column('jsonb', { nullable: true })
+  details?: Record<string, any>;
+
+  @Column()
+  mergedBy: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  splitAt?: Date | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  splitBy?: string | null;
+}
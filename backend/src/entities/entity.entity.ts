@@ -1,4 +1,5 @@
-import { Entity as TypeOrmEntity, PrimaryGeneratedColumn, Column } from 'typeorm';
+import { Entity as TypeOrmEntity, PrimaryGeneratedColumn, Column, OneToMany, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { EntityAlias } from './entity-alias.entity';
 
 @TypeOrmEntity('entities')
 export class Entity {
@@ -10,4 +11,31 @@ export class Entity {
 
   @Column()
   name: string;
+
+  @OneToMany(() => EntityAlias, alias => alias.entity)
+  aliases?: EntityAlias[];
+
+  // Free-form attributes recorded by analysts, e.g. date of birth or registration
+  @Column('jsonb', { nullable: true })
+  metadata?: Record<string, any> | null;
+
+  // Location entities only: centre of the incidents linked to them
+  @Column('jsonb', { nullable: true })
+  location?: { lat: number; lng: number } | null;
+
+  // Maintained from linked incidents by EntityStatsService
+  @Column('int', { default: 0 })
+  incidentCount: number;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  firstSeenAt?: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastSeenAt?: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
 }
@@ -1,6 +1,10 @@
-import { Entity, PrimaryColumn, Column, ManyToMany, JoinTable } from 'typeorm';
+import { Entity, PrimaryColumn, Column, ManyToMany, JoinTable, Index } from 'typeorm';
 import { Entity as AppEntity } from './entity.entity';
 
+export type IncidentSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export const INCIDENT_SEVERITIES: IncidentSeverity[] = ['low', 'medium', 'high', 'critical'];
+
 @Entity('incidents')
 export class Incident {
   @PrimaryColumn()
@@ -27,6 +31,11 @@ export class Incident {
   @Column()
   datetime: string;
 
+  // Assessed from the source's own rating or the category when saved, unless given
+  @Index()
+  @Column({ nullable: true })
+  severity?: IncidentSeverity;
+
   @Column('jsonb', { nullable: true })
   outcome_status?: {
     category: string;
@@ -36,6 +45,10 @@ export class Incident {
   @Column({ nullable: true })
   persistent_id?: string;
 
+  // Source-specific fields that have no column of their own, e.g. GDELT tone and themes
+  @Column('jsonb', { nullable: true })
+  metadata?: Record<string, any>;
+
   @Column('vector', { nullable: true, length: 1536 })
   title_vector?: number[];
 
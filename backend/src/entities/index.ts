@@ -1,3 +1,16 @@
 export * from './incident.entity';
 export * from './entity.entity';
+export * from './entity-mention.entity';
+export * from './entity-alias.entity';
+export * from './entity-merge.entity';
+export * from './entity-link.entity';
 export * from './case-file.entity';
+export * from './case-audit-event.entity';
+export * from './case-share.entity';
+export * from './case-comment.entity';
+export * from './notification.entity';
+export * from './user.entity';
+export * from './ingestion-source-config.entity';
+export * from './ingestion-checkpoint.entity';
+export * from './ingestion-run.entity';
+export * from './ingestion-upload.entity';
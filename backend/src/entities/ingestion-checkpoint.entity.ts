@@ -0,0 +1,29 @@
+import { Entity, PrimaryGeneratedColumn, Column, UpdateDateColumn, Unique } from 'typeorm';
+
+/**
+ * Marks one slice of an incremental data source, such as a UK Police sector
+ * and month, as ingested at a given upstream version.
+ */
+@Entity('ingestion_checkpoints')
+@Unique(['source', 'key'])
+export class IngestionCheckpoint {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Id of the DataSourceAdapter that produced the slice
+  @Column()
+  source: string;
+
+  @Column()
+  key: string;
+
+  // Upstream last-updated marker; a different value means the slice must be fetched again
+  @Column()
+  version: string;
+
+  @Column('int', { default: 0 })
+  recordCount: number;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
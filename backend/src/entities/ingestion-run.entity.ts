@@ -0,0 +1,68 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+export type IngestionRunStatus = 'running' | 'succeeded' | 'failed';
+
+export interface DataCompleteness {
+  overall: number;
+  geographic: number;
+  classification: number;
+  addressing: number;
+  qualityIssues: string[];
+}
+
+/**
+ * One attempt at ingesting a data source, recorded whether it succeeded or not.
+ */
+@Entity('ingestion_runs')
+@Index(['source', 'startedAt'])
+export class IngestionRun {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Id of the DataSourceAdapter that ran
+  @Column()
+  source: string;
+
+  @Column('uuid', { nullable: true })
+  configId?: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  jobId?: string | null;
+
+  @Column({ default: 'running' })
+  status: IngestionRunStatus;
+
+  @Column({ type: 'timestamptz' })
+  startedAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  finishedAt?: Date;
+
+  @Column('int', { nullable: true })
+  durationMs?: number;
+
+  @Column('int', { default: 0 })
+  apiCalls: number;
+
+  @Column('int', { default: 0 })
+  recordsFetched: number;
+
+  @Column('int', { default: 0 })
+  inserted: number;
+
+  @Column('int', { default: 0 })
+  updated: number;
+
+  @Column('int', { default: 0 })
+  skipped: number;
+
+  @Column('int', { default: 0 })
+  errorCount: number;
+
+  // First few error messages, for diagnosis without trawling the logs
+  @Column('jsonb', { default: () => "'[]'" })
+  errors: string[];
+
+  @Column('jsonb', { nullable: true })
+  dataCompleteness?: DataCompleteness;
+}
@@ -0,0 +1,40 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+
+/**
+ * How and when one data source adapter is run. A source may have several
+ * configs, e.g. a GDELT mirror alongside the public feed.
+ */
+@Entity('ingestion_source_configs')
+export class IngestionSourceConfig {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  name: string;
+
+  // Id of the DataSourceAdapter this config runs
+  @Column()
+  source: string;
+
+  @Column('text', { nullable: true })
+  description?: string;
+
+  @Column({ default: true })
+  enabled: boolean;
+
+  // Cron expression; null means the source only runs on demand
+  @Column({ type: 'varchar', nullable: true })
+  schedule?: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  url?: string | null;
+
+  @Column({ type: 'varchar', nullable: true, select: false })
+  apiKey?: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -0,0 +1,26 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+import { Incident } from './incident.entity';
+
+/**
+ * Validated rows of an uploaded file waiting for the ingestion queue, so the
+ * job itself only carries this row's id. Deleted once the import succeeds.
+ */
+@Entity('ingestion_uploads')
+export class IngestionUpload {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Label stored as the incidents' source
+  @Column()
+  source: string;
+
+  @Column('jsonb')
+  records: Partial<Incident>[];
+
+  // Row errors found during validation, recorded on the run
+  @Column('jsonb', { default: () => "'[]'" })
+  rejected: string[];
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,34 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+export type NotificationType = 'mention' | 'assignment' | 'share';
+
+@Entity('notifications')
+@Index(['recipient', 'read'])
+export class Notification {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  recipient: string;
+
+  @Column()
+  type: NotificationType;
+
+  @Column()
+  message: string;
+
+  @Column()
+  actor: string;
+
+  @Column('uuid', { nullable: true })
+  caseId?: string;
+
+  @Column('uuid', { nullable: true })
+  commentId?: string;
+
+  @Column({ default: false })
+  read: boolean;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
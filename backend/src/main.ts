@@ -41,9 +41,12 @@ async function bootstrap() {
     .setDescription('API for the London Crime Demo intelligence fusion system')
     .setVersion('1.0')
     .addBearerAuth()
+    .addTag('auth', 'Authentication')
+    .addTag('users', 'User account management')
     .addTag('incidents', 'Incident management')
     .addTag('entities', 'Entity management')
     .addTag('cases', 'Case file management')
+    .addTag('notifications', 'Analyst notifications')
     .addTag('search', 'Search and similarity')
     .addTag('ingestion', 'Data ingestion')
     .build()
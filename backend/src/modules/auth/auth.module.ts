@@ -0,0 +1,49 @@
+import { Module, Logger } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { randomBytes } from 'crypto';
+import { AuthController } from './auth.controller';
+import { UsersController } from './users.controller';
+import { AuthService } from './auth.service';
+import { UsersService } from './users.service';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { RolesGuard } from './roles.guard';
+import { User } from '../../entities';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([User]),
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => {
+        let secret = configService.get<string>('auth.jwtSecret');
+        if (!secret) {
+          if (process.env.NODE_ENV === 'production') {
+            throw new Error('JWT_SECRET must be set in production');
+          }
+          // Tokens will not survive a restart, which is acceptable for local development
+          secret = randomBytes(32).toString('hex');
+          new Logger('AuthModule').warn('JWT_SECRET is not set; using a random development secret');
+        }
+
+        return {
+          secret,
+          signOptions: { expiresIn: configService.get<string>('auth.jwtExpiresIn') },
+        };
+      },
+      inject: [ConfigService],
+    }),
+  ],
+  controllers: [AuthController, UsersController],
+  providers: [
+    AuthService,
+    UsersService,
+    // Order matters: authentication must populate request.user before roles are checked
+    { provide: APP_GUARD, useClass: JwtAuthGuard },
+    { provide: APP_GUARD, useClass: RolesGuard },
+  ],
+  exports: [UsersService],
+})
+export class AuthModule {}
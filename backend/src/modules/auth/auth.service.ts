@@ -0,0 +1,51 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { User, UserRole } from '../../entities';
+import { UsersService } from './users.service';
+
+export interface JwtPayload {
+  sub: string;
+  username: string;
+  role: UserRole;
+}
+
+@Injectable()
+export class AuthService {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly jwtService: JwtService,
+  ) {}
+
+  async login(username: string, password: string): Promise<{ accessToken: string, user: User }> {
+    const user = await this.usersService.verifyCredentials(username, password);
+    if (!user) {
+      throw new UnauthorizedException('Invalid username or password');
+    }
+
+    const payload: JwtPayload = { sub: user.id, username: user.username, role: user.role };
+    return {
+      accessToken: await this.jwtService.signAsync(payload),
+      user,
+    };
+  }
+
+  /**
+   * Resolve a bearer token to its user. The account is re-read on every
+   * request so role changes and deactivation take effect immediately.
+   */
+  async authenticate(token: string): Promise<User> {
+    let payload: JwtPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<JwtPayload>(token);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    const user = await this.usersService.findOne(payload.sub).catch(() => null);
+    if (!user || !user.active) {
+      throw new UnauthorizedException('Account is disabled or no longer exists');
+    }
+
+    return user;
+  }
+}
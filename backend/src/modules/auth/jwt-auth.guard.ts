@@ -0,0 +1,34 @@
+import { Injectable, CanActivate, ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthService } from './auth.service';
+import { IS_PUBLIC_KEY } from '../../common/decorators/public.decorator';
+
+/**
+ * Global guard: every route requires a valid bearer token unless marked @Public().
+ */
+@Injectable()
+export class JwtAuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly authService: AuthService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (isPublic) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const [scheme, token] = (request.headers.authorization || '').split(' ');
+    if (scheme !== 'Bearer' || !token) {
+      throw new UnauthorizedException('Missing bearer token');
+    }
+
+    request.user = await this.authService.authenticate(token);
+    return true;
+  }
+}
@@ -0,0 +1,36 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { UserRole } from '../../entities';
+import { ROLES_KEY } from '../../common/decorators/roles.decorator';
+
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 0,
+  analyst: 1,
+  admin: 2,
+};
+
+/**
+ * Global guard enforcing @Roles(). Runs after JwtAuthGuard, so request.user is
+ * set on every non-public route; routes without @Roles() admit any signed-in user.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const required = this.reflector.getAllAndOverride<UserRole>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!required) {
+      return true;
+    }
+
+    const { user } = context.switchToHttp().getRequest();
+    if (!user || ROLE_RANK[user.role as UserRole] < ROLE_RANK[required]) {
+      throw new ForbiddenException(`Requires ${required} role`);
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,121 @@
+import { Injectable, NotFoundException, ConflictException, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomBytes, scrypt as scryptCallback, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { User } from '../../entities';
+import { CreateUserDto } from '../../dto/create-user.dto';
+import { UpdateUserDto } from '../../dto/update-user.dto';
+
+const scrypt = promisify(scryptCallback) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+@Injectable()
+export class UsersService implements OnModuleInit {
+  private readonly logger = new Logger(UsersService.name);
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Seed the first admin account so a fresh install can be logged into.
+   */
+  async onModuleInit(): Promise<void> {
+    if ((await this.userRepository.count()) > 0) {
+      return;
+    }
+
+    const username = this.configService.get<string>('auth.adminUsername');
+    const password = this.configService.get<string>('auth.adminPassword');
+    if (!password) {
+      this.logger.warn('No users exist and ADMIN_PASSWORD is not set; nobody will be able to log in');
+      return;
+    }
+
+    await this.create({ username, password, role: 'admin', displayName: 'Administrator' });
+    this.logger.log(`Created initial admin account "${username}"`);
+  }
+
+  async findAll(): Promise<User[]> {
+    return this.userRepository.find({ order: { username: 'ASC' } });
+  }
+
+  async findOne(id: string): Promise<User> {
+    const user = await this.userRepository.findOne({ where: { id } });
+    if (!user) {
+      throw new NotFoundException(`User ${id} not found`);
+    }
+    return user;
+  }
+
+  async findByUsername(username: string): Promise<User | null> {
+    return this.userRepository.findOne({ where: { username } });
+  }
+
+  async create(createUserDto: CreateUserDto): Promise<User> {
+    const { password, ...userData } = createUserDto;
+    if (await this.userRepository.findOne({ where: { username: userData.username } })) {
+      throw new ConflictException(`Username ${userData.username} is already taken`);
+    }
+
+    const user = this.userRepository.create({
+      ...userData,
+      passwordHash: await hashPassword(password),
+    });
+    const saved = await this.userRepository.save(user);
+    return this.findOne(saved.id);
+  }
+
+  async update(id: string, updateUserDto: UpdateUserDto): Promise<User> {
+    const user = await this.findOne(id);
+    const { password, ...changes } = updateUserDto;
+
+    Object.assign(user, changes);
+    if (password) {
+      user.passwordHash = await hashPassword(password);
+    }
+
+    await this.userRepository.save(user);
+    return this.findOne(id);
+  }
+
+  /**
+   * Returns the user when the credentials match an active account.
+   */
+  async verifyCredentials(username: string, password: string): Promise<User | null> {
+    const user = await this.userRepository
+      .createQueryBuilder('user')
+      .addSelect('user.passwordHash')
+      .where('user.username = :username', { username })
+      .getOne();
+
+    if (!user || !user.active || !(await verifyPassword(password, user.passwordHash))) {
+      return null;
+    }
+
+    delete user.passwordHash;
+    return user;
+  }
+}
+
+// Stored as scrypt$<salt>$<hash> so the scheme can change later
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = (stored || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,61 @@
+import { Brackets, SelectQueryBuilder } from 'typeorm';
+import { CaseFile, CaseSharePermission, User } from '../../entities';
+
+export type CaseAccessUser = Pick<User, 'username' | 'role'>;
+
+/**
+ * Effective permission a user holds on a case, or null when they may not see
+ * it at all. Global roles still apply on top: a viewer granted edit can only
+ * read, because mutating routes require the analyst role.
+ *
+ * Expects caseFile.shares to be loaded.
+ */
+export function resolveCasePermission(caseFile: CaseFile, user: CaseAccessUser): CaseSharePermission | null {
+  if (user.role === 'admin' || (!!caseFile.owner && caseFile.owner === user.username)) {
+    return 'edit';
+  }
+  // Assigning someone to a case implies they can work on it
+  if (caseFile.assignee === user.username) {
+    return 'edit';
+  }
+  if (caseFile.visibility === 'private' && caseFile.owner) {
+    return null;
+  }
+  // Team and legacy unowned cases are readable by everyone, but only an edit share lets others change them
+  const share = (caseFile.shares || []).find(candidate => candidate.username === user.username);
+  if (share) {
+    return share.permission;
+  }
+  return caseFile.visibility === 'team' || !caseFile.owner ? 'read' : null;
+}
+
+/**
+ * Visibility, sharing, assignment and deletion are reserved for the owner and admins.
+ * Cases without an owner can only be managed by admins.
+ */
+export function canManageCase(caseFile: CaseFile, user: CaseAccessUser): boolean {
+  return user.role === 'admin' || (!!caseFile.owner && caseFile.owner === user.username);
+}
+
+/**
+ * Restrict a case query to the rows the user can read, mirroring
+ * resolveCasePermission so lists never show a case that would 404 on open.
+ */
+export function applyCaseReadFilter(qb: SelectQueryBuilder<CaseFile>, alias: string, user: CaseAccessUser): void {
+  if (user.role === 'admin') {
+    return;
+  }
+
+  qb.andWhere(new Brackets(where => {
+    where
+      .where(`${alias}.owner IS NULL`)
+      .orWhere(`${alias}.owner = :accessUsername`)
+      .orWhere(`${alias}.assignee = :accessUsername`)
+      .orWhere(`${alias}.visibility = 'team'`)
+      .orWhere(
+        `(${alias}.visibility = 'shared' AND EXISTS (
+          SELECT 1 FROM case_shares share WHERE share."caseId" = ${alias}.id AND share.username = :accessUsername
+        ))`,
+      );
+  }), { accessUsername: user.username });
+}
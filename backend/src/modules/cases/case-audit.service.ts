@@ -0,0 +1,25 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { CaseAuditEvent, CaseAuditAction } from '../../entities';
+
+@Injectable()
+export class CaseAuditService {
+  constructor(
+    @InjectRepository(CaseAuditEvent)
+    private readonly auditRepository: Repository<CaseAuditEvent>,
+  ) {}
+
+  // Insert only: the audit log has no update or delete path by design
+  async record(caseId: string, action: CaseAuditAction, actor: string, details?: Record<string, any>): Promise<CaseAuditEvent> {
+    const event = this.auditRepository.create({ caseId, action, actor, details });
+    return this.auditRepository.save(event);
+  }
+
+  async findByCase(caseId: string): Promise<CaseAuditEvent[]> {
+    return this.auditRepository.find({
+      where: { caseId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+}
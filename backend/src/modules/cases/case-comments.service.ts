@@ -0,0 +1,129 @@
+import { Injectable, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+import { CaseComment, CaseFile } from '../../entities';
+import { CreateCaseCommentDto } from '../../dto/create-case-comment.dto';
+import { NotificationsService } from '../notifications/notifications.service';
+import { UsersService } from '../auth/users.service';
+import { CaseAuditService } from './case-audit.service';
+import { resolveCasePermission } from './case-access';
+
+const MENTION_PATTERN = /(^|[^\w@])@([A-Za-z0-9][\w.-]*)/g;
+
+/**
+ * Pull @handles out of a comment body. Trailing punctuation is stripped so
+ * "thanks @jsmith." mentions jsmith.
+ */
+export function extractMentions(body: string): string[] {
+  const mentions = new Set<string>();
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    mentions.add(match[2].replace(/[.-]+$/, ''));
+  }
+  return Array.from(mentions);
+}
+
+@Injectable()
+export class CaseCommentsService {
+  constructor(
+    @InjectRepository(CaseComment)
+    private readonly commentRepository: Repository<CaseComment>,
+    private readonly notificationsService: NotificationsService,
+    private readonly caseAuditService: CaseAuditService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  async findByCase(caseId: string, query: any): Promise<CaseComment[]> {
+    const where: any = { caseId };
+    if (query.incidentId) {
+      where.incidentId = query.incidentId;
+    } else if (query.scope === 'case') {
+      where.incidentId = IsNull();
+    }
+
+    return this.commentRepository.find({ where, order: { createdAt: 'ASC' } });
+  }
+
+  async create(caseFile: CaseFile, dto: CreateCaseCommentDto, author: string): Promise<CaseComment> {
+    let incidentId = dto.incidentId;
+
+    if (dto.parentId) {
+      const parent = await this.commentRepository.findOne({ where: { id: dto.parentId, caseId: caseFile.id } });
+      if (!parent) {
+        throw new NotFoundException(`Comment ${dto.parentId} not found on case ${caseFile.id}`);
+      }
+      // Replies always live in the same thread as their parent
+      incidentId = parent.incidentId;
+    }
+
+    if (incidentId && !caseFile.incidents.some(incident => incident.id === incidentId)) {
+      throw new BadRequestException(`Incident ${incidentId} is not part of case ${caseFile.id}`);
+    }
+
+    const mentions = extractMentions(dto.body);
+    const comment = await this.commentRepository.save(
+      this.commentRepository.create({
+        caseId: caseFile.id,
+        incidentId,
+        parentId: dto.parentId,
+        author,
+        body: dto.body,
+        mentions,
+      }),
+    );
+
+    await this.caseAuditService.record(caseFile.id, 'comment_added', author, {
+      commentId: comment.id,
+      incidentId,
+      parentId: dto.parentId,
+    });
+
+    await this.notificationsService.notify(await this.mentionRecipients(caseFile, mentions), {
+      type: 'mention',
+      actor: author,
+      message: `${author} mentioned you in "${caseFile.title}"`,
+      caseId: caseFile.id,
+      commentId: comment.id,
+    });
+
+    return comment;
+  }
+
+  /**
+   * Only notify mentioned users who can open the case, so a mention never
+   * leaks the title of a private investigation.
+   */
+  private async mentionRecipients(caseFile: CaseFile, mentions: string[]): Promise<string[]> {
+    const recipients: string[] = [];
+    for (const username of mentions) {
+      const user = await this.usersService.findByUsername(username);
+      if (user && user.active && resolveCasePermission(caseFile, user)) {
+        recipients.push(username);
+      }
+    }
+    return recipients;
+  }
+
+  async remove(caseId: string, commentId: string, actor: string): Promise<void> {
+    const comment = await this.commentRepository.findOne({ where: { id: commentId, caseId } });
+    if (!comment) {
+      throw new NotFoundException(`Comment ${commentId} not found on case ${caseId}`);
+    }
+    if (comment.author !== actor) {
+      throw new ForbiddenException('Only the author can delete a comment');
+    }
+
+    // Removing a comment takes its replies with it
+    const ids = [comment.id];
+    for (let frontier = [comment.id]; frontier.length > 0;) {
+      const replies = await this.commentRepository.find({ where: { caseId, parentId: In(frontier) }, select: ['id'] });
+      frontier = replies.map(reply => reply.id);
+      ids.push(...frontier);
+    }
+
+    await this.commentRepository.delete({ id: In(ids) });
+    await this.caseAuditService.record(caseId, 'comment_deleted', actor, {
+      commentIds: ids,
+      body: comment.body,
+    });
+  }
+}
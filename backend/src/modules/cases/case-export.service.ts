@@ -0,0 +1,417 @@
+import { Injectable } from '@nestjs/common';
+import PDFDocument = require('pdfkit');
+import { CaseFile, Incident, Entity as AppEntity } from '../../entities';
+
+export type CaseExportFormat = 'pdf' | 'html';
+
+export interface CaseExportOptions {
+  includeEntities: boolean;
+  includeTimeline: boolean;
+  includeMap: boolean;
+}
+
+interface PlottedIncident {
+  index: number;
+  incident: Incident;
+  x: number;
+  y: number;
+}
+
+interface EntityRow {
+  entity: AppEntity;
+  incidentCount: number;
+}
+
+const MAP_WIDTH = 520;
+const MAP_HEIGHT = 320;
+const MAP_PADDING = 24;
+const TIMELINE_WIDTH = 520;
+const TIMELINE_HEIGHT = 70;
+const EARTH_RADIUS_KM = 6371;
+
+const MARKER_COLOURS: Record<string, string> = {
+  crime: '#dc2626',
+  tfl: '#2563eb',
+  news: '#7c3aed',
+  road_incident: '#ea580c',
+  bike_anomaly: '#16a34a',
+};
+
+/**
+ * Renders a case file into a briefing pack that can be read without access to
+ * the dashboard. The map and timeline are drawn from incident coordinates and
+ * timestamps only, so neither output depends on a tile server or network.
+ */
+@Injectable()
+export class CaseExportService {
+  renderHtml(caseFile: CaseFile, options: CaseExportOptions): string {
+    const incidents = this.sortIncidents(caseFile.incidents || []);
+    const generatedAt = new Date().toISOString();
+
+    const sections: string[] = [
+      `<header>
+        <h1>${escapeHtml(caseFile.title)}</h1>
+        <p class="meta">Status: <strong>${escapeHtml(caseFile.status)}</strong> &middot; ${incidents.length} incidents &middot; Generated ${escapeHtml(formatDate(generatedAt))}</p>
+        ${caseFile.tags?.length ? `<p class="tags">${caseFile.tags.map(tag => `<span>#${escapeHtml(tag)}</span>`).join(' ')}</p>` : ''}
+      </header>`,
+      `<section><h2>Analyst Notes</h2><div class="notes">${escapeHtml(caseFile.notes || 'No notes recorded.')}</div></section>`,
+    ];
+
+    if (options.includeMap) {
+      sections.push(`<section><h2>Incident Locations</h2>${this.buildMapSvg(incidents)}</section>`);
+    }
+
+    if (options.includeTimeline) {
+      sections.push(`<section><h2>Timeline</h2>${this.buildTimelineSvg(incidents)}</section>`);
+    }
+
+    sections.push(`<section><h2>Incidents</h2>
+      <table>
+        <thead><tr><th>#</th><th>Date</th><th>Type</th><th>Title</th><th>Category</th><th>Location</th><th>Source</th></tr></thead>
+        <tbody>
+          ${incidents.map((incident, index) => `<tr>
+            <td>${index + 1}</td>
+            <td>${escapeHtml(formatDate(incident.datetime))}</td>
+            <td>${escapeHtml(incident.type)}</td>
+            <td>${escapeHtml(incident.title)}${incident.description ? `<div class="desc">${escapeHtml(incident.description)}</div>` : ''}</td>
+            <td>${escapeHtml(incident.category || '')}</td>
+            <td>${escapeHtml(formatLocation(incident))}</td>
+            <td>${escapeHtml(incident.source)}</td>
+          </tr>`).join('')}
+        </tbody>
+      </table>
+    </section>`);
+
+    if (options.includeEntities) {
+      const entities = this.collectEntities(caseFile);
+      sections.push(`<section><h2>Entities</h2>${
+        entities.length === 0
+          ? '<p>No entities linked to this case.</p>'
+          : `<table>
+              <thead><tr><th>Name</th><th>Type</th><th>Incidents</th></tr></thead>
+              <tbody>${entities.map(row => `<tr>
+                <td>${escapeHtml(row.entity.name)}</td>
+                <td>${escapeHtml(row.entity.type)}</td>
+                <td>${row.incidentCount}</td>
+              </tr>`).join('')}</tbody>
+            </table>`
+      }</section>`);
+    }
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(caseFile.title)} - Case Briefing</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; color: #111827; margin: 2rem auto; max-width: 960px; padding: 0 1rem; }
+  h1 { margin-bottom: 0.25rem; }
+  h2 { border-bottom: 2px solid #7c3aed; padding-bottom: 0.25rem; margin-top: 2rem; }
+  .meta { color: #4b5563; }
+  .tags span { background: #ede9fe; color: #5b21b6; padding: 0.1rem 0.4rem; border-radius: 4px; font-size: 0.85rem; }
+  .notes { white-space: pre-wrap; background: #f9fafb; border: 1px solid #e5e7eb; padding: 1rem; border-radius: 6px; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+  th, td { text-align: left; padding: 0.4rem; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .desc { color: #6b7280; font-size: 0.8rem; margin-top: 0.2rem; }
+  svg { max-width: 100%; height: auto; border: 1px solid #e5e7eb; border-radius: 6px; background: #f8fafc; }
+  footer { margin-top: 2rem; color: #9ca3af; font-size: 0.75rem; }
+</style>
+</head>
+<body>
+${sections.join('\n')}
+<footer>Case ${escapeHtml(caseFile.id)} &middot; Exported from Intel Fusion Dashboard</footer>
+</body>
+</html>`;
+  }
+
+  renderPdf(caseFile: CaseFile, options: CaseExportOptions): Promise<Buffer> {
+    const incidents = this.sortIncidents(caseFile.incidents || []);
+    const doc = new PDFDocument({ size: 'A4', margin: 40, info: { Title: caseFile.title } });
+    const chunks: Buffer[] = [];
+
+    return new Promise((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      doc.fontSize(20).fillColor('#111827').text(caseFile.title);
+      doc.moveDown(0.2).fontSize(10).fillColor('#4b5563')
+        .text(`Status: ${caseFile.status}  |  ${incidents.length} incidents  |  Generated ${formatDate(new Date().toISOString())}`);
+      if (caseFile.tags?.length) {
+        doc.text(caseFile.tags.map(tag => `#${tag}`).join('  '));
+      }
+
+      this.pdfHeading(doc, 'Analyst Notes');
+      doc.fontSize(10).fillColor('#111827').text(caseFile.notes || 'No notes recorded.');
+
+      if (options.includeMap) {
+        this.pdfHeading(doc, 'Incident Locations');
+        this.drawPdfMap(doc, incidents);
+      }
+
+      if (options.includeTimeline) {
+        this.pdfHeading(doc, 'Timeline');
+        this.drawPdfTimeline(doc, incidents);
+      }
+
+      this.pdfHeading(doc, 'Incidents');
+      incidents.forEach((incident, index) => {
+        if (doc.y > doc.page.height - 100) doc.addPage();
+        doc.fontSize(10).fillColor('#111827')
+          .text(`${index + 1}. ${incident.title}`, { continued: false });
+        doc.fontSize(8).fillColor('#4b5563')
+          .text([formatDate(incident.datetime), incident.type, incident.category, formatLocation(incident), incident.source]
+            .filter(Boolean)
+            .join('  |  '));
+        if (incident.description) {
+          doc.fillColor('#6b7280').text(incident.description);
+        }
+        doc.moveDown(0.4);
+      });
+
+      if (options.includeEntities) {
+        this.pdfHeading(doc, 'Entities');
+        const entities = this.collectEntities(caseFile);
+        if (entities.length === 0) {
+          doc.fontSize(10).fillColor('#111827').text('No entities linked to this case.');
+        }
+        entities.forEach(row => {
+          if (doc.y > doc.page.height - 60) doc.addPage();
+          doc.fontSize(9).fillColor('#111827')
+            .text(`${row.entity.name}  (${row.entity.type}, ${row.incidentCount} incidents)`);
+        });
+      }
+
+      doc.end();
+    });
+  }
+
+  private sortIncidents(incidents: Incident[]): Incident[] {
+    return [...incidents].sort((a, b) => new Date(a.datetime).getTime() - new Date(b.datetime).getTime());
+  }
+
+  // Pinned entities come first, then everything referenced by the case incidents
+  private collectEntities(caseFile: CaseFile): EntityRow[] {
+    const rows = new Map<string, EntityRow>();
+
+    (caseFile.entities || []).forEach(entity => rows.set(entity.id, { entity, incidentCount: 0 }));
+    (caseFile.incidents || []).forEach(incident => {
+      (incident.entities || []).forEach(entity => {
+        const row = rows.get(entity.id) || { entity, incidentCount: 0 };
+        row.incidentCount += 1;
+        rows.set(entity.id, row);
+      });
+    });
+
+    return Array.from(rows.values()).sort((a, b) =>
+      a.entity.type.localeCompare(b.entity.type) || b.incidentCount - a.incidentCount,
+    );
+  }
+
+  /**
+   * Equirectangular projection scaled to fit the incident bounding box. Good
+   * enough at city scale and keeps the map free of any tile dependency.
+   */
+  private projectIncidents(incidents: Incident[]): { points: PlottedIncident[]; scaleKm: number; scalePx: number } {
+    const located = incidents
+      .map((incident, index) => ({ incident, index: index + 1 }))
+      .filter(({ incident }) => Number.isFinite(incident.location?.lat) && Number.isFinite(incident.location?.lng));
+
+    if (located.length === 0) {
+      return { points: [], scaleKm: 0, scalePx: 0 };
+    }
+
+    const lats = located.map(({ incident }) => incident.location.lat);
+    const lngs = located.map(({ incident }) => incident.location.lng);
+    const midLat = (Math.min(...lats) + Math.max(...lats)) / 2;
+    const lngScale = Math.cos((midLat * Math.PI) / 180);
+
+    // Pad single points and tight clusters out to roughly 1km so markers do not sit on the frame
+    const minSpan = 0.01;
+    const xs = lngs.map(lng => lng * lngScale);
+    const minX = Math.min(...xs);
+    const maxX = Math.max(...xs);
+    const minY = Math.min(...lats);
+    const maxY = Math.max(...lats);
+    const spanX = Math.max(maxX - minX, minSpan);
+    const spanY = Math.max(maxY - minY, minSpan);
+    const centreX = (minX + maxX) / 2;
+    const centreY = (minY + maxY) / 2;
+
+    const drawWidth = MAP_WIDTH - MAP_PADDING * 2;
+    const drawHeight = MAP_HEIGHT - MAP_PADDING * 2;
+    const pxPerDegree = Math.min(drawWidth / spanX, drawHeight / spanY);
+
+    const points = located.map(({ incident, index }) => ({
+      index,
+      incident,
+      x: MAP_WIDTH / 2 + (incident.location.lng * lngScale - centreX) * pxPerDegree,
+      y: MAP_HEIGHT / 2 - (incident.location.lat - centreY) * pxPerDegree,
+    }));
+
+    // Pick a round scale bar length that fits in about a fifth of the map width
+    const kmPerDegree = (Math.PI / 180) * EARTH_RADIUS_KM;
+    const kmPerPx = kmPerDegree / pxPerDegree;
+    const targetKm = (MAP_WIDTH / 5) * kmPerPx;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(targetKm)));
+    const scaleKm = [1, 2, 5, 10].map(step => step * magnitude).filter(km => km <= targetKm).pop() || magnitude;
+
+    return { points, scaleKm, scalePx: scaleKm / kmPerPx };
+  }
+
+  private buildTimelineTicks(incidents: Incident[]): { index: number; incident: Incident; x: number }[] {
+    if (incidents.length === 0) return [];
+
+    const times = incidents.map(incident => new Date(incident.datetime).getTime());
+    const start = Math.min(...times);
+    const span = Math.max(Math.max(...times) - start, 1);
+    const usable = TIMELINE_WIDTH - MAP_PADDING * 2;
+
+    return incidents.map((incident, index) => ({
+      index: index + 1,
+      incident,
+      x: MAP_PADDING + ((times[index] - start) / span) * usable,
+    }));
+  }
+
+  private buildMapSvg(incidents: Incident[]): string {
+    const { points, scaleKm, scalePx } = this.projectIncidents(incidents);
+    if (points.length === 0) {
+      return '<p>No incidents with coordinates.</p>';
+    }
+
+    const gridLines = [1, 2, 3].map(step => `
+      <line x1="${(MAP_WIDTH / 4) * step}" y1="0" x2="${(MAP_WIDTH / 4) * step}" y2="${MAP_HEIGHT}" stroke="#e2e8f0" />
+      <line x1="0" y1="${(MAP_HEIGHT / 4) * step}" x2="${MAP_WIDTH}" y2="${(MAP_HEIGHT / 4) * step}" stroke="#e2e8f0" />`).join('');
+
+    const markers = points.map(point => `
+      <g>
+        <title>${point.index}. ${escapeHtml(point.incident.title)}</title>
+        <circle cx="${point.x.toFixed(1)}" cy="${point.y.toFixed(1)}" r="7" fill="${MARKER_COLOURS[point.incident.type] || '#475569'}" fill-opacity="0.85" stroke="#fff" />
+        <text x="${point.x.toFixed(1)}" y="${(point.y + 3).toFixed(1)}" font-size="8" text-anchor="middle" fill="#fff">${point.index}</text>
+      </g>`).join('');
+
+    const scaleY = MAP_HEIGHT - 10;
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${MAP_WIDTH}" height="${MAP_HEIGHT}" viewBox="0 0 ${MAP_WIDTH} ${MAP_HEIGHT}" font-family="Helvetica, Arial, sans-serif">
+      ${gridLines}
+      ${markers}
+      <line x1="10" y1="${scaleY}" x2="${(10 + scalePx).toFixed(1)}" y2="${scaleY}" stroke="#334155" stroke-width="2" />
+      <text x="10" y="${scaleY - 4}" font-size="9" fill="#334155">${scaleKm} km</text>
+      <text x="${MAP_WIDTH - 10}" y="14" font-size="10" text-anchor="end" fill="#334155">N &#8593;</text>
+    </svg>`;
+  }
+
+  private buildTimelineSvg(incidents: Incident[]): string {
+    const ticks = this.buildTimelineTicks(incidents);
+    if (ticks.length === 0) {
+      return '<p>No incidents to plot.</p>';
+    }
+
+    const axisY = TIMELINE_HEIGHT / 2;
+    const first = ticks[0].incident.datetime;
+    const last = ticks[ticks.length - 1].incident.datetime;
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${TIMELINE_WIDTH}" height="${TIMELINE_HEIGHT}" viewBox="0 0 ${TIMELINE_WIDTH} ${TIMELINE_HEIGHT}" font-family="Helvetica, Arial, sans-serif">
+      <line x1="${MAP_PADDING}" y1="${axisY}" x2="${TIMELINE_WIDTH - MAP_PADDING}" y2="${axisY}" stroke="#94a3b8" stroke-width="2" />
+      ${ticks.map(tick => `<g>
+        <title>${tick.index}. ${escapeHtml(formatDate(tick.incident.datetime))} - ${escapeHtml(tick.incident.title)}</title>
+        <circle cx="${tick.x.toFixed(1)}" cy="${axisY}" r="5" fill="${MARKER_COLOURS[tick.incident.type] || '#475569'}" />
+      </g>`).join('')}
+      <text x="${MAP_PADDING}" y="${TIMELINE_HEIGHT - 8}" font-size="9" fill="#334155">${escapeHtml(formatDate(first))}</text>
+      <text x="${TIMELINE_WIDTH - MAP_PADDING}" y="${TIMELINE_HEIGHT - 8}" font-size="9" text-anchor="end" fill="#334155">${escapeHtml(formatDate(last))}</text>
+    </svg>`;
+  }
+
+  private pdfHeading(doc: PDFKit.PDFDocument, title: string): void {
+    if (doc.y > doc.page.height - 120) doc.addPage();
+    doc.moveDown(1).fontSize(13).fillColor('#5b21b6').text(title);
+    doc.moveDown(0.3);
+  }
+
+  private drawPdfMap(doc: PDFKit.PDFDocument, incidents: Incident[]): void {
+    const { points, scaleKm, scalePx } = this.projectIncidents(incidents);
+    if (points.length === 0) {
+      doc.fontSize(10).fillColor('#111827').text('No incidents with coordinates.');
+      return;
+    }
+
+    if (doc.y + MAP_HEIGHT > doc.page.height - doc.page.margins.bottom) doc.addPage();
+    const originX = doc.page.margins.left;
+    const originY = doc.y;
+
+    doc.save();
+    doc.rect(originX, originY, MAP_WIDTH, MAP_HEIGHT).fillAndStroke('#f8fafc', '#e2e8f0');
+    [1, 2, 3].forEach(step => {
+      doc.moveTo(originX + (MAP_WIDTH / 4) * step, originY).lineTo(originX + (MAP_WIDTH / 4) * step, originY + MAP_HEIGHT).stroke('#e2e8f0');
+      doc.moveTo(originX, originY + (MAP_HEIGHT / 4) * step).lineTo(originX + MAP_WIDTH, originY + (MAP_HEIGHT / 4) * step).stroke('#e2e8f0');
+    });
+
+    points.forEach(point => {
+      doc.circle(originX + point.x, originY + point.y, 7)
+        .fillOpacity(0.85)
+        .fill(MARKER_COLOURS[point.incident.type] || '#475569');
+      doc.fillOpacity(1).fontSize(6).fillColor('#ffffff')
+        .text(String(point.index), originX + point.x - 7, originY + point.y - 3, { width: 14, align: 'center', lineBreak: false });
+    });
+
+    const scaleY = originY + MAP_HEIGHT - 10;
+    doc.moveTo(originX + 10, scaleY).lineTo(originX + 10 + scalePx, scaleY).lineWidth(2).stroke('#334155');
+    doc.lineWidth(1).fontSize(8).fillColor('#334155').text(`${scaleKm} km`, originX + 10, scaleY - 12, { lineBreak: false });
+    doc.text('N ^', originX + MAP_WIDTH - 30, originY + 6, { lineBreak: false });
+    doc.restore();
+
+    doc.x = originX;
+    doc.y = originY + MAP_HEIGHT + 6;
+  }
+
+  private drawPdfTimeline(doc: PDFKit.PDFDocument, incidents: Incident[]): void {
+    const ticks = this.buildTimelineTicks(incidents);
+    if (ticks.length === 0) {
+      doc.fontSize(10).fillColor('#111827').text('No incidents to plot.');
+      return;
+    }
+
+    if (doc.y + TIMELINE_HEIGHT > doc.page.height - doc.page.margins.bottom) doc.addPage();
+    const originX = doc.page.margins.left;
+    const originY = doc.y;
+    const axisY = originY + TIMELINE_HEIGHT / 2;
+
+    doc.save();
+    doc.moveTo(originX + MAP_PADDING, axisY).lineTo(originX + TIMELINE_WIDTH - MAP_PADDING, axisY).lineWidth(2).stroke('#94a3b8');
+    ticks.forEach(tick => {
+      doc.circle(originX + tick.x, axisY, 4).fill(MARKER_COLOURS[tick.incident.type] || '#475569');
+    });
+    doc.lineWidth(1).fontSize(8).fillColor('#334155')
+      .text(formatDate(ticks[0].incident.datetime), originX + MAP_PADDING, originY + TIMELINE_HEIGHT - 14, { lineBreak: false });
+    doc.text(formatDate(ticks[ticks.length - 1].incident.datetime), originX + TIMELINE_WIDTH / 2, originY + TIMELINE_HEIGHT - 14, {
+      width: TIMELINE_WIDTH / 2 - MAP_PADDING,
+      align: 'right',
+      lineBreak: false,
+    });
+    doc.restore();
+
+    doc.x = originX;
+    doc.y = originY + TIMELINE_HEIGHT + 6;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(value: string): string {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toISOString().replace('T', ' ').slice(0, 16);
+}
+
+function formatLocation(incident: Incident): string {
+  if (incident.location?.address) return incident.location.address;
+  if (incident.location) return `${incident.location.lat.toFixed(4)}, ${incident.location.lng.toFixed(4)}`;
+  return '';
+}
@@ -0,0 +1,181 @@
+import { Injectable } from '@nestjs/common';
+import { CaseFile, Incident, Entity as AppEntity } from '../../entities';
+import { IncidentsService } from '../incidents/incidents.service';
+
+export type SuggestionReasonType = 'similar' | 'shared_location' | 'same_threat_category';
+
+export interface SuggestionReason {
+  type: SuggestionReasonType;
+  description: string;
+  // Case incident that triggered the suggestion, when there is one
+  seedIncidentId?: string;
+  entityId?: string;
+  similarity?: number;
+}
+
+export interface CaseSuggestion {
+  incident: Partial<Incident>;
+  score: number;
+  reasons: SuggestionReason[];
+}
+
+// Relative weight of each reason when ranking suggestions
+const REASON_WEIGHTS: Record<SuggestionReasonType, number> = {
+  similar: 1,
+  shared_location: 0.6,
+  same_threat_category: 0.4,
+};
+
+const DEFAULT_LIMIT = 20;
+const DEFAULT_WINDOW_DAYS = 14;
+const DEFAULT_MIN_SIMILARITY = 0.75;
+const SIMILAR_PER_SEED = 5;
+const MAX_SEEDS = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Proposes incidents an analyst may want to add to a case. Each candidate is
+ * scored by summing the weights of every reason it was found for, so an
+ * incident that is both textually similar and at the same location ranks
+ * above one matched on a single signal.
+ */
+@Injectable()
+export class CaseSuggestionsService {
+  constructor(private readonly incidentsService: IncidentsService) {}
+
+  async suggest(caseFile: CaseFile, query: any): Promise<{ suggestions: CaseSuggestion[] }> {
+    const limit = query.limit ? parseInt(query.limit) : DEFAULT_LIMIT;
+    const windowDays = query.days ? parseInt(query.days) : DEFAULT_WINDOW_DAYS;
+    const minSimilarity = query.minSimilarity ? parseFloat(query.minSimilarity) : DEFAULT_MIN_SIMILARITY;
+
+    // Optionally focus on specific incidents, e.g. the ones just added
+    const seedIds = query.incidentIds ? String(query.incidentIds).split(',') : null;
+    const seeds = caseFile.incidents
+      .filter(incident => !seedIds || seedIds.includes(incident.id))
+      .sort((a, b) => b.datetime.localeCompare(a.datetime))
+      .slice(0, MAX_SEEDS);
+
+    if (seeds.length === 0) {
+      return { suggestions: [] };
+    }
+
+    const excludeIds = caseFile.incidents.map(incident => incident.id);
+    const candidates = new Map<string, CaseSuggestion>();
+
+    const addReason = (incident: Partial<Incident>, reason: SuggestionReason) => {
+      if (excludeIds.includes(incident.id)) return;
+
+      const candidate = candidates.get(incident.id) || { incident: stripVectors(incident), score: 0, reasons: [] };
+      const duplicate = candidate.reasons.some(existing =>
+        existing.type === reason.type && existing.entityId === reason.entityId && existing.seedIncidentId === reason.seedIncidentId,
+      );
+      if (duplicate) return;
+
+      candidate.reasons.push(reason);
+      candidate.score += REASON_WEIGHTS[reason.type] * (reason.similarity ?? 1);
+      candidates.set(incident.id, candidate);
+    };
+
+    await this.addSimilarIncidents(seeds, minSimilarity, addReason);
+    await this.addSharedLocations(seeds, excludeIds, addReason);
+    await this.addSameThreatCategories(seeds, excludeIds, windowDays, addReason);
+
+    const suggestions = Array.from(candidates.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(suggestion => ({ ...suggestion, score: Math.round(suggestion.score * 1000) / 1000 }));
+
+    return { suggestions };
+  }
+
+  private async addSimilarIncidents(
+    seeds: Incident[],
+    minSimilarity: number,
+    addReason: (incident: Partial<Incident>, reason: SuggestionReason) => void,
+  ): Promise<void> {
+    for (const seed of seeds) {
+      const similar = await this.incidentsService.findSimilarIncidents(seed.id, SIMILAR_PER_SEED);
+
+      similar.forEach(result => {
+        // similarity_score is cosine distance, so 0 means identical
+        const similarity = 1 - result.similarity_score;
+        if (similarity < minSimilarity) return;
+
+        addReason(result, {
+          type: 'similar',
+          description: `${Math.round(similarity * 100)}% similar to "${seed.title}"`,
+          seedIncidentId: seed.id,
+          similarity: Math.round(similarity * 1000) / 1000,
+        });
+      });
+    }
+  }
+
+  private async addSharedLocations(
+    seeds: Incident[],
+    excludeIds: string[],
+    addReason: (incident: Partial<Incident>, reason: SuggestionReason) => void,
+  ): Promise<void> {
+    const locations = uniqueEntities(seeds, 'location');
+    if (locations.size === 0) return;
+
+    const matches = await this.incidentsService.findByEntityIds(Array.from(locations.keys()), { excludeIds });
+    matches.forEach(incident => {
+      incident.entities
+        .filter(entity => locations.has(entity.id))
+        .forEach(entity => addReason(incident, {
+          type: 'shared_location',
+          description: `Same location: ${entity.name}`,
+          entityId: entity.id,
+        }));
+    });
+  }
+
+  private async addSameThreatCategories(
+    seeds: Incident[],
+    excludeIds: string[],
+    windowDays: number,
+    addReason: (incident: Partial<Incident>, reason: SuggestionReason) => void,
+  ): Promise<void> {
+    const categories = uniqueEntities(seeds, 'threat_category');
+
+    for (const [entityId, entity] of categories) {
+      // Search a window around every case incident carrying this category
+      const times = seeds
+        .filter(seed => seed.entities?.some(candidate => candidate.id === entityId))
+        .map(seed => new Date(seed.datetime).getTime())
+        .filter(time => !isNaN(time));
+      if (times.length === 0) continue;
+
+      const windowMs = windowDays * DAY_MS;
+      const matches = await this.incidentsService.findByEntityIds([entityId], {
+        excludeIds,
+        startDate: new Date(Math.min(...times) - windowMs).toISOString(),
+        endDate: new Date(Math.max(...times) + windowMs).toISOString(),
+      });
+
+      matches
+        .filter(incident => times.some(time => Math.abs(new Date(incident.datetime).getTime() - time) <= windowMs))
+        .forEach(incident => addReason(incident, {
+          type: 'same_threat_category',
+          description: `Same threat category (${entity.name}) within ${windowDays} days`,
+          entityId,
+        }));
+    }
+  }
+}
+
+function uniqueEntities(incidents: Incident[], type: AppEntity['type']): Map<string, AppEntity> {
+  const entities = new Map<string, AppEntity>();
+  incidents.forEach(incident => {
+    (incident.entities || [])
+      .filter(entity => entity.type === type)
+      .forEach(entity => entities.set(entity.id, entity));
+  });
+  return entities;
+}
+
+function stripVectors(incident: Partial<Incident>): Partial<Incident> {
+  const { title_vector, description_vector, ...rest } = incident as any;
+  return rest;
+}
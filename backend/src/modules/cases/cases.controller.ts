@@ -1,14 +1,200 @@
-import { Controller, Post, Body, UsePipes, ValidationPipe } from '@nestjs/common';
+import { Controller, Get, Post, Put, Patch, Delete, Body, Param, Query, Res, HttpCode, UsePipes, ValidationPipe, BadRequestException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
+import { Response } from 'express';
 import { CasesService } from './cases.service';
+import { CaseExportService, CaseExportFormat } from './case-export.service';
+import { CaseCommentsService } from './case-comments.service';
+import { CaseSuggestionsService } from './case-suggestions.service';
 import { CreateCaseDto } from '../../dto/create-case.dto';
+import { UpdateCaseDto } from '../../dto/update-case.dto';
+import { CaseIncidentsDto } from '../../dto/case-incidents.dto';
+import { CreateCaseCommentDto } from '../../dto/create-case-comment.dto';
+import { ShareCaseDto } from '../../dto/share-case.dto';
+import { ListCasesDto } from '../../dto/list-cases.dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { User } from '../../entities';
 
+@ApiTags('cases')
+@ApiBearerAuth()
 @Controller('cases')
 export class CasesController {
-  constructor(private readonly casesService: CasesService) {}
+  constructor(
+    private readonly casesService: CasesService,
+    private readonly caseExportService: CaseExportService,
+    private readonly caseCommentsService: CaseCommentsService,
+    private readonly caseSuggestionsService: CaseSuggestionsService,
+  ) {}
 
   @Post()
+  @Roles('analyst')
   @UsePipes(ValidationPipe)
-  create(@Body() createCaseDto: CreateCaseDto) {
-    return this.casesService.create(createCaseDto);
+  @ApiOperation({ summary: 'Create a case file' })
+  @ApiResponse({ status: 201, description: 'Case created successfully' })
+  create(@Body() createCaseDto: CreateCaseDto, @CurrentUser() user: User) {
+    return this.casesService.create(createCaseDto, user);
   }
-}
\ No newline at end of file
+
+  @Get()
+  @ApiOperation({ summary: 'List case files' })
+  @ApiResponse({ status: 200, description: 'Cases retrieved successfully' })
+  @ApiQuery({ name: 'status', required: false, description: 'Filter by status (comma-separated)' })
+  @ApiQuery({ name: 'tag', required: false, description: 'Filter by tag' })
+  @ApiQuery({ name: 'search', required: false, description: 'Search title and notes' })
+  @ApiQuery({ name: 'owner', required: false, enum: ['me'], description: 'Only cases you own' })
+  @ApiQuery({ name: 'page', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  findAll(@Query() query: ListCasesDto, @CurrentUser() user: User) {
+    return this.casesService.findAll(query, user);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a case file with its incidents and entities' })
+  @ApiResponse({ status: 200, description: 'Case retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Case not found' })
+  findOne(@Param('id') id: string, @CurrentUser() user: User) {
+    return this.casesService.findOne(id, user);
+  }
+
+  @Get(':id/export')
+  @ApiOperation({ summary: 'Export a case as a PDF or self-contained HTML briefing pack' })
+  @ApiResponse({ status: 200, description: 'Case export generated successfully' })
+  @ApiResponse({ status: 404, description: 'Case not found' })
+  @ApiQuery({ name: 'format', required: false, enum: ['pdf', 'html'], description: 'Export format (default pdf)' })
+  @ApiQuery({ name: 'includeMap', required: false, type: Boolean })
+  @ApiQuery({ name: 'includeTimeline', required: false, type: Boolean })
+  @ApiQuery({ name: 'includeEntities', required: false, type: Boolean })
+  async export(@Param('id') id: string, @Query() query: any, @CurrentUser() user: User, @Res() res: Response) {
+    const format: CaseExportFormat = query.format || 'pdf';
+    if (format !== 'pdf' && format !== 'html') {
+      throw new BadRequestException(`Unsupported export format: ${format}`);
+    }
+
+    const options = {
+      includeMap: query.includeMap !== 'false',
+      includeTimeline: query.includeTimeline !== 'false',
+      includeEntities: query.includeEntities !== 'false',
+    };
+
+    const caseFile = await this.casesService.findOne(id, user);
+    await this.casesService.recordExport(id, format, user.username);
+    const filename = `case-${caseFile.title.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || caseFile.id}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'html') {
+      res.type('text/html').send(this.caseExportService.renderHtml(caseFile, options));
+    } else {
+      res.type('application/pdf').send(await this.caseExportService.renderPdf(caseFile, options));
+    }
+  }
+
+  @Get(':id/suggestions')
+  @ApiOperation({ summary: 'Suggest incidents to add based on similarity and shared entities' })
+  @ApiResponse({ status: 200, description: 'Suggestions generated successfully' })
+  @ApiResponse({ status: 404, description: 'Case not found' })
+  @ApiQuery({ name: 'incidentIds', required: false, description: 'Only use these case incidents as seeds (comma-separated)' })
+  @ApiQuery({ name: 'days', required: false, description: 'Window for same threat category matches (default 14)' })
+  @ApiQuery({ name: 'minSimilarity', required: false, description: 'Minimum vector similarity 0-1 (default 0.75)' })
+  @ApiQuery({ name: 'limit', required: false })
+  async getSuggestions(@Param('id') id: string, @Query() query: any, @CurrentUser() user: User) {
+    const caseFile = await this.casesService.findOne(id, user);
+    return this.caseSuggestionsService.suggest(caseFile, query);
+  }
+
+  @Get(':id/history')
+  @ApiOperation({ summary: 'Get the audit trail for a case, newest first' })
+  @ApiResponse({ status: 200, description: 'Case history retrieved successfully' })
+  getHistory(@Param('id') id: string, @CurrentUser() user: User) {
+    return this.casesService.getHistory(id, user);
+  }
+
+  @Get(':id/shares')
+  @ApiOperation({ summary: 'List the users a case is shared with' })
+  @ApiResponse({ status: 200, description: 'Shares retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Case not found' })
+  getShares(@Param('id') id: string, @CurrentUser() user: User) {
+    return this.casesService.getShares(id, user);
+  }
+
+  @Put(':id/shares/:username')
+  @Roles('analyst')
+  @ApiOperation({ summary: 'Share a case with a user, or change their permission' })
+  @ApiResponse({ status: 200, description: 'Share saved successfully' })
+  @ApiResponse({ status: 403, description: 'Only the owner or an admin can share a case' })
+  shareCase(@Param('id') id: string, @Param('username') username: string, @Body() body: ShareCaseDto, @CurrentUser() user: User) {
+    return this.casesService.shareWith(id, username, body.permission, user);
+  }
+
+  @Delete(':id/shares/:username')
+  @Roles('analyst')
+  @ApiOperation({ summary: 'Revoke a user\'s access to a case' })
+  @ApiResponse({ status: 200, description: 'Share revoked successfully' })
+  @ApiResponse({ status: 403, description: 'Only the owner or an admin can revoke access' })
+  unshareCase(@Param('id') id: string, @Param('username') username: string, @CurrentUser() user: User) {
+    return this.casesService.unshare(id, username, user);
+  }
+
+  @Patch(':id')
+  @Roles('analyst')
+  @ApiOperation({ summary: 'Update case details, status or tags' })
+  @ApiResponse({ status: 200, description: 'Case updated successfully' })
+  update(@Param('id') id: string, @Body() updateCaseDto: UpdateCaseDto, @CurrentUser() user: User) {
+    return this.casesService.update(id, updateCaseDto, user);
+  }
+
+  @Delete(':id')
+  @Roles('analyst')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Delete a case file (owner or admin only)' })
+  @ApiResponse({ status: 204, description: 'Case deleted successfully' })
+  remove(@Param('id') id: string, @CurrentUser() user: User) {
+    return this.casesService.remove(id, user);
+  }
+
+  @Post(':id/incidents')
+  @Roles('analyst')
+  @ApiOperation({ summary: 'Add incidents to a case' })
+  @ApiResponse({ status: 201, description: 'Incidents added successfully' })
+  addIncidents(@Param('id') id: string, @Body() body: CaseIncidentsDto, @CurrentUser() user: User) {
+    return this.casesService.addIncidents(id, body.incidentIds, user);
+  }
+
+  @Delete(':id/incidents/:incidentId')
+  @Roles('analyst')
+  @ApiOperation({ summary: 'Remove an incident from a case' })
+  @ApiResponse({ status: 200, description: 'Incident removed successfully' })
+  removeIncident(@Param('id') id: string, @Param('incidentId') incidentId: string, @CurrentUser() user: User) {
+    return this.casesService.removeIncident(id, incidentId, user);
+  }
+
+  @Get(':id/comments')
+  @ApiOperation({ summary: 'List comments on a case' })
+  @ApiResponse({ status: 200, description: 'Comments retrieved successfully' })
+  @ApiQuery({ name: 'incidentId', required: false, description: 'Only comments on this incident' })
+  @ApiQuery({ name: 'scope', required: false, enum: ['case'], description: 'Only case-level comments' })
+  async getComments(@Param('id') id: string, @Query() query: any, @CurrentUser() user: User) {
+    await this.casesService.findOne(id, user);
+    return this.caseCommentsService.findByCase(id, query);
+  }
+
+  @Post(':id/comments')
+  @Roles('analyst')
+  @ApiOperation({ summary: 'Comment on a case or one of its incidents; @mentions notify analysts' })
+  @ApiResponse({ status: 201, description: 'Comment created successfully' })
+  async addComment(@Param('id') id: string, @Body() body: CreateCaseCommentDto, @CurrentUser() user: User) {
+    // Anyone who can read the case may join its discussion
+    const caseFile = await this.casesService.findOne(id, user);
+    return this.caseCommentsService.create(caseFile, body, user.username);
+  }
+
+  @Delete(':id/comments/:commentId')
+  @Roles('analyst')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Delete a comment and its replies' })
+  @ApiResponse({ status: 204, description: 'Comment deleted successfully' })
+  @ApiResponse({ status: 403, description: 'Only the author can delete a comment' })
+  async removeComment(@Param('id') id: string, @Param('commentId') commentId: string, @CurrentUser() user: User) {
+    await this.casesService.findOne(id, user);
+    return this.caseCommentsService.remove(id, commentId, user.username);
+  }
+}
@@ -2,13 +2,26 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { CasesController } from './cases.controller';
 import { CasesService } from './cases.service';
-import { CaseFile } from '../../entities';
+import { CaseExportService } from './case-export.service';
+import { CaseAuditService } from './case-audit.service';
+import { CaseCommentsService } from './case-comments.service';
+import { CaseSuggestionsService } from './case-suggestions.service';
+import { CaseFile, CaseAuditEvent, CaseComment, CaseShare } from '../../entities';
 
 import { IncidentsModule } from '../incidents/incidents.module';
+import { EntitiesModule } from '../entities/entities.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([CaseFile]), IncidentsModule],
+  imports: [
+    TypeOrmModule.forFeature([CaseFile, CaseAuditEvent, CaseComment, CaseShare]),
+    IncidentsModule,
+    EntitiesModule,
+    NotificationsModule,
+    AuthModule,
+  ],
   controllers: [CasesController],
-  providers: [CasesService],
+  providers: [CasesService, CaseExportService, CaseAuditService, CaseCommentsService, CaseSuggestionsService],
 })
 export class CasesModule {}
@@ -1,27 +1,378 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { CaseFile } from '../../entities';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { CaseFile, CaseShare, CaseSharePermission } from '../../entities';
 import { CreateCaseDto } from '../../dto/create-case.dto';
+import { UpdateCaseDto } from '../../dto/update-case.dto';
+import { ListCasesDto } from '../../dto/list-cases.dto';
 import { IncidentsService } from '../incidents/incidents.service';
+import { EntitiesService } from '../entities/entities.service';
+import { CaseAuditService } from './case-audit.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { UsersService } from '../auth/users.service';
+import { CaseAccessUser, resolveCasePermission, canManageCase, applyCaseReadFilter } from './case-access';
 
 @Injectable()
 export class CasesService {
   constructor(
     @InjectRepository(CaseFile)
     private readonly caseFileRepository: Repository<CaseFile>,
+    @InjectRepository(CaseShare)
+    private readonly caseShareRepository: Repository<CaseShare>,
     private readonly incidentsService: IncidentsService,
+    private readonly entitiesService: EntitiesService,
+    private readonly caseAuditService: CaseAuditService,
+    private readonly notificationsService: NotificationsService,
+    private readonly usersService: UsersService,
   ) {}
 
-  async create(createCaseDto: CreateCaseDto): Promise<CaseFile> {
-    const { incidentIds, ...caseFileData } = createCaseDto;
-    const caseFile = this.caseFileRepository.create(caseFileData);
+  async create(createCaseDto: CreateCaseDto, user: CaseAccessUser): Promise<CaseFile> {
+    const actor = user.username;
+    const { incidentIds, entityIds, ...caseFileData } = createCaseDto;
+    if (caseFileData.assignee) {
+      await this.assertActiveUser(caseFileData.assignee);
+    }
+    // DTO fields the client left out are still own properties, set to undefined
+    const caseFile = this.caseFileRepository.create({
+      ...caseFileData,
+      visibility: caseFileData.visibility ?? 'private',
+      owner: actor,
+    });
 
     if (incidentIds && incidentIds.length > 0) {
       const incidents = await this.incidentsService.findByIds(incidentIds);
       caseFile.incidents = incidents;
     }
 
-    return this.caseFileRepository.save(caseFile);
+    if (entityIds && entityIds.length > 0) {
+      caseFile.entities = await this.entitiesService.findByIds(entityIds);
+    }
+
+    const saved = await this.caseFileRepository.save(caseFile);
+    await this.caseAuditService.record(saved.id, 'case_created', actor, {
+      title: saved.title,
+      status: saved.status,
+      visibility: saved.visibility,
+      incidentIds: (saved.incidents || []).map(incident => incident.id),
+    });
+
+    if (saved.assignee) {
+      await this.notifyAssignee(saved, actor);
+    }
+
+    return this.findOne(saved.id, user);
   }
-}
\ No newline at end of file
+
+  async findAll(query: ListCasesDto, user: CaseAccessUser): Promise<{ cases: CaseFile[], total: number, page: number, totalPages: number }> {
+    const qb: SelectQueryBuilder<CaseFile> = this.caseFileRepository
+      .createQueryBuilder('caseFile')
+      .loadRelationCountAndMap('caseFile.incidentCount', 'caseFile.incidents');
+
+    const { page = 1, limit = 50 } = query;
+    qb.skip((page - 1) * limit).take(limit);
+
+    applyCaseReadFilter(qb, 'caseFile', user);
+
+    if (query.owner === 'me') {
+      qb.andWhere('caseFile.owner = :owner', { owner: user.username });
+    }
+
+    if (query.status) {
+      const statuses = query.status.split(',');
+      qb.andWhere('caseFile.status IN (:...statuses)', { statuses });
+    }
+
+    if (query.tag) {
+      qb.andWhere(':tag = ANY(caseFile.tags)', { tag: query.tag });
+    }
+
+    if (query.search) {
+      qb.andWhere(
+        '(caseFile.title ILIKE :search OR caseFile.notes ILIKE :search)',
+        { search: `%${query.search}%` }
+      );
+    }
+
+    qb.orderBy('caseFile.updatedAt', 'DESC');
+
+    const [cases, total] = await qb.getManyAndCount();
+
+    return {
+      cases,
+      total,
+      page,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  /**
+   * Load a case the user holds at least the given permission on. Cases the
+   * user cannot read are reported as missing so their existence is not leaked.
+   */
+  async findOne(id: string, user: CaseAccessUser, required: CaseSharePermission = 'read'): Promise<CaseFile> {
+    const caseFile = await this.caseFileRepository.findOne({
+      where: { id },
+      relations: ['incidents', 'incidents.entities', 'entities', 'shares'],
+    });
+
+    const permission = caseFile ? resolveCasePermission(caseFile, user) : null;
+    if (!permission) {
+      throw new NotFoundException(`Case ${id} not found`);
+    }
+    if (required === 'edit' && permission !== 'edit') {
+      throw new ForbiddenException(`You have read-only access to case ${id}`);
+    }
+
+    caseFile.access = { permission, canManage: canManageCase(caseFile, user) };
+    return caseFile;
+  }
+
+  async update(id: string, updateCaseDto: UpdateCaseDto, user: CaseAccessUser): Promise<CaseFile> {
+    const actor = user.username;
+    const caseFile = await this.findOne(id, user, 'edit');
+    const { entityIds, ...changes } = updateCaseDto;
+    if (changes.visibility !== undefined && changes.visibility !== caseFile.visibility) {
+      this.assertCanManage(caseFile);
+    }
+    // Assigning grants edit access, so it is managed like sharing
+    if (changes.assignee !== undefined && (changes.assignee ?? null) !== (caseFile.assignee ?? null)) {
+      this.assertCanManage(caseFile);
+      if (changes.assignee) {
+        await this.assertActiveUser(changes.assignee);
+      }
+    }
+
+    const previous = {
+      title: caseFile.title,
+      notes: caseFile.notes,
+      status: caseFile.status,
+      tags: [...caseFile.tags],
+      assignee: caseFile.assignee ?? null,
+      visibility: caseFile.visibility,
+      entityIds: caseFile.entities.map(entity => entity.id),
+    };
+
+    Object.assign(caseFile, changes);
+
+    if (entityIds) {
+      caseFile.entities = entityIds.length > 0 ? await this.entitiesService.findByIds(entityIds) : [];
+    }
+
+    await this.caseFileRepository.save(caseFile);
+
+    if (changes.title !== undefined && changes.title !== previous.title) {
+      await this.caseAuditService.record(id, 'title_changed', actor, { from: previous.title, to: changes.title });
+    }
+    if (changes.notes !== undefined && changes.notes !== previous.notes) {
+      await this.caseAuditService.record(id, 'notes_edited', actor, { from: previous.notes, to: changes.notes });
+    }
+    if (changes.status !== undefined && changes.status !== previous.status) {
+      await this.caseAuditService.record(id, 'status_changed', actor, { from: previous.status, to: changes.status });
+    }
+    if (changes.assignee !== undefined && (changes.assignee ?? null) !== previous.assignee) {
+      await this.caseAuditService.record(id, 'assignee_changed', actor, { from: previous.assignee, to: changes.assignee ?? null });
+      if (caseFile.assignee) {
+        await this.notifyAssignee(caseFile, actor);
+      }
+    }
+    if (changes.visibility !== undefined && changes.visibility !== previous.visibility) {
+      await this.caseAuditService.record(id, 'visibility_changed', actor, { from: previous.visibility, to: changes.visibility });
+    }
+    if (changes.tags) {
+      const diff = diffIds(previous.tags, changes.tags);
+      if (diff) await this.caseAuditService.record(id, 'tags_changed', actor, diff);
+    }
+    if (entityIds) {
+      const diff = diffIds(previous.entityIds, caseFile.entities.map(entity => entity.id));
+      if (diff) await this.caseAuditService.record(id, 'entities_changed', actor, diff);
+    }
+
+    return this.findOne(id, user);
+  }
+
+  async remove(id: string, user: CaseAccessUser): Promise<void> {
+    const actor = user.username;
+    const caseFile = await this.findOne(id, user, 'edit');
+    this.assertCanManage(caseFile);
+    await this.caseFileRepository.remove(caseFile);
+    await this.caseAuditService.record(id, 'case_deleted', actor, {
+      title: caseFile.title,
+      incidentIds: caseFile.incidents.map(incident => incident.id),
+    });
+  }
+
+  /**
+   * History outlives the case itself; once a case is deleted only admins can
+   * read its trail, since there is no longer an ACL to check against.
+   */
+  async getHistory(id: string, user: CaseAccessUser) {
+    const caseFile = await this.caseFileRepository.findOne({ where: { id }, relations: ['shares'] });
+    const allowed = caseFile ? !!resolveCasePermission(caseFile, user) : user.role === 'admin';
+    if (!allowed) {
+      throw new NotFoundException(`Case ${id} not found`);
+    }
+
+    return this.caseAuditService.findByCase(id);
+  }
+
+  async getShares(id: string, user: CaseAccessUser): Promise<CaseShare[]> {
+    const caseFile = await this.findOne(id, user);
+    return [...caseFile.shares].sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  /**
+   * Grant or change a user's access. Sharing does not alter visibility: shares
+   * only take effect while the case is 'shared' or 'team'.
+   */
+  async shareWith(id: string, username: string, permission: CaseSharePermission, user: CaseAccessUser): Promise<CaseFile> {
+    const actor = user.username;
+    const caseFile = await this.findOne(id, user);
+    this.assertCanManage(caseFile);
+
+    if (username === caseFile.owner) {
+      throw new BadRequestException(`${username} already owns case ${id}`);
+    }
+    await this.assertActiveUser(username);
+
+    const existing = caseFile.shares.find(share => share.username === username);
+    if (existing && existing.permission === permission) {
+      return caseFile;
+    }
+
+    await this.caseShareRepository.save(
+      existing
+        ? Object.assign(existing, { permission, grantedBy: actor })
+        : this.caseShareRepository.create({ caseId: id, username, permission, grantedBy: actor }),
+    );
+    await this.caseAuditService.record(id, 'share_granted', actor, {
+      username,
+      permission,
+      previous: existing ? existing.permission : null,
+    });
+
+    if (!existing) {
+      await this.notificationsService.notify([username], {
+        type: 'share',
+        actor,
+        message: `${actor} shared "${caseFile.title}" with you (${permission})`,
+        caseId: id,
+      });
+    }
+
+    return this.findOne(id, user);
+  }
+
+  async unshare(id: string, username: string, user: CaseAccessUser): Promise<CaseFile> {
+    const caseFile = await this.findOne(id, user);
+    this.assertCanManage(caseFile);
+
+    const share = caseFile.shares.find(candidate => candidate.username === username);
+    if (!share) {
+      throw new NotFoundException(`Case ${id} is not shared with ${username}`);
+    }
+
+    await this.caseShareRepository.remove(share);
+    await this.caseAuditService.record(id, 'share_revoked', user.username, {
+      username,
+      permission: share.permission,
+    });
+
+    return this.findOne(id, user);
+  }
+
+  async recordExport(id: string, format: string, actor: string): Promise<void> {
+    await this.caseAuditService.record(id, 'case_exported', actor, { format });
+  }
+
+  async addIncidents(id: string, incidentIds: string[], user: CaseAccessUser): Promise<CaseFile> {
+    const actor = user.username;
+    const caseFile = await this.findOne(id, user, 'edit');
+    this.assertOpen(caseFile);
+
+    const incidents = await this.incidentsService.findByIds(incidentIds);
+    const missing = incidentIds.filter(incidentId => !incidents.some(incident => incident.id === incidentId));
+    if (missing.length > 0) {
+      throw new NotFoundException(`Incidents not found: ${missing.join(', ')}`);
+    }
+
+    const existingIds = new Set(caseFile.incidents.map(incident => incident.id));
+    const additions = incidents.filter(incident => !existingIds.has(incident.id));
+
+    if (additions.length > 0) {
+      await this.caseFileRepository
+        .createQueryBuilder()
+        .relation(CaseFile, 'incidents')
+        .of(caseFile)
+        .add(additions);
+      // Touch the case so list ordering reflects the change
+      await this.caseFileRepository.update({ id }, { updatedAt: new Date() });
+      await this.caseAuditService.record(id, 'incidents_added', actor, {
+        incidentIds: additions.map(incident => incident.id),
+        titles: additions.map(incident => incident.title),
+      });
+    }
+
+    return this.findOne(id, user);
+  }
+
+  async removeIncident(id: string, incidentId: string, user: CaseAccessUser): Promise<CaseFile> {
+    const actor = user.username;
+    const caseFile = await this.findOne(id, user, 'edit');
+    this.assertOpen(caseFile);
+
+    const incident = caseFile.incidents.find(candidate => candidate.id === incidentId);
+    if (!incident) {
+      throw new NotFoundException(`Incident ${incidentId} is not part of case ${id}`);
+    }
+
+    await this.caseFileRepository
+      .createQueryBuilder()
+      .relation(CaseFile, 'incidents')
+      .of(caseFile)
+      .remove(incidentId);
+    await this.caseFileRepository.update({ id }, { updatedAt: new Date() });
+    await this.caseAuditService.record(id, 'incident_removed', actor, {
+      incidentIds: [incidentId],
+      titles: [incident.title],
+    });
+
+    return this.findOne(id, user);
+  }
+
+  private async notifyAssignee(caseFile: CaseFile, actor: string): Promise<void> {
+    await this.notificationsService.notify([caseFile.assignee], {
+      type: 'assignment',
+      actor,
+      message: `${actor} assigned you to "${caseFile.title}"`,
+      caseId: caseFile.id,
+    });
+  }
+
+  private assertCanManage(caseFile: CaseFile): void {
+    if (!caseFile.access?.canManage) {
+      throw new ForbiddenException(`Only the owner or an admin can manage access to case ${caseFile.id}`);
+    }
+  }
+
+  private async assertActiveUser(username: string): Promise<void> {
+    const target = await this.usersService.findByUsername(username);
+    if (!target || !target.active) {
+      throw new NotFoundException(`User ${username} not found`);
+    }
+  }
+
+  /**
+   * Closed cases are frozen: evidence can only change after reopening
+   */
+  private assertOpen(caseFile: CaseFile): void {
+    if (caseFile.status === 'closed') {
+      throw new BadRequestException(`Case ${caseFile.id} is closed; reopen it before changing its incidents`);
+    }
+  }
+}
+
+function diffIds(before: string[], after: string[]): { added: string[]; removed: string[] } | null {
+  const added = after.filter(value => !before.includes(value));
+  const removed = before.filter(value => !after.includes(value));
+  return added.length > 0 || removed.length > 0 ? { added, removed } : null;
+}
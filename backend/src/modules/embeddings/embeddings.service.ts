@@ -17,6 +17,11 @@ export class EmbeddingsService {
     }
   }
 
+  // False when embeddings are hash-based stand-ins, which say nothing about meaning
+  isConfigured(): boolean {
+    return !!this.openai;
+  }
+
   /**
    * Generate embeddings for a single text
    */
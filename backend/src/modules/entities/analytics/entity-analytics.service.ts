@@ -0,0 +1,138 @@
+import { Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
+import { extname, join } from 'path';
+import { Worker } from 'worker_threads';
+import { EntitiesService, CoOccurrenceFilters, RelationshipFilters } from '../entities.service';
+import { AnalysisEdge } from './graph-algorithms';
+import { GraphAnalyticsInput, GraphAnalyticsResults } from './graph-analytics.types';
+
+// Compiled next to this file, or TypeScript that needs ts-node when run from source
+const WORKER_FILE = join(__dirname, `graph-analytics.worker${extname(__filename)}`);
+const WORKER_EXEC_ARGV = extname(__filename) === '.ts' ? [...process.execArgv, '--require', 'ts-node/register'] : undefined;
+
+// Analyses queue behind each other, so a runaway one must not block the rest for long
+const ANALYSIS_TIMEOUT_MS = 60000;
+
+export type AnalyticsMode = 'incidents' | 'co_occurrence';
+
+export type AnalyticsFilters = RelationshipFilters & CoOccurrenceFilters & { mode?: AnalyticsMode };
+
+export interface NodeCentrality {
+  id: string;
+  label: string;
+  type: string;
+  degree: number;
+  betweenness: number;
+  pageRank: number;
+}
+
+export interface Community {
+  id: number;
+  size: number;
+  nodeIds: string[];
+}
+
+/**
+ * Centrality and communities of the graph the entity graph page draws, so
+ * results are keyed by the same node ids. In incidents mode that is a page
+ * of incidents joined to their entities; in co_occurrence mode the
+ * strongest entity-to-entity links, weighted by their score.
+ *
+ * The algorithms run in a worker thread, one analysis at a time, so a large
+ * graph slows other analyses down but never the rest of the API.
+ */
+@Injectable()
+export class EntityAnalyticsService {
+  private readonly logger = new Logger(EntityAnalyticsService.name);
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly entitiesService: EntitiesService) {}
+
+  async centrality(filters: AnalyticsFilters = {}): Promise<{ nodes: NodeCentrality[]; stats: { nodes: number; edges: number } }> {
+    const { nodes, edges, edgeCount } = await this.loadGraph(filters);
+    const { degree, betweenness, pageRank: rank } = await this.analyse({
+      task: 'centrality',
+      ids: nodes.map(node => node.id),
+      edges,
+    });
+
+    const ranked = nodes
+      .map((node, i) => ({
+        id: node.id,
+        label: node.label,
+        type: node.type,
+        degree: degree[i],
+        betweenness: betweenness[i],
+        pageRank: rank[i],
+      }))
+      .sort((a, b) => b.pageRank - a.pageRank);
+
+    return { nodes: ranked, stats: { nodes: nodes.length, edges: edgeCount } };
+  }
+
+  async communities(filters: AnalyticsFilters = {}): Promise<{ modularity: number; communities: Community[] }> {
+    const { nodes, edges } = await this.loadGraph(filters);
+    const { communities, modularity } = await this.analyse({
+      task: 'communities',
+      ids: nodes.map(node => node.id),
+      edges,
+    });
+
+    const groups: Community[] = [];
+    communities.forEach((community, i) => {
+      groups[community] = groups[community] || { id: community, size: 0, nodeIds: [] };
+      groups[community].size++;
+      groups[community].nodeIds.push(nodes[i].id);
+    });
+
+    return { modularity, communities: groups };
+  }
+
+  private analyse<K extends keyof GraphAnalyticsResults>(input: GraphAnalyticsInput<K>): Promise<GraphAnalyticsResults[K]> {
+    const run = () => new Promise<GraphAnalyticsResults[K]>((resolve, reject) => {
+      const worker = new Worker(WORKER_FILE, { workerData: input, execArgv: WORKER_EXEC_ARGV });
+      const timeout = setTimeout(() => {
+        reject(new Error(`timed out after ${ANALYSIS_TIMEOUT_MS / 1000}s`));
+        worker.terminate();
+      }, ANALYSIS_TIMEOUT_MS);
+
+      worker.once('message', resolve);
+      worker.once('error', reject);
+      // Settles the promise if the worker stops without posting a result
+      worker.once('exit', code => {
+        clearTimeout(timeout);
+        reject(new Error(`worker exited with code ${code}`));
+      });
+    });
+
+    // Queued behind earlier analyses whether they succeeded or not
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+
+    return result.catch(error => {
+      this.logger.error(`Graph ${input.task} analysis of ${input.ids.length} nodes failed: ${error.message}`);
+      throw new ServiceUnavailableException(`Graph ${input.task} analysis failed: ${error.message}`);
+    });
+  }
+
+  private async loadGraph(filters: AnalyticsFilters): Promise<{ nodes: any[]; edges: AnalysisEdge[]; edgeCount: number }> {
+    const { mode, types, minCount, ...relationshipFilters } = filters;
+
+    if (mode === 'co_occurrence') {
+      const { nodes, edges } = await this.entitiesService.getCoOccurrenceGraph({ types, minCount, limit: filters.limit });
+      return {
+        nodes,
+        edges: edges.map(edge => ({ source: edge.source, target: edge.target, weight: edge.data.score })),
+        edgeCount: edges.length,
+      };
+    }
+
+    // Entity-to-entity edges only restate shared incidents, so the graph is the incident links alone
+    const { nodes, edges } = await this.entitiesService.getEntityRelationships(relationshipFilters);
+    const links = edges.filter(edge => edge.type === 'contains');
+    return {
+      nodes,
+      edges: links.map(edge => ({ source: edge.source, target: edge.target })),
+      edgeCount: links.length,
+    };
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Link-analysis algorithms over a small undirected, weighted graph held in
+ * memory. Nodes are addressed by index; callers keep their own ids.
+ */
+export interface AnalysisGraph {
+  ids: string[];
+  // neighbours[i] maps each neighbour index to the weight of the edge to it
+  neighbours: Map<number, number>[];
+}
+
+export interface AnalysisEdge {
+  source: string;
+  target: string;
+  weight?: number;
+}
+
+/**
+ * Builds the graph from an edge list. Parallel edges add their weights;
+ * self-loops and edges to unknown nodes are dropped.
+ */
+export function buildAnalysisGraph(ids: string[], edges: AnalysisEdge[]): AnalysisGraph {
+  const index = new Map(ids.map((id, i) => [id, i]));
+  const neighbours = ids.map(() => new Map<number, number>());
+
+  for (const edge of edges) {
+    const a = index.get(edge.source);
+    const b = index.get(edge.target);
+    if (a === undefined || b === undefined || a === b) continue;
+    const weight = edge.weight ?? 1;
+    neighbours[a].set(b, (neighbours[a].get(b) || 0) + weight);
+    neighbours[b].set(a, (neighbours[b].get(a) || 0) + weight);
+  }
+
+  return { ids, neighbours };
+}
+
+/**
+ * Share of the other nodes each node is directly linked to.
+ */
+export function degreeCentrality(graph: AnalysisGraph): number[] {
+  const n = graph.ids.length;
+  return graph.neighbours.map(links => (n > 1 ? links.size / (n - 1) : 0));
+}
+
+/**
+ * Share of shortest paths between other pairs of nodes that pass through
+ * each node, ignoring edge weights (Brandes' algorithm).
+ */
+export function betweennessCentrality(graph: AnalysisGraph): number[] {
+  const n = graph.ids.length;
+  const centrality = new Array(n).fill(0);
+
+  for (let s = 0; s < n; s++) {
+    const stack: number[] = [];
+    const predecessors: number[][] = Array.from({ length: n }, () => []);
+    const paths = new Array(n).fill(0);
+    const distance = new Array(n).fill(-1);
+    paths[s] = 1;
+    distance[s] = 0;
+
+    const queue = [s];
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      stack.push(v);
+      for (const w of graph.neighbours[v].keys()) {
+        if (distance[w] < 0) {
+          distance[w] = distance[v] + 1;
+          queue.push(w);
+        }
+        if (distance[w] === distance[v] + 1) {
+          paths[w] += paths[v];
+          predecessors[w].push(v);
+        }
+      }
+    }
+
+    const dependency = new Array(n).fill(0);
+    while (stack.length > 0) {
+      const w = stack.pop();
+      for (const v of predecessors[w]) {
+        dependency[v] += (paths[v] / paths[w]) * (1 + dependency[w]);
+      }
+      if (w !== s) centrality[w] += dependency[w];
+    }
+  }
+
+  // Each pair was counted from both ends
+  const pairs = ((n - 1) * (n - 2)) / 2;
+  return centrality.map(value => (pairs > 0 ? value / 2 / pairs : 0));
+}
+
+/**
+ * Weighted PageRank. Nodes without links share their rank with every node,
+ * so the ranks always sum to 1.
+ */
+export function pageRank(graph: AnalysisGraph, damping = 0.85, maxIterations = 100, tolerance = 1e-6): number[] {
+  const n = graph.ids.length;
+  if (n === 0) return [];
+
+  const strength = graph.neighbours.map(links => sum(links.values()));
+  let rank = new Array(n).fill(1 / n);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const dangling = rank.reduce((total, value, i) => (strength[i] === 0 ? total + value : total), 0);
+    const next = new Array(n).fill((1 - damping) / n + (damping * dangling) / n);
+
+    for (let v = 0; v < n; v++) {
+      if (strength[v] === 0) continue;
+      for (const [w, weight] of graph.neighbours[v]) {
+        next[w] += (damping * rank[v] * weight) / strength[v];
+      }
+    }
+
+    const change = next.reduce((total, value, i) => total + Math.abs(value - rank[i]), 0);
+    rank = next;
+    if (change < tolerance) break;
+  }
+
+  return rank;
+}
+
+/**
+ * Louvain community detection: nodes repeatedly move to the neighbouring
+ * community that most increases modularity, then each community is
+ * collapsed into one node and the process repeats until nothing moves.
+ * Returns a community number per node, largest community first.
+ */
+export function louvainCommunities(graph: AnalysisGraph): { communities: number[]; modularity: number } {
+  let membership = graph.ids.map((_, i) => i);
+  let level: LouvainLevel = {
+    neighbours: graph.neighbours.map(links => new Map(links)),
+    internal: graph.ids.map(() => 0),
+  };
+
+  for (;;) {
+    const { community, moved } = moveNodes(level);
+    if (!moved) break;
+
+    const renumbered = renumber(community);
+    membership = membership.map(node => renumbered.community[node]);
+    level = collapse(level, renumbered.community, renumbered.count);
+  }
+
+  // Number communities by size so colours stay stable between runs
+  const sizes = new Map<number, number>();
+  membership.forEach(community => sizes.set(community, (sizes.get(community) || 0) + 1));
+  const order = Array.from(sizes.keys()).sort((a, b) => sizes.get(b) - sizes.get(a) || a - b);
+  const position = new Map(order.map((community, i) => [community, i]));
+  const communities = membership.map(community => position.get(community));
+
+  return { communities, modularity: modularity(graph, communities) };
+}
+
+/**
+ * Newman modularity of a partition: how much more weight falls inside
+ * communities than if edges were placed at random.
+ */
+export function modularity(graph: AnalysisGraph, communities: number[]): number {
+  const strength = graph.neighbours.map(links => sum(links.values()));
+  const twiceTotal = sum(strength);
+  if (twiceTotal === 0) return 0;
+
+  const inside = new Map<number, number>();
+  const total = new Map<number, number>();
+  graph.neighbours.forEach((links, v) => {
+    const community = communities[v];
+    total.set(community, (total.get(community) || 0) + strength[v]);
+    for (const [w, weight] of links) {
+      if (communities[w] === community) inside.set(community, (inside.get(community) || 0) + weight);
+    }
+  });
+
+  let q = 0;
+  for (const [community, communityTotal] of total) {
+    q += (inside.get(community) || 0) / twiceTotal - (communityTotal / twiceTotal) ** 2;
+  }
+  return q;
+}
+
+interface LouvainLevel {
+  neighbours: Map<number, number>[];
+  // Weight of the edges collapsed inside each node, counted once
+  internal: number[];
+}
+
+function moveNodes(level: LouvainLevel): { community: number[]; moved: boolean } {
+  const n = level.neighbours.length;
+  const strength = level.neighbours.map((links, v) => sum(links.values()) + 2 * level.internal[v]);
+  const twiceTotal = sum(strength);
+  const community = Array.from({ length: n }, (_, v) => v);
+  const total = [...strength];
+  let moved = false;
+  if (twiceTotal === 0) return { community, moved };
+
+  for (let improved = true; improved; ) {
+    improved = false;
+    for (let v = 0; v < n; v++) {
+      const current = community[v];
+      const toCommunity = new Map<number, number>();
+      for (const [w, weight] of level.neighbours[v]) {
+        toCommunity.set(community[w], (toCommunity.get(community[w]) || 0) + weight);
+      }
+
+      total[current] -= strength[v];
+      let best = current;
+      let bestGain = (toCommunity.get(current) || 0) - (total[current] * strength[v]) / twiceTotal;
+      for (const [candidate, weight] of toCommunity) {
+        const gain = weight - (total[candidate] * strength[v]) / twiceTotal;
+        if (gain > bestGain + 1e-12) {
+          best = candidate;
+          bestGain = gain;
+        }
+      }
+      total[best] += strength[v];
+
+      if (best !== current) {
+        community[v] = best;
+        improved = true;
+        moved = true;
+      }
+    }
+  }
+
+  return { community, moved };
+}
+
+function renumber(community: number[]): { community: number[]; count: number } {
+  const numbers = new Map<number, number>();
+  const renumbered = community.map(c => {
+    if (!numbers.has(c)) numbers.set(c, numbers.size);
+    return numbers.get(c);
+  });
+  return { community: renumbered, count: numbers.size };
+}
+
+function collapse(level: LouvainLevel, community: number[], count: number): LouvainLevel {
+  const neighbours = Array.from({ length: count }, () => new Map<number, number>());
+  const internal = new Array(count).fill(0);
+
+  level.neighbours.forEach((links, v) => {
+    const cv = community[v];
+    internal[cv] += level.internal[v];
+    for (const [w, weight] of links) {
+      const cw = community[w];
+      // Edges inside a community are seen from both ends
+      if (cv === cw) internal[cv] += weight / 2;
+      else neighbours[cv].set(cw, (neighbours[cv].get(cw) || 0) + weight);
+    }
+  });
+
+  return { neighbours, internal };
+}
+
+function sum(values: Iterable<number>): number {
+  let total = 0;
+  for (const value of values) total += value;
+  return total;
+}
@@ -0,0 +1,24 @@
+import { AnalysisEdge } from './graph-algorithms';
+
+export interface CentralityScores {
+  degree: number[];
+  betweenness: number[];
+  pageRank: number[];
+}
+
+export interface CommunityAssignment {
+  communities: number[];
+  modularity: number;
+}
+
+// What each analysis task posts back, indexed like the input ids
+export interface GraphAnalyticsResults {
+  centrality: CentralityScores;
+  communities: CommunityAssignment;
+}
+
+export interface GraphAnalyticsInput<K extends keyof GraphAnalyticsResults = keyof GraphAnalyticsResults> {
+  task: K;
+  ids: string[];
+  edges: AnalysisEdge[];
+}
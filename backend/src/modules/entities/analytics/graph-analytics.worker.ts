@@ -0,0 +1,22 @@
+import { parentPort, workerData } from 'worker_threads';
+import {
+  betweennessCentrality,
+  buildAnalysisGraph,
+  degreeCentrality,
+  louvainCommunities,
+  pageRank,
+} from './graph-algorithms';
+import { CentralityScores, CommunityAssignment, GraphAnalyticsInput } from './graph-analytics.types';
+
+/**
+ * Runs one analysis per worker, so Brandes and Louvain on a large page do
+ * not hold up the event loop serving other requests.
+ */
+const { task, ids, edges } = workerData as GraphAnalyticsInput;
+const graph = buildAnalysisGraph(ids, edges);
+
+const result: CentralityScores | CommunityAssignment = task === 'centrality'
+  ? { degree: degreeCentrality(graph), betweenness: betweennessCentrality(graph), pageRank: pageRank(graph) }
+  : louvainCommunities(graph);
+
+parentPort.postMessage(result);
@@ -1,11 +1,35 @@
-import { Controller, Get, Param, Query } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
-import { EntitiesService } from './entities.service';
+import { Controller, Get, Post, Patch, Delete, Body, Param, Query, Res, BadRequestException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
+import { Response } from 'express';
+import { GraphExportFormat, GraphQuery, GraphQuerySchema, GRAPH_EXPORT_FORMATS, exportGraph } from '@intel-fusion/shared';
+import {
+  EntitiesService,
+  RelationshipFilters,
+  CoOccurrenceFilters,
+  DEFAULT_RELATIONSHIPS_LIMIT,
+  MAX_RELATIONSHIPS_LIMIT,
+  DEFAULT_CO_OCCURRENCE_LIMIT,
+  MAX_CO_OCCURRENCE_LIMIT,
+} from './entities.service';
+import { EntityGraphService, DEFAULT_GRAPH_LIMIT, MAX_GRAPH_LIMIT } from './entity-graph.service';
+import { EntityResolutionService } from './resolution/entity-resolution.service';
+import { EntityAnalyticsService, AnalyticsFilters } from './analytics/entity-analytics.service';
+import { MergeEntitiesDto, EntityAliasDto } from '../../dto/merge-entities.dto';
+import { UpdateEntityDto } from '../../dto/update-entity.dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { User, Entity, Incident, IncidentSeverity, INCIDENT_SEVERITIES } from '../../entities';
 
 @ApiTags('entities')
+@ApiBearerAuth()
 @Controller('entities')
 export class EntitiesController {
-  constructor(private readonly entitiesService: EntitiesService) {}
+  constructor(
+    private readonly entitiesService: EntitiesService,
+    private readonly entityGraphService: EntityGraphService,
+    private readonly entityAnalyticsService: EntityAnalyticsService,
+    private readonly entityResolutionService: EntityResolutionService,
+  ) {}
 
   // Entity relationship graph endpoints - updated
 
@@ -20,28 +44,285 @@ export class EntitiesController {
   }
 
   @Get('relationships')
-  @ApiOperation({ summary: 'Get entity relationships for graph visualization' })
+  @ApiOperation({ summary: 'Get entity relationships for graph visualization, a page of incidents at a time' })
   @ApiResponse({ status: 200, description: 'Entity relationships retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid filter value' })
   @ApiQuery({ name: 'startDate', required: false, description: 'Filter incidents from this date' })
-  @ApiQuery({ name: 'endDate', required: false, description: 'Filter incidents to this date' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'Filter incidents to this date (inclusive)' })
   @ApiQuery({ name: 'severity', required: false, description: 'Filter by severity levels (comma-separated)' })
   @ApiQuery({ name: 'category', required: false, description: 'Filter by categories (comma-separated)' })
   @ApiQuery({ name: 'source', required: false, description: 'Filter by sources (comma-separated)' })
-  getRelationships(@Query() query: any) {
-    const filters = {
-      startDate: query.startDate,
-      endDate: query.endDate,
-      severity: query.severity ? query.severity.split(',') : undefined,
-      category: query.category ? query.category.split(',') : undefined,
-      source: query.source ? query.source.split(',') : undefined
-    };
-    return this.entitiesService.getEntityRelationships(filters);
+  @ApiQuery({ name: 'type', required: false, description: 'Filter by incident types (comma-separated)' })
+  @ApiQuery({ name: 'bounds', required: false, description: 'Bounding box as JSON: {"north","south","east","west"}' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page of incidents (default 1)' })
+  @ApiQuery({ name: 'limit', required: false, description: `Incidents per page (default ${DEFAULT_RELATIONSHIPS_LIMIT}, at most ${MAX_RELATIONSHIPS_LIMIT})` })
+  @ApiQuery({ name: 'format', required: false, enum: GRAPH_EXPORT_FORMATS, description: 'Download the page as GraphML, GEXF or the i2 Analyst\'s Notebook entity or link CSV instead of JSON' })
+  async getRelationships(@Query() query: any, @Res({ passthrough: true }) res: Response) {
+    const format: GraphExportFormat | undefined = query.format;
+    if (format && !GRAPH_EXPORT_FORMATS.includes(format)) {
+      throw new BadRequestException(`Unsupported export format: ${format}`);
+    }
+
+    const graph = await this.entitiesService.getEntityRelationships(parseRelationshipFilters(query));
+    if (!format) {
+      return graph;
+    }
+
+    const file = exportGraph(graph, format);
+    const name = format.startsWith('i2-') ? `entity-graph-${format.slice(3)}` : 'entity-graph';
+    res.setHeader('Content-Disposition', `attachment; filename="${name}.${file.extension}"`);
+    res.type(file.mimeType);
+    return file.content;
+  }
+
+  @Get('co-occurrences')
+  @ApiOperation({ summary: 'Entity-to-entity links weighted by shared incidents and time and place proximity' })
+  @ApiResponse({ status: 200, description: 'Strongest links as graph nodes and edges' })
+  @ApiQuery({ name: 'types', required: false, description: 'Entity types to include (comma-separated, default all but temporal)' })
+  @ApiQuery({ name: 'minCount', required: false, description: 'Fewest shared incidents for a link (default 1)' })
+  @ApiQuery({ name: 'limit', required: false, description: `Maximum links (default ${DEFAULT_CO_OCCURRENCE_LIMIT}, at most ${MAX_CO_OCCURRENCE_LIMIT})` })
+  getCoOccurrences(@Query() query: any) {
+    return this.entitiesService.getCoOccurrenceGraph(parseCoOccurrenceFilters(query));
+  }
+
+  @Get('analytics/centrality')
+  @ApiOperation({ summary: 'Degree, betweenness and PageRank centrality of the nodes in the relationship or co-occurrence graph' })
+  @ApiResponse({ status: 200, description: 'Node scores keyed by graph node id, highest PageRank first' })
+  @ApiResponse({ status: 400, description: 'Invalid filter value' })
+  @ApiQuery({ name: 'mode', required: false, description: 'incidents (default) for the relationships graph, co_occurrence for entity links' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page of incidents in incidents mode, with the same filters as relationships' })
+  @ApiQuery({ name: 'types', required: false, description: 'Entity types in co_occurrence mode (comma-separated)' })
+  @ApiQuery({ name: 'minCount', required: false, description: 'Fewest shared incidents for a link in co_occurrence mode' })
+  getCentrality(@Query() query: any) {
+    return this.entityAnalyticsService.centrality(parseAnalyticsFilters(query));
+  }
+
+  @Get('analytics/communities')
+  @ApiOperation({ summary: 'Louvain communities of the relationship or co-occurrence graph' })
+  @ApiResponse({ status: 200, description: 'Communities, largest first, with the modularity of the split' })
+  @ApiResponse({ status: 400, description: 'Invalid filter value' })
+  @ApiQuery({ name: 'mode', required: false, description: 'incidents (default) for the relationships graph, co_occurrence for entity links' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page of incidents in incidents mode, with the same filters as relationships' })
+  @ApiQuery({ name: 'types', required: false, description: 'Entity types in co_occurrence mode (comma-separated)' })
+  @ApiQuery({ name: 'minCount', required: false, description: 'Fewest shared incidents for a link in co_occurrence mode' })
+  getCommunities(@Query() query: any) {
+    return this.entityAnalyticsService.communities(parseAnalyticsFilters(query));
+  }
+
+  @Get('resolution/candidates')
+  @Roles('admin')
+  @ApiOperation({ summary: 'List pairs of entities that probably refer to the same thing' })
+  @ApiResponse({ status: 200, description: 'Merge candidates, best first' })
+  @ApiQuery({ name: 'type', required: false, description: 'Only compare entities of this type' })
+  @ApiQuery({ name: 'minScore', required: false, description: 'Lowest score to return, 0-1 (default 0.85)' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Limit number of candidates' })
+  findMergeCandidates(@Query() query: any) {
+    return this.entityResolutionService.findCandidates(query);
+  }
+
+  @Post('resolution/merge-normalised')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Merge every group of entities whose names normalise to the same form' })
+  @ApiResponse({ status: 201, description: 'Number of groups found and entities merged away' })
+  @ApiQuery({ name: 'type', required: false, description: 'Only merge entities of this type' })
+  mergeNormalisedDuplicates(@Query('type') type: string, @CurrentUser() user: User) {
+    return this.entityResolutionService.mergeNormalisedDuplicates(user.username, type);
+  }
+
+  @Post('merge')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Merge entities into a target entity' })
+  @ApiResponse({ status: 201, description: 'Surviving entity with its aliases' })
+  @ApiResponse({ status: 400, description: 'Entities are of different types' })
+  merge(@Body() mergeDto: MergeEntitiesDto, @CurrentUser() user: User) {
+    return this.entityResolutionService.merge(mergeDto.targetId, mergeDto.sourceIds, user.username);
+  }
+
+  @Post('merges/:mergeId/split')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Undo a merge, restoring the absorbed entity and its links' })
+  @ApiResponse({ status: 201, description: 'Restored entity with its aliases' })
+  split(@Param('mergeId') mergeId: string, @CurrentUser() user: User) {
+    return this.entityResolutionService.split(mergeId, user.username);
   }
 
   @Get(':id')
-  @ApiOperation({ summary: 'Get a specific entity by ID' })
+  @ApiOperation({ summary: 'Get an entity profile: aliases, attributes, coordinates, first/last seen and incident count' })
   @ApiResponse({ status: 200, description: 'Entity retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Entity not found' })
   findOne(@Param('id') id: string) {
     return this.entitiesService.findOne(id);
   }
+
+  @Patch(':id')
+  @Roles('analyst')
+  @ApiOperation({ summary: 'Set or remove free-form entity attributes' })
+  @ApiResponse({ status: 200, description: 'Updated entity' })
+  update(@Param('id') id: string, @Body() updateDto: UpdateEntityDto) {
+    return this.entitiesService.updateMetadata(id, updateDto.metadata);
+  }
+
+  @Get(':id/incidents')
+  @ApiOperation({ summary: 'Incidents linked to an entity, newest first' })
+  @ApiResponse({ status: 200, description: 'Linked incidents retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Entity not found' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Limit number of incidents (default 500)' })
+  findIncidents(@Param('id') id: string, @Query('limit') limit?: string) {
+    return this.entitiesService.findIncidents(id, limit ? parseInt(limit) : undefined);
+  }
+
+  @Get(':id/co-occurring')
+  @ApiOperation({ summary: 'Entities appearing in the same incidents, ranked by how many they share' })
+  @ApiResponse({ status: 200, description: 'Co-occurring entities retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Entity not found' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Limit number of entities (default 20)' })
+  findCoOccurring(@Param('id') id: string, @Query('limit') limit?: string) {
+    return this.entitiesService.findCoOccurring(id, limit ? parseInt(limit) : undefined);
+  }
+
+  @Get(':id/graph')
+  @ApiOperation({ summary: 'Neighbourhood of an entity over incident links, up to a number of hops' })
+  @ApiResponse({ status: 200, description: 'Graph nodes and edges; entities at the last depth can be expanded with another request' })
+  @ApiResponse({ status: 400, description: 'Invalid depth or type filter' })
+  @ApiResponse({ status: 404, description: 'Entity not found' })
+  @ApiQuery({ name: 'depth', required: false, description: 'Entity hops to walk, 1-5 (default 2)' })
+  @ApiQuery({ name: 'types', required: false, description: 'Entity types to walk through (comma-separated, default person,location,organisation,object)' })
+  @ApiQuery({ name: 'incidentTypes', required: false, description: 'Only follow incidents of these types (comma-separated)' })
+  @ApiQuery({ name: 'limit', required: false, description: `Maximum entities and incidents each (default ${DEFAULT_GRAPH_LIMIT}, at most ${MAX_GRAPH_LIMIT})` })
+  getGraph(@Param('id') id: string, @Query() query: any) {
+    const result = GraphQuerySchema.safeParse({
+      entityId: id,
+      depth: query.depth !== undefined ? Number(query.depth) : undefined,
+      types: query.types ? query.types.split(',') : undefined,
+      incidentTypes: query.incidentTypes ? query.incidentTypes.split(',') : undefined,
+    });
+    if (!result.success) {
+      throw new BadRequestException(result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`));
+    }
+
+    const limit = query.limit ? parseInt(query.limit) : DEFAULT_GRAPH_LIMIT;
+    if (!(limit > 0)) {
+      throw new BadRequestException('limit must be a positive number');
+    }
+    return this.entityGraphService.traverse(result.data as GraphQuery, Math.min(limit, MAX_GRAPH_LIMIT));
+  }
+
+  @Get(':id/path/:targetId')
+  @ApiOperation({ summary: 'Shortest chain of shared incidents between two entities' })
+  @ApiResponse({ status: 200, description: 'Path as alternating entity and incident nodes; empty when none was found' })
+  @ApiResponse({ status: 400, description: 'Invalid hop limit or type filter' })
+  @ApiResponse({ status: 404, description: 'Entity not found' })
+  @ApiQuery({ name: 'maxHops', required: false, description: 'Most incidents on the path, 1-5 (default 5)' })
+  @ApiQuery({ name: 'types', required: false, description: 'Entity types to pass through (comma-separated, default person,location,organisation,object)' })
+  @ApiQuery({ name: 'incidentTypes', required: false, description: 'Only follow incidents of these types (comma-separated)' })
+  getPath(@Param('id') id: string, @Param('targetId') targetId: string, @Query() query: any) {
+    const result = GraphQuerySchema.safeParse({
+      entityId: id,
+      depth: query.maxHops !== undefined ? Number(query.maxHops) : 5,
+      types: query.types ? query.types.split(',') : undefined,
+      incidentTypes: query.incidentTypes ? query.incidentTypes.split(',') : undefined,
+    });
+    if (!result.success) {
+      throw new BadRequestException(result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`));
+    }
+    return this.entityGraphService.shortestPath(result.data as GraphQuery, targetId);
+  }
+
+  @Get(':id/similar')
+  @ApiOperation({ summary: 'Entities of the same type with similar names or aliases' })
+  @ApiResponse({ status: 200, description: 'Similar entities, best first' })
+  @ApiResponse({ status: 404, description: 'Entity not found' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Limit number of entities (default 10)' })
+  findSimilar(@Param('id') id: string, @Query('limit') limit?: string) {
+    return this.entityResolutionService.findSimilar(id, limit ? parseInt(limit) : undefined);
+  }
+
+  @Get(':id/merges')
+  @ApiOperation({ summary: 'Merges the entity took part in, newest first' })
+  @ApiResponse({ status: 200, description: 'Merge history retrieved successfully' })
+  findMerges(@Param('id') id: string) {
+    return this.entityResolutionService.findMerges(id);
+  }
+
+  @Post(':id/aliases')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Record another name the entity is known by' })
+  @ApiResponse({ status: 201, description: 'Entity with its aliases' })
+  addAlias(@Param('id') id: string, @Body() aliasDto: EntityAliasDto) {
+    return this.entityResolutionService.addAlias(id, aliasDto.alias);
+  }
+
+  @Delete(':id/aliases/:aliasId')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Remove an alias from an entity' })
+  @ApiResponse({ status: 200, description: 'Entity with its remaining aliases' })
+  removeAlias(@Param('id') id: string, @Param('aliasId') aliasId: string) {
+    return this.entityResolutionService.removeAlias(id, aliasId);
+  }
+}
+
+function parseRelationshipFilters(query: any): RelationshipFilters {
+  const severity = parseList(query.severity);
+  const unknown = severity?.filter(level => !INCIDENT_SEVERITIES.includes(level as IncidentSeverity));
+  if (unknown?.length) {
+    throw new BadRequestException(`Unknown severity: ${unknown.join(', ')}`);
+  }
+  for (const date of ['startDate', 'endDate']) {
+    if (query[date] && isNaN(new Date(query[date]).getTime())) {
+      throw new BadRequestException(`${date} is not a valid date`);
+    }
+  }
+
+  return {
+    startDate: query.startDate,
+    endDate: query.endDate,
+    severity: severity as IncidentSeverity[],
+    category: parseList(query.category),
+    source: parseList(query.source),
+    type: parseList(query.type) as Incident['type'][],
+    bounds: query.bounds ? parseBounds(query.bounds) : undefined,
+    page: query.page ? parseInt(query.page) : undefined,
+    limit: query.limit ? parseInt(query.limit) : undefined,
+  };
+}
+
+function parseCoOccurrenceFilters(query: any): CoOccurrenceFilters {
+  return {
+    types: parseList(query.types) as Entity['type'][],
+    minCount: query.minCount ? parseInt(query.minCount) : undefined,
+    limit: query.limit ? parseInt(query.limit) : undefined,
+  };
+}
+
+function parseAnalyticsFilters(query: any): AnalyticsFilters {
+  if (query.mode && !['incidents', 'co_occurrence'].includes(query.mode)) {
+    throw new BadRequestException('mode must be incidents or co_occurrence');
+  }
+  return query.mode === 'co_occurrence'
+    ? { mode: 'co_occurrence', ...parseCoOccurrenceFilters(query) }
+    : { mode: 'incidents', ...parseRelationshipFilters(query) };
+}
+
+function parseList(value?: string): string[] | undefined {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+}
+
+function parseBounds(value: string): RelationshipFilters['bounds'] {
+  let bounds: any;
+  try {
+    bounds = typeof value === 'string' ? JSON.parse(value) : value;
+  } catch {
+    throw new BadRequestException('bounds must be JSON with north, south, east and west');
+  }
+
+  const parsed = {
+    north: parseFloat(bounds?.north),
+    south: parseFloat(bounds?.south),
+    east: parseFloat(bounds?.east),
+    west: parseFloat(bounds?.west),
+  };
+  if (Object.values(parsed).some(isNaN)) {
+    throw new BadRequestException('bounds must be JSON with north, south, east and west');
+  }
+  return parsed;
 }
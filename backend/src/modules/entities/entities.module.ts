@@ -2,12 +2,34 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { EntitiesController } from './entities.controller';
 import { EntitiesService } from './entities.service';
-import { Entity, Incident } from '../../entities';
+import { EntityStatsService } from './entity-stats.service';
+import { EntityGraphService } from './entity-graph.service';
+import { EntityCoOccurrenceService } from './entity-co-occurrence.service';
+import { EntityAnalyticsService } from './analytics/entity-analytics.service';
+import { EntityExtractionService } from './extraction/entity-extraction.service';
+import { ENTITY_EXTRACTION_MODEL } from './extraction/entity-extraction.model';
+import { RuleBasedEntityExtractor } from './extraction/rule-based-entity-extractor';
+import { EntityResolutionService } from './resolution/entity-resolution.service';
+import { EmbeddingsModule } from '../embeddings/embeddings.module';
+import { Entity, EntityAlias, EntityLink, EntityMention, EntityMerge, Incident } from '../../entities';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Entity, Incident])],
+  imports: [
+    TypeOrmModule.forFeature([Entity, EntityAlias, EntityLink, EntityMention, EntityMerge, Incident]),
+    EmbeddingsModule,
+  ],
   controllers: [EntitiesController],
-  providers: [EntitiesService],
-  exports: [EntitiesService],
+  providers: [
+    EntitiesService,
+    EntityStatsService,
+    EntityGraphService,
+    EntityCoOccurrenceService,
+    EntityAnalyticsService,
+    EntityExtractionService,
+    EntityResolutionService,
+    // Swap useClass to plug in a different named-entity model
+    { provide: ENTITY_EXTRACTION_MODEL, useClass: RuleBasedEntityExtractor },
+  ],
+  exports: [EntitiesService, EntityStatsService, EntityCoOccurrenceService, EntityExtractionService, EntityResolutionService],
 })
 export class EntitiesModule {}
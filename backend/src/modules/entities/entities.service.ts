@@ -1,7 +1,40 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Entity, Incident } from '../../entities';
+import { In, Repository } from 'typeorm';
+import { Entity, EntityLink, Incident, IncidentSeverity } from '../../entities';
+import { EntityResolutionService } from './resolution/entity-resolution.service';
+import { assessSeverity } from '../incidents/incident-severity';
+import { incidentTimestampSql } from '../incidents/incident-datetime';
+
+export const DEFAULT_RELATIONSHIPS_LIMIT = 500;
+export const MAX_RELATIONSHIPS_LIMIT = 2000;
+
+// Month buckets pair with nearly everything, so they are left out unless asked for
+const DEFAULT_CO_OCCURRENCE_TYPES: Entity['type'][] = ['person', 'location', 'organisation', 'object', 'threat_category'];
+export const DEFAULT_CO_OCCURRENCE_LIMIT = 300;
+export const MAX_CO_OCCURRENCE_LIMIT = 2000;
+
+export interface CoOccurrenceFilters {
+  types?: Entity['type'][];
+  minCount?: number;
+  limit?: number;
+}
+
+export type CoOccurringEntity = Entity & Pick<EntityLink, 'weight' | 'timeProximity' | 'spatialProximity'> & {
+  sharedIncidents: number;
+};
+
+export interface RelationshipFilters {
+  startDate?: string;
+  endDate?: string;
+  severity?: IncidentSeverity[];
+  category?: string[];
+  source?: string[];
+  type?: Incident['type'][];
+  bounds?: { north: number; south: number; east: number; west: number };
+  page?: number;
+  limit?: number;
+}
 
 @Injectable()
 export class EntitiesService {
@@ -10,21 +43,143 @@ export class EntitiesService {
     private readonly entityRepository: Repository<Entity>,
     @InjectRepository(Incident)
     private readonly incidentRepository: Repository<Incident>,
+    @InjectRepository(EntityLink)
+    private readonly linkRepository: Repository<EntityLink>,
+    private readonly entityResolutionService: EntityResolutionService,
   ) {}
 
-  findOne(id: string): Promise<Entity> {
-    return this.entityRepository.findOne({ where: { id } });
-  }
-
-  async findOrCreate(entityData: Partial<Entity>): Promise<Entity> {
-    let entity = await this.entityRepository.findOne({ where: { name: entityData.name, type: entityData.type } });
+  async findOne(id: string): Promise<Entity> {
+    const entity = await this.entityRepository.findOne({ where: { id }, relations: ['aliases'] });
     if (!entity) {
-      entity = this.entityRepository.create(entityData);
-      await this.entityRepository.save(entity);
+      throw new NotFoundException(`Entity ${id} not found`);
     }
     return entity;
   }
 
+  findByIds(ids: string[]): Promise<Entity[]> {
+    return this.entityRepository.find({ where: { id: In(ids) } });
+  }
+
+  /**
+   * Incidents linked to the entity, newest first, without their vectors.
+   */
+  async findIncidents(id: string, limit: number = 500): Promise<Incident[]> {
+    await this.findOne(id);
+    return this.incidentRepository
+      .createQueryBuilder('incident')
+      .select([
+        'incident.id', 'incident.type', 'incident.title', 'incident.description', 'incident.category',
+        'incident.source', 'incident.location', 'incident.datetime', 'incident.outcome_status',
+      ])
+      .innerJoin('incident.entities', 'entity', 'entity.id = :id', { id })
+      .orderBy('incident.datetime', 'DESC')
+      .take(limit)
+      .getMany();
+  }
+
+  /**
+   * Entities that share incidents with the given one, ranked by how many,
+   * read from the materialised co-occurrence links.
+   */
+  async findCoOccurring(id: string, limit: number = 20): Promise<CoOccurringEntity[]> {
+    await this.findOne(id);
+    const links = await this.linkRepository.find({
+      where: [{ sourceId: id }, { targetId: id }],
+      relations: ['source', 'target'],
+      order: { coOccurrences: 'DESC', weight: 'DESC' },
+      take: limit,
+    });
+
+    return links.map(link => ({
+      ...(link.sourceId === id ? link.target : link.source),
+      sharedIncidents: link.coOccurrences,
+      weight: link.weight,
+      timeProximity: link.timeProximity,
+      spatialProximity: link.spatialProximity,
+    }));
+  }
+
+  /**
+   * The strongest entity-to-entity links as a graph in the same shape as
+   * getEntityRelationships, without the incidents between them.
+   */
+  async getCoOccurrenceGraph(filters: CoOccurrenceFilters = {}): Promise<any> {
+    const types = filters.types?.length ? filters.types : DEFAULT_CO_OCCURRENCE_TYPES;
+    const limit = Math.min(Math.max(1, filters.limit || DEFAULT_CO_OCCURRENCE_LIMIT), MAX_CO_OCCURRENCE_LIMIT);
+
+    const links = await this.linkRepository
+      .createQueryBuilder('link')
+      .innerJoinAndSelect('link.source', 'source', 'source.type IN (:...types)', { types })
+      .innerJoinAndSelect('link.target', 'target', 'target.type IN (:...types)', { types })
+      .where('link.coOccurrences >= :minCount', { minCount: filters.minCount || 1 })
+      .orderBy('link.weight', 'DESC')
+      .take(limit)
+      .getMany();
+
+    const nodes = new Map();
+    for (const entity of links.flatMap(link => [link.source, link.target])) {
+      nodes.set(`entity_${entity.id}`, {
+        id: `entity_${entity.id}`,
+        label: entity.name,
+        type: entity.type,
+        data: {
+          id: entity.id,
+          name: entity.name,
+          type: entity.type,
+          incidentCount: entity.incidentCount
+        },
+        size: this.getSizeByType(entity.type),
+        color: this.getColorByEntityType(entity.type)
+      });
+    }
+
+    // Edge weights are scaled to the strongest link so they draw like the incident graph's
+    const strongest = Math.max(1, ...links.map(link => link.weight));
+    const edges = links.map(link => ({
+      id: `entity_${link.sourceId}-entity_${link.targetId}`,
+      source: `entity_${link.sourceId}`,
+      target: `entity_${link.targetId}`,
+      type: 'co_occurs',
+      weight: Math.max(0.2, link.weight / strongest),
+      data: {
+        coOccurrences: link.coOccurrences,
+        score: link.weight,
+        timeProximity: link.timeProximity,
+        spatialProximity: link.spatialProximity,
+        firstCoOccurredAt: link.firstCoOccurredAt,
+        lastCoOccurredAt: link.lastCoOccurredAt
+      }
+    }));
+
+    return {
+      nodes: Array.from(nodes.values()),
+      edges,
+      stats: {
+        totalNodes: nodes.size,
+        totalEdges: edges.length,
+        incidentNodes: 0,
+        entityNodes: nodes.size
+      }
+    };
+  }
+
+  async updateMetadata(id: string, changes: Record<string, any>): Promise<Entity> {
+    const entity = await this.findOne(id);
+    const metadata = { ...(entity.metadata || {}) };
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) delete metadata[key];
+      else metadata[key] = value;
+    }
+
+    await this.entityRepository.update(id, { metadata: Object.keys(metadata).length > 0 ? metadata : null });
+    return this.findOne(id);
+  }
+
+  // Resolves spelling variants such as "Camden High St" to the same entity
+  findOrCreate(entityData: Pick<Entity, 'type' | 'name'>): Promise<Entity> {
+    return this.entityResolutionService.resolve(entityData);
+  }
+
   create(entityData: Partial<Entity>): Promise<Entity> {
     const entity = this.entityRepository.create(entityData);
     return this.entityRepository.save(entity);
@@ -47,36 +202,64 @@ export class EntitiesService {
       .getMany();
   }
 
-  async getEntityRelationships(filters?: any): Promise<any> {
-    // Get incidents with their entities based on filters
-    const incidentQuery = this.incidentRepository
-      .createQueryBuilder('incident')
-      .leftJoinAndSelect('incident.entities', 'entity');
+  /**
+   * Incidents matching the filters, a page at a time and newest first, as
+   * graph nodes linked to their entities, plus entity-to-entity edges for
+   * entities sharing an incident on the page.
+   */
+  async getEntityRelationships(filters: RelationshipFilters = {}): Promise<any> {
+    const page = Math.max(1, filters.page || 1);
+    const limit = Math.min(Math.max(1, filters.limit || DEFAULT_RELATIONSHIPS_LIMIT), MAX_RELATIONSHIPS_LIMIT);
 
-    // Apply date filters if provided
-    if (filters?.startDate) {
-      incidentQuery.andWhere('incident.date >= :startDate', { startDate: filters.startDate });
+    const incidentQuery = this.incidentRepository.createQueryBuilder('incident').select('incident.id');
+
+    // Compared as timestamps; incidents whose datetime does not parse never match a date filter
+    if (filters.startDate) {
+      incidentQuery.andWhere(`${incidentTimestampSql()} >= CAST(:startDate AS timestamptz)`, {
+        startDate: new Date(filters.startDate).toISOString(),
+      });
     }
-    if (filters?.endDate) {
-      incidentQuery.andWhere('incident.date <= :endDate', { endDate: filters.endDate });
+    if (filters.endDate) {
+      // A bare date includes the whole day
+      const endDate = new Date(filters.endDate);
+      if (/^\d{4}-\d{2}-\d{2}$/.test(filters.endDate)) endDate.setUTCHours(23, 59, 59, 999);
+      incidentQuery.andWhere(`${incidentTimestampSql()} <= CAST(:endDate AS timestamptz)`, { endDate: endDate.toISOString() });
     }
-
-    // Apply severity filters
-    if (filters?.severity?.length) {
+    if (filters.severity?.length) {
       incidentQuery.andWhere('incident.severity IN (:...severities)', { severities: filters.severity });
     }
-
-    // Apply category filters
-    if (filters?.category?.length) {
+    if (filters.category?.length) {
       incidentQuery.andWhere('incident.category IN (:...categories)', { categories: filters.category });
     }
-
-    // Apply source filters
-    if (filters?.source?.length) {
+    if (filters.source?.length) {
       incidentQuery.andWhere('incident.source IN (:...sources)', { sources: filters.source });
     }
+    if (filters.type?.length) {
+      incidentQuery.andWhere('incident.type IN (:...types)', { types: filters.type });
+    }
+    if (filters.bounds) {
+      const { north, south, east, west } = filters.bounds;
+      incidentQuery.andWhere("(incident.location->>'lat')::float BETWEEN :south AND :north", { south, north });
+      incidentQuery.andWhere("(incident.location->>'lng')::float BETWEEN :west AND :east", { west, east });
+    }
 
-    const incidents = await incidentQuery.getMany();
+    const [pageIncidents, total] = await incidentQuery
+      .orderBy('incident.datetime', 'DESC')
+      .addOrderBy('incident.id', 'ASC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    const incidents = pageIncidents.length === 0 ? [] : await this.incidentRepository
+      .createQueryBuilder('incident')
+      .select([
+        'incident.id', 'incident.type', 'incident.title', 'incident.category', 'incident.source',
+        'incident.datetime', 'incident.severity',
+      ])
+      .leftJoinAndSelect('incident.entities', 'entity')
+      .where('incident.id IN (:...ids)', { ids: pageIncidents.map(incident => incident.id) })
+      .orderBy('incident.datetime', 'DESC')
+      .getMany();
 
     // Build nodes and edges from the data
     const nodes = new Map();
@@ -87,7 +270,7 @@ export class EntitiesService {
       // Add incident as a node
       const incidentNodeId = `incident_${incident.id}`;
       if (!nodes.has(incidentNodeId)) {
-        const severity = this.getSeverityFromCategory(incident.category);
+        const severity = incident.severity || assessSeverity(incident);
         nodes.set(incidentNodeId, {
           id: incidentNodeId,
           label: incident.title || `Incident ${incident.id.substring(0, 8)}`,
@@ -98,7 +281,8 @@ export class EntitiesService {
             severity: severity,
             category: incident.category,
             date: incident.datetime,
-            source: incident.source
+            source: incident.source,
+            incidentType: incident.type
           },
           size: this.getSizeByType('incident'),
           color: this.getColorBySeverity(severity)
@@ -157,11 +341,8 @@ export class EntitiesService {
         const targetId = `entity_${connectedEntityId}`;
         const edgeId = `${sourceId}-${targetId}`;
 
-        // Avoid duplicate edges
-        if (!edges.find(e =>
-          (e.source === sourceId && e.target === targetId) ||
-          (e.source === targetId && e.target === sourceId)
-        )) {
+        // Connections are recorded both ways, so keep one edge per pair
+        if (entityId < connectedEntityId) {
           edges.push({
             id: edgeId,
             source: sourceId,
@@ -181,7 +362,11 @@ export class EntitiesService {
         totalEdges: edges.length,
         incidentNodes: Array.from(nodes.values()).filter(n => n.type === 'incident').length,
         entityNodes: Array.from(nodes.values()).filter(n => n.type !== 'incident').length
-      }
+      },
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
     };
   }
 
@@ -208,27 +393,6 @@ export class EntitiesService {
     return colors[severity] || '#6B7280';
   }
 
-  private getSeverityFromCategory(category: string): string {
-    // Map incident categories to severity levels
-    const categoryToSeverity = {
-      'violent-crime': 'critical',
-      'burglary': 'high',
-      'robbery': 'high',
-      'theft-from-the-person': 'medium',
-      'vehicle-crime': 'medium',
-      'anti-social-behaviour': 'low',
-      'criminal-damage-arson': 'medium',
-      'drugs': 'medium',
-      'possession-of-weapons': 'high',
-      'public-order': 'low',
-      'shoplifting': 'low',
-      'other-theft': 'low',
-      'bicycle-theft': 'low',
-      'other-crime': 'medium'
-    };
-    return categoryToSeverity[category] || 'medium';
-  }
-
   private getColorByEntityType(type: string): string {
     const colors = {
       person: '#8B5CF6',
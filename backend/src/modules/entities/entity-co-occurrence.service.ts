@@ -0,0 +1,146 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Entity, EntityLink, Incident } from '../../entities';
+import { incidentTimestampSql } from '../incidents/incident-datetime';
+
+// A gap of one scale between two entities' incidents scores about 0.37 (1/e)
+const TIME_SCALE_DAYS = 30;
+const DISTANCE_SCALE_KM = 1;
+
+// Linked to most incidents, so refreshing one rebuilds most of the table. Ingestion
+// leaves them out and their pairs with each other wait for the nightly rebuild.
+export const HUB_ENTITY_TYPES: Entity['type'][] = ['threat_category', 'temporal'];
+
+/**
+ * Materialises entity-to-entity links from shared incidents into
+ * entity_links, so the graph can draw one weighted edge per pair instead of
+ * every incident between them. A pair's weight is its co-occurrence count,
+ * scaled down to half when the two entities are active at different times
+ * and in different places:
+ *
+ *   weight = coOccurrences * (0.5 + 0.25 * timeProximity + 0.25 * spatialProximity)
+ *
+ * Proximities compare the mean time and the centre of each entity's
+ * incidents, decaying exponentially with the gap between them.
+ */
+@Injectable()
+export class EntityCoOccurrenceService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(EntityCoOccurrenceService.name);
+
+  constructor(
+    @InjectRepository(EntityLink)
+    private readonly linkRepository: Repository<EntityLink>,
+  ) {}
+
+  // Incidents linked before entity_links existed have no pairs yet
+  async onApplicationBootstrap() {
+    const { table } = this.incidentJunction();
+    const [unlinked] = await this.linkRepository.query(
+      `SELECT 1 WHERE NOT EXISTS (SELECT 1 FROM entity_links) AND EXISTS (SELECT 1 FROM "${table}")`,
+    );
+    if (unlinked) {
+      const refreshed = await this.refresh();
+      this.logger.log(`Materialised ${refreshed} entity co-occurrence links`);
+    }
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async rebuild() {
+    const refreshed = await this.refresh();
+    this.logger.log(`Rebuilt ${refreshed} entity co-occurrence links`);
+  }
+
+  /**
+   * Recomputes every pair involving the given entities, or all pairs when
+   * no ids are passed. Returns the number of pairs written.
+   */
+  async refresh(entityIds?: string[]): Promise<number> {
+    if (entityIds && entityIds.length === 0) {
+      return 0;
+    }
+
+    const { table, incidentColumn, entityColumn } = this.incidentJunction();
+    const ids = entityIds ? Array.from(new Set(entityIds)) : null;
+
+    return this.linkRepository.manager.transaction(async manager => {
+      if (ids) {
+        await manager.query(
+          `DELETE FROM entity_links WHERE "sourceId" = ANY($1::uuid[]) OR "targetId" = ANY($1::uuid[])`,
+          [ids],
+        );
+      } else {
+        await manager.query('DELETE FROM entity_links');
+      }
+
+      // A structured result, as pg only reports the row count of an INSERT there
+      const { affected } = await manager.queryRunner.query(
+        `WITH pairs AS (
+           SELECT a."${entityColumn}" AS source, b."${entityColumn}" AS target,
+             COUNT(*) AS count,
+             MIN(${incidentTimestampSql()}) AS first_at,
+             MAX(${incidentTimestampSql()}) AS last_at
+           FROM "${table}" a
+           JOIN "${table}" b ON b."${incidentColumn}" = a."${incidentColumn}" AND a."${entityColumn}" < b."${entityColumn}"
+           JOIN incidents incident ON incident.id = a."${incidentColumn}"
+           ${ids ? `WHERE a."${entityColumn}" = ANY($1::uuid[]) OR b."${entityColumn}" = ANY($1::uuid[])` : ''}
+           GROUP BY a."${entityColumn}", b."${entityColumn}"
+         ),
+         profile AS (
+           SELECT link."${entityColumn}" AS id,
+             AVG(EXTRACT(EPOCH FROM ${incidentTimestampSql()})) AS at,
+             AVG(NULLIF(incident.location->>'lat', '')::float) AS lat,
+             AVG(NULLIF(incident.location->>'lng', '')::float) AS lng
+           FROM "${table}" link
+           JOIN incidents incident ON incident.id = link."${incidentColumn}"
+           WHERE link."${entityColumn}" IN (SELECT source FROM pairs UNION SELECT target FROM pairs)
+           GROUP BY link."${entityColumn}"
+         ),
+         scored AS (
+           SELECT pairs.*,
+             -- Entities whose incidents have no valid datetime get no time proximity
+             COALESCE(EXP(-ABS(s.at - t.at) / ${TIME_SCALE_DAYS * 86400}), 0) AS time_proximity,
+             COALESCE(EXP(-2 * 6371 * ASIN(LEAST(1, SQRT(
+               POWER(SIN(RADIANS(t.lat - s.lat) / 2), 2) +
+               COS(RADIANS(s.lat)) * COS(RADIANS(t.lat)) * POWER(SIN(RADIANS(t.lng - s.lng) / 2), 2)
+             ))) / ${DISTANCE_SCALE_KM}), 0) AS spatial_proximity
+           FROM pairs
+           JOIN profile s ON s.id = pairs.source
+           JOIN profile t ON t.id = pairs.target
+         )
+         INSERT INTO entity_links
+           ("sourceId", "targetId", "coOccurrences", "timeProximity", "spatialProximity", weight, "firstCoOccurredAt", "lastCoOccurredAt")
+         SELECT source, target, count, time_proximity, spatial_proximity,
+           count * (0.5 + 0.25 * time_proximity + 0.25 * spatial_proximity), first_at, last_at
+         FROM scored
+         -- A concurrent refresh of an overlapping batch may have written the pair already
+         ON CONFLICT ("sourceId", "targetId") DO UPDATE SET
+           "coOccurrences" = EXCLUDED."coOccurrences",
+           "timeProximity" = EXCLUDED."timeProximity",
+           "spatialProximity" = EXCLUDED."spatialProximity",
+           weight = EXCLUDED.weight,
+           "firstCoOccurredAt" = EXCLUDED."firstCoOccurredAt",
+           "lastCoOccurredAt" = EXCLUDED."lastCoOccurredAt",
+           "updatedAt" = now()`,
+        ids ? [ids] : [],
+        true,
+      );
+
+      return affected;
+    });
+  }
+
+  private incidentJunction() {
+    const junction = this.linkRepository.manager.connection
+      .getMetadata(Incident)
+      .findRelationWithPropertyPath('entities')
+      .junctionEntityMetadata;
+
+    return {
+      table: junction.tableName,
+      incidentColumn: junction.ownerColumns[0].databaseName,
+      entityColumn: junction.inverseColumns[0].databaseName,
+    };
+  }
+}
@@ -0,0 +1,335 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { EntityType, GraphEdge, GraphNode, GraphQuery, GraphResult } from '@intel-fusion/shared';
+import { Entity, Incident } from '../../entities';
+
+// Month buckets and threat categories link most incidents to each other, so they are only walked when asked for
+const DEFAULT_TYPES: EntityType[] = ['person', 'location', 'organisation', 'object'];
+export const DEFAULT_GRAPH_LIMIT = 500;
+export const MAX_GRAPH_LIMIT = 2000;
+// Entities a path search may visit before giving up
+export const MAX_PATH_SEARCH = 20000;
+
+/**
+ * Neighbourhood of one entity over incident links: depth 1 is the entities
+ * sharing an incident with it, depth 2 the entities sharing an incident
+ * with those, and so on.
+ */
+@Injectable()
+export class EntityGraphService {
+  constructor(
+    @InjectRepository(Entity)
+    private readonly entityRepository: Repository<Entity>,
+    @InjectRepository(Incident)
+    private readonly incidentRepository: Repository<Incident>,
+  ) {}
+
+  /**
+   * Walks the links breadth first, keeping each entity at the shallowest
+   * depth it was reached. Entities on the last level are returned without
+   * their incidents, so the client can expand them with another request.
+   * At most `limit` entities and `limit` incidents come back.
+   */
+  async traverse(query: GraphQuery, limit: number = DEFAULT_GRAPH_LIMIT): Promise<GraphResult> {
+    const root = await this.entityRepository.findOne({ where: { id: query.entityId } });
+    if (!root) {
+      throw new NotFoundException(`Entity ${query.entityId} not found`);
+    }
+
+    const { table, incidentColumn, entityColumn } = this.incidentJunction();
+    const types = query.types && query.types.length > 0 ? query.types : DEFAULT_TYPES;
+    // An empty list means every incident type
+    const incidentTypes = query.incidentTypes || [];
+
+    // One query per level, so each entity is expanded once at its shallowest
+    // depth and no level can return more entities than there is room for
+    const depths = new Map<string, number>([[root.id, 0]]);
+    let frontier = [root.id];
+    let truncated = false;
+    for (let depth = 1; depth <= query.depth && frontier.length > 0; depth++) {
+      const room = limit - depths.size;
+      if (room <= 0) {
+        truncated = true;
+        break;
+      }
+
+      // Neighbours sharing most incidents with the frontier are kept first when a level is cut short
+      const reached: { id: string }[] = await this.entityRepository.query(
+        `SELECT next."${entityColumn}" AS id
+         FROM "${table}" link
+         JOIN incidents incident ON incident.id = link."${incidentColumn}"
+           AND (cardinality($3::text[]) = 0 OR incident.type = ANY($3::text[]))
+         JOIN "${table}" next ON next."${incidentColumn}" = link."${incidentColumn}" AND next."${entityColumn}" <> link."${entityColumn}"
+         JOIN entities neighbour ON neighbour.id = next."${entityColumn}" AND neighbour.type = ANY($2::text[])
+         WHERE link."${entityColumn}" = ANY($1::uuid[])
+           AND NOT (next."${entityColumn}" = ANY($4::uuid[]))
+         GROUP BY next."${entityColumn}"
+         ORDER BY COUNT(*) DESC, next."${entityColumn}"
+         LIMIT $5`,
+        [frontier, types, incidentTypes, Array.from(depths.keys()), room + 1],
+      );
+
+      if (reached.length > room) {
+        reached.length = room;
+        truncated = true;
+      }
+      reached.forEach(row => depths.set(row.id, depth));
+      frontier = reached.map(row => row.id);
+    }
+
+    const expanded = Array.from(depths.entries())
+      .filter(([, depth]) => depth < query.depth)
+      .map(([id]) => id);
+
+    // Incidents of every expanded entity, each at one more than the shallowest entity it joins
+    const links: { incidentId: string; entityId: string }[] = expanded.length === 0 ? [] : await this.entityRepository.query(
+      `SELECT link."${incidentColumn}" AS "incidentId", link."${entityColumn}" AS "entityId"
+       FROM "${table}" link
+       JOIN incidents incident ON incident.id = link."${incidentColumn}"
+         AND (cardinality($3::text[]) = 0 OR incident.type = ANY($3::text[]))
+       WHERE link."${incidentColumn}" IN (
+         SELECT "${incidentColumn}" FROM "${table}" WHERE "${entityColumn}" = ANY($1::uuid[])
+       )
+       AND link."${entityColumn}" = ANY($2::uuid[])`,
+      [expanded, Array.from(depths.keys()), incidentTypes],
+    );
+
+    const incidentDepths = new Map<string, number>();
+    for (const { incidentId, entityId } of links) {
+      const depth = depths.get(entityId) + 1;
+      incidentDepths.set(incidentId, Math.min(incidentDepths.get(incidentId) ?? depth, depth));
+    }
+
+    const incidentIds = Array.from(incidentDepths.keys())
+      .sort((a, b) => incidentDepths.get(a) - incidentDepths.get(b));
+    if (incidentIds.length > limit) {
+      incidentIds.length = limit;
+      truncated = true;
+    }
+    const kept = new Set(incidentIds);
+
+    const [entities, incidents] = await Promise.all([
+      this.entityRepository.find({ where: { id: In(Array.from(depths.keys())) } }),
+      incidentIds.length === 0 ? [] : this.incidentRepository.find({
+        select: ['id', 'type', 'title', 'category', 'source', 'location', 'datetime'],
+        where: { id: In(incidentIds) },
+      }),
+    ]);
+
+    const nodes: GraphNode[] = [
+      ...entities.map(entity => ({
+        id: entity.id,
+        type: entity.type as GraphNode['type'],
+        label: entity.name,
+        properties: {
+          kind: 'entity',
+          depth: depths.get(entity.id),
+          incidentCount: entity.incidentCount,
+          firstSeenAt: entity.firstSeenAt,
+          lastSeenAt: entity.lastSeenAt,
+          location: entity.location,
+        },
+      })),
+      ...incidents.map(incident => ({
+        id: incident.id,
+        type: incident.type as GraphNode['type'],
+        label: incident.title,
+        properties: {
+          kind: 'incident',
+          depth: incidentDepths.get(incident.id),
+          category: incident.category,
+          source: incident.source,
+          datetime: incident.datetime,
+          location: incident.location,
+        },
+      })),
+    ];
+
+    const typeOf = new Map(entities.map(entity => [entity.id, entity.type]));
+    const edges: GraphEdge[] = links
+      .filter(link => kept.has(link.incidentId))
+      .map(link => ({
+        source: link.incidentId,
+        target: link.entityId,
+        type: typeOf.get(link.entityId) === 'location' ? 'occurred_at' : 'involves',
+        weight: 1,
+        properties: {},
+      }));
+
+    return {
+      nodes,
+      edges,
+      metadata: {
+        totalNodes: nodes.length,
+        totalEdges: edges.length,
+        maxDepth: Math.max(0, ...depths.values(), ...incidentDepths.values()),
+        truncated,
+      },
+    };
+  }
+
+  /**
+   * Fewest incident hops from `query.entityId` to `targetId`, walking out
+   * from both ends at once and always growing the smaller side. Returns the
+   * path as alternating entity and incident nodes, or an empty graph when
+   * none is found within `query.depth` hops; truncated is set when the
+   * search gave up after reaching `limit` entities.
+   */
+  async shortestPath(query: GraphQuery, targetId: string, limit: number = MAX_PATH_SEARCH): Promise<GraphResult> {
+    const ends = await this.entityRepository.find({ where: { id: In([query.entityId, targetId]) } });
+    for (const id of [query.entityId, targetId]) {
+      if (!ends.some(entity => entity.id === id)) {
+        throw new NotFoundException(`Entity ${id} not found`);
+      }
+    }
+
+    const { table, incidentColumn, entityColumn } = this.incidentJunction();
+    const types = query.types && query.types.length > 0 ? query.types : DEFAULT_TYPES;
+    const incidentTypes = query.incidentTypes || [];
+
+    // Each side maps an entity to the incident and entity it was reached through
+    const forward = new Map<string, { incidentId: string; entityId: string }>([[query.entityId, null]]);
+    const backward = new Map<string, { incidentId: string; entityId: string }>([[targetId, null]]);
+    let forwardFrontier = [query.entityId];
+    let backwardFrontier = [targetId];
+    let meeting = query.entityId === targetId ? targetId : null;
+    let truncated = false;
+
+    for (let hops = 0; !meeting && hops < query.depth; hops++) {
+      const room = limit - forward.size - backward.size;
+      if (room <= 0) {
+        truncated = true;
+        break;
+      }
+
+      const growForward = forwardFrontier.length <= backwardFrontier.length;
+      const [visited, other, frontier] = growForward
+        ? [forward, backward, forwardFrontier]
+        : [backward, forward, backwardFrontier];
+      if (frontier.length === 0) break;
+
+      // One step per unvisited neighbour, those the other side has reached first so a cut keeps the meeting
+      const steps: { entityId: string; incidentId: string; neighbourId: string }[] = await this.entityRepository.query(
+        `SELECT * FROM (
+           SELECT DISTINCT ON (next."${entityColumn}")
+             link."${entityColumn}" AS "entityId", link."${incidentColumn}" AS "incidentId", next."${entityColumn}" AS "neighbourId"
+           FROM "${table}" link
+           JOIN incidents incident ON incident.id = link."${incidentColumn}"
+             AND (cardinality($3::text[]) = 0 OR incident.type = ANY($3::text[]))
+           JOIN "${table}" next ON next."${incidentColumn}" = link."${incidentColumn}" AND next."${entityColumn}" <> link."${entityColumn}"
+           JOIN entities neighbour ON neighbour.id = next."${entityColumn}"
+             AND (neighbour.type = ANY($2::text[]) OR neighbour.id = ANY($4::uuid[]))
+           WHERE link."${entityColumn}" = ANY($1::uuid[])
+             AND NOT (next."${entityColumn}" = ANY($5::uuid[]))
+           ORDER BY next."${entityColumn}", link."${entityColumn}", link."${incidentColumn}"
+         ) step
+         ORDER BY "neighbourId" = ANY($6::uuid[]) DESC, "neighbourId"
+         LIMIT $7`,
+        [frontier, types, incidentTypes, [query.entityId, targetId], Array.from(visited.keys()), Array.from(other.keys()), room + 1],
+      );
+
+      if (steps.length > room) {
+        steps.length = room;
+        truncated = true;
+      }
+
+      const next: string[] = [];
+      for (const step of steps) {
+        visited.set(step.neighbourId, { incidentId: step.incidentId, entityId: step.entityId });
+        next.push(step.neighbourId);
+        if (other.has(step.neighbourId)) {
+          meeting = step.neighbourId;
+          break;
+        }
+      }
+
+      if (growForward) forwardFrontier = next;
+      else backwardFrontier = next;
+    }
+
+    if (!meeting) {
+      return { nodes: [], edges: [], metadata: { totalNodes: 0, totalEdges: 0, maxDepth: 0, truncated } };
+    }
+
+    // Entity ids at even positions, the incidents joining them in between
+    const path = [meeting];
+    for (let step = forward.get(meeting); step; step = forward.get(step.entityId)) {
+      path.unshift(step.entityId);
+      path.unshift(step.incidentId);
+    }
+    for (let step = backward.get(meeting); step; step = backward.get(step.entityId)) {
+      path.push(step.incidentId);
+      path.push(step.entityId);
+    }
+
+    const entityIds = path.filter((_, i) => i % 2 === 0);
+    const incidentIds = path.filter((_, i) => i % 2 === 1);
+    const [entities, incidents] = await Promise.all([
+      this.entityRepository.find({ where: { id: In(entityIds) } }),
+      incidentIds.length === 0 ? ([] as Incident[]) : this.incidentRepository.find({
+        select: ['id', 'type', 'title', 'category', 'source', 'location', 'datetime'],
+        where: { id: In(incidentIds) },
+      }),
+    ]);
+    const entityById = new Map(entities.map(entity => [entity.id, entity]));
+    const incidentById = new Map(incidents.map(incident => [incident.id, incident]));
+
+    const nodes: GraphNode[] = path.map((id, i) => {
+      if (i % 2 === 1) {
+        const incident = incidentById.get(id);
+        return {
+          id,
+          type: incident.type as GraphNode['type'],
+          label: incident.title,
+          properties: {
+            kind: 'incident',
+            depth: i,
+            category: incident.category,
+            source: incident.source,
+            datetime: incident.datetime,
+            location: incident.location,
+          },
+        };
+      }
+      const entity = entityById.get(id);
+      return {
+        id,
+        type: entity.type as GraphNode['type'],
+        label: entity.name,
+        properties: {
+          kind: 'entity',
+          depth: i,
+          incidentCount: entity.incidentCount,
+          location: entity.location,
+        },
+      };
+    });
+
+    const edges: GraphEdge[] = incidentIds.flatMap((incidentId, i) => [entityIds[i], entityIds[i + 1]].map(entityId => ({
+      source: incidentId,
+      target: entityId,
+      type: entityById.get(entityId).type === 'location' ? 'occurred_at' : 'involves',
+      weight: 1,
+      properties: {},
+    })));
+
+    return {
+      nodes,
+      edges,
+      metadata: { totalNodes: nodes.length, totalEdges: edges.length, maxDepth: incidentIds.length, truncated },
+    };
+  }
+
+  private incidentJunction() {
+    const junction = this.incidentRepository.metadata
+      .findRelationWithPropertyPath('entities')
+      .junctionEntityMetadata;
+
+    return {
+      table: junction.tableName,
+      incidentColumn: junction.ownerColumns[0].databaseName,
+      entityColumn: junction.inverseColumns[0].databaseName,
+    };
+  }
+}
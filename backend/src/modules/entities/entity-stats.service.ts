@@ -0,0 +1,99 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Entity, Incident } from '../../entities';
+import { incidentTimestampSql } from '../incidents/incident-datetime';
+
+/**
+ * Keeps each entity's incident count, first and last seen times and, for
+ * locations, coordinates in line with the incidents linked to it. Counts are
+ * recomputed rather than incremented, since re-ingesting an incident upserts
+ * links that may already exist.
+ */
+@Injectable()
+export class EntityStatsService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(EntityStatsService.name);
+
+  constructor(
+    @InjectRepository(Entity)
+    private readonly entityRepository: Repository<Entity>,
+  ) {}
+
+  // Entities linked before these columns existed have never been counted
+  async onApplicationBootstrap() {
+    const { table, entityColumn } = this.incidentJunction();
+    const [uncounted] = await this.entityRepository.query(
+      `SELECT 1 FROM entities WHERE "incidentCount" = 0
+         AND EXISTS (SELECT 1 FROM "${table}" link WHERE link."${entityColumn}" = entities.id)
+       LIMIT 1`,
+    );
+    if (uncounted) {
+      const refreshed = await this.refresh();
+      this.logger.log(`Computed incident statistics for ${refreshed} entities`);
+    }
+  }
+
+  /**
+   * Recomputes the given entities, or all of them when no ids are passed.
+   * Returns how many entities have at least one incident.
+   */
+  async refresh(entityIds?: string[]): Promise<number> {
+    if (entityIds && entityIds.length === 0) {
+      return 0;
+    }
+
+    const { table, incidentColumn, entityColumn } = this.incidentJunction();
+    const ids = entityIds ? Array.from(new Set(entityIds)) : null;
+    const filter = ids ? `WHERE link."${entityColumn}" = ANY($1::uuid[])` : '';
+
+    const [, refreshed] = await this.entityRepository.query(
+      `UPDATE entities AS entity SET
+         "incidentCount" = stats.count,
+         "firstSeenAt" = stats.first_seen,
+         "lastSeenAt" = stats.last_seen,
+         location = CASE
+           WHEN entity.type = 'location' AND stats.lat IS NOT NULL THEN jsonb_build_object('lat', stats.lat, 'lng', stats.lng)
+           ELSE entity.location
+         END
+       FROM (
+         SELECT link."${entityColumn}" AS id,
+           COUNT(*) AS count,
+           MIN(${incidentTimestampSql()}) AS first_seen,
+           MAX(${incidentTimestampSql()}) AS last_seen,
+           AVG(NULLIF(incident.location->>'lat', '')::float) AS lat,
+           AVG(NULLIF(incident.location->>'lng', '')::float) AS lng
+         FROM "${table}" link
+         JOIN incidents incident ON incident.id = link."${incidentColumn}"
+         ${filter}
+         GROUP BY link."${entityColumn}"
+       ) stats
+       WHERE entity.id = stats.id`,
+      ids ? [ids] : [],
+    );
+
+    // Entities that lost every link, e.g. after a split
+    if (ids) {
+      await this.entityRepository.query(
+        `UPDATE entities SET "incidentCount" = 0, "firstSeenAt" = NULL, "lastSeenAt" = NULL
+         WHERE id = ANY($1::uuid[]) AND "incidentCount" > 0
+           AND NOT EXISTS (SELECT 1 FROM "${table}" link WHERE link."${entityColumn}" = entities.id)`,
+        [ids],
+      );
+    }
+
+    return refreshed;
+  }
+
+  private incidentJunction() {
+    const junction = this.entityRepository.manager.connection
+      .getMetadata(Incident)
+      .findRelationWithPropertyPath('entities')
+      .junctionEntityMetadata;
+
+    return {
+      table: junction.tableName,
+      incidentColumn: junction.ownerColumns[0].databaseName,
+      entityColumn: junction.inverseColumns[0].databaseName,
+    };
+  }
+}
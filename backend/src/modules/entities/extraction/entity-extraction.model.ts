@@ -0,0 +1,29 @@
+import { MentionLabel } from '../../../entities';
+
+/**
+ * One span of text a model recognised as a named entity.
+ */
+export interface ExtractedMention {
+  label: MentionLabel;
+  // Surface form as written, e.g. "knives"
+  text: string;
+  // Canonical name the entity is stored under, e.g. "knife"
+  name: string;
+  start: number;
+  end: number;
+  // 0-1; mentions below ENTITY_MIN_CONFIDENCE are discarded
+  confidence: number;
+}
+
+/**
+ * A named-entity recogniser for free incident text. The default is the local
+ * RuleBasedEntityExtractor; a statistical or hosted model can replace it by
+ * providing ENTITY_EXTRACTION_MODEL in EntitiesModule.
+ */
+export interface EntityExtractionModel {
+  // Recorded on every mention so results from different models can be told apart
+  readonly name: string;
+  extract(text: string): Promise<ExtractedMention[]>;
+}
+
+export const ENTITY_EXTRACTION_MODEL = Symbol('ENTITY_EXTRACTION_MODEL');
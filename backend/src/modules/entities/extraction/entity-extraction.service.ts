@@ -0,0 +1,96 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Entity, EntityMention, Incident, MentionLabel } from '../../../entities';
+import { EntitiesService } from '../entities.service';
+import { ENTITY_EXTRACTION_MODEL, EntityExtractionModel } from './entity-extraction.model';
+
+// Mentions less certain than this are dropped unless ENTITY_MIN_CONFIDENCE says otherwise
+const DEFAULT_MIN_CONFIDENCE = 0.5;
+
+const TEXT_FIELDS = ['title', 'description'] as const;
+
+// Vehicles and weapons are stored as objects; the mention keeps the finer label
+const ENTITY_TYPE_BY_LABEL: Record<MentionLabel, Entity['type']> = {
+  person: 'person',
+  organisation: 'organisation',
+  place: 'location',
+  vehicle: 'object',
+  weapon: 'object',
+};
+
+export interface IncidentExtraction {
+  entities: Entity[];
+  // Not yet saved; the incident may not exist until the caller saves it
+  mentions: Omit<EntityMention, 'id' | 'incidentId' | 'incident' | 'entity' | 'createdAt'>[];
+}
+
+/**
+ * Runs the configured EntityExtractionModel over an incident's title and
+ * description and resolves what it finds to stored entities.
+ */
+@Injectable()
+export class EntityExtractionService {
+  private readonly logger = new Logger(EntityExtractionService.name);
+  private readonly minConfidence = parseFloat(process.env.ENTITY_MIN_CONFIDENCE) || DEFAULT_MIN_CONFIDENCE;
+
+  constructor(
+    @Inject(ENTITY_EXTRACTION_MODEL)
+    private readonly model: EntityExtractionModel,
+    private readonly entitiesService: EntitiesService,
+    @InjectRepository(EntityMention)
+    private readonly mentionRepository: Repository<EntityMention>,
+  ) {}
+
+  async extract(incident: Partial<Incident>): Promise<IncidentExtraction> {
+    const entities = new Map<string, Entity>();
+    const mentions: IncidentExtraction['mentions'] = [];
+
+    for (const field of TEXT_FIELDS) {
+      const text = incident[field];
+      if (!text) continue;
+
+      let found;
+      try {
+        found = await this.model.extract(text);
+      } catch (error) {
+        // A failing model should cost the incident its text entities, not the incident itself
+        this.logger.warn(`${this.model.name} failed on ${incident.id} ${field}: ${error.message}`);
+        continue;
+      }
+
+      for (const mention of found) {
+        if (mention.confidence < this.minConfidence) continue;
+
+        const entity = await this.entitiesService.findOrCreate({
+          type: ENTITY_TYPE_BY_LABEL[mention.label],
+          name: mention.name,
+        });
+        entities.set(entity.id, entity);
+        mentions.push({
+          entityId: entity.id,
+          field,
+          text: mention.text,
+          start: mention.start,
+          end: mention.end,
+          label: mention.label,
+          confidence: mention.confidence,
+          extractor: this.model.name,
+        });
+      }
+    }
+
+    return { entities: Array.from(entities.values()), mentions };
+  }
+
+  /**
+   * Replaces the incident's mentions, so re-ingesting an edited incident
+   * does not keep spans from its old text.
+   */
+  async saveMentions(incidentId: string, mentions: IncidentExtraction['mentions']): Promise<void> {
+    await this.mentionRepository.delete({ incidentId });
+    if (mentions.length > 0) {
+      await this.mentionRepository.insert(mentions.map(mention => ({ ...mention, incidentId })));
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { MentionLabel } from '../../../entities';
+
+export interface GazetteerEntry {
+  label: MentionLabel;
+  // Canonical entity name
+  name: string;
+  // Phrases that refer to it; ones containing capitals only match with the same case
+  aliases: string[];
+  confidence: number;
+}
+
+const entries = (label: MentionLabel, confidence: number, names: (string | [string, ...string[]])[]): GazetteerEntry[] =>
+  names.map(entry => {
+    const [name, ...aliases] = Array.isArray(entry) ? entry : [entry];
+    return { label, name, aliases: [name, ...aliases], confidence };
+  });
+
+const LONDON_BOROUGHS = [
+  'Barking and Dagenham', 'Barnet', 'Bexley', 'Brent', 'Bromley', 'Camden', 'Croydon', 'Ealing', 'Enfield',
+  'Greenwich', 'Hackney', 'Hammersmith and Fulham', 'Haringey', 'Harrow', 'Havering', 'Hillingdon', 'Hounslow',
+  'Islington', 'Kensington and Chelsea', 'Kingston upon Thames', 'Lambeth', 'Lewisham', 'Merton', 'Newham',
+  'Redbridge', 'Richmond upon Thames', 'Southwark', 'Sutton', 'Tower Hamlets', 'Waltham Forest', 'Wandsworth',
+  'Westminster', 'City of London',
+];
+
+const LONDON_AREAS = [
+  'Brixton', 'Peckham', 'Stratford', 'Shoreditch', 'Soho', 'Covent Garden', 'Camden Town', 'Canary Wharf',
+  'Tottenham', 'Walthamstow', 'Wembley', 'Whitechapel', 'Dalston', 'Deptford', 'Woolwich', 'Clapham',
+  'Notting Hill', 'Paddington', 'Kings Cross', "King's Cross", 'Elephant and Castle', 'Leicester Square',
+  'Oxford Circus', 'Piccadilly Circus', 'Trafalgar Square', 'Hyde Park', 'Heathrow', 'Romford', 'Ilford',
+];
+
+export const GAZETTEER: GazetteerEntry[] = [
+  ...entries('place', 0.9, LONDON_BOROUGHS),
+  ...entries('place', 0.85, LONDON_AREAS),
+
+  ...entries('organisation', 0.95, [
+    ['Metropolitan Police', 'Met Police', 'Metropolitan Police Service', 'Scotland Yard'],
+    'City of London Police',
+    ['British Transport Police', 'BTP'],
+    ['Transport for London', 'TfL'],
+    'London Fire Brigade',
+    'London Ambulance Service',
+    ['National Crime Agency', 'NCA'],
+    ['Crown Prosecution Service', 'CPS'],
+    'Home Office',
+    'Network Rail',
+    ['Greater London Authority', 'GLA'],
+    'NHS',
+    'HM Revenue and Customs',
+    'Border Force',
+  ]),
+
+  // Weapons named outright in police and news text
+  ...entries('weapon', 0.9, [
+    ['knife', 'knives', 'zombie knife', 'kitchen knife', 'bladed article', 'blade'],
+    ['firearm', 'firearms', 'gun', 'guns', 'handgun', 'pistol', 'revolver', 'imitation firearm'],
+    ['shotgun', 'sawn-off shotgun'],
+    ['rifle', 'rifles'],
+    ['machete', 'machetes'],
+    ['crossbow'],
+    ['taser', 'stun gun'],
+    ['corrosive substance', 'noxious substance'],
+    ['sword', 'swords'],
+  ]),
+  // Everyday objects that are only sometimes used as weapons
+  ...entries('weapon', 0.6, [
+    ['acid'],
+    ['hammer'],
+    ['baseball bat'],
+    ['axe'],
+    ['screwdriver'],
+  ]),
+
+  ...entries('vehicle', 0.75, [
+    ['car', 'cars'],
+    ['van', 'vans'],
+    ['moped', 'mopeds', 'scooter', 'e-scooter'],
+    ['motorcycle', 'motorbike', 'motorbikes'],
+    ['bicycle', 'bike', 'e-bike'],
+    ['lorry', 'HGV'],
+    ['bus', 'buses'],
+    ['taxi', 'minicab', 'black cab'],
+  ]),
+  ...entries('vehicle', 0.8, [
+    'Ford', 'Vauxhall', 'BMW', 'Mercedes', 'Audi', 'Toyota', 'Volkswagen', 'Honda', 'Nissan', 'Range Rover',
+    'Land Rover', 'Tesla', 'Kia', 'Peugeot', 'Yamaha',
+  ]),
+];
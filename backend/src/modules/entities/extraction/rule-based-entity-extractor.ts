@@ -0,0 +1,134 @@
+import { Injectable } from '@nestjs/common';
+import { MentionLabel } from '../../../entities';
+import { EntityExtractionModel, ExtractedMention } from './entity-extraction.model';
+import { GAZETTEER } from './gazetteers';
+
+interface ExtractionRule {
+  label: MentionLabel;
+  pattern: RegExp;
+  confidence: number;
+  // Capture group holding the entity name; defaults to the whole match
+  group?: number;
+  normalise?: (name: string) => string;
+}
+
+const NAME = "[A-Z][a-z'’-]+";
+const CAPITALISED = "[A-Z][\\w&'’-]*";
+
+const RULES: ExtractionRule[] = [
+  // "PC Jane Smith", "Mr Patel", "Detective Sergeant Ali Khan"
+  {
+    label: 'person',
+    pattern: new RegExp(
+      `\\b(?:Mr|Mrs|Ms|Miss|Dr|Sir|Dame|PC|DC|DS|DI|DCI|Sgt|Insp|Cllr|Inspector|Detective(?: Sergeant| Constable| Inspector)?|Sergeant|Constable|Superintendent|Commander|Councillor)\\.? (${NAME}(?: ${NAME}){0,2})`,
+      'g',
+    ),
+    group: 1,
+    confidence: 0.85,
+  },
+  // "John Smith, 34," or "John Smith, aged 34"
+  {
+    label: 'person',
+    pattern: new RegExp(`\\b(${NAME}(?: ${NAME}){1,2}), (?:aged )?\\d{1,2}\\b`, 'g'),
+    group: 1,
+    confidence: 0.8,
+  },
+  // "named as John Smith", "charged Jane Doe"
+  {
+    label: 'person',
+    pattern: new RegExp(`\\b(?:named as|identified as|charged|arrested|sentenced|convicted|victim|suspect) (${NAME}(?: ${NAME}){1,2})`, 'g'),
+    group: 1,
+    confidence: 0.7,
+  },
+  {
+    label: 'organisation',
+    pattern: new RegExp(
+      `\\b((?:${CAPITALISED} ){1,3}(?:Ltd|Limited|plc|PLC|LLP|Council|Trust|University|College|School|Academy|Hospital|Police|Group|Bank|Association|Foundation|Society|Agency|Company))\\b`,
+      'g',
+    ),
+    group: 1,
+    confidence: 0.75,
+    normalise: name => name.replace(/^The /, ''),
+  },
+  {
+    label: 'place',
+    pattern: new RegExp(
+      `\\b((?:${NAME} ){1,3}(?:Road|Street|Lane|Avenue|Square|Park|Station|Bridge|Estate|Market|Common|Green|Hill|Way|Place|Gardens|Terrace|Crescent|Close|Broadway))\\b`,
+      'g',
+    ),
+    group: 1,
+    confidence: 0.8,
+    normalise: name => name.replace(/^(?:The|On|Near|At) /, ''),
+  },
+  // UK postcodes, e.g. "SW1A 1AA"
+  {
+    label: 'place',
+    pattern: /\b([A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2})\b/g,
+    confidence: 0.9,
+    normalise: postcode => postcode.replace(/^(\S+?)(\d[A-Z]{2})$/, '$1 $2'),
+  },
+  // Current-style UK registration plates, e.g. "AB12 CDE"
+  {
+    label: 'vehicle',
+    pattern: /\b([A-Z]{2}\d{2} ?[A-Z]{3})\b/g,
+    confidence: 0.85,
+    normalise: plate => plate.replace(/^(\w{4}) ?/, '$1 '),
+  },
+];
+
+/**
+ * Local named-entity extractor combining a London gazetteer with patterns for
+ * honorifics, organisation and street suffixes, postcodes and number plates.
+ * Overlapping matches keep the longest, so "Lambeth Council" beats "Lambeth",
+ * then the most confident.
+ */
+@Injectable()
+export class RuleBasedEntityExtractor implements EntityExtractionModel {
+  readonly name = 'rules-v1';
+
+  private readonly gazetteerRules: ExtractionRule[] = GAZETTEER.flatMap(entry =>
+    entry.aliases.map(alias => ({
+      label: entry.label,
+      // Acronyms and proper names must match case; common nouns such as "knife" need not
+      pattern: new RegExp(`\\b${escapeRegExp(alias)}\\b`, alias === alias.toLowerCase() ? 'gi' : 'g'),
+      confidence: entry.confidence,
+      normalise: () => entry.name,
+    })),
+  );
+
+  async extract(text: string): Promise<ExtractedMention[]> {
+    const candidates: ExtractedMention[] = [];
+
+    for (const rule of [...this.gazetteerRules, ...RULES]) {
+      for (const match of text.matchAll(rule.pattern)) {
+        const surface = match[rule.group || 0];
+        const start = match.index + match[0].indexOf(surface);
+        const name = (rule.normalise ? rule.normalise(surface) : surface).trim();
+        if (!name) continue;
+
+        candidates.push({
+          label: rule.label,
+          text: surface,
+          name,
+          start,
+          end: start + surface.length,
+          confidence: rule.confidence,
+        });
+      }
+    }
+
+    candidates.sort((a, b) => (b.end - b.start) - (a.end - a.start) || b.confidence - a.confidence);
+    const kept: ExtractedMention[] = [];
+    for (const candidate of candidates) {
+      if (!kept.some(mention => candidate.start < mention.end && mention.start < candidate.end)) {
+        kept.push(candidate);
+      }
+    }
+
+    return kept.sort((a, b) => a.start - b.start);
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
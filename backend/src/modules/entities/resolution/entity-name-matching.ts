@@ -0,0 +1,142 @@
+import { Entity } from '../../../entities';
+
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  st: 'street',
+  rd: 'road',
+  ave: 'avenue',
+  av: 'avenue',
+  ln: 'lane',
+  sq: 'square',
+  pl: 'place',
+  cres: 'crescent',
+  gdns: 'gardens',
+  tce: 'terrace',
+  ct: 'court',
+  dr: 'drive',
+  pk: 'park',
+  stn: 'station',
+  hwy: 'highway',
+  bdwy: 'broadway',
+};
+
+const HONORIFICS = new Set([
+  'mr', 'mrs', 'ms', 'miss', 'dr', 'sir', 'dame', 'pc', 'dc', 'ds', 'di', 'dci', 'sgt', 'insp', 'cllr',
+  'inspector', 'detective', 'sergeant', 'constable', 'superintendent', 'commander', 'councillor',
+]);
+
+const COMPANY_SUFFIXES = new Set(['ltd', 'limited', 'plc', 'llp', 'inc', 'co']);
+
+/**
+ * The form two names must share to be the same entity without review: case,
+ * accents, punctuation and filler such as police.uk's "On or near" removed,
+ * street abbreviations expanded, honorifics and company suffixes dropped.
+ */
+export function normaliseEntityName(type: Entity['type'], name: string): string {
+  let tokens = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+  switch (type) {
+    case 'location':
+      if (tokens.slice(0, 3).join(' ') === 'on or near') tokens = tokens.slice(3);
+      else if (tokens[0] === 'near' || tokens[0] === 'at') tokens = tokens.slice(1);
+      // A leading "St" is a saint, as in "St Pancras"; anywhere else it is a street
+      tokens = tokens.map((token, index) =>
+        index === 0 && token === 'st' ? 'saint' : STREET_ABBREVIATIONS[token] || token,
+      );
+      break;
+    case 'person':
+      while (tokens.length > 1 && HONORIFICS.has(tokens[0])) tokens = tokens.slice(1);
+      break;
+    case 'organisation':
+      if (tokens.length > 1 && tokens[0] === 'the') tokens = tokens.slice(1);
+      while (tokens.length > 1 && COMPANY_SUFFIXES.has(tokens[tokens.length - 1])) tokens = tokens.slice(0, -1);
+      break;
+  }
+
+  return tokens.join(' ') || name.trim().toLowerCase();
+}
+
+/**
+ * Soundex code of every word, so "Mohammed Khan" and "Muhammad Kahn" share a key.
+ */
+export function phoneticKey(normalised: string): string {
+  return normalised.split(' ').map(soundex).join(' ');
+}
+
+/**
+ * 0-1 similarity of two normalised names: each word is paired with its
+ * closest word in the other name, so typos and word order barely count but
+ * a different word does ("camden road" and "camden lane" score about 0.8).
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const aWords = a.split(' ');
+  const bWords = b.split(' ');
+  const closest = (from: string[], to: string[]) =>
+    from.reduce((sum, word) => sum + Math.max(...to.map(other => jaroWinkler(word, other))), 0) / from.length;
+  return (closest(aWords, bWords) + closest(bWords, aWords)) / 2;
+}
+
+function soundex(word: string): string {
+  if (/^\d+$/.test(word)) return word;
+
+  const codes: Record<string, string> = {
+    b: '1', f: '1', p: '1', v: '1',
+    c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+    d: '3', t: '3',
+    l: '4',
+    m: '5', n: '5',
+    r: '6',
+  };
+
+  let code = word[0].toUpperCase();
+  let previous = codes[word[0]] || '';
+  for (const letter of word.slice(1)) {
+    const digit = codes[letter] || '';
+    if (digit && digit !== previous) code += digit;
+    // H and W do not separate letters with the same code; vowels do
+    if (letter !== 'h' && letter !== 'w') previous = digit;
+  }
+  return code.padEnd(4, '0').slice(0, 4);
+}
+
+function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  const window = Math.max(Math.floor(Math.max(a.length, b.length) / 2) - 1, 0);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
@@ -0,0 +1,609 @@
+import { Injectable, Logger, OnApplicationBootstrap, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import { Entity, EntityAlias, EntityMention, EntityMerge, EntityMergeLinks } from '../../../entities';
+import { EmbeddingsService } from '../../embeddings/embeddings.service';
+import { EntityStatsService } from '../entity-stats.service';
+import { EntityCoOccurrenceService } from '../entity-co-occurrence.service';
+import { normaliseEntityName, phoneticKey, nameSimilarity } from './entity-name-matching';
+
+// Month buckets never have spelling variants worth reviewing
+const UNRESOLVED_TYPES: Entity['type'][] = ['temporal'];
+
+// Larger blocks come from common words such as "london" and are not worth comparing pairwise
+const MAX_BLOCK_SIZE = 200;
+const DEFAULT_MIN_SCORE = 0.85;
+// Similar entities are shown for browsing, not merging, so looser matches are worth listing
+const SIMILAR_MIN_SCORE = 0.7;
+// Cosine similarity of name embeddings that counts as a reason on its own
+const EMBEDDING_MATCH = 0.9;
+const BACKFILL_BATCH_SIZE = 1000;
+
+export type MergeCandidateReason = 'normalised' | 'phonetic' | 'fuzzy' | 'embedding';
+
+export interface MergeCandidate {
+  score: number;
+  reasons: MergeCandidateReason[];
+  embeddingSimilarity?: number;
+  entities: (Pick<Entity, 'id' | 'type' | 'name'> & { incidentCount: number })[];
+}
+
+export interface SimilarEntity {
+  score: number;
+  reasons: MergeCandidateReason[];
+  entity: Pick<Entity, 'id' | 'type' | 'name' | 'incidentCount'>;
+}
+
+interface ResolvableEntity extends Pick<Entity, 'id' | 'type' | 'name'> {
+  normalized: string;
+}
+
+interface CandidatePair {
+  a: ResolvableEntity;
+  b: ResolvableEntity;
+  score: number;
+  reasons: Set<MergeCandidateReason>;
+}
+
+// A many-to-many join table pointing at entities, e.g. incident or case links
+interface EntityJunction {
+  table: string;
+  ownerColumn: string;
+  entityColumn: string;
+}
+
+/**
+ * Keeps one entity per real-world thing. Names resolve through normalised
+ * aliases; near matches are only proposed as merge candidates for an admin
+ * to review, and every merge can be split again.
+ */
+@Injectable()
+export class EntityResolutionService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(EntityResolutionService.name);
+
+  constructor(
+    @InjectRepository(Entity)
+    private readonly entityRepository: Repository<Entity>,
+    @InjectRepository(EntityAlias)
+    private readonly aliasRepository: Repository<EntityAlias>,
+    @InjectRepository(EntityMerge)
+    private readonly mergeRepository: Repository<EntityMerge>,
+    private readonly embeddingsService: EmbeddingsService,
+    private readonly entityStatsService: EntityStatsService,
+    private readonly entityCoOccurrenceService: EntityCoOccurrenceService,
+  ) {}
+
+  /**
+   * Entities created before aliases existed get their name as an alias, so
+   * new spellings of it resolve to them.
+   */
+  async onApplicationBootstrap() {
+    let backfilled = 0;
+    for (;;) {
+      const entities = await this.entityRepository
+        .createQueryBuilder('entity')
+        .where('NOT EXISTS (SELECT 1 FROM entity_aliases alias WHERE alias."entityId" = entity.id)')
+        .take(BACKFILL_BATCH_SIZE)
+        .getMany();
+      if (entities.length === 0) break;
+
+      await this.insertAliases(entities.map(entity => this.aliasFor(entity, entity.name)));
+      backfilled += entities.length;
+      if (entities.length < BACKFILL_BATCH_SIZE) break;
+    }
+
+    if (backfilled > 0) {
+      this.logger.log(`Recorded the names of ${backfilled} existing entities as aliases`);
+    }
+  }
+
+  /**
+   * The entity a name refers to, created when no alias normalises the same
+   * way. New spellings of a known entity are recorded as aliases.
+   */
+  async resolve(candidate: Pick<Entity, 'type' | 'name'>): Promise<Entity> {
+    const normalizedAlias = normaliseEntityName(candidate.type, candidate.name);
+    const match = await this.aliasRepository.findOne({
+      where: { type: candidate.type, normalizedAlias },
+      relations: ['entity'],
+      order: { createdAt: 'ASC' },
+    });
+
+    if (match) {
+      if (match.alias !== candidate.name) {
+        await this.insertAliases([this.aliasFor(match.entity, candidate.name)]);
+      }
+      return match.entity;
+    }
+
+    const entity = await this.entityRepository.save(
+      this.entityRepository.create({ type: candidate.type, name: candidate.name }),
+    );
+    await this.insertAliases([this.aliasFor(entity, candidate.name)]);
+    return entity;
+  }
+
+  /**
+   * Pairs of entities that probably name the same thing, best first. Names
+   * are only compared within blocks sharing a phonetic key or first word,
+   * scored by string similarity and, when a real embedding model is
+   * configured, blended with the similarity of their name embeddings.
+   */
+  async findCandidates(query: any): Promise<MergeCandidate[]> {
+    const limit = query.limit ? parseInt(query.limit) : 50;
+    const minScore = query.minScore ? parseFloat(query.minScore) : DEFAULT_MIN_SCORE;
+
+    const qb = this.entityRepository
+      .createQueryBuilder('entity')
+      .where('entity.type NOT IN (:...unresolved)', { unresolved: UNRESOLVED_TYPES });
+    if (query.type) {
+      qb.andWhere('entity.type = :type', { type: query.type });
+    }
+    const entities: ResolvableEntity[] = (await qb.getMany()).map(entity => ({
+      id: entity.id,
+      type: entity.type,
+      name: entity.name,
+      normalized: normaliseEntityName(entity.type, entity.name),
+    }));
+
+    const pairs = new Map<string, CandidatePair>();
+    const blockings: { reason: MergeCandidateReason; key: (entity: ResolvableEntity) => string }[] = [
+      { reason: 'phonetic', key: entity => `${entity.type}|${phoneticKey(entity.normalized)}` },
+      { reason: 'fuzzy', key: entity => `${entity.type}|${entity.normalized.split(' ')[0]}` },
+    ];
+
+    for (const blocking of blockings) {
+      const blocks = new Map<string, ResolvableEntity[]>();
+      for (const entity of entities) {
+        const key = blocking.key(entity);
+        const block = blocks.get(key);
+        if (block) block.push(entity);
+        else blocks.set(key, [entity]);
+      }
+
+      for (const block of blocks.values()) {
+        if (block.length < 2 || block.length > MAX_BLOCK_SIZE) continue;
+        for (let i = 0; i < block.length; i++) {
+          for (let j = i + 1; j < block.length; j++) {
+            this.scorePair(pairs, block[i], block[j], blocking.reason, minScore);
+          }
+        }
+      }
+    }
+
+    const shortlist = Array.from(pairs.values())
+      .filter(pair => pair.reasons.size > 0)
+      .sort((x, y) => y.score - x.score)
+      .slice(0, limit * 2);
+
+    const embeddingSimilarities = await this.embeddingSimilarities(shortlist);
+    const counts = await this.countIncidents(shortlist.flatMap(({ a, b }) => [a.id, b.id]));
+
+    return shortlist
+      .map(({ a, b, score, reasons }, index) => {
+        const similarity = embeddingSimilarities?.[index];
+        if (similarity !== undefined && similarity >= EMBEDDING_MATCH) reasons.add('embedding');
+        const blended = similarity !== undefined && score < 1 ? score * 0.7 + similarity * 0.3 : score;
+
+        return {
+          score: round(blended),
+          reasons: Array.from(reasons),
+          embeddingSimilarity: similarity !== undefined ? round(similarity) : undefined,
+          entities: [a, b].map(({ id, type, name }) => ({ id, type, name, incidentCount: counts.get(id) || 0 })),
+        };
+      })
+      .filter(candidate => candidate.score >= minScore)
+      .sort((x, y) => y.score - x.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Entities of the same type whose names or aliases resemble any alias of
+   * the given entity, best first. Unlike merge candidates these are not
+   * blocked, since only one entity's aliases are compared.
+   */
+  async findSimilar(id: string, limit: number = 10): Promise<SimilarEntity[]> {
+    const entity = await this.findWithAliases(id);
+    if (UNRESOLVED_TYPES.includes(entity.type)) {
+      return [];
+    }
+
+    const own = Array.from(new Set(entity.aliases.map(alias => alias.normalizedAlias)));
+    const ownKeys = new Set(own.map(phoneticKey));
+    const others: Pick<EntityAlias, 'entityId' | 'normalizedAlias'>[] = await this.aliasRepository.find({
+      select: ['entityId', 'normalizedAlias'],
+      where: { type: entity.type },
+    });
+
+    const best = new Map<string, { score: number; reasons: Set<MergeCandidateReason> }>();
+    for (const other of others) {
+      if (other.entityId === entity.id) continue;
+      const match = best.get(other.entityId) || { score: 0, reasons: new Set<MergeCandidateReason>() };
+      best.set(other.entityId, match);
+
+      if (own.includes(other.normalizedAlias)) {
+        match.score = 1;
+        match.reasons.add('normalised');
+        continue;
+      }
+      const score = Math.max(...own.map(name => nameSimilarity(name, other.normalizedAlias)));
+      match.score = Math.max(match.score, score);
+      if (score >= SIMILAR_MIN_SCORE) match.reasons.add('fuzzy');
+      if (ownKeys.has(phoneticKey(other.normalizedAlias))) match.reasons.add('phonetic');
+    }
+
+    const ranked = Array.from(best.entries())
+      .filter(([, match]) => match.score >= SIMILAR_MIN_SCORE)
+      .sort(([, x], [, y]) => y.score - x.score)
+      .slice(0, limit);
+    if (ranked.length === 0) {
+      return [];
+    }
+
+    const entities = await this.entityRepository.find({ where: { id: In(ranked.map(([entityId]) => entityId)) } });
+    const byId = new Map(entities.map(similar => [similar.id, similar]));
+    return ranked
+      .filter(([entityId]) => byId.has(entityId))
+      .map(([entityId, { score, reasons }]) => {
+        const { id, type, name, incidentCount } = byId.get(entityId);
+        return { score: round(score), reasons: Array.from(reasons), entity: { id, type, name, incidentCount } };
+      });
+  }
+
+  /**
+   * Folds the source entities into the target: their incident and case
+   * links, mentions and aliases move over and the sources are deleted.
+   */
+  async merge(targetId: string, sourceIds: string[], actor: string, details?: Record<string, any>): Promise<Entity> {
+    const target = await this.getEntity(targetId);
+    const sources = await this.entityRepository.find({ where: { id: In(sourceIds) } });
+
+    const missing = sourceIds.filter(id => !sources.some(source => source.id === id));
+    if (missing.length > 0) {
+      throw new NotFoundException(`Entities not found: ${missing.join(', ')}`);
+    }
+    if (sourceIds.includes(targetId)) {
+      throw new BadRequestException('An entity cannot be merged into itself');
+    }
+    const mismatched = sources.filter(source => source.type !== target.type);
+    if (mismatched.length > 0) {
+      throw new BadRequestException(`Only ${target.type} entities can be merged into ${target.name}`);
+    }
+
+    await this.entityRepository.manager.transaction(async manager => {
+      for (const source of sources) {
+        await this.mergeOne(manager, target, source, actor, details);
+      }
+    });
+    await this.entityStatsService.refresh([targetId]);
+    await this.entityCoOccurrenceService.refresh([targetId]);
+
+    this.logger.log(`${actor} merged ${sources.map(source => source.name).join(', ')} into ${target.name}`);
+    return this.findWithAliases(targetId);
+  }
+
+  /**
+   * Undoes a merge: the absorbed entity is recreated under its original id
+   * and takes back the links, mentions and aliases it brought. Incidents
+   * ingested since then stay with the survivor.
+   */
+  async split(mergeId: string, actor: string): Promise<Entity> {
+    const merge = await this.mergeRepository.findOne({ where: { id: mergeId } });
+    if (!merge) {
+      throw new NotFoundException(`Entity merge ${mergeId} not found`);
+    }
+    if (merge.splitAt) {
+      throw new BadRequestException(`${merge.absorbedName} was already split out by ${merge.splitBy}`);
+    }
+    if (!(await this.entityRepository.exists({ where: { id: merge.survivorId } }))) {
+      throw new BadRequestException(`The entity ${merge.absorbedName} was merged into has since been merged away; split that first`);
+    }
+    if (await this.entityRepository.exists({ where: { id: merge.absorbedId } })) {
+      throw new BadRequestException(`${merge.absorbedName} already exists`);
+    }
+
+    const junctions = new Map(this.junctions().map(junction => [junction.table, junction]));
+    // Merges recorded before attributes were kept bring back the name alone
+    const attributes = merge.absorbedAttributes;
+    await this.entityRepository.manager.transaction(async manager => {
+      await manager.insert(Entity, {
+        id: merge.absorbedId,
+        type: merge.absorbedType as Entity['type'],
+        name: merge.absorbedName,
+        metadata: attributes?.metadata ?? null,
+        location: attributes?.location ?? null,
+        firstSeenAt: attributes?.firstSeenAt ? new Date(attributes.firstSeenAt) : null,
+        lastSeenAt: attributes?.lastSeenAt ? new Date(attributes.lastSeenAt) : null,
+      });
+
+      // Metadata the survivor only had from the absorbed entity goes back, unless edited since
+      if (attributes?.addedMetadataKeys?.length) {
+        const survivor = await manager.findOne(Entity, { where: { id: merge.survivorId } });
+        const metadata = { ...survivor.metadata };
+        const given = attributes.addedMetadataKeys.filter(key =>
+          key in metadata && JSON.stringify(metadata[key]) === JSON.stringify(attributes.metadata?.[key]),
+        );
+        if (given.length > 0) {
+          given.forEach(key => delete metadata[key]);
+          await manager.update(Entity, survivor.id, { metadata: Object.keys(metadata).length > 0 ? metadata : null });
+        }
+      }
+
+      for (const link of merge.links) {
+        const junction = junctions.get(link.table);
+        if (!junction || link.ownerIds.length === 0) continue;
+        const { table, ownerColumn, entityColumn } = junction;
+
+        // Only links the survivor still has are given back
+        await manager.query(
+          `INSERT INTO "${table}" ("${ownerColumn}", "${entityColumn}")
+           SELECT "${ownerColumn}", $1 FROM "${table}"
+           WHERE "${entityColumn}" = $2 AND "${ownerColumn}"::text = ANY($3::text[])
+           ON CONFLICT DO NOTHING`,
+          [merge.absorbedId, merge.survivorId, link.ownerIds],
+        );
+        const movedOnly = link.ownerIds.filter(id => !link.sharedOwnerIds.includes(id));
+        if (movedOnly.length > 0) {
+          await manager.query(
+            `DELETE FROM "${table}" WHERE "${entityColumn}" = $1 AND "${ownerColumn}"::text = ANY($2::text[])`,
+            [merge.survivorId, movedOnly],
+          );
+        }
+      }
+
+      if (merge.mentionIds.length > 0) {
+        await manager.update(EntityMention, { id: In(merge.mentionIds), entityId: merge.survivorId }, { entityId: merge.absorbedId });
+      }
+      if (merge.aliasIds.length > 0) {
+        await manager.update(EntityAlias, { id: In(merge.aliasIds), entityId: merge.survivorId }, { entityId: merge.absorbedId });
+      }
+
+      await manager.update(EntityMerge, merge.id, { splitAt: new Date(), splitBy: actor });
+    });
+    await this.entityStatsService.refresh([merge.survivorId, merge.absorbedId]);
+    await this.entityCoOccurrenceService.refresh([merge.survivorId, merge.absorbedId]);
+
+    this.logger.log(`${actor} split ${merge.absorbedName} out of ${merge.survivorId}`);
+    return this.findWithAliases(merge.absorbedId);
+  }
+
+  /**
+   * Merges every group of entities whose aliases normalise to the same name,
+   * keeping the one linked to most incidents.
+   */
+  async mergeNormalisedDuplicates(actor: string, type?: string): Promise<{ groups: number; merged: number }> {
+    const qb = this.aliasRepository
+      .createQueryBuilder('alias')
+      .select('alias.normalizedAlias', 'normalizedAlias')
+      .addSelect('array_agg(DISTINCT alias.entityId)', 'entityIds')
+      .where('alias.type NOT IN (:...unresolved)', { unresolved: UNRESOLVED_TYPES })
+      .groupBy('alias.type')
+      .addGroupBy('alias.normalizedAlias')
+      .having('COUNT(DISTINCT alias.entityId) > 1');
+    if (type) {
+      qb.andWhere('alias.type = :type', { type });
+    }
+    const groups: { normalizedAlias: string; entityIds: string[] }[] = await qb.getRawMany();
+
+    let merged = 0;
+    for (const group of groups) {
+      // An earlier group may already have merged some of these away
+      const existing = await this.entityRepository.find({ select: ['id'], where: { id: In(group.entityIds) } });
+      if (existing.length < 2) continue;
+
+      const counts = await this.countIncidents(existing.map(entity => entity.id));
+      const [target, ...sources] = existing
+        .map(entity => entity.id)
+        .sort((a, b) => (counts.get(b) || 0) - (counts.get(a) || 0));
+      await this.merge(target, sources, actor, { reasons: ['normalised'], score: 1, normalizedName: group.normalizedAlias });
+      merged += sources.length;
+    }
+
+    return { groups: groups.length, merged };
+  }
+
+  async findMerges(entityId: string): Promise<EntityMerge[]> {
+    return this.mergeRepository.find({
+      where: [{ survivorId: entityId }, { absorbedId: entityId }],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async findWithAliases(id: string): Promise<Entity> {
+    const entity = await this.entityRepository.findOne({ where: { id }, relations: ['aliases'] });
+    if (!entity) {
+      throw new NotFoundException(`Entity ${id} not found`);
+    }
+    return entity;
+  }
+
+  async addAlias(entityId: string, alias: string): Promise<Entity> {
+    const entity = await this.getEntity(entityId);
+    const existing = await this.aliasRepository.findOne({ where: { type: entity.type, alias } });
+    if (existing && existing.entityId !== entity.id) {
+      throw new BadRequestException(`"${alias}" is already an alias of another ${entity.type}; merge the two instead`);
+    }
+    if (!existing) {
+      await this.aliasRepository.save(this.aliasRepository.create({ ...this.aliasFor(entity, alias), origin: 'manual' }));
+    }
+    return this.findWithAliases(entityId);
+  }
+
+  async removeAlias(entityId: string, aliasId: string): Promise<Entity> {
+    const entity = await this.getEntity(entityId);
+    const alias = await this.aliasRepository.findOne({ where: { id: aliasId, entityId } });
+    if (!alias) {
+      throw new NotFoundException(`Alias ${aliasId} not found on entity ${entityId}`);
+    }
+    if (alias.alias === entity.name) {
+      throw new BadRequestException('The entity name cannot be removed from its aliases');
+    }
+    await this.aliasRepository.remove(alias);
+    return this.findWithAliases(entityId);
+  }
+
+  private async mergeOne(manager: EntityManager, target: Entity, source: Entity, actor: string, details?: Record<string, any>) {
+    const links: EntityMergeLinks[] = [];
+    for (const { table, ownerColumn, entityColumn } of this.junctions()) {
+      const owned = await manager.query(
+        `SELECT "${ownerColumn}"::text AS id FROM "${table}" WHERE "${entityColumn}" = $1`,
+        [source.id],
+      );
+      if (owned.length === 0) continue;
+
+      const ownerIds: string[] = owned.map(row => row.id);
+      const shared = await manager.query(
+        `SELECT "${ownerColumn}"::text AS id FROM "${table}" WHERE "${entityColumn}" = $1 AND "${ownerColumn}"::text = ANY($2::text[])`,
+        [target.id, ownerIds],
+      );
+      links.push({ table, ownerIds, sharedOwnerIds: shared.map(row => row.id) });
+
+      await manager.query(
+        `INSERT INTO "${table}" ("${ownerColumn}", "${entityColumn}")
+         SELECT "${ownerColumn}", $1 FROM "${table}" WHERE "${entityColumn}" = $2
+         ON CONFLICT DO NOTHING`,
+        [target.id, source.id],
+      );
+      await manager.query(`DELETE FROM "${table}" WHERE "${entityColumn}" = $1`, [source.id]);
+    }
+
+    const mentions = await manager.find(EntityMention, { select: ['id'], where: { entityId: source.id } });
+    const aliases = await manager.find(EntityAlias, { select: ['id'], where: { entityId: source.id } });
+    await manager.update(EntityMention, { entityId: source.id }, { entityId: target.id });
+    await manager.update(EntityAlias, { entityId: source.id }, { entityId: target.id });
+
+    // The survivor keeps its own attributes and fills the gaps from the source
+    const addedMetadataKeys = Object.keys(source.metadata || {}).filter(key => !(key in (target.metadata || {})));
+    const attributes = {
+      metadata: target.metadata || source.metadata ? { ...source.metadata, ...target.metadata } : null,
+      location: target.location ?? source.location ?? null,
+      firstSeenAt: pickDate([target.firstSeenAt, source.firstSeenAt], Math.min),
+      lastSeenAt: pickDate([target.lastSeenAt, source.lastSeenAt], Math.max),
+    };
+    await manager.update(Entity, target.id, attributes);
+    Object.assign(target, attributes);
+
+    await manager.save(manager.create(EntityMerge, {
+      survivorId: target.id,
+      absorbedId: source.id,
+      absorbedName: source.name,
+      absorbedType: source.type,
+      absorbedAttributes: {
+        metadata: source.metadata ?? null,
+        location: source.location ?? null,
+        firstSeenAt: source.firstSeenAt ?? null,
+        lastSeenAt: source.lastSeenAt ?? null,
+        addedMetadataKeys,
+      },
+      links,
+      aliasIds: aliases.map(alias => alias.id),
+      mentionIds: mentions.map(mention => mention.id),
+      details,
+      mergedBy: actor,
+    }));
+    await manager.delete(Entity, source.id);
+  }
+
+  private scorePair(
+    pairs: Map<string, CandidatePair>,
+    a: ResolvableEntity,
+    b: ResolvableEntity,
+    reason: MergeCandidateReason,
+    minScore: number,
+  ) {
+    const key = a.id < b.id ? `${a.id}:${b.id}` : `${b.id}:${a.id}`;
+    const pair = pairs.get(key) || { a, b, score: 0, reasons: new Set<MergeCandidateReason>() };
+    pairs.set(key, pair);
+
+    if (a.normalized === b.normalized) {
+      pair.score = 1;
+      pair.reasons.add('normalised');
+      return;
+    }
+
+    const similarity = nameSimilarity(a.normalized, b.normalized);
+    // Sounding alike is weak evidence on its own ("Acton" and "Ashton"), so it only nudges the score
+    const score = reason === 'phonetic' ? Math.min(similarity + 0.05, 0.99) : similarity;
+    pair.score = Math.max(pair.score, score);
+    if (score >= minScore) pair.reasons.add(reason);
+  }
+
+  /**
+   * Cosine similarity of each pair's name embeddings, or null when only the
+   * hash-based development embeddings are available.
+   */
+  private async embeddingSimilarities(pairs: CandidatePair[]): Promise<number[] | null> {
+    if (!this.embeddingsService.isConfigured() || pairs.length === 0) {
+      return null;
+    }
+
+    const names = Array.from(new Set(pairs.flatMap(({ a, b }) => [a.name, b.name])));
+    const embeddings = await this.embeddingsService.generateBatchEmbeddings(names);
+    const byName = new Map(names.map((name, index) => [name, embeddings[index]]));
+    return pairs.map(({ a, b }) => cosineSimilarity(byName.get(a.name), byName.get(b.name)));
+  }
+
+  private async countIncidents(entityIds: string[]): Promise<Map<string, number>> {
+    if (entityIds.length === 0) {
+      return new Map();
+    }
+    const entities = await this.entityRepository.find({ select: ['id', 'incidentCount'], where: { id: In(entityIds) } });
+    return new Map(entities.map(entity => [entity.id, entity.incidentCount]));
+  }
+
+  // Every join table that links something to entities, read from the ORM metadata
+  private junctions(): EntityJunction[] {
+    return this.entityRepository.manager.connection.entityMetadatas.flatMap(metadata =>
+      metadata.manyToManyRelations
+        .filter(relation => relation.isOwning && relation.inverseEntityMetadata.target === Entity)
+        .map(relation => ({
+          table: relation.junctionEntityMetadata.tableName,
+          ownerColumn: relation.junctionEntityMetadata.ownerColumns[0].databaseName,
+          entityColumn: relation.junctionEntityMetadata.inverseColumns[0].databaseName,
+        })),
+    );
+  }
+
+  private async getEntity(id: string): Promise<Entity> {
+    const entity = await this.entityRepository.findOne({ where: { id } });
+    if (!entity) {
+      throw new NotFoundException(`Entity ${id} not found`);
+    }
+    return entity;
+  }
+
+  private aliasFor(entity: Pick<Entity, 'id' | 'type'>, alias: string): Partial<EntityAlias> {
+    return {
+      entityId: entity.id,
+      type: entity.type,
+      alias,
+      normalizedAlias: normaliseEntityName(entity.type, alias),
+    };
+  }
+
+  private async insertAliases(aliases: Partial<EntityAlias>[]) {
+    await this.aliasRepository.createQueryBuilder().insert().values(aliases).orIgnore().execute();
+  }
+}
+
+function cosineSimilarity(a?: number[], b?: number[]): number {
+  if (!a || !b || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function pickDate(dates: (Date | null | undefined)[], pick: (...values: number[]) => number): Date | null {
+  const times = dates.filter(Boolean).map(date => new Date(date).getTime());
+  return times.length > 0 ? new Date(pick(...times)) : null;
+}
@@ -1,7 +1,9 @@
 import { Controller, Get } from '@nestjs/common'
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger'
+import { Public } from '../../common/decorators/public.decorator'
 
 @ApiTags('health')
+@Public()
 @Controller('health')
 export class HealthController {
   @Get()
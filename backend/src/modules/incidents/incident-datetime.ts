@@ -0,0 +1,22 @@
+// ISO 8601 date with optional time and offset, each field in range
+const ISO_TIMESTAMP =
+  String.raw`^[1-9]\d{3}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])` +
+  String.raw`([T ]([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?)?` +
+  String.raw`(Z|[+-](0\d|1[0-4])(:?[0-5]\d)?)?$`;
+
+/**
+ * SQL casting an incident's datetime text to timestamptz, or NULL when it
+ * is not a valid timestamp, so one bad row cannot abort a whole query.
+ * Postgres 15 has no non-throwing cast, so the shape is matched first and
+ * the day then checked against the month; nested CASEs keep that order.
+ */
+export function incidentTimestampSql(column = 'incident.datetime'): string {
+  const year = `substring(${column} from 1 for 4)::int`;
+  const month = `substring(${column} from 6 for 2)::int`;
+  const day = `substring(${column} from 9 for 2)::int`;
+  const daysInMonth = `EXTRACT(DAY FROM make_date(${year}, ${month}, 1) + interval '1 month' - interval '1 day')`;
+
+  return `(CASE WHEN ${column} ~ '${ISO_TIMESTAMP}' THEN
+    CASE WHEN ${day} <= ${daysInMonth} THEN ${column}::timestamptz END
+  END)`;
+}
@@ -0,0 +1,61 @@
+import { Incident, IncidentSeverity } from '../../entities';
+
+// police.uk crime categories
+const CRIME_SEVERITY: Record<string, IncidentSeverity> = {
+  'violent-crime': 'critical',
+  'burglary': 'high',
+  'robbery': 'high',
+  'possession-of-weapons': 'high',
+  'theft-from-the-person': 'medium',
+  'vehicle-crime': 'medium',
+  'criminal-damage-arson': 'medium',
+  'drugs': 'medium',
+  'other-crime': 'medium',
+  'anti-social-behaviour': 'low',
+  'public-order': 'low',
+  'shoplifting': 'low',
+  'other-theft': 'low',
+  'bicycle-theft': 'low',
+};
+
+// Categories the TfL adapter gives road disruptions
+const ROAD_SEVERITY: Record<string, IncidentSeverity> = {
+  road_closure: 'high',
+  traffic_incident: 'medium',
+  traffic_disruption: 'low',
+};
+
+/**
+ * Severity of an incident whose source gave none. Crimes and road
+ * disruptions go by category; GDELT events by their Goldstein scale, where
+ * -10 is the most destabilising kind of event.
+ */
+export function assessSeverity(incident: Partial<Pick<Incident, 'type' | 'category' | 'metadata'>>): IncidentSeverity {
+  switch (incident.type) {
+    case 'crime':
+      return CRIME_SEVERITY[incident.category] || 'medium';
+    case 'road_incident':
+      return ROAD_SEVERITY[incident.category] || 'low';
+    case 'bike_anomaly':
+      return 'low';
+    case 'news': {
+      const goldstein = Number(incident.metadata?.goldsteinScale);
+      if (!Number.isFinite(goldstein)) return 'medium';
+      if (goldstein <= -9) return 'critical';
+      if (goldstein <= -5) return 'high';
+      return goldstein < 0 ? 'medium' : 'low';
+    }
+    default:
+      return 'medium';
+  }
+}
+
+/**
+ * TfL line status codes: 1-3 closed or suspended, 4-6 part closures and
+ * severe delays, 7-9 reduced service and minor delays.
+ */
+export function tflStatusSeverity(statusSeverity: number): IncidentSeverity {
+  if (statusSeverity >= 1 && statusSeverity <= 3) return 'high';
+  if (statusSeverity >= 4 && statusSeverity <= 6) return 'medium';
+  return 'low';
+}
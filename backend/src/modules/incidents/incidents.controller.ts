@@ -45,6 +45,11 @@ export class IncidentsController {
     return this.incidentsService.findSimilarIncidents(id, limit ? parseInt(limit) : undefined);
   }
 
+  @Get(':id/entities')
+  findEntityRefs(@Param('id') id: string) {
+    return this.incidentsService.findEntityRefs(id);
+  }
+
   @Get('analytics/temporal')
   getTemporalAnalytics(@Query() query: any) {
     return this.incidentsService.getTemporalAnalytics(query);
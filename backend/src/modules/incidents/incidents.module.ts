@@ -2,12 +2,12 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { IncidentsController } from './incidents.controller';
 import { IncidentsService } from './incidents.service';
-import { Incident } from '../../entities';
+import { Incident, EntityMention } from '../../entities';
 import { EmbeddingsModule } from '../embeddings/embeddings.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Incident]),
+    TypeOrmModule.forFeature([Incident, EntityMention]),
     EmbeddingsModule
   ],
   controllers: [IncidentsController],
@@ -1,15 +1,57 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, OnApplicationBootstrap } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { In, Repository, Between, SelectQueryBuilder } from 'typeorm';
-import { Incident } from '../../entities';
+import { In, IsNull, Repository, Between, SelectQueryBuilder } from 'typeorm';
+import { Incident, EntityMention, IncidentSeverity } from '../../entities';
+import { assessSeverity } from './incident-severity';
+
+const SEVERITY_BACKFILL_BATCH_SIZE = 1000;
 
 @Injectable()
-export class IncidentsService {
+export class IncidentsService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(IncidentsService.name);
+
   constructor(
     @InjectRepository(Incident)
     private readonly incidentRepository: Repository<Incident>,
+    @InjectRepository(EntityMention)
+    private readonly mentionRepository: Repository<EntityMention>,
   ) {}
 
+  // Incidents saved before severity was stored have none. They are assessed
+  // in the background so a large table does not hold up startup; severity
+  // filters leave them out until then.
+  onApplicationBootstrap() {
+    this.backfillSeverity().catch(error => this.logger.error(`Severity backfill failed: ${error.message}`));
+  }
+
+  private async backfillSeverity() {
+    let assessed = 0;
+    for (;;) {
+      const incidents = await this.incidentRepository.find({
+        select: ['id', 'type', 'category', 'metadata'],
+        where: { severity: IsNull() },
+        take: SEVERITY_BACKFILL_BATCH_SIZE,
+      });
+      if (incidents.length === 0) break;
+
+      const bySeverity = new Map<IncidentSeverity, string[]>();
+      for (const incident of incidents) {
+        const severity = assessSeverity(incident);
+        bySeverity.set(severity, [...(bySeverity.get(severity) || []), incident.id]);
+      }
+      for (const [severity, ids] of bySeverity) {
+        await this.incidentRepository.update({ id: In(ids) }, { severity });
+      }
+
+      assessed += incidents.length;
+      if (incidents.length < SEVERITY_BACKFILL_BATCH_SIZE) break;
+    }
+
+    if (assessed > 0) {
+      this.logger.log(`Assessed the severity of ${assessed} existing incidents`);
+    }
+  }
+
   async findAll(query: any): Promise<{ incidents: Incident[], total: number, page: number, totalPages: number }> {
     const qb: SelectQueryBuilder<Incident> = this.incidentRepository.createQueryBuilder('incident');
 
@@ -115,7 +157,10 @@ export class IncidentsService {
   }
 
   async create(incidentData: Partial<Incident>): Promise<Incident> {
-    const incident = this.incidentRepository.create(incidentData);
+    const incident = this.incidentRepository.create({
+      ...incidentData,
+      severity: incidentData.severity || assessSeverity(incidentData),
+    });
     return this.incidentRepository.save(incident);
   }
 
@@ -123,6 +168,75 @@ export class IncidentsService {
     return this.incidentRepository.find({ where: { id: In(ids) } });
   }
 
+  // Which of the ids are already stored, without loading the rows
+  async findExistingIds(ids: string[]): Promise<Set<string>> {
+    if (ids.length === 0) {
+      return new Set();
+    }
+
+    const existing = await this.incidentRepository.find({ select: ['id'], where: { id: In(ids) } });
+    return new Set(existing.map(incident => incident.id));
+  }
+
+  /**
+   * The incident's entities as EntityRefs. Entities found in the text carry
+   * the confidence of their best mention and the mentions themselves;
+   * entities taken from structured fields have no confidence.
+   */
+  async findEntityRefs(id: string) {
+    const incident = await this.incidentRepository.findOne({ where: { id }, relations: ['entities'] });
+    if (!incident) {
+      throw new NotFoundException(`Incident ${id} not found`);
+    }
+
+    const mentions = await this.mentionRepository.find({ where: { incidentId: id }, order: { field: 'DESC', start: 'ASC' } });
+    return incident.entities.map(entity => {
+      const entityMentions = mentions.filter(mention => mention.entityId === entity.id);
+      return {
+        id: entity.id,
+        type: entity.type,
+        name: entity.name,
+        confidence: entityMentions.length > 0 ? Math.max(...entityMentions.map(mention => mention.confidence)) : undefined,
+        mentions: entityMentions.map(({ field, text, start, end, label, confidence, extractor }) => (
+          { field, text, start, end, label, confidence, extractor }
+        )),
+      };
+    });
+  }
+
+  /**
+   * Incidents linked to any of the given entities, with their entities loaded
+   * so callers can tell which link matched.
+   */
+  async findByEntityIds(
+    entityIds: string[],
+    options: { excludeIds?: string[]; startDate?: string; endDate?: string; limit?: number } = {}
+  ): Promise<Incident[]> {
+    if (entityIds.length === 0) {
+      return [];
+    }
+
+    const qb = this.incidentRepository
+      .createQueryBuilder('incident')
+      .innerJoin('incident.entities', 'matched', 'matched.id IN (:...entityIds)', { entityIds })
+      .leftJoinAndSelect('incident.entities', 'entity');
+
+    if (options.excludeIds && options.excludeIds.length > 0) {
+      qb.andWhere('incident.id NOT IN (:...excludeIds)', { excludeIds: options.excludeIds });
+    }
+    if (options.startDate) {
+      qb.andWhere('incident.datetime >= :startDate', { startDate: options.startDate });
+    }
+    if (options.endDate) {
+      qb.andWhere('incident.datetime <= :endDate', { endDate: options.endDate });
+    }
+
+    return qb
+      .orderBy('incident.datetime', 'DESC')
+      .take(options.limit || 100)
+      .getMany();
+  }
+
   async semanticSearch(
     query: string,
     embedding: number[],
@@ -0,0 +1,67 @@
+import { Injectable, SetMetadata, applyDecorators } from '@nestjs/common';
+import { Incident, Entity, IngestionSourceConfig } from '../../../entities';
+
+export const DATA_SOURCE_ADAPTER = 'ingestion:data-source-adapter';
+
+export type ProgressReporter = (fraction: number) => Promise<void>;
+
+export type EntityCandidate = Pick<Entity, 'type' | 'name'>;
+
+export interface DataSourceContext {
+  // Report fetch progress as a 0-1 fraction
+  onProgress: ProgressReporter;
+  // The persisted config being run; adapters use its url in place of their API's default
+  config?: IngestionSourceConfig;
+  // Version of each batch committed by earlier runs, keyed by batch key
+  checkpoints: ReadonlyMap<string, string>;
+  // Record upstream requests, failed ones included, for the run history
+  countApiCalls: (count?: number) => void;
+  // Record a recoverable failure, such as one request out of many, on the run
+  recordError: (message: string) => void;
+}
+
+export interface DataSourceBatch<TRecord> {
+  // Identifies the slice of the feed, e.g. a sector and month
+  key: string;
+  // Upstream last-updated marker for the slice
+  version: string;
+  records: TRecord[];
+}
+
+/**
+ * A feed the ingestion pipeline can run. The processor fetches raw records,
+ * maps each one to an incident and links the entities the adapter extracts
+ * on top of the generic location, category and month entities.
+ *
+ * Adapters implement either fetch, returning everything in one go, or
+ * fetchBatches for incremental feeds. Each batch is saved and then
+ * checkpointed, so a crashed run resumes where it stopped and later runs can
+ * skip slices whose version has not changed.
+ *
+ * Register an adapter by decorating it with @DataSource() and adding it to
+ * IngestionModule's providers; its id becomes the queue job name and the
+ * POST /ingestion/:id route.
+ */
+export interface DataSourceAdapter<TRecord = any> {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  // Cron expression for the source's default config; omit for on-demand sources
+  readonly schedule?: string;
+  // Whether the source sends the config's api key; configs for other sources cannot store one
+  readonly usesApiKey?: boolean;
+
+  fetch?(context: DataSourceContext): Promise<TRecord[]>;
+
+  fetchBatches?(context: DataSourceContext): AsyncIterable<DataSourceBatch<TRecord>>;
+
+  // Return null to skip records that should not become incidents
+  map(record: TRecord): Partial<Incident> | null;
+
+  extractEntities?(record: TRecord, incident: Partial<Incident>): EntityCandidate[];
+}
+
+/**
+ * Marks a provider as a DataSourceAdapter so DataSourceRegistry picks it up.
+ */
+export const DataSource = () => applyDecorators(Injectable(), SetMetadata(DATA_SOURCE_ADAPTER, true));
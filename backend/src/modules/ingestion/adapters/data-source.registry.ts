@@ -0,0 +1,46 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService, Reflector } from '@nestjs/core';
+import { DataSourceAdapter, DATA_SOURCE_ADAPTER } from './data-source.adapter';
+
+/**
+ * Collects every @DataSource() provider at startup so the processor,
+ * scheduler and controller never need to know which feeds exist.
+ */
+@Injectable()
+export class DataSourceRegistry implements OnModuleInit {
+  private readonly logger = new Logger(DataSourceRegistry.name);
+  private readonly adapters = new Map<string, DataSourceAdapter>();
+
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  onModuleInit(): void {
+    for (const wrapper of this.discoveryService.getProviders()) {
+      const { instance, metatype } = wrapper;
+      if (!instance || !metatype || !this.reflector.get(DATA_SOURCE_ADAPTER, metatype)) {
+        continue;
+      }
+
+      const adapter = instance as DataSourceAdapter;
+      if (!adapter.fetch && !adapter.fetchBatches) {
+        throw new Error(`Data source "${adapter.id}" implements neither fetch nor fetchBatches`);
+      }
+      if (this.adapters.has(adapter.id)) {
+        throw new Error(`Duplicate data source id "${adapter.id}"`);
+      }
+      this.adapters.set(adapter.id, adapter);
+    }
+
+    this.logger.log(`Registered data sources: ${Array.from(this.adapters.keys()).join(', ')}`);
+  }
+
+  get(id: string): DataSourceAdapter | undefined {
+    return this.adapters.get(id);
+  }
+
+  getAll(): DataSourceAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+}
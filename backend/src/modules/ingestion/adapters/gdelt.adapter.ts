@@ -0,0 +1,132 @@
+import { GdeltService, GdeltLondonEvent } from '../../../services/gdelt.service';
+import { Incident, Entity } from '../../../entities';
+import { DataSource, DataSourceAdapter, DataSourceContext, EntityCandidate } from './data-source.adapter';
+
+@DataSource()
+export class GdeltAdapter implements DataSourceAdapter<GdeltLondonEvent> {
+  readonly id = 'gdelt';
+  readonly name = 'GDELT';
+  readonly description = 'GDELT - Global events and news analysis';
+
+  constructor(private readonly gdeltService: GdeltService) {}
+
+  async fetch(context: DataSourceContext): Promise<GdeltLondonEvent[]> {
+    const events = await this.gdeltService.getEvents(context.config?.url || undefined, () => context.countApiCalls());
+    await context.onProgress(1);
+    return events;
+  }
+
+  map(event: GdeltLondonEvent): Partial<Incident> {
+    const eventType = CAMEO_ROOT_EVENTS[event.eventrootcode] || 'Event';
+    const actors = [event.actor1name, event.actor2name].filter(Boolean).map(toTitleCase);
+    const tone = event.documentTone ?? event.avgtone;
+
+    const description = [
+      `${eventType} reported ${actors.length > 0 ? `involving ${actors.join(' and ')} ` : ''}in ${event.actiongeo_fullname || 'London'}.`,
+      `CAMEO ${event.eventcode}, Goldstein ${event.goldsteinscale}, tone ${isNaN(tone) ? 'n/a' : tone.toFixed(2)}, ${event.numarticles} articles.`,
+      event.themes.length > 0 ? `Themes: ${event.themes.slice(0, 10).join(', ')}.` : '',
+      `Source: ${event.sourceurl}`,
+    ].filter(Boolean).join(' ');
+
+    return {
+      id: `gdelt-${event.globaleventid}`,
+      type: 'news',
+      title: actors.length > 0 ? `${eventType} - ${actors.join(' / ')}` : `${eventType} - ${event.actiongeo_fullname}`,
+      description,
+      category: eventType.toLowerCase().replace(/[^a-z0-9]+/g, '_'),
+      source: 'GDELT',
+      location: { lat: event.actiongeo_lat, lng: event.actiongeo_long, address: event.actiongeo_fullname },
+      datetime: parseGdeltTimestamp(event.dateadded) || parseGdeltTimestamp(event.day) || new Date().toISOString(),
+      metadata: {
+        gdeltEventId: event.globaleventid,
+        eventCode: event.eventcode,
+        eventBaseCode: event.eventbasecode,
+        eventRootCode: event.eventrootcode,
+        quadClass: event.quadclass,
+        goldsteinScale: event.goldsteinscale,
+        avgTone: event.avgtone,
+        documentTone: event.documentTone,
+        numMentions: event.nummentions,
+        numSources: event.numsources,
+        numArticles: event.numarticles,
+        actor1: { code: event.actor1code, name: event.actor1name, countryCode: event.actor1countrycode },
+        actor2: { code: event.actor2code, name: event.actor2name, countryCode: event.actor2countrycode },
+        themes: event.themes,
+        sourceUrl: event.sourceurl,
+      },
+    };
+  }
+
+  /**
+   * People and organisations come from the GKG record of the source article,
+   * plus the coded event actors. Actors coded as a bare country are skipped
+   * because they describe a place, not a party.
+   */
+  extractEntities(event: GdeltLondonEvent): EntityCandidate[] {
+    const candidates = new Map<string, EntityCandidate>();
+    const add = (type: Entity['type'], name: string) => {
+      const normalised = toTitleCase(name.trim());
+      if (normalised) candidates.set(`${type}:${normalised.toLowerCase()}`, { type, name: normalised });
+    };
+
+    for (const [code, name, countryCode] of [
+      [event.actor1code, event.actor1name, event.actor1countrycode],
+      [event.actor2code, event.actor2name, event.actor2countrycode],
+    ]) {
+      if (!code || !name || code === countryCode) continue;
+      add(isOrganisationActorCode(code) ? 'organisation' : 'person', name);
+    }
+    event.persons.forEach(name => add('person', name));
+    event.organisations.forEach(name => add('organisation', name));
+
+    return Array.from(candidates.values());
+  }
+}
+
+// CAMEO event root codes used by GDELT
+const CAMEO_ROOT_EVENTS: Record<string, string> = {
+  '01': 'Public Statement',
+  '02': 'Appeal',
+  '03': 'Intent to Cooperate',
+  '04': 'Consultation',
+  '05': 'Diplomatic Cooperation',
+  '06': 'Material Cooperation',
+  '07': 'Aid',
+  '08': 'Yield',
+  '09': 'Investigation',
+  '10': 'Demand',
+  '11': 'Disapproval',
+  '12': 'Rejection',
+  '13': 'Threat',
+  '14': 'Protest',
+  '15': 'Force Posture',
+  '16': 'Reduced Relations',
+  '17': 'Coercion',
+  '18': 'Assault',
+  '19': 'Fight',
+  '20': 'Mass Violence',
+};
+
+// CAMEO actor role codes that denote institutions rather than individuals
+const ORGANISATION_ACTOR_ROLES = [
+  'GOV', 'MIL', 'COP', 'JUD', 'LEG', 'BUS', 'MED', 'EDU', 'NGO', 'IGO', 'PTY', 'SPY', 'REB', 'OPP', 'INS', 'UAF', 'LAB', 'HLH',
+];
+
+function isOrganisationActorCode(code: string): boolean {
+  // Codes are concatenated three-letter segments, e.g. GBRCOP for British police
+  const segments = code.match(/.{1,3}/g) || [];
+  return segments.some(segment => ORGANISATION_ACTOR_ROLES.includes(segment));
+}
+
+// GDELT dates are YYYYMMDD or YYYYMMDDHHMMSS in UTC
+function parseGdeltTimestamp(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2}))?$/.exec(value || '');
+  if (!match) return null;
+
+  const [, year, month, day, hour = '00', minute = '00', second = '00'] = match;
+  return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`).toISOString();
+}
+
+function toTitleCase(value: string): string {
+  return value.toLowerCase().replace(/\b[a-z]/g, letter => letter.toUpperCase());
+}
@@ -0,0 +1,195 @@
+import { TflService } from '../../../services/tfl.service';
+import { Incident } from '../../../entities';
+import { tflStatusSeverity } from '../../incidents/incident-severity';
+import { DataSource, DataSourceAdapter, DataSourceContext } from './data-source.adapter';
+
+const LINE_MODES = ['tube', 'bus', 'overground', 'dlr', 'elizabeth'] as const;
+
+// Requests made by TflService.getAllTransportModes
+const TRANSPORT_MODE_REQUESTS = 8;
+
+type TflRecord =
+  | { kind: 'line'; mode: string; status: any }
+  | { kind: 'road'; status: any }
+  | { kind: 'disruption'; disruption: any }
+  | { kind: 'bike_anomaly'; incident: Partial<Incident> };
+
+@DataSource()
+export class TflAdapter implements DataSourceAdapter<TflRecord> {
+  readonly id = 'tfl';
+  readonly name = 'Transport for London';
+  readonly description = 'Transport for London - Real-time transport data';
+  readonly schedule = '*/5 * * * *';
+  readonly usesApiKey = true;
+
+  constructor(private readonly tflService: TflService) {}
+
+  async fetch(context: DataSourceContext): Promise<TflRecord[]> {
+    context.countApiCalls(TRANSPORT_MODE_REQUESTS);
+    const tflAllData = await this.tflService.getAllTransportModes({
+      baseUrl: context.config?.url || undefined,
+      appKey: context.config?.apiKey || undefined,
+    });
+    await context.onProgress(1);
+
+    return [
+      ...LINE_MODES.flatMap(mode => (tflAllData[mode] as any[]).map(status => ({ kind: 'line' as const, mode, status }))),
+      ...tflAllData.roads.map((status: any) => ({ kind: 'road' as const, status })),
+      ...tflAllData.roadDisruptions.map((disruption: any) => ({ kind: 'disruption' as const, disruption })),
+      // Anomalies only make sense across the whole network, so they are detected up front
+      ...this.detectBikePointAnomalies(tflAllData.bikes).map(incident => ({ kind: 'bike_anomaly' as const, incident })),
+    ];
+  }
+
+  map(record: TflRecord): Partial<Incident> | null {
+    switch (record.kind) {
+      case 'line':
+        return this.mapTfLLineStatusToIncident(record.status, record.mode);
+      case 'road':
+        return this.mapTfLRoadStatusToIncident(record.status);
+      case 'disruption':
+        return this.mapTfLRoadDisruptionToIncident(record.disruption);
+      case 'bike_anomaly':
+        return record.incident;
+    }
+  }
+
+  private mapTfLLineStatusToIncident(lineStatus: any, mode: string): Partial<Incident> | null {
+    for (const status of lineStatus.lineStatuses) {
+      // TFL severity: lower numbers = more severe (6=severe, 9=minor, 10=good)
+      const severityThreshold = 10; // Capture anything worse than "Good Service"
+
+      if (status.statusSeverity < severityThreshold) {
+        const location = this.getTubeLineLocation(lineStatus.id);
+        return {
+          id: `tfl-${mode}-${lineStatus.id}`, // Stable ID without timestamp
+          type: 'tfl',
+          title: `${lineStatus.name} ${mode.charAt(0).toUpperCase() + mode.slice(1)} - ${status.statusSeverityDescription}`,
+          description: status.reason || `${status.statusSeverityDescription} on ${lineStatus.name} ${mode}`,
+          category: 'transport_disruption',
+          source: `TfL ${mode.toUpperCase()} API`,
+          location: { lat: location.lat, lng: location.lng, address: `${lineStatus.name} Line` },
+          datetime: status.created ? new Date(status.created).toISOString() : new Date().toISOString(),
+          severity: tflStatusSeverity(status.statusSeverity),
+        };
+      }
+    }
+    return null;
+  }
+
+  private getTubeLineLocation(lineId: string): { lat: number; lng: number } {
+    // Major station coordinates for each tube line for better map positioning
+    const lineCoordinates = {
+      'bakerloo': { lat: 51.5074, lng: -0.1278 }, // Oxford Circus
+      'central': { lat: 51.5154, lng: -0.1553 }, // Bond Street
+      'circle': { lat: 51.5034, lng: -0.1276 }, // Westminster
+      'district': { lat: 51.4941, lng: -0.1445 }, // Victoria
+      'hammersmith-city': { lat: 51.5154, lng: -0.2056 }, // Hammersmith
+      'jubilee': { lat: 51.5034, lng: -0.1276 }, // Westminster
+      'metropolitan': { lat: 51.5154, lng: -0.1553 }, // Baker Street
+      'northern': { lat: 51.5074, lng: -0.1278 }, // Oxford Circus
+      'piccadilly': { lat: 51.5074, lng: -0.1362 }, // Piccadilly Circus
+      'victoria': { lat: 51.4941, lng: -0.1445 }, // Victoria
+      'waterloo-city': { lat: 51.5043, lng: -0.1132 }, // Waterloo
+      'elizabeth': { lat: 51.5154, lng: -0.1553 }, // Bond Street
+    };
+
+    return lineCoordinates[lineId] || { lat: 51.5074, lng: -0.1278 }; // Default to central London
+  }
+
+  private mapTfLRoadStatusToIncident(roadStatus: any): Partial<Incident> | null {
+    // Only create incidents for roads with issues
+    if (roadStatus.statusSeverity !== 'Good') {
+      const bounds = JSON.parse(roadStatus.bounds);
+      const centerLat = (bounds[0][1] + bounds[1][1]) / 2;
+      const centerLng = (bounds[0][0] + bounds[1][0]) / 2;
+
+      return {
+        id: `tfl-road-${roadStatus.id}`, // Stable ID without timestamp
+        type: 'road_incident',
+        title: `${roadStatus.displayName} - ${roadStatus.statusSeverityDescription}`,
+        description: `Traffic incident on ${roadStatus.displayName}: ${roadStatus.statusSeverityDescription}`,
+        category: 'traffic_incident',
+        source: 'TfL Road API',
+        location: { lat: centerLat, lng: centerLng, address: roadStatus.displayName },
+        datetime: new Date().toISOString(),
+      };
+    }
+    return null;
+  }
+
+  private mapTfLRoadDisruptionToIncident(disruption: any): Partial<Incident> | null {
+    // Only create incidents for active disruptions with geographic data
+    if (disruption.status === 'Active' && disruption.point) {
+      const pointData = JSON.parse(disruption.point);
+
+      // Determine severity category
+      let severityCategory = 'traffic_disruption';
+      if (disruption.hasClosures) {
+        severityCategory = 'road_closure';
+      } else if (disruption.severity === 'Serious' || disruption.severity === 'Severe') {
+        severityCategory = 'traffic_incident';
+      }
+
+      // Build detailed description
+      let description = disruption.comments || `${disruption.category} on ${disruption.location}`;
+      if (disruption.currentUpdate) {
+        description += ` Current status: ${disruption.currentUpdate}`;
+      }
+
+      // Extract street names if available
+      const streetNames = disruption.streets?.map((street: any) => street.name).join(', ') || disruption.location;
+
+      return {
+        id: `tfl-disruption-${disruption.id}`, // Stable ID
+        type: 'road_incident',
+        title: `${disruption.location} - ${disruption.severity || disruption.category}`,
+        description: description,
+        category: severityCategory,
+        source: 'TfL Road Disruption API',
+        location: {
+          lat: pointData[1], // pointData is [lng, lat] array format
+          lng: pointData[0],
+          address: streetNames
+        },
+        datetime: disruption.startDateTime || new Date().toISOString(),
+      };
+    }
+    return null;
+  }
+
+  private detectBikePointAnomalies(bikePoints: any[]): Partial<Incident>[] {
+    const anomalies: Partial<Incident>[] = [];
+
+    for (const bikePoint of bikePoints) {
+      const bikeProperty = bikePoint.additionalProperties.find((prop: any) => prop.key === 'NbBikes');
+      const dockProperty = bikePoint.additionalProperties.find((prop: any) => prop.key === 'NbEmptyDocks');
+
+      if (bikeProperty && dockProperty) {
+        const bikes = parseInt(bikeProperty.value);
+        const docks = parseInt(dockProperty.value);
+        const total = bikes + docks;
+
+        // Detect anomalies: completely empty stations or suspicious patterns
+        if (total > 10 && (bikes === 0 || docks === 0)) {
+          const isEmptyBikes = bikes === 0;
+
+          anomalies.push({
+            id: `tfl-bike-${bikePoint.id}`,
+            type: 'bike_anomaly',
+            title: `Bike Station Anomaly - ${bikePoint.commonName}`,
+            description: isEmptyBikes
+              ? `Bike station completely empty: 0 bikes, ${docks} empty docks`
+              : `Bike station completely full: ${bikes} bikes, 0 empty docks`,
+            category: 'transport_anomaly',
+            source: 'TfL Bike API',
+            location: { lat: bikePoint.lat, lng: bikePoint.lon, address: bikePoint.commonName },
+            datetime: new Date().toISOString(),
+          });
+        }
+      }
+    }
+
+    return anomalies;
+  }
+}
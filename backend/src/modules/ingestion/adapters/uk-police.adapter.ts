@@ -0,0 +1,154 @@
+import { Logger } from '@nestjs/common';
+import { CrimeDateAvailability, UkPoliceService } from '../../../services/uk-police.service';
+import { Incident } from '../../../entities';
+import { DataSource, DataSourceAdapter, DataSourceBatch, DataSourceContext } from './data-source.adapter';
+
+// Months of history kept in sync, counted back from the newest month published
+const MONTHS_OF_COVERAGE = 24;
+
+// Street crime is queried within a mile of each sector centre
+const LONDON_SECTORS = [
+  // Core Central London
+  { lat: 51.5074, lng: -0.1278, name: 'Central London', sector: 'CENTRAL' },
+  { lat: 51.5155, lng: -0.1416, name: 'Westminster', sector: 'WESTMINSTER' },
+  { lat: 51.5099, lng: -0.1180, name: 'City of London', sector: 'CITY' },
+  { lat: 51.5033, lng: -0.1195, name: 'London Bridge Area', sector: 'LONDONBRIDGE' },
+
+  // North London Expansion
+  { lat: 51.5924, lng: -0.1559, name: 'North London', sector: 'NORTH' },
+  { lat: 51.5488, lng: -0.1418, name: 'Camden', sector: 'CAMDEN' },
+  { lat: 51.5362, lng: -0.1034, name: 'Islington', sector: 'ISLINGTON' },
+  { lat: 51.5970, lng: -0.0780, name: 'Tottenham', sector: 'TOTTENHAM' },
+  { lat: 51.6252, lng: -0.1517, name: 'Barnet', sector: 'BARNET' },
+  { lat: 51.6094, lng: -0.2792, name: 'Harrow', sector: 'HARROW' },
+  { lat: 51.6077, lng: -0.3528, name: 'Hillingdon', sector: 'HILLINGDON' },
+
+  // East London Expansion
+  { lat: 51.5074, lng: -0.0759, name: 'East London', sector: 'EAST' },
+  { lat: 51.5099, lng: -0.0059, name: 'Canary Wharf', sector: 'CANARYWHARF' },
+  { lat: 51.5153, lng: -0.0722, name: 'Tower Hamlets', sector: 'TOWERHAMLETS' },
+  { lat: 51.5448, lng: -0.0553, name: 'Hackney', sector: 'HACKNEY' },
+  { lat: 51.5445, lng: 0.0022, name: 'Greenwich', sector: 'GREENWICH' },
+  { lat: 51.4934, lng: 0.0098, name: 'Lewisham', sector: 'LEWISHAM' },
+  { lat: 51.4066, lng: 0.0180, name: 'Bromley', sector: 'BROMLEY' },
+  { lat: 51.4415, lng: 0.1058, name: 'Bexley', sector: 'BEXLEY' },
+  { lat: 51.5755, lng: 0.1826, name: 'Havering', sector: 'HAVERING' },
+
+  // South London Expansion
+  { lat: 51.4994, lng: -0.1270, name: 'South London', sector: 'SOUTH' },
+  { lat: 51.4816, lng: -0.1916, name: 'Wimbledon', sector: 'WIMBLEDON' },
+  { lat: 51.4554, lng: -0.1005, name: 'Croydon', sector: 'CROYDON' },
+  { lat: 51.4050, lng: -0.1949, name: 'Sutton', sector: 'SUTTON' },
+  { lat: 51.4619, lng: -0.0747, name: 'Southwark', sector: 'SOUTHWARK' },
+  { lat: 51.4816, lng: -0.1265, name: 'Lambeth', sector: 'LAMBETH' },
+  { lat: 51.4607, lng: -0.1163, name: 'Brixton', sector: 'BRIXTON' },
+  { lat: 51.4781, lng: -0.0018, name: 'Woolwich', sector: 'WOOLWICH' },
+
+  // West London Expansion
+  { lat: 51.5074, lng: -0.2108, name: 'West London', sector: 'WEST' },
+  { lat: 51.4994, lng: -0.1938, name: 'Kensington & Chelsea', sector: 'KENSINGTON' },
+  { lat: 51.5138, lng: -0.2185, name: 'Hammersmith & Fulham', sector: 'HAMMERSMITH' },
+  { lat: 51.5642, lng: -0.2817, name: 'Ealing', sector: 'EALING' },
+  { lat: 51.5106, lng: -0.3340, name: 'Hounslow', sector: 'HOUNSLOW' },
+  { lat: 51.4700, lng: -0.4139, name: 'Heathrow Area', sector: 'HEATHROW' },
+  { lat: 51.4518, lng: -0.2073, name: 'Richmond', sector: 'RICHMOND' },
+  { lat: 51.4240, lng: -0.2763, name: 'Kingston upon Thames', sector: 'KINGSTON' },
+
+  // Strategic Areas
+  { lat: 51.5434, lng: -0.0103, name: 'Olympic Park Area', sector: 'OLYMPIC' },
+  { lat: 51.5577, lng: -0.2788, name: 'Wembley', sector: 'WEMBLEY' },
+  { lat: 51.6156, lng: 0.0539, name: 'Redbridge', sector: 'REDBRIDGE' },
+  { lat: 51.5986, lng: -0.0299, name: 'Enfield', sector: 'ENFIELD' },
+  { lat: 51.5290, lng: -0.3947, name: 'Uxbridge', sector: 'UXBRIDGE' },
+];
+
+@DataSource()
+export class UkPoliceAdapter implements DataSourceAdapter {
+  readonly id = 'uk-police';
+  readonly name = 'UK Police';
+  readonly description = 'UK Police API - Crime and incident data';
+
+  private readonly logger = new Logger(UkPoliceAdapter.name);
+
+  constructor(private readonly ukPoliceService: UkPoliceService) {}
+
+  /**
+   * Yields one batch per sector and month that is new, or whose entry in
+   * /crimes-street-dates has changed since it was last ingested. Once
+   * everything is current a run costs one API call instead of one per sector
+   * and month.
+   */
+  async *fetchBatches(context: DataSourceContext): AsyncGenerator<DataSourceBatch<any>> {
+    const baseUrl = context.config?.url || undefined;
+    const crimeDates = await this.ukPoliceService.getCrimeDates(baseUrl);
+    context.countApiCalls();
+    const months = crimeDates.slice(0, MONTHS_OF_COVERAGE).reverse(); // Chronological order
+
+    const pending = months
+      .flatMap(month => LONDON_SECTORS.map(sector => ({ period: month.date, version: monthVersion(month), sector })))
+      .filter(({ period, version, sector }) => context.checkpoints.get(checkpointKey(sector.sector, period)) !== version);
+
+    this.logger.log(
+      `${pending.length} of ${months.length * LONDON_SECTORS.length} sector-months to fetch ` +
+      `(${months[0]?.date} to ${months[months.length - 1]?.date})`,
+    );
+
+    // Neighbouring sectors overlap, so the same crime can come back more than once
+    const seen = new Set<number>();
+    let failedApiCalls = 0;
+
+    for (const [index, { period, version, sector }] of pending.entries()) {
+      let crimes: any[] | null = null;
+      context.countApiCalls();
+      try {
+        crimes = await this.ukPoliceService.getStreetCrime(sector.lat, sector.lng, period, baseUrl);
+      } catch (error) {
+        // Left without a checkpoint, so the next run tries it again
+        this.logger.warn(`Street crime fetch failed: ${sector.name} [${period}] - ${error.message}`);
+        context.recordError(`Street crime fetch failed for ${sector.name} ${period}: ${error.message}`);
+        failedApiCalls++;
+      }
+
+      if (crimes) {
+        yield {
+          key: checkpointKey(sector.sector, period),
+          version,
+          records: crimes
+            .filter(crime => !seen.has(crime.id) && seen.add(crime.id))
+            .map(crime => ({ ...crime, _sector: sector.sector, _sectorName: sector.name, _period: period })),
+        };
+      }
+
+      await context.onProgress((index + 1) / pending.length);
+    }
+
+    // Nothing came back at all, so fail the job and let the queue retry it
+    if (pending.length > 0 && failedApiCalls === pending.length) {
+      throw new Error(`All ${pending.length} UK Police API calls failed`);
+    }
+  }
+
+  map(crime: any): Partial<Incident> {
+    return {
+      id: `uk-police-${crime.id}`,
+      type: 'crime',
+      title: `${crime.category} - ${crime.location.street.name}`,
+      description: crime.context,
+      category: crime.category,
+      source: 'UK Police API',
+      location: { lat: parseFloat(crime.location.latitude), lng: parseFloat(crime.location.longitude), address: crime.location.street.name },
+      datetime: new Date(`${crime.month}-01`).toISOString(),
+      outcome_status: crime.outcome_status,
+      persistent_id: crime.persistent_id,
+    };
+  }
+}
+
+function checkpointKey(sector: string, period: string): string {
+  return `${sector}:${period}`;
+}
+
+// A month's data changes when forces are added to or withdrawn from it
+function monthVersion(month: CrimeDateAvailability): string {
+  return [...(month['stop-and-search'] || [])].sort().join(',');
+}
@@ -0,0 +1,263 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Queue } from 'bull';
+import { Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { parse as parseCsv } from 'csv-parse/sync';
+import { IncidentSchema } from '@intel-fusion/shared';
+import { Incident, IngestionUpload } from '../../entities';
+import { ImportFormat, IMPORT_FORMATS } from '../../dto/import-incidents.dto';
+import { UPLOAD_JOB } from './ingestion.processor';
+
+// Incident fields a file column can be mapped onto
+export type ImportField = 'id' | 'title' | 'description' | 'datetime' | 'lat' | 'lng' | 'address' | 'category' | 'type' | 'severity';
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportOptions {
+  format?: ImportFormat;
+  mapping: ColumnMapping;
+  // Label stored as the incidents' source; defaults to the file name
+  source?: string;
+  // Incident type for rows without a mapped type column
+  type?: Incident['type'];
+  dryRun?: boolean;
+}
+
+export interface ImportRowError {
+  row: number;
+  field?: string;
+  message: string;
+}
+
+// Row errors returned to the caller; the rest are only counted
+const MAX_REPORTED_ERRORS = 200;
+const PREVIEW_ROWS = 5;
+
+// Header names, lowercased, that suggest each field
+const MAPPING_HINTS: Record<ImportField, string[]> = {
+  id: ['id', 'ref', 'reference', 'incident_id', 'case_number'],
+  title: ['title', 'name', 'headline', 'summary', 'subject'],
+  description: ['description', 'details', 'notes', 'body', 'text', 'narrative'],
+  datetime: ['datetime', 'date', 'timestamp', 'time', 'occurred_at', 'reported_at', 'created_at'],
+  lat: ['lat', 'latitude', 'y'],
+  lng: ['lng', 'lon', 'long', 'longitude', 'x'],
+  address: ['address', 'location', 'street', 'place'],
+  category: ['category', 'crime_type', 'offence', 'classification'],
+  type: ['type', 'incident_type'],
+  severity: ['severity', 'priority', 'risk', 'grade'],
+};
+
+interface ParsedRow {
+  row: number;
+  fields: Record<string, any>;
+  // Point coordinates from a GeoJSON geometry, used when lat/lng are not mapped
+  point?: { lat: number; lng: number };
+}
+
+/**
+ * Imports partner incident files. Callers preview a file to see its columns
+ * and a suggested mapping, then import it with a confirmed mapping. Rows that
+ * fail IncidentSchema are reported and skipped; the rest are queued to go
+ * through the same entity extraction as the feeds and are recorded as an
+ * 'upload' run.
+ */
+@Injectable()
+export class IncidentImportService {
+  constructor(
+    @InjectQueue('ingestion') private readonly ingestionQueue: Queue,
+    @InjectRepository(IngestionUpload)
+    private readonly uploadRepository: Repository<IngestionUpload>,
+  ) {}
+
+  preview(file: Express.Multer.File, format?: ImportFormat) {
+    const resolvedFormat = this.resolveFormat(file, format);
+    const rows = this.parse(file, resolvedFormat);
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row.fields))));
+
+    return {
+      format: resolvedFormat,
+      rowCount: rows.length,
+      columns,
+      sample: rows.slice(0, PREVIEW_ROWS).map(row => row.fields),
+      suggestedMapping: suggestMapping(columns),
+      hasGeometry: rows.some(row => row.point),
+    };
+  }
+
+  async import(file: Express.Multer.File, options: ImportOptions) {
+    const format = this.resolveFormat(file, options.format);
+    const rows = this.parse(file, format);
+    const source = options.source?.trim() || file.originalname;
+    const { mapping } = options;
+
+    if (!mapping.title || !mapping.datetime) {
+      throw new BadRequestException('The mapping must name the title and datetime columns');
+    }
+    if ((!mapping.lat || !mapping.lng) && !rows.some(row => row.point)) {
+      throw new BadRequestException('The mapping must name the lat and lng columns');
+    }
+
+    const errors: ImportRowError[] = [];
+    const valid: Partial<Incident>[] = [];
+    let invalidRows = 0;
+
+    for (const row of rows) {
+      const candidate = this.toIncident(row, mapping, source, options.type || 'crime', file.originalname);
+      const result = IncidentSchema.safeParse(candidate);
+
+      if (result.success) {
+        const { entities, ...incident } = candidate;
+        valid.push(incident as Partial<Incident>);
+        continue;
+      }
+
+      invalidRows++;
+      for (const issue of result.error.issues) {
+        if (errors.length < MAX_REPORTED_ERRORS) {
+          errors.push({ row: row.row, field: issue.path.join('.') || undefined, message: issue.message });
+        }
+      }
+    }
+
+    const report = { format, source, rowCount: rows.length, validRows: valid.length, invalidRows, errors };
+    if (options.dryRun || valid.length === 0) {
+      return { ...report, dryRun: !!options.dryRun };
+    }
+
+    const rejected = errors.map(error => `Row ${error.row}${error.field ? ` ${error.field}` : ''}: ${error.message}`);
+    // The rows stay in Postgres; Redis only holds the job and the upload's id
+    const upload = await this.uploadRepository.save(this.uploadRepository.create({ source, records: valid, rejected }));
+    const job = await this.ingestionQueue.add(UPLOAD_JOB, { uploadId: upload.id });
+    return { ...report, dryRun: false, jobId: job.id };
+  }
+
+  private resolveFormat(file: Express.Multer.File, format?: ImportFormat): ImportFormat {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+    if (format) {
+      return format;
+    }
+
+    const name = file.originalname.toLowerCase();
+    if (name.endsWith('.csv')) return 'csv';
+    if (name.endsWith('.geojson') || name.endsWith('.json')) return 'geojson';
+    if (name.endsWith('.jsonl') || name.endsWith('.ndjson')) return 'jsonl';
+    throw new BadRequestException(`Cannot tell the format of ${file.originalname}; pass format as one of ${IMPORT_FORMATS.join(', ')}`);
+  }
+
+  private parse(file: Express.Multer.File, format: ImportFormat): ParsedRow[] {
+    const text = file.buffer.toString('utf8').replace(/^\uFEFF/, '');
+
+    try {
+      switch (format) {
+        case 'csv':
+          return (parseCsv(text, { columns: true, skip_empty_lines: true, trim: true }) as Record<string, string>[])
+            .map((fields, index) => ({ row: index + 1, fields }));
+        case 'jsonl':
+          return text
+            .split('\n')
+            .map((line, index) => ({ line: line.trim(), row: index + 1 }))
+            .filter(({ line }) => line)
+            .map(({ line, row }) => ({ row, fields: parseJsonLine(line, row) }));
+        case 'geojson':
+          return parseGeoJson(JSON.parse(text));
+      }
+    } catch (error) {
+      throw new BadRequestException(`Could not parse ${file.originalname} as ${format}: ${error.message}`);
+    }
+  }
+
+  private toIncident(row: ParsedRow, mapping: ColumnMapping, source: string, defaultType: Incident['type'], fileName: string) {
+    const value = (field: ImportField) => (mapping[field] ? getPath(row.fields, mapping[field]) : undefined);
+    const text = (field: ImportField) => {
+      const raw = value(field);
+      return raw === undefined || raw === null || raw === '' ? undefined : String(raw).trim();
+    };
+
+    const lat = mapping.lat ? toNumber(value('lat')) : row.point?.lat;
+    const lng = mapping.lng ? toNumber(value('lng')) : row.point?.lng;
+    const datetime = text('datetime');
+    const parsedDate = datetime ? new Date(datetime) : null;
+
+    // A mapped id keeps re-imports of the same file idempotent; otherwise hash the row
+    const key = text('id') || createHash('sha1').update(JSON.stringify(row.fields)).digest('hex').slice(0, 16);
+    const mappedColumns = new Set(Object.values(mapping));
+    const unmapped = Object.fromEntries(Object.entries(row.fields).filter(([column]) => !mappedColumns.has(column)));
+
+    return {
+      id: `upload-${slugify(source)}-${key}`,
+      type: (text('type') || defaultType) as Incident['type'],
+      title: text('title'),
+      description: text('description'),
+      category: text('category'),
+      // Assessed from the category when not mapped
+      severity: text('severity')?.toLowerCase() as Incident['severity'],
+      source,
+      location: { lat, lng, address: text('address') },
+      // Left unparsed when invalid so the schema reports the original value
+      datetime: parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate.toISOString() : datetime,
+      entities: [],
+      metadata: { importedFrom: fileName, row: row.row, fields: unmapped },
+    };
+  }
+}
+
+function parseJsonLine(line: string, row: number): Record<string, any> {
+  const fields = JSON.parse(line);
+  if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+    throw new Error(`line ${row} is not a JSON object`);
+  }
+  return fields;
+}
+
+function parseGeoJson(data: any): ParsedRow[] {
+  const features = data?.type === 'FeatureCollection' ? data.features : data?.type === 'Feature' ? [data] : null;
+  if (!Array.isArray(features)) {
+    throw new Error('expected a FeatureCollection');
+  }
+
+  return features.map((feature: any, index: number) => {
+    const coordinates = feature.geometry?.type === 'Point' ? feature.geometry.coordinates : null;
+    return {
+      row: index + 1,
+      fields: feature.properties || {},
+      // GeoJSON positions are [longitude, latitude]
+      point: coordinates ? { lat: Number(coordinates[1]), lng: Number(coordinates[0]) } : undefined,
+    };
+  });
+}
+
+function suggestMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  for (const [field, hints] of Object.entries(MAPPING_HINTS) as [ImportField, string[]][]) {
+    const match = hints
+      .map(hint => columns.find(column => !used.has(column) && column.toLowerCase().replace(/[\s-]+/g, '_') === hint))
+      .find(Boolean);
+    if (match) {
+      mapping[field] = match;
+      used.add(match);
+    }
+  }
+
+  return mapping;
+}
+
+// Supports dotted paths such as "location.lat" for nested JSON
+function getPath(fields: Record<string, any>, path: string): any {
+  if (path in fields) return fields[path];
+  return path.split('.').reduce((value, key) => (value === undefined || value === null ? undefined : value[key]), fields);
+}
+
+function toNumber(value: any): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  return typeof value === 'number' ? value : parseFloat(String(value));
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/\.[a-z]+$/, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'file';
+}
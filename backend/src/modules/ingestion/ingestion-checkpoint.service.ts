@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { IngestionCheckpoint } from '../../entities';
+
+@Injectable()
+export class IngestionCheckpointService {
+  constructor(
+    @InjectRepository(IngestionCheckpoint)
+    private readonly checkpointRepository: Repository<IngestionCheckpoint>,
+  ) {}
+
+  /**
+   * Version of every slice of the source ingested so far, keyed by slice.
+   */
+  async getVersions(source: string): Promise<Map<string, string>> {
+    const checkpoints = await this.checkpointRepository.find({ where: { source } });
+    return new Map(checkpoints.map(checkpoint => [checkpoint.key, checkpoint.version]));
+  }
+
+  async commit(source: string, key: string, version: string, recordCount: number): Promise<void> {
+    await this.checkpointRepository.upsert({ source, key, version, recordCount }, ['source', 'key']);
+  }
+
+  async summarise(source: string) {
+    const summary = await this.checkpointRepository
+      .createQueryBuilder('checkpoint')
+      .select('COUNT(*)', 'slices')
+      .addSelect('COALESCE(SUM(checkpoint.recordCount), 0)', 'records')
+      .addSelect('MAX(checkpoint.updatedAt)', 'lastCommittedAt')
+      .where('checkpoint.source = :source', { source })
+      .getRawOne();
+
+    return {
+      source,
+      slices: Number(summary.slices),
+      records: Number(summary.records),
+      lastCommittedAt: summary.lastCommittedAt,
+    };
+  }
+
+  // Forces the next run to fetch every slice again
+  async clear(source: string): Promise<number> {
+    const result = await this.checkpointRepository.delete({ source });
+    return result.affected || 0;
+  }
+}
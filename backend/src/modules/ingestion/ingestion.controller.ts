@@ -1,43 +1,55 @@
-import { Controller, Post, Get, Put, Body } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UploadedFile,
+  UseInterceptors,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiConsumes } from '@nestjs/swagger';
 import { InjectQueue } from '@nestjs/bull';
 import { Queue } from 'bull';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CreateIngestionConfigDto } from '../../dto/create-ingestion-config.dto';
+import { UpdateIngestionConfigDto } from '../../dto/update-ingestion-config.dto';
+import { PreviewIncidentsDto, ImportIncidentsDto } from '../../dto/import-incidents.dto';
+import { DataSourceRegistry } from './adapters/data-source.registry';
+import { IngestionService, SOURCE_JOB_OPTIONS } from './ingestion.service';
+import { IngestionCheckpointService } from './ingestion-checkpoint.service';
+import { IngestionRunService } from './ingestion-run.service';
+import { IncidentImportService, ColumnMapping } from './incident-import.service';
+import { INGEST_ALL_JOB } from './ingestion.processor';
+
+// Files are parsed and validated in the request, so keep them to partner spreadsheet sizes
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
 
 @ApiTags('ingestion')
+@ApiBearerAuth()
 @Controller('ingestion')
 export class IngestionController {
-  constructor(@InjectQueue('ingestion') private ingestionQueue: Queue) {}
-
-  @Post('uk-police')
-  @ApiOperation({ summary: 'Trigger UK Police API data ingestion' })
-  @ApiResponse({ status: 201, description: 'Ingestion started successfully' })
-  async triggerUKPoliceIngestion() {
-    await this.ingestionQueue.add('uk-police');
-    return { message: 'UK Police data ingestion started' };
-  }
-
-  @Post('tfl')
-  @ApiOperation({ summary: 'Trigger TfL API data ingestion' })
-  @ApiResponse({ status: 201, description: 'Ingestion started successfully' })
-  async triggerTfLIngestion() {
-    await this.ingestionQueue.add('tfl');
-    return { message: 'TfL data ingestion started' };
-  }
-
-  @Post('gdelt')
-  @ApiOperation({ summary: 'Trigger GDELT data ingestion' })
-  @ApiResponse({ status: 201, description: 'Ingestion started successfully' })
-  async triggerGDELTIngestion() {
-    await this.ingestionQueue.add('gdelt');
-    return { message: 'GDELT data ingestion started' };
-  }
+  constructor(
+    @InjectQueue('ingestion') private ingestionQueue: Queue,
+    private readonly dataSourceRegistry: DataSourceRegistry,
+    private readonly ingestionService: IngestionService,
+    private readonly checkpointService: IngestionCheckpointService,
+    private readonly runService: IngestionRunService,
+    private readonly incidentImportService: IncidentImportService,
+  ) {}
 
   @Post('all')
+  @Roles('admin')
   @ApiOperation({ summary: 'Trigger all data source ingestion' })
   @ApiResponse({ status: 201, description: 'All ingestion processes started' })
   async triggerAllIngestion() {
-    await this.ingestionQueue.add('ingest-all');
-    return { message: 'All data ingestion processes started' };
+    const job = await this.ingestionQueue.add(INGEST_ALL_JOB);
+    return { message: 'All data ingestion processes started', jobId: job.id };
   }
 
   @Get('status')
@@ -68,72 +80,159 @@ export class IngestionController {
           name: job.name,
           data: job.data,
           created: job.timestamp,
-          progress: job.progress()
+          progress: job.progress(),
+          attempts: job.attemptsMade
         })),
         recent_completed: completed.slice(-10).map(job => ({
           id: job.id,
           name: job.name,
-          completed: job.finishedOn
+          completed: job.finishedOn,
+          result: job.returnvalue
         })),
         recent_failed: failed.slice(-10).map(job => ({
           id: job.id,
           name: job.name,
           failed: job.failedReason,
-          error: job.stacktrace
+          error: job.stacktrace,
+          progress: job.progress(),
+          attempts: job.attemptsMade
         }))
-      },
-      settings: {
-        auto_ingestion_enabled: process.env.ENABLE_AUTO_INGESTION === 'true'
       }
     };
   }
 
-  @Get('config')
-  @ApiOperation({ summary: 'Get ingestion configuration' })
-  @ApiResponse({ status: 200, description: 'Configuration retrieved successfully' })
-  async getIngestionConfig() {
-    return {
-      auto_ingestion_enabled: process.env.ENABLE_AUTO_INGESTION === 'true',
-      schedules: {
-        full_ingestion: 'EVERY_HOUR',
-        tfl_frequent: '*/5 * * * *', // Every 5 minutes
-      },
-      sources: {
-        uk_police: {
-          enabled: true,
-          description: 'UK Police API - Crime and incident data',
-          frequency: 'Monthly updates, on-demand ingestion'
-        },
-        tfl: {
-          enabled: true,
-          description: 'Transport for London - Real-time transport data',
-          frequency: 'Every 5 minutes when auto-ingestion enabled'
-        },
-        gdelt: {
-          enabled: true,
-          description: 'GDELT - Global events and news analysis',
-          frequency: 'On-demand'
-        }
-      }
-    };
+  @Get('sources')
+  @ApiOperation({ summary: 'List the registered data sources' })
+  @ApiResponse({ status: 200, description: 'Data sources retrieved successfully' })
+  getSources() {
+    return this.dataSourceRegistry.getAll().map(adapter => ({
+      id: adapter.id,
+      name: adapter.name,
+      description: adapter.description,
+      schedule: adapter.schedule || null,
+      usesApiKey: !!adapter.usesApiKey
+    }));
+  }
+
+  @Get('configs')
+  @ApiOperation({ summary: 'List persisted ingestion source configs with their next scheduled run' })
+  @ApiResponse({ status: 200, description: 'Configs retrieved successfully' })
+  findAllConfigs() {
+    return this.ingestionService.findAllConfigs();
+  }
+
+  @Post('configs')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Add a config for a registered data source' })
+  @ApiResponse({ status: 201, description: 'Config created and scheduled' })
+  @ApiResponse({ status: 400, description: 'Unknown data source or invalid cron schedule' })
+  createConfig(@Body() createDto: CreateIngestionConfigDto) {
+    return this.ingestionService.createConfig(createDto);
+  }
+
+  @Put('configs/:id')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Update an ingestion config; schedule changes apply immediately' })
+  @ApiResponse({ status: 200, description: 'Config updated and rescheduled' })
+  @ApiResponse({ status: 400, description: 'Invalid cron schedule' })
+  @ApiResponse({ status: 404, description: 'Config not found' })
+  updateConfig(@Param('id') id: string, @Body() updateDto: UpdateIngestionConfigDto) {
+    return this.ingestionService.updateConfig(id, updateDto);
   }
 
-  @Put('config')
-  @ApiOperation({ summary: 'Update ingestion configuration' })
-  @ApiResponse({ status: 200, description: 'Configuration updated successfully' })
-  async updateIngestionConfig(@Body() config: any) {
-    // Note: In production, this would update persistent configuration
-    // For now, we'll return the current state
+  @Delete('configs/:id')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Delete an ingestion config and its schedule' })
+  @ApiResponse({ status: 200, description: 'Config deleted' })
+  @ApiResponse({ status: 400, description: 'Config is the only one for its data source' })
+  @ApiResponse({ status: 404, description: 'Config not found' })
+  async removeConfig(@Param('id') id: string) {
+    await this.ingestionService.removeConfig(id);
+    return { message: `Ingestion config ${id} deleted` };
+  }
+
+  @Post('configs/:id/trigger')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Run an ingestion config now' })
+  @ApiResponse({ status: 201, description: 'Ingestion started successfully' })
+  @ApiResponse({ status: 400, description: 'Config is disabled' })
+  @ApiResponse({ status: 404, description: 'Config not found' })
+  async triggerConfig(@Param('id') id: string) {
+    const job = await this.ingestionService.triggerConfig(id);
+    return { message: 'Data ingestion started', jobId: job.id };
+  }
+
+  @Get('runs')
+  @ApiOperation({ summary: 'List ingestion runs, newest first; filter by source, configId, status, startDate and endDate' })
+  @ApiResponse({ status: 200, description: 'Runs retrieved successfully' })
+  findRuns(@Query() query: any) {
+    return this.runService.findAll(query);
+  }
+
+  @Get('checkpoints/:source')
+  @ApiOperation({ summary: 'Summarise the batches an incremental data source has checkpointed' })
+  @ApiResponse({ status: 200, description: 'Checkpoint summary retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Unknown data source' })
+  getCheckpoints(@Param('source') source: string) {
+    this.getAdapter(source);
+    return this.checkpointService.summarise(source);
+  }
+
+  @Delete('checkpoints/:source')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Clear checkpoints so the next run refetches the full history' })
+  @ApiResponse({ status: 200, description: 'Checkpoints cleared' })
+  @ApiResponse({ status: 404, description: 'Unknown data source' })
+  async clearCheckpoints(@Param('source') source: string) {
+    const adapter = this.getAdapter(source);
+    const cleared = await this.checkpointService.clear(adapter.id);
+    return { message: `Cleared ${cleared} ${adapter.name} checkpoints`, cleared };
+  }
+
+  @Get('jobs/:id')
+  @ApiOperation({ summary: 'Get the state and progress of an ingestion job' })
+  @ApiResponse({ status: 200, description: 'Job retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  async getJob(@Param('id') id: string) {
+    const job = await this.ingestionQueue.getJob(id);
+    if (!job) {
+      throw new NotFoundException(`Ingestion job ${id} not found`);
+    }
+
     return {
-      message: 'Configuration update requested',
-      note: 'Auto-ingestion setting is controlled by ENABLE_AUTO_INGESTION environment variable',
-      current: {
-        auto_ingestion_enabled: process.env.ENABLE_AUTO_INGESTION === 'true'
-      }
+      id: job.id,
+      name: job.name,
+      state: await job.getState(),
+      progress: job.progress(),
+      attempts: job.attemptsMade,
+      created: job.timestamp,
+      finished: job.finishedOn,
+      failed: job.failedReason,
+      result: job.returnvalue
     };
   }
 
+  @Post('jobs/:id/retry')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Retry a failed ingestion job' })
+  @ApiResponse({ status: 201, description: 'Job queued for retry' })
+  @ApiResponse({ status: 400, description: 'Job has not failed' })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  async retryJob(@Param('id') id: string) {
+    const job = await this.ingestionQueue.getJob(id);
+    if (!job) {
+      throw new NotFoundException(`Ingestion job ${id} not found`);
+    }
+    if (!(await job.isFailed())) {
+      throw new BadRequestException(`Ingestion job ${id} has not failed`);
+    }
+
+    await job.retry();
+    return { message: `Ingestion job ${id} queued for retry`, jobId: job.id };
+  }
+
   @Post('clear-failed')
+  @Roles('admin')
   @ApiOperation({ summary: 'Clear failed jobs from queue' })
   @ApiResponse({ status: 200, description: 'Failed jobs cleared successfully' })
   async clearFailedJobs() {
@@ -142,10 +241,70 @@ export class IngestionController {
   }
 
   @Post('clear-completed')
+  @Roles('admin')
   @ApiOperation({ summary: 'Clear completed jobs from queue' })
   @ApiResponse({ status: 200, description: 'Completed jobs cleared successfully' })
   async clearCompletedJobs() {
     await this.ingestionQueue.clean(0, 'completed');
     return { message: 'Completed jobs cleared successfully' };
   }
+
+  @Post('upload/preview')
+  @Roles('analyst')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_UPLOAD_BYTES } }))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({ summary: 'Parse a CSV, GeoJSON or JSON Lines file and suggest a column mapping' })
+  @ApiResponse({ status: 201, description: 'Columns, sample rows and suggested mapping' })
+  @ApiResponse({ status: 400, description: 'File missing or unparseable' })
+  previewUpload(@UploadedFile() file: Express.Multer.File, @Body() body: PreviewIncidentsDto) {
+    return this.incidentImportService.preview(file, body.format);
+  }
+
+  @Post('upload')
+  @Roles('analyst')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_UPLOAD_BYTES } }))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({ summary: 'Import incidents from a CSV, GeoJSON or JSON Lines file using a column mapping' })
+  @ApiResponse({ status: 201, description: 'Import report with row-level validation errors and the id of the queued import job' })
+  @ApiResponse({ status: 400, description: 'File missing or unparseable, or mapping incomplete' })
+  async upload(@UploadedFile() file: Express.Multer.File, @Body() body: ImportIncidentsDto) {
+    let mapping: ColumnMapping;
+    try {
+      mapping = JSON.parse(body.mapping);
+    } catch {
+      mapping = null;
+    }
+    if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)
+      || Object.values(mapping).some(column => typeof column !== 'string')) {
+      throw new BadRequestException('mapping must be a JSON object of incident field to column name');
+    }
+
+    return this.incidentImportService.import(file, {
+      format: body.format,
+      mapping,
+      source: body.source,
+      type: body.type,
+      dryRun: body.dryRun === 'true',
+    });
+  }
+
+  // Declared last so fixed routes such as 'all' and 'clear-failed' match first
+  @Post(':source')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Trigger ingestion for one data source, e.g. uk-police, tfl or gdelt' })
+  @ApiResponse({ status: 201, description: 'Ingestion started successfully' })
+  @ApiResponse({ status: 404, description: 'Unknown data source' })
+  async triggerSourceIngestion(@Param('source') source: string) {
+    const adapter = this.getAdapter(source);
+    const job = await this.ingestionQueue.add(adapter.id, {}, SOURCE_JOB_OPTIONS);
+    return { message: `${adapter.name} data ingestion started`, jobId: job.id };
+  }
+
+  private getAdapter(source: string) {
+    const adapter = this.dataSourceRegistry.get(source);
+    if (!adapter) {
+      throw new NotFoundException(`Unknown data source: ${source}`);
+    }
+    return adapter;
+  }
 }
@@ -1,25 +1,51 @@
 import { Module } from '@nestjs/common'
+import { DiscoveryModule } from '@nestjs/core'
 import { BullModule } from '@nestjs/bull'
+import { TypeOrmModule } from '@nestjs/typeorm'
 import { IngestionService } from './ingestion.service'
 import { IngestionProcessor } from './ingestion.processor'
 import { IngestionController } from './ingestion.controller'
+import { IngestionCheckpointService } from './ingestion-checkpoint.service'
+import { IngestionRunService } from './ingestion-run.service'
+import { IncidentImportService } from './incident-import.service'
 import { IncidentsModule } from '../incidents/incidents.module'
 import { EntitiesModule } from '../entities/entities.module'
+import { IngestionSourceConfig, IngestionCheckpoint, IngestionRun, IngestionUpload } from '../../entities'
 
 import { UkPoliceService } from '../../services/uk-police.service';
 import { TflService } from '../../services/tfl.service';
 import { GdeltService } from '../../services/gdelt.service';
+import { DataSourceRegistry } from './adapters/data-source.registry';
+import { UkPoliceAdapter } from './adapters/uk-police.adapter';
+import { TflAdapter } from './adapters/tfl.adapter';
+import { GdeltAdapter } from './adapters/gdelt.adapter';
 
 @Module({
   imports: [
     BullModule.registerQueue({
       name: 'ingestion'
     }),
+    TypeOrmModule.forFeature([IngestionSourceConfig, IngestionCheckpoint, IngestionRun, IngestionUpload]),
+    DiscoveryModule,
     IncidentsModule,
     EntitiesModule
   ],
   controllers: [IngestionController],
-  providers: [IngestionService, IngestionProcessor, UkPoliceService, TflService, GdeltService],
+  providers: [
+    IngestionService,
+    IngestionProcessor,
+    IngestionCheckpointService,
+    IngestionRunService,
+    IncidentImportService,
+    DataSourceRegistry,
+    UkPoliceService,
+    TflService,
+    GdeltService,
+    // Data sources: add new feeds here
+    UkPoliceAdapter,
+    TflAdapter,
+    GdeltAdapter
+  ],
   exports: [IngestionService]
 })
 export class IngestionModule {}
\ No newline at end of file
@@ -1,582 +1,335 @@
 import { Process, Processor } from '@nestjs/bull';
 import { Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
 import { Job } from 'bull';
-import { UkPoliceService } from '../../services/uk-police.service';
-import { TflService } from '../../services/tfl.service';
-import { GdeltService } from '../../services/gdelt.service';
+import { Repository } from 'typeorm';
 import { IncidentsService } from '../incidents/incidents.service';
 import { EntitiesService } from '../entities/entities.service';
-import { Incident, Entity } from '../../entities';
+import { EntityExtractionService } from '../entities/extraction/entity-extraction.service';
+import { EntityStatsService } from '../entities/entity-stats.service';
+import { EntityCoOccurrenceService, HUB_ENTITY_TYPES } from '../entities/entity-co-occurrence.service';
+import { Incident, Entity, IngestionSourceConfig, IngestionUpload } from '../../entities';
+import { DataSourceAdapter, DataSourceContext, ProgressReporter } from './adapters/data-source.adapter';
+import { DataSourceRegistry } from './adapters/data-source.registry';
+import { IngestionCheckpointService } from './ingestion-checkpoint.service';
+import {
+  IngestionRunService,
+  IngestionRunMetrics,
+  createRunMetrics,
+  recordRunError,
+  recordCompleteness,
+} from './ingestion-run.service';
+
+export const INGEST_ALL_JOB = 'ingest-all';
+// Validated rows of an uploaded file, stored as an IngestionUpload and saved as an 'upload' run
+export const UPLOAD_JOB = 'upload';
+
+// Share of a source's progress spent fetching; the rest is mapping and saving
+const FETCH_PROGRESS_SHARE = 0.5;
 
 @Processor('ingestion')
 export class IngestionProcessor {
   private readonly logger = new Logger(IngestionProcessor.name);
 
   constructor(
-    private readonly ukPoliceService: UkPoliceService,
-    private readonly tflService: TflService,
-    private readonly gdeltService: GdeltService,
+    private readonly dataSourceRegistry: DataSourceRegistry,
     private readonly incidentsService: IncidentsService,
     private readonly entitiesService: EntitiesService,
+    private readonly entityExtractionService: EntityExtractionService,
+    private readonly entityStatsService: EntityStatsService,
+    private readonly entityCoOccurrenceService: EntityCoOccurrenceService,
+    private readonly checkpointService: IngestionCheckpointService,
+    private readonly runService: IngestionRunService,
+    @InjectRepository(IngestionSourceConfig)
+    private readonly configRepository: Repository<IngestionSourceConfig>,
+    @InjectRepository(IngestionUpload)
+    private readonly uploadRepository: Repository<IngestionUpload>,
   ) {}
 
-  @Process('ingest-all')
-  async handleIngestAll(job: Job) {
-    this.logger.log('Processing all ingestion sources...');
-
-    try {
-      // UK Police Data Ingestion - Enterprise Historical Coverage
-      this.logger.log('Initiating comprehensive intelligence data collection for Greater London...');
-
-      // Define comprehensive London intelligence sectors - expanded coverage
-      const londonSectors = [
-        // Core Central London
-        { lat: 51.5074, lng: -0.1278, name: 'Central London', sector: 'CENTRAL' },
-        { lat: 51.5155, lng: -0.1416, name: 'Westminster', sector: 'WESTMINSTER' },
-        { lat: 51.5099, lng: -0.1180, name: 'City of London', sector: 'CITY' },
-        { lat: 51.5033, lng: -0.1195, name: 'London Bridge Area', sector: 'LONDONBRIDGE' },
-
-        // North London Expansion
-        { lat: 51.5924, lng: -0.1559, name: 'North London', sector: 'NORTH' },
-        { lat: 51.5488, lng: -0.1418, name: 'Camden', sector: 'CAMDEN' },
-        { lat: 51.5362, lng: -0.1034, name: 'Islington', sector: 'ISLINGTON' },
-        { lat: 51.5970, lng: -0.0780, name: 'Tottenham', sector: 'TOTTENHAM' },
-        { lat: 51.6252, lng: -0.1517, name: 'Barnet', sector: 'BARNET' },
-        { lat: 51.6094, lng: -0.2792, name: 'Harrow', sector: 'HARROW' },
-        { lat: 51.6077, lng: -0.3528, name: 'Hillingdon', sector: 'HILLINGDON' },
-
-        // East London Expansion
-        { lat: 51.5074, lng: -0.0759, name: 'East London', sector: 'EAST' },
-        { lat: 51.5099, lng: -0.0059, name: 'Canary Wharf', sector: 'CANARYWHARF' },
-        { lat: 51.5153, lng: -0.0722, name: 'Tower Hamlets', sector: 'TOWERHAMLETS' },
-        { lat: 51.5448, lng: -0.0553, name: 'Hackney', sector: 'HACKNEY' },
-        { lat: 51.5445, lng: 0.0022, name: 'Greenwich', sector: 'GREENWICH' },
-        { lat: 51.4934, lng: 0.0098, name: 'Lewisham', sector: 'LEWISHAM' },
-        { lat: 51.4066, lng: 0.0180, name: 'Bromley', sector: 'BROMLEY' },
-        { lat: 51.4415, lng: 0.1058, name: 'Bexley', sector: 'BEXLEY' },
-        { lat: 51.5755, lng: 0.1826, name: 'Havering', sector: 'HAVERING' },
-
-        // South London Expansion
-        { lat: 51.4994, lng: -0.1270, name: 'South London', sector: 'SOUTH' },
-        { lat: 51.4816, lng: -0.1916, name: 'Wimbledon', sector: 'WIMBLEDON' },
-        { lat: 51.4554, lng: -0.1005, name: 'Croydon', sector: 'CROYDON' },
-        { lat: 51.4050, lng: -0.1949, name: 'Sutton', sector: 'SUTTON' },
-        { lat: 51.4619, lng: -0.0747, name: 'Southwark', sector: 'SOUTHWARK' },
-        { lat: 51.4816, lng: -0.1265, name: 'Lambeth', sector: 'LAMBETH' },
-        { lat: 51.4607, lng: -0.1163, name: 'Brixton', sector: 'BRIXTON' },
-        { lat: 51.4781, lng: -0.0018, name: 'Woolwich', sector: 'WOOLWICH' },
-
-        // West London Expansion
-        { lat: 51.5074, lng: -0.2108, name: 'West London', sector: 'WEST' },
-        { lat: 51.4994, lng: -0.1938, name: 'Kensington & Chelsea', sector: 'KENSINGTON' },
-        { lat: 51.5138, lng: -0.2185, name: 'Hammersmith & Fulham', sector: 'HAMMERSMITH' },
-        { lat: 51.5642, lng: -0.2817, name: 'Ealing', sector: 'EALING' },
-        { lat: 51.5106, lng: -0.3340, name: 'Hounslow', sector: 'HOUNSLOW' },
-        { lat: 51.4700, lng: -0.4139, name: 'Heathrow Area', sector: 'HEATHROW' },
-        { lat: 51.4518, lng: -0.2073, name: 'Richmond', sector: 'RICHMOND' },
-        { lat: 51.4240, lng: -0.2763, name: 'Kingston upon Thames', sector: 'KINGSTON' },
-
-        // Strategic Areas
-        { lat: 51.5434, lng: -0.0103, name: 'Olympic Park Area', sector: 'OLYMPIC' },
-        { lat: 51.5577, lng: -0.2788, name: 'Wembley', sector: 'WEMBLEY' },
-        { lat: 51.6156, lng: 0.0539, name: 'Redbridge', sector: 'REDBRIDGE' },
-        { lat: 51.5986, lng: -0.0299, name: 'Enfield', sector: 'ENFIELD' },
-        { lat: 51.5290, lng: -0.3947, name: 'Uxbridge', sector: 'UXBRIDGE' },
-      ];
-
-      // Generate temporal coverage for last 24 months (professional intelligence standard)
-      const temporalCoverage = this.generateTemporalCoverage(24);
-      this.logger.log(`Intelligence collection spanning ${temporalCoverage.length} months: ${temporalCoverage[0]} to ${temporalCoverage[temporalCoverage.length - 1]}`);
-
-      // Professional neighbourhood-level intelligence collection for Metropolitan Police
-      this.logger.log('Initiating neighbourhood-level intelligence collection for Metropolitan Police area...');
-      const metropolitanNeighbourhoods = await this.getMetropolitanNeighbourhoods();
-      this.logger.log(`Professional neighbourhood coverage: ${metropolitanNeighbourhoods.length} Metropolitan Police neighbourhoods identified`);
-
-      let totalPoliceData = [];
-      let totalApiCalls = 0;
-      const startTime = Date.now();
-
-      for (const period of temporalCoverage) {
-        this.logger.log(`== TEMPORAL ANALYSIS PERIOD: ${period} ==`);
-
-        for (const sector of londonSectors) {
-          try {
-            this.logger.log(`Collecting intelligence: ${sector.name} [${sector.sector}] - ${period}`);
-            const sectorData = await this.ukPoliceService.getStreetCrime(sector.lat, sector.lng, period);
-            totalPoliceData = totalPoliceData.concat(sectorData.map(incident => ({
-              ...incident,
-              _sector: sector.sector,
-              _sectorName: sector.name,
-              _period: period
-            })));
-
-            totalApiCalls++;
-            this.logger.log(`Intelligence collected: ${sectorData.length} incidents [${sector.sector}-${period}]`);
-
-            // Professional API rate management
-            await new Promise(resolve => setTimeout(resolve, 200));
-          } catch (error) {
-            this.logger.warn(`Intelligence collection failed: ${sector.name} [${period}] - ${error.message}`);
-          }
-        }
-
-        // Breathing room between temporal periods
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
-
-      const collectionDuration = (Date.now() - startTime) / 1000;
-      this.logger.log(`Intelligence collection complete: ${totalPoliceData.length} raw incidents, ${totalApiCalls} API calls, ${collectionDuration.toFixed(2)}s duration`);
-
-      // Enterprise-grade deduplication and data quality assessment
-      const uniquePoliceData = totalPoliceData.filter((crime, index, self) =>
-        index === self.findIndex(c => c.id === crime.id)
-      );
-
-      const dataQualityMetrics = {
-        totalRaw: totalPoliceData.length,
-        uniqueIncidents: uniquePoliceData.length,
-        duplicateRate: ((totalPoliceData.length - uniquePoliceData.length) / totalPoliceData.length * 100).toFixed(2),
-        temporalCoverage: temporalCoverage.length,
-        geographicSectors: londonSectors.length,
-        dataCompleteness: this.assessDataCompleteness(uniquePoliceData)
-      };
-
-      this.logger.log(`Data Quality Assessment: ${JSON.stringify(dataQualityMetrics)}`);
-      this.logger.log(`Processing ${uniquePoliceData.length} validated intelligence records...`);
-
-      for (const crime of uniquePoliceData) {
-        try {
-          const partialIncident = this.mapUKPoliceCrimeToIncident(crime);
-          const extractedEntities = await this.extractEntitiesFromIncident(partialIncident);
-          partialIncident.entities = extractedEntities;
-          await this.incidentsService.create(partialIncident);
-          this.logger.debug(`Processed UK Police incident: ${partialIncident.id}`);
-        } catch (error) {
-          // Skip duplicates or invalid data
-          if (!error.message.includes('duplicate')) {
-            this.logger.warn(`Failed to process incident ${crime.id}: ${error.message}`);
-          }
-        }
-      }
-      this.logger.log('UK Police data ingestion complete for Greater London.');
-
-      // TfL Data Ingestion - Comprehensive Transport Network
-      this.logger.log('Fetching TfL comprehensive transport data...');
-      const tflAllData = await this.tflService.getAllTransportModes();
-
-      // Process Tube Lines
-      this.logger.log(`Processing ${tflAllData.tube.length} tube line statuses...`);
-      for (const lineStatus of tflAllData.tube) {
-        const partialIncident = this.mapTfLLineStatusToIncident(lineStatus, 'tube');
-        if (partialIncident) {
-          const extractedEntities = await this.extractEntitiesFromIncident(partialIncident);
-          partialIncident.entities = extractedEntities;
-          await this.incidentsService.create(partialIncident);
-          this.logger.debug(`Processed tube incident: ${partialIncident.id}`);
-        }
-      }
-
-      // Process Bus Lines
-      this.logger.log(`Processing ${tflAllData.bus.length} bus line statuses...`);
-      for (const lineStatus of tflAllData.bus) {
-        const partialIncident = this.mapTfLLineStatusToIncident(lineStatus, 'bus');
-        if (partialIncident) {
-          const extractedEntities = await this.extractEntitiesFromIncident(partialIncident);
-          partialIncident.entities = extractedEntities;
-          await this.incidentsService.create(partialIncident);
-          this.logger.debug(`Processed bus incident: ${partialIncident.id}`);
-        }
-      }
-
-      // Process Overground Lines
-      this.logger.log(`Processing ${tflAllData.overground.length} overground line statuses...`);
-      for (const lineStatus of tflAllData.overground) {
-        const partialIncident = this.mapTfLLineStatusToIncident(lineStatus, 'overground');
-        if (partialIncident) {
-          const extractedEntities = await this.extractEntitiesFromIncident(partialIncident);
-          partialIncident.entities = extractedEntities;
-          await this.incidentsService.create(partialIncident);
-          this.logger.debug(`Processed overground incident: ${partialIncident.id}`);
-        }
-      }
+  /**
+   * Every job is named after the data source it runs, apart from
+   * 'ingest-all' and 'upload', so new adapters need no handler of their own. Jobs carry
+   * the id of the config to run; without one the source's first config is used.
+   */
+  @Process('*')
+  async handleJob(job: Job) {
+    if (job.name === INGEST_ALL_JOB) {
+      return this.ingestAll(job);
+    }
+    if (job.name === UPLOAD_JOB) {
+      return this.importUpload(job.data.uploadId);
+    }
 
-      // Process DLR
-      this.logger.log(`Processing ${tflAllData.dlr.length} DLR line statuses...`);
-      for (const lineStatus of tflAllData.dlr) {
-        const partialIncident = this.mapTfLLineStatusToIncident(lineStatus, 'dlr');
-        if (partialIncident) {
-          const extractedEntities = await this.extractEntitiesFromIncident(partialIncident);
-          partialIncident.entities = extractedEntities;
-          await this.incidentsService.create(partialIncident);
-          this.logger.debug(`Processed DLR incident: ${partialIncident.id}`);
-        }
-      }
+    const adapter = this.dataSourceRegistry.get(job.name);
+    if (!adapter) {
+      throw new Error(`No data source registered for job "${job.name}"`);
+    }
 
-      // Process Elizabeth Line
-      this.logger.log(`Processing ${tflAllData.elizabeth.length} Elizabeth line statuses...`);
-      for (const lineStatus of tflAllData.elizabeth) {
-        const partialIncident = this.mapTfLLineStatusToIncident(lineStatus, 'elizabeth');
-        if (partialIncident) {
-          const extractedEntities = await this.extractEntitiesFromIncident(partialIncident);
-          partialIncident.entities = extractedEntities;
-          await this.incidentsService.create(partialIncident);
-          this.logger.debug(`Processed Elizabeth line incident: ${partialIncident.id}`);
-        }
-      }
+    const config = await this.findConfig(adapter.id, job.data?.configId);
 
-      // Process Road Incidents
-      this.logger.log(`Processing ${tflAllData.roads.length} road corridor statuses...`);
-      for (const roadStatus of tflAllData.roads) {
-        const partialIncident = this.mapTfLRoadStatusToIncident(roadStatus);
-        if (partialIncident) {
-          const extractedEntities = await this.extractEntitiesFromIncident(partialIncident);
-          partialIncident.entities = extractedEntities;
-          await this.incidentsService.create(partialIncident);
-          this.logger.debug(`Processed road incident: ${partialIncident.id}`);
-        }
-      }
+    try {
+      return await this.ingestSource(adapter, job, this.progressReporter(job), config);
+    } catch (error) {
+      this.logger.error(`${adapter.name} data ingestion failed: ${error.message}`);
+      throw error;
+    }
+  }
 
-      // Process Road Disruptions (detailed)
-      this.logger.log(`Processing ${tflAllData.roadDisruptions.length} detailed road disruptions...`);
-      for (const disruption of tflAllData.roadDisruptions) {
-        const partialIncident = this.mapTfLRoadDisruptionToIncident(disruption);
-        if (partialIncident) {
-          const extractedEntities = await this.extractEntitiesFromIncident(partialIncident);
-          partialIncident.entities = extractedEntities;
-          await this.incidentsService.create(partialIncident);
-          this.logger.debug(`Processed road disruption: ${partialIncident.id}`);
-        }
-      }
+  private async ingestAll(job: Job) {
+    this.logger.log('Processing all ingestion sources...');
 
-      // Process Bike Point Anomalies
-      this.logger.log(`Processing ${tflAllData.bikes.length} bike point statuses...`);
-      const bikeAnomalies = this.detectBikePointAnomalies(tflAllData.bikes);
-      for (const anomaly of bikeAnomalies) {
-        const extractedEntities = await this.extractEntitiesFromIncident(anomaly);
-        anomaly.entities = extractedEntities;
-        await this.incidentsService.create(anomaly);
-        this.logger.debug(`Processed bike anomaly: ${anomaly.id}`);
+    // A failing source should not stop the others; the job reports which ones failed
+    const configs = (await this.configQuery().where('config.enabled = true').getMany())
+      .filter(config => {
+        if (this.dataSourceRegistry.get(config.source)) return true;
+        this.logger.warn(`Skipping ${config.name}: no data source registered as "${config.source}"`);
+        return false;
+      });
+    const share = 100 / Math.max(configs.length, 1);
+    const failed: string[] = [];
+
+    for (const [index, config] of configs.entries()) {
+      try {
+        const adapter = this.dataSourceRegistry.get(config.source);
+        await this.ingestSource(adapter, job, this.progressReporter(job, index * share, (index + 1) * share), config);
+      } catch (error) {
+        failed.push(config.name);
+        this.logger.error(`Error during ${config.name} ingestion: ${error.message}`, error.stack);
       }
-
-      this.logger.log('TfL comprehensive data ingestion complete.');
-
-      // GDELT Data Ingestion (placeholder)
-      this.logger.log('Fetching GDELT data...');
-      const gdeltData = await this.gdeltService.getEvents();
-      this.logger.log(`Fetched ${gdeltData.length} GDELT events.`);
-      // for (const event of gdeltData) {
-      //   const partialIncident = this.mapGDELTEventToIncident(event);
-      //   const extractedEntities = await this.extractEntitiesFromIncident(partialIncident);
-      //   partialIncident.entities = extractedEntities;
-      //   await this.incidentsService.create(partialIncident);
-      //   this.logger.debug(`Processed GDELT incident: ${partialIncident.id}`);
-      // }
-      this.logger.log('GDELT data ingestion complete (placeholder).');
-
-    } catch (error) {
-      this.logger.error('Error during ingestion process:', error.message, error.stack);
     }
 
     this.logger.log('Finished processing all ingestion sources.');
+    if (configs.length > 0 && failed.length === configs.length) {
+      throw new Error('Every ingestion source failed');
+    }
+    return { failed };
   }
 
-  @Process('ingest-tfl')
-  async handleIngestTfl(job: Job) {
-    this.logger.log('Processing TfL transport data...');
+  /**
+   * Runs one source and records the attempt in ingestion_runs, including
+   * when it fails.
+   */
+  private async ingestSource(adapter: DataSourceAdapter, job: Job, onProgress: ProgressReporter, config?: IngestionSourceConfig) {
+    const run = await this.runService.start(adapter.id, config?.id, job.id);
+    const metrics = createRunMetrics();
+    const context: DataSourceContext = {
+      onProgress,
+      config,
+      checkpoints: await this.checkpointService.getVersions(adapter.id),
+      countApiCalls: (count = 1) => { metrics.apiCalls += count; },
+      recordError: message => recordRunError(metrics, message),
+    };
 
+    const linked = new Set<string>();
     try {
-      // TfL Data Ingestion - Comprehensive Transport Network
-      this.logger.log('Fetching TfL comprehensive transport data...');
-      const tflAllData = await this.tflService.getAllTransportModes();
-
-      // Process Tube Lines
-      this.logger.log(`Processing ${tflAllData.tube.length} tube line statuses...`);
-      for (const lineStatus of tflAllData.tube) {
-        const partialIncident = this.mapTfLLineStatusToIncident(lineStatus, 'tube');
-        if (partialIncident) {
-          const extractedEntities = await this.extractEntitiesFromIncident(partialIncident);
-          partialIncident.entities = extractedEntities;
-          await this.incidentsService.create(partialIncident);
-          this.logger.debug(`Processed tube incident: ${partialIncident.id}`);
-        }
-      }
-
-      // Process Bus Lines
-      this.logger.log(`Processing ${tflAllData.bus.length} bus line statuses...`);
-      for (const lineStatus of tflAllData.bus) {
-        const partialIncident = this.mapTfLLineStatusToIncident(lineStatus, 'bus');
-        if (partialIncident) {
-          const extractedEntities = await this.extractEntitiesFromIncident(partialIncident);
-          partialIncident.entities = extractedEntities;
-          await this.incidentsService.create(partialIncident);
-          this.logger.debug(`Processed bus incident: ${partialIncident.id}`);
-        }
-      }
-
-      // Process Overground Lines
-      this.logger.log(`Processing ${tflAllData.overground.length} overground line statuses...`);
-      for (const lineStatus of tflAllData.overground) {
-        const partialIncident = this.mapTfLLineStatusToIncident(lineStatus, 'overground');
-        if (partialIncident) {
-          const extractedEntities = await this.extractEntitiesFromIncident(partialIncident);
-          partialIncident.entities = extractedEntities;
-          await this.incidentsService.create(partialIncident);
-          this.logger.debug(`Processed overground incident: ${partialIncident.id}`);
-        }
-      }
-
-      // Process DLR
-      this.logger.log(`Processing ${tflAllData.dlr.length} DLR line statuses...`);
-      for (const lineStatus of tflAllData.dlr) {
-        const partialIncident = this.mapTfLLineStatusToIncident(lineStatus, 'dlr');
-        if (partialIncident) {
-          const extractedEntities = await this.extractEntitiesFromIncident(partialIncident);
-          partialIncident.entities = extractedEntities;
-          await this.incidentsService.create(partialIncident);
-          this.logger.debug(`Processed DLR incident: ${partialIncident.id}`);
-        }
+      if (adapter.fetchBatches) {
+        await this.ingestBatches(adapter, context, metrics, linked);
+      } else {
+        await this.ingestAtOnce(adapter, context, metrics, linked);
       }
-
-      // Process Elizabeth Line
-      this.logger.log(`Processing ${tflAllData.elizabeth.length} Elizabeth line statuses...`);
-      for (const lineStatus of tflAllData.elizabeth) {
-        const partialIncident = this.mapTfLLineStatusToIncident(lineStatus, 'elizabeth');
-        if (partialIncident) {
-          const extractedEntities = await this.extractEntitiesFromIncident(partialIncident);
-          partialIncident.entities = extractedEntities;
-          await this.incidentsService.create(partialIncident);
-          this.logger.debug(`Processed Elizabeth line incident: ${partialIncident.id}`);
-        }
-      }
-
-      // Process Road Incidents
-      this.logger.log(`Processing ${tflAllData.roads.length} road corridor statuses...`);
-      for (const roadStatus of tflAllData.roads) {
-        const partialIncident = this.mapTfLRoadStatusToIncident(roadStatus);
-        if (partialIncident) {
-          const extractedEntities = await this.extractEntitiesFromIncident(partialIncident);
-          partialIncident.entities = extractedEntities;
-          await this.incidentsService.create(partialIncident);
-          this.logger.debug(`Processed road incident: ${partialIncident.id}`);
-        }
-      }
-
-      // Process Bike Anomalies
-      this.logger.log(`Processing ${tflAllData.bikes.length} bike sharing points...`);
-      const bikeAnomalies = this.detectBikePointAnomalies(tflAllData.bikes);
-      for (const anomaly of bikeAnomalies) {
-        const extractedEntities = await this.extractEntitiesFromIncident(anomaly);
-        anomaly.entities = extractedEntities;
-        await this.incidentsService.create(anomaly);
-        this.logger.debug(`Processed bike anomaly: ${anomaly.id}`);
-      }
-
-      this.logger.log('TfL comprehensive data ingestion complete.');
     } catch (error) {
-      this.logger.error(`TfL data ingestion failed: ${error.message}`);
+      await this.refreshCoOccurrences(linked, metrics);
+      await this.runService.finish(run, metrics, error);
       throw error;
     }
-  }
 
-  private mapUKPoliceCrimeToIncident(crime: any): Partial<Incident> {
+    await this.refreshCoOccurrences(linked, metrics);
+    await this.runService.finish(run, metrics);
+    await onProgress(1);
+    this.logger.log(
+      `${adapter.name} data ingestion complete: ${metrics.inserted} incidents inserted, ` +
+      `${metrics.updated} updated, ${metrics.skipped} skipped.`,
+    );
     return {
-      id: `uk-police-${crime.id}`,
-      type: 'crime',
-      title: `${crime.category} - ${crime.location.street.name}`,
-      description: crime.context,
-      category: crime.category,
-      source: 'UK Police API',
-      location: { lat: parseFloat(crime.location.latitude), lng: parseFloat(crime.location.longitude), address: crime.location.street.name },
-      datetime: new Date(`${crime.month}-01`).toISOString(),
-      outcome_status: crime.outcome_status,
-      persistent_id: crime.persistent_id,
+      source: adapter.id,
+      config: config?.id,
+      runId: run.id,
+      records: metrics.recordsFetched,
+      inserted: metrics.inserted,
+      updated: metrics.updated,
+      skipped: metrics.skipped,
     };
   }
 
-  private mapTfLLineStatusToIncident(lineStatus: any, mode: string): Partial<Incident> | null {
-    for (const status of lineStatus.lineStatuses) {
-      // TFL severity: lower numbers = more severe (6=severe, 9=minor, 10=good)
-      const severityThreshold = 10; // Capture anything worse than "Good Service"
-
-      if (status.statusSeverity < severityThreshold) {
-        const location = this.getTubeLineLocation(lineStatus.id);
-        return {
-          id: `tfl-${mode}-${lineStatus.id}`, // Stable ID without timestamp
-          type: 'tfl',
-          title: `${lineStatus.name} ${mode.charAt(0).toUpperCase() + mode.slice(1)} - ${status.statusSeverityDescription}`,
-          description: status.reason || `${status.statusSeverityDescription} on ${lineStatus.name} ${mode}`,
-          category: 'transport_disruption',
-          source: `TfL ${mode.toUpperCase()} API`,
-          location: { lat: location.lat, lng: location.lng, address: `${lineStatus.name} Line` },
-          datetime: status.created ? new Date(status.created).toISOString() : new Date().toISOString(),
-        };
-      }
+  /**
+   * Saves records the adapter did not fetch itself, such as the rows of an
+   * uploaded file, as a run of the given adapter. Rows the caller already rejected
+   * are counted as skipped and listed as run errors.
+   */
+  // Kept after a failure so the job can be retried
+  private async importUpload(uploadId: string) {
+    const upload = await this.uploadRepository.findOneBy({ id: uploadId });
+    if (!upload) {
+      throw new Error(`Upload ${uploadId} not found`);
     }
-    return null;
-  }
 
-  private getTubeLineLocation(lineId: string): { lat: number; lng: number } {
-    // Major station coordinates for each tube line for better map positioning
-    const lineCoordinates = {
-      'bakerloo': { lat: 51.5074, lng: -0.1278 }, // Oxford Circus
-      'central': { lat: 51.5154, lng: -0.1553 }, // Bond Street
-      'circle': { lat: 51.5034, lng: -0.1276 }, // Westminster
-      'district': { lat: 51.4941, lng: -0.1445 }, // Victoria
-      'hammersmith-city': { lat: 51.5154, lng: -0.2056 }, // Hammersmith
-      'jubilee': { lat: 51.5034, lng: -0.1276 }, // Westminster
-      'metropolitan': { lat: 51.5154, lng: -0.1553 }, // Baker Street
-      'northern': { lat: 51.5074, lng: -0.1278 }, // Oxford Circus
-      'piccadilly': { lat: 51.5074, lng: -0.1362 }, // Piccadilly Circus
-      'victoria': { lat: 51.4941, lng: -0.1445 }, // Victoria
-      'waterloo-city': { lat: 51.5043, lng: -0.1132 }, // Waterloo
-      'elizabeth': { lat: 51.5154, lng: -0.1553 }, // Bond Street
-    };
-
-    return lineCoordinates[lineId] || { lat: 51.5074, lng: -0.1278 }; // Default to central London
+    const result = await this.importRecords(uploadAdapter(upload.source), upload.records, upload.rejected);
+    await this.uploadRepository.delete(upload.id);
+    return result;
   }
 
-  private mapTfLRoadStatusToIncident(roadStatus: any): Partial<Incident> | null {
-    // Only create incidents for roads with issues
-    if (roadStatus.statusSeverity !== 'Good') {
-      const bounds = JSON.parse(roadStatus.bounds);
-      const centerLat = (bounds[0][1] + bounds[1][1]) / 2;
-      const centerLng = (bounds[0][0] + bounds[1][0]) / 2;
-
-      return {
-        id: `tfl-road-${roadStatus.id}`, // Stable ID without timestamp
-        type: 'road_incident',
-        title: `${roadStatus.displayName} - ${roadStatus.statusSeverityDescription}`,
-        description: `Traffic incident on ${roadStatus.displayName}: ${roadStatus.statusSeverityDescription}`,
-        category: 'traffic_incident',
-        source: 'TfL Road API',
-        location: { lat: centerLat, lng: centerLng, address: roadStatus.displayName },
-        datetime: new Date().toISOString(),
-      };
+  async importRecords(adapter: DataSourceAdapter, records: any[], rejected: string[] = []) {
+    const run = await this.runService.start(adapter.id);
+    const metrics = createRunMetrics();
+    metrics.recordsFetched = records.length + rejected.length;
+    metrics.skipped = rejected.length;
+    rejected.forEach(message => recordRunError(metrics, message));
+
+    const linked = new Set<string>();
+    try {
+      await this.saveRecords(adapter, records, metrics, linked);
+    } catch (error) {
+      await this.refreshCoOccurrences(linked, metrics);
+      await this.runService.finish(run, metrics, error);
+      throw error;
     }
-    return null;
+
+    await this.refreshCoOccurrences(linked, metrics);
+    await this.runService.finish(run, metrics);
+    this.logger.log(`${adapter.name} import complete: ${metrics.inserted} incidents inserted, ${metrics.updated} updated.`);
+    return { runId: run.id, inserted: metrics.inserted, updated: metrics.updated, skipped: metrics.skipped };
   }
 
-  private mapTfLRoadDisruptionToIncident(disruption: any): Partial<Incident> | null {
-    // Only create incidents for active disruptions with geographic data
-    if (disruption.status === 'Active' && disruption.point) {
-      const pointData = JSON.parse(disruption.point);
-
-      // Determine severity category
-      let severityCategory = 'traffic_disruption';
-      if (disruption.hasClosures) {
-        severityCategory = 'road_closure';
-      } else if (disruption.severity === 'Serious' || disruption.severity === 'Severe') {
-        severityCategory = 'traffic_incident';
-      }
+  private async ingestAtOnce(adapter: DataSourceAdapter, context: DataSourceContext, metrics: IngestionRunMetrics, linked: Set<string>) {
+    this.logger.log(`Fetching ${adapter.name} data...`);
+    const records = await adapter.fetch({
+      ...context,
+      onProgress: fraction => context.onProgress(FETCH_PROGRESS_SHARE * fraction),
+    });
+    metrics.recordsFetched += records.length;
+    this.logger.log(`Processing ${records.length} ${adapter.name} records...`);
+
+    await this.saveRecords(adapter, records, metrics, linked, fraction =>
+      context.onProgress(FETCH_PROGRESS_SHARE + (1 - FETCH_PROGRESS_SHARE) * fraction),
+    );
+  }
 
-      // Build detailed description
-      let description = disruption.comments || `${disruption.category} on ${disruption.location}`;
-      if (disruption.currentUpdate) {
-        description += ` Current status: ${disruption.currentUpdate}`;
-      }
+  /**
+   * Saves each batch before checkpointing it, so a crash at worst repeats
+   * the batch in flight. The adapter reports progress across all batches.
+   */
+  private async ingestBatches(adapter: DataSourceAdapter, context: DataSourceContext, metrics: IngestionRunMetrics, linked: Set<string>) {
+    this.logger.log(`Fetching ${adapter.name} data incrementally (${context.checkpoints.size} batches checkpointed)...`);
 
-      // Extract street names if available
-      const streetNames = disruption.streets?.map((street: any) => street.name).join(', ') || disruption.location;
-
-      return {
-        id: `tfl-disruption-${disruption.id}`, // Stable ID
-        type: 'road_incident',
-        title: `${disruption.location} - ${disruption.severity || disruption.category}`,
-        description: description,
-        category: severityCategory,
-        source: 'TfL Road Disruption API',
-        location: {
-          lat: pointData[1], // pointData is [lng, lat] array format
-          lng: pointData[0],
-          address: streetNames
-        },
-        datetime: disruption.startDateTime || new Date().toISOString(),
-      };
+    for await (const batch of adapter.fetchBatches(context)) {
+      metrics.recordsFetched += batch.records.length;
+      await this.saveRecords(adapter, batch.records, metrics, linked);
+      await this.checkpointService.commit(adapter.id, batch.key, batch.version, batch.records.length);
     }
-    return null;
   }
 
-  private detectBikePointAnomalies(bikePoints: any[]): Partial<Incident>[] {
-    const anomalies: Partial<Incident>[] = [];
-
-    for (const bikePoint of bikePoints) {
-      const bikeProperty = bikePoint.additionalProperties.find((prop: any) => prop.key === 'NbBikes');
-      const dockProperty = bikePoint.additionalProperties.find((prop: any) => prop.key === 'NbEmptyDocks');
-
-      if (bikeProperty && dockProperty) {
-        const bikes = parseInt(bikeProperty.value);
-        const docks = parseInt(dockProperty.value);
-        const total = bikes + docks;
-
-        // Detect anomalies: completely empty stations or suspicious patterns
-        if (total > 10 && (bikes === 0 || docks === 0)) {
-          const isEmptyBikes = bikes === 0;
-
-          anomalies.push({
-            id: `tfl-bike-${bikePoint.id}`,
-            type: 'bike_anomaly',
-            title: `Bike Station Anomaly - ${bikePoint.commonName}`,
-            description: isEmptyBikes
-              ? `Bike station completely empty: 0 bikes, ${docks} empty docks`
-              : `Bike station completely full: ${bikes} bikes, 0 empty docks`,
-            category: 'transport_anomaly',
-            source: 'TfL Bike API',
-            location: { lat: bikePoint.lat, lng: bikePoint.lon, address: bikePoint.commonName },
-            datetime: new Date().toISOString(),
+  private async saveRecords(
+    adapter: DataSourceAdapter,
+    records: any[],
+    metrics: IngestionRunMetrics,
+    linked: Set<string>,
+    onProgress?: ProgressReporter,
+  ) {
+    const mapped: { record: any; incident: Partial<Incident> | null }[] = [];
+    for (const record of records) {
+      try {
+        mapped.push({ record, incident: adapter.map(record) });
+      } catch (error) {
+        mapped.push({ record, incident: null });
+        recordRunError(metrics, `Failed to map ${adapter.id} record: ${error.message}`);
+      }
+    }
+
+    // Saving upserts, so look up which incidents already exist to tell inserts from updates
+    const existingIds = await this.incidentsService.findExistingIds(
+      mapped.map(({ incident }) => incident?.id).filter(Boolean),
+    );
+
+    const touchedEntityIds = new Set<string>();
+    for (const [index, { record, incident: partialIncident }] of mapped.entries()) {
+      try {
+        if (partialIncident) {
+          recordCompleteness(metrics, partialIncident);
+          const extractedEntities = await this.extractEntitiesFromIncident(partialIncident);
+          for (const candidate of adapter.extractEntities?.(record, partialIncident) || []) {
+            extractedEntities.push(await this.entitiesService.findOrCreate(candidate));
+          }
+          const textExtraction = await this.entityExtractionService.extract(partialIncident);
+          extractedEntities.push(...textExtraction.entities);
+          // The same entity can come from a field, the adapter and the text
+          partialIncident.entities = Array.from(new Map(extractedEntities.map(entity => [entity.id, entity])).values());
+          await this.incidentsService.create(partialIncident);
+          await this.entityExtractionService.saveMentions(partialIncident.id, textExtraction.mentions);
+          partialIncident.entities.forEach(entity => {
+            touchedEntityIds.add(entity.id);
+            if (!HUB_ENTITY_TYPES.includes(entity.type)) linked.add(entity.id);
           });
+          if (existingIds.has(partialIncident.id)) {
+            metrics.updated++;
+          } else {
+            metrics.inserted++;
+          }
+          this.logger.debug(`Processed ${adapter.id} incident: ${partialIncident.id}`);
+        } else {
+          metrics.skipped++;
+        }
+      } catch (error) {
+        metrics.skipped++;
+        // Skip duplicates or invalid data
+        if (!error.message?.includes('duplicate')) {
+          this.logger.warn(`Failed to process ${adapter.id} record: ${error.message}`);
+          recordRunError(metrics, `Failed to process ${adapter.id} record: ${error.message}`);
         }
       }
+      await onProgress?.((index + 1) / mapped.length);
     }
 
-    return anomalies;
+    // Once per batch, as hub entities such as crime categories link to most incidents
+    await this.entityStatsService.refresh(Array.from(touchedEntityIds));
   }
 
   /**
-   * Generate professional temporal coverage for intelligence collection
-   * Palantir-style comprehensive historical analysis
+   * Rebuilds the co-occurrence links of the entities a run linked to, once
+   * at the end of the run. Links are derived data, so a failure is recorded
+   * on the run rather than failing it; the nightly rebuild catches up.
    */
-  private generateTemporalCoverage(monthsBack: number): string[] {
-    const periods: string[] = [];
-    const now = new Date();
-
-    for (let i = 0; i < monthsBack; i++) {
-      const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      periods.push(`${year}-${month}`);
+  private async refreshCoOccurrences(entityIds: Set<string>, metrics: IngestionRunMetrics) {
+    try {
+      await this.entityCoOccurrenceService.refresh(Array.from(entityIds));
+    } catch (error) {
+      this.logger.error(`Failed to refresh entity co-occurrence links: ${error.message}`);
+      recordRunError(metrics, `Failed to refresh entity co-occurrence links: ${error.message}`);
     }
-
-    return periods.reverse(); // Chronological order
   }
 
-  /**
-   * Enterprise data quality assessment
-   * Professional intelligence standards validation
-   */
-  private assessDataCompleteness(data: any[]): any {
-    const total = data.length;
-    if (total === 0) return { completeness: 0, issues: [] };
-
-    const issues = [];
-    const withLocation = data.filter(d => d.location?.latitude && d.location?.longitude).length;
-    const withCategory = data.filter(d => d.category).length;
-    const withAddress = data.filter(d => d.location?.street?.name).length;
+  private async findConfig(source: string, configId?: string): Promise<IngestionSourceConfig | undefined> {
+    if (configId) {
+      const config = await this.configQuery().where('config.id = :configId', { configId }).getOne();
+      if (!config) {
+        throw new Error(`Ingestion config ${configId} no longer exists`);
+      }
+      return config;
+    }
 
-    const locationCompleteness = (withLocation / total * 100).toFixed(1);
-    const categoryCompleteness = (withCategory / total * 100).toFixed(1);
-    const addressCompleteness = (withAddress / total * 100).toFixed(1);
+    const config = await this.configQuery()
+      .where('config.source = :source', { source })
+      .orderBy('config.createdAt', 'ASC')
+      .getOne();
+    return config || undefined;
+  }
 
-    if (withLocation < total * 0.95) issues.push('Geographic data gaps detected');
-    if (withCategory < total * 0.98) issues.push('Classification data incomplete');
-    if (withAddress < total * 0.80) issues.push('Address resolution suboptimal');
+  // Adapters need the api key, which is not selected by default
+  private configQuery() {
+    return this.configRepository.createQueryBuilder('config').addSelect('config.apiKey');
+  }
 
-    return {
-      overall: Math.min(Number(locationCompleteness), Number(categoryCompleteness)).toFixed(1),
-      geographic: locationCompleteness,
-      classification: categoryCompleteness,
-      addressing: addressCompleteness,
-      qualityIssues: issues
+  /**
+   * Maps a 0-1 fraction of work done onto the job's progress between from and
+   * to percent, only writing to Redis when the rounded value changes.
+   */
+  private progressReporter(job: Job, from = 0, to = 100): ProgressReporter {
+    let last = -1;
+    return async (fraction: number) => {
+      const percent = Math.round(from + (to - from) * Math.min(Math.max(fraction, 0), 1));
+      if (percent !== last) {
+        last = percent;
+        await job.progress(percent);
+      }
     };
   }
 
@@ -622,36 +375,13 @@ export class IngestionProcessor {
 
     return extractedEntities;
   }
-
-  /**
-   * Professional neighbourhood-level intelligence collection
-   * Enhanced granular coverage for Metropolitan Police area
-   */
-  private async getMetropolitanNeighbourhoods(): Promise<any[]> {
-    try {
-      // Get Metropolitan Police neighbourhoods for enhanced granular intelligence
-      const neighbourhoods = await this.ukPoliceService.getNeighbourhoods('metropolitan');
-
-      // Professional intelligence focus on key London neighbourhoods
-      const strategicNeighbourhoods = neighbourhoods.filter(n =>
-        // Focus on central London and high-activity areas
-        n.name.toLowerCase().includes('westminster') ||
-        n.name.toLowerCase().includes('city') ||
-        n.name.toLowerCase().includes('central') ||
-        n.name.toLowerCase().includes('camden') ||
-        n.name.toLowerCase().includes('islington') ||
-        n.name.toLowerCase().includes('southwark') ||
-        n.name.toLowerCase().includes('tower') ||
-        n.name.toLowerCase().includes('hackney') ||
-        n.name.toLowerCase().includes('kensington') ||
-        n.name.toLowerCase().includes('chelsea')
-      ).slice(0, 10); // Limit to top 10 strategic neighbourhoods for performance
-
-      this.logger.log(`Strategic neighbourhood selection: ${strategicNeighbourhoods.map(n => n.name).join(', ')}`);
-      return strategicNeighbourhoods;
-    } catch (error) {
-      this.logger.warn(`Metropolitan neighbourhood collection failed: ${error.message}`);
-      return [];
-    }
-  }
-}
\ No newline at end of file
+}
+
+function uploadAdapter(source: string): DataSourceAdapter<Partial<Incident>> {
+  return {
+    id: 'upload',
+    name: `Upload: ${source}`,
+    description: 'Incidents imported from an uploaded file',
+    map: incident => incident,
+  };
+}
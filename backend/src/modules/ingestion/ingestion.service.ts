@@ -1,48 +1,217 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { Cron, CronExpression } from '@nestjs/schedule';
+import { Injectable, Logger, OnApplicationBootstrap, NotFoundException, BadRequestException } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
 import { InjectQueue } from '@nestjs/bull';
-import { Queue } from 'bull';
-import { UkPoliceService } from '../../services/uk-police.service';
-import { TflService } from '../../services/tfl.service';
-import { GdeltService } from '../../services/gdelt.service';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Queue, JobOptions } from 'bull';
+import { Repository } from 'typeorm';
+import { CronJob, CronTime } from 'cron';
+import { IngestionSourceConfig } from '../../entities';
+import { CreateIngestionConfigDto } from '../../dto/create-ingestion-config.dto';
+import { UpdateIngestionConfigDto } from '../../dto/update-ingestion-config.dto';
+import { DataSourceRegistry } from './adapters/data-source.registry';
+import { IngestionRunService, IngestionRunStats } from './ingestion-run.service';
+
+// Manually triggered jobs call flaky public APIs, so let the queue retry them with backoff
+export const SOURCE_JOB_OPTIONS: JobOptions = {
+  attempts: 3,
+  backoff: { type: 'exponential', delay: 60000 },
+};
+
+export type IngestionSourceConfigView = Omit<IngestionSourceConfig, 'apiKey'> & {
+  hasApiKey: boolean;
+  lastRunAt: Date | null;
+  nextRunAt: Date | null;
+  // Aggregated from ingestion_runs
+  totalRuns: number;
+  successRate: number | null;
+  avgDurationMs: number | null;
+  dataPointsCollected: number;
+};
 
 @Injectable()
-export class IngestionService {
+export class IngestionService implements OnApplicationBootstrap {
   private readonly logger = new Logger(IngestionService.name);
 
   constructor(
     @InjectQueue('ingestion') private ingestionQueue: Queue,
-    private readonly ukPoliceService: UkPoliceService,
-    private readonly tflService: TflService,
-    private readonly gdeltService: GdeltService,
+    @InjectRepository(IngestionSourceConfig)
+    private readonly configRepository: Repository<IngestionSourceConfig>,
+    private readonly dataSourceRegistry: DataSourceRegistry,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly runService: IngestionRunService,
   ) {}
 
-  @Cron(CronExpression.EVERY_HOUR)
-  async handleCron() {
-    // Disable automatic police data ingestion - only run TfL updates
-    // Police data is updated monthly, not hourly, so no need for constant polling
-    const autoIngestionEnabled = process.env.ENABLE_AUTO_INGESTION === 'true';
+  /**
+   * Give every registered data source a config, then schedule the enabled
+   * ones. Runs after module init so the registry has discovered all adapters.
+   */
+  async onApplicationBootstrap() {
+    const configured = new Set((await this.configRepository.find()).map(config => config.source));
+    for (const adapter of this.dataSourceRegistry.getAll()) {
+      if (configured.has(adapter.id)) continue;
+
+      await this.configRepository.save(this.configRepository.create({
+        name: adapter.name,
+        source: adapter.id,
+        description: adapter.description,
+        schedule: adapter.schedule || null,
+      }));
+      this.logger.log(`Created default ingestion config for ${adapter.name}`);
+    }
+
+    for (const config of await this.configRepository.find()) {
+      this.schedule(config);
+    }
+  }
+
+  async findAllConfigs(): Promise<IngestionSourceConfigView[]> {
+    const configs = await this.configRepository
+      .createQueryBuilder('config')
+      .addSelect('config.apiKey')
+      .orderBy('config.createdAt', 'ASC')
+      .getMany();
+    const stats = await this.runService.getStatsByConfig();
+    return configs.map(config => this.toView(config, stats.get(config.id)));
+  }
+
+  async findConfig(id: string): Promise<IngestionSourceConfigView> {
+    const stats = await this.runService.getStatsByConfig();
+    return this.toView(await this.getConfig(id), stats.get(id));
+  }
+
+  async createConfig(createDto: CreateIngestionConfigDto): Promise<IngestionSourceConfigView> {
+    if (!this.dataSourceRegistry.get(createDto.source)) {
+      throw new BadRequestException(`Unknown data source: ${createDto.source}`);
+    }
+    this.assertAcceptsApiKey(createDto.source, createDto.apiKey);
+
+    const config = await this.configRepository.save(this.configRepository.create({
+      ...createDto,
+      schedule: this.parseSchedule(createDto.schedule),
+    }));
+    this.schedule(config);
+    return this.toView(config);
+  }
+
+  async updateConfig(id: string, updateDto: UpdateIngestionConfigDto): Promise<IngestionSourceConfigView> {
+    const config = await this.getConfig(id);
+    this.assertAcceptsApiKey(config.source, updateDto.apiKey);
+
+    // Only touch fields that were sent, so an omitted apiKey keeps the stored one
+    for (const [key, value] of Object.entries(updateDto)) {
+      if (value !== undefined) config[key] = value;
+    }
+    if (updateDto.schedule !== undefined) {
+      config.schedule = this.parseSchedule(updateDto.schedule);
+    }
+
+    await this.configRepository.save(config);
+    this.schedule(config);
+    return this.findConfig(id);
+  }
+
+  async removeConfig(id: string): Promise<void> {
+    const config = await this.getConfig(id);
 
-    if (!autoIngestionEnabled) {
-      this.logger.log('Automatic police data ingestion disabled. Use manual ingestion endpoints for data updates.');
-      // Still run TfL updates since transport data changes frequently
-      this.logger.log('Running TfL transport data update...');
-      await this.ingestionQueue.add('ingest-tfl');
-      return;
+    // onApplicationBootstrap would recreate it with default settings on the next restart
+    const siblings = await this.configRepository.count({ where: { source: config.source } });
+    if (siblings === 1 && this.dataSourceRegistry.get(config.source)) {
+      throw new BadRequestException(`${config.name} is the only config for ${config.source}; disable it instead`);
     }
 
-    this.logger.log('Running full scheduled ingestion...');
-    await this.ingestionQueue.add('ingest-all');
+    this.unschedule(id);
+    await this.configRepository.remove(config);
   }
 
-  @Cron('*/5 * * * *') // Every 5 minutes
-  async handleTflFrequentUpdate() {
-    // Only run frequent TFL updates if police ingestion is disabled
-    const autoIngestionEnabled = process.env.ENABLE_AUTO_INGESTION === 'true';
+  async triggerConfig(id: string) {
+    const config = await this.getConfig(id);
+    if (!config.enabled) {
+      throw new BadRequestException(`${config.name} is disabled`);
+    }
+
+    return this.ingestionQueue.add(config.source, { configId: config.id }, SOURCE_JOB_OPTIONS);
+  }
+
+  private async getConfig(id: string): Promise<IngestionSourceConfig> {
+    const config = await this.configRepository
+      .createQueryBuilder('config')
+      .addSelect('config.apiKey')
+      .where('config.id = :id', { id })
+      .getOne();
+    if (!config) {
+      throw new NotFoundException(`Ingestion config ${id} not found`);
+    }
+    return config;
+  }
+
+  // Saving a key the source never sends would look like it took effect
+  private assertAcceptsApiKey(source: string, apiKey: string | null | undefined) {
+    const adapter = this.dataSourceRegistry.get(source);
+    if (apiKey && adapter && !adapter.usesApiKey) {
+      throw new BadRequestException(`${adapter.name} does not take an API key`);
+    }
+  }
+
+  private parseSchedule(schedule: string | null | undefined): string | null {
+    const expression = schedule?.trim();
+    if (!expression) {
+      return null;
+    }
 
-    if (!autoIngestionEnabled) {
-      this.logger.log('Running frequent TfL transport update (5min interval)...');
-      await this.ingestionQueue.add('ingest-tfl');
+    try {
+      new CronTime(expression);
+    } catch (error) {
+      throw new BadRequestException(`Invalid cron schedule "${expression}": ${error.message}`);
     }
+    return expression;
   }
+
+  /**
+   * Replace the config's cron job, if any, with one matching its current
+   * schedule. Disabled and on-demand configs are left unscheduled.
+   */
+  private schedule(config: IngestionSourceConfig) {
+    this.unschedule(config.id);
+    if (!config.enabled || !config.schedule) return;
+
+    const job = new CronJob(config.schedule, async () => {
+      this.logger.log(`Running scheduled ${config.name} update (${config.schedule})...`);
+      try {
+        await this.ingestionQueue.add(config.source, { configId: config.id });
+      } catch (error) {
+        // cron does not await ticks, so a rejection here would go unhandled
+        this.logger.error(`Failed to queue scheduled ${config.name} update: ${error.message}`);
+      }
+    });
+    this.schedulerRegistry.addCronJob(cronJobName(config.id), job);
+    job.start();
+  }
+
+  private unschedule(id: string) {
+    if (this.schedulerRegistry.doesExist('cron', cronJobName(id))) {
+      this.schedulerRegistry.deleteCronJob(cronJobName(id));
+    }
+  }
+
+  private toView(config: IngestionSourceConfig, stats?: IngestionRunStats): IngestionSourceConfigView {
+    const { apiKey, ...rest } = config;
+    const job = this.schedulerRegistry.doesExist('cron', cronJobName(config.id))
+      ? this.schedulerRegistry.getCronJob(cronJobName(config.id))
+      : null;
+
+    return {
+      ...rest,
+      hasApiKey: !!apiKey,
+      lastRunAt: stats?.lastRunAt || null,
+      nextRunAt: job ? job.nextDate().toJSDate() : null,
+      totalRuns: stats?.totalRuns || 0,
+      successRate: stats ? stats.successRate : null,
+      avgDurationMs: stats ? stats.avgDurationMs : null,
+      dataPointsCollected: stats?.dataPointsCollected || 0,
+    };
+  }
+}
+
+function cronJobName(configId: string): string {
+  return `ingest-config-${configId}`;
 }
@@ -0,0 +1,36 @@
+import { Controller, Get, Patch, Post, Param, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
+import { NotificationsService } from './notifications.service';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { User } from '../../entities';
+
+@ApiTags('notifications')
+@ApiBearerAuth()
+@Controller('notifications')
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List notifications for the current analyst' })
+  @ApiResponse({ status: 200, description: 'Notifications retrieved successfully' })
+  @ApiQuery({ name: 'unread', required: false, description: 'Only return unread notifications' })
+  @ApiQuery({ name: 'limit', required: false })
+  findAll(@Query() query: any, @CurrentUser() user: User) {
+    return this.notificationsService.findForRecipient(user.username, query);
+  }
+
+  @Patch(':id/read')
+  @ApiOperation({ summary: 'Mark a notification as read' })
+  @ApiResponse({ status: 200, description: 'Notification marked as read' })
+  @ApiResponse({ status: 404, description: 'Notification not found' })
+  markRead(@Param('id') id: string, @CurrentUser() user: User) {
+    return this.notificationsService.markRead(id, user.username);
+  }
+
+  @Post('read-all')
+  @ApiOperation({ summary: 'Mark all notifications as read' })
+  @ApiResponse({ status: 201, description: 'Notifications marked as read' })
+  markAllRead(@CurrentUser() user: User) {
+    return this.notificationsService.markAllRead(user.username);
+  }
+}
@@ -0,0 +1,66 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Notification, NotificationType } from '../../entities';
+
+export interface NotifyOptions {
+  type: NotificationType;
+  actor: string;
+  message: string;
+  caseId?: string;
+  commentId?: string;
+}
+
+@Injectable()
+export class NotificationsService {
+  constructor(
+    @InjectRepository(Notification)
+    private readonly notificationRepository: Repository<Notification>,
+  ) {}
+
+  /**
+   * Fan a notification out to each recipient. Analysts are never notified
+   * about their own actions.
+   */
+  async notify(recipients: string[], options: NotifyOptions): Promise<Notification[]> {
+    const targets = [...new Set(recipients)].filter(recipient => recipient && recipient !== options.actor);
+    if (targets.length === 0) {
+      return [];
+    }
+
+    const notifications = targets.map(recipient =>
+      this.notificationRepository.create({ recipient, ...options }),
+    );
+    return this.notificationRepository.save(notifications);
+  }
+
+  async findForRecipient(recipient: string, query: any): Promise<{ notifications: Notification[], unread: number }> {
+    const limit = query.limit ? parseInt(query.limit) : 50;
+    const where: any = { recipient };
+    if (query.unread === 'true') {
+      where.read = false;
+    }
+
+    const [notifications, unread] = await Promise.all([
+      this.notificationRepository.find({ where, order: { createdAt: 'DESC' }, take: limit }),
+      this.notificationRepository.count({ where: { recipient, read: false } }),
+    ]);
+
+    return { notifications, unread };
+  }
+
+  async markRead(id: string, recipient: string): Promise<Notification> {
+    const notification = await this.notificationRepository.findOne({ where: { id, recipient } });
+    if (!notification) {
+      throw new NotFoundException(`Notification ${id} not found`);
+    }
+
+    notification.read = true;
+    return this.notificationRepository.save(notification);
+  }
+
+  async markAllRead(recipient: string): Promise<{ updated: number }> {
+    const result = await this.notificationRepository.update({ recipient, read: false }, { read: true });
+    return { updated: result.affected || 0 };
+  }
+}
@@ -1,7 +1,10 @@
 import { Controller, Post, Get, Body, Query } from '@nestjs/common';
 import { VectorProcessingService } from './vector-processing.service';
 import { EmbeddingsService } from '../embeddings/embeddings.service';
+import { Roles } from '../../common/decorators/roles.decorator';
 
+// Embedding maintenance is expensive and slow, so the whole surface is admin-only
+@Roles('admin')
 @Controller('vector-processing')
 export class VectorProcessingController {
   constructor(
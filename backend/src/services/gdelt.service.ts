@@ -1,9 +1,187 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
+import axios from 'axios';
+import AdmZip = require('adm-zip');
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { GDELTEvent } from '@intel-fusion/shared';
+
+/**
+ * A London event from the GDELT 2.0 export, enriched with the GKG record of
+ * the article it was coded from when one is available.
+ */
+export interface GdeltLondonEvent extends GDELTEvent {
+  themes: string[];
+  persons: string[];
+  organisations: string[];
+  // GKG document tone, which is more precise than the event's avgtone
+  documentTone?: number;
+}
+
+interface GdeltGkgRecord {
+  themes: string[];
+  persons: string[];
+  organisations: string[];
+  tone?: number;
+}
+
+// Greater London bounding box
+const LONDON_BOUNDS = { minLat: 51.28, maxLat: 51.7, minLng: -0.52, maxLng: 0.34 };
+
+// Column positions in the tab-separated GDELT 2.0 files, which have no header row
+const EXPORT_COLUMN_COUNT = 61;
+const EXPORT_COLUMNS = {
+  globaleventid: 0, day: 1, monthyear: 2, year: 3, fractiondate: 4,
+  actor1code: 5, actor1name: 6, actor1countrycode: 7,
+  actor2code: 15, actor2name: 16, actor2countrycode: 17,
+  isrootevent: 25, eventcode: 26, eventbasecode: 27, eventrootcode: 28, quadclass: 29,
+  goldsteinscale: 30, nummentions: 31, numsources: 32, numarticles: 33, avgtone: 34,
+  actor1geo_type: 35, actor1geo_fullname: 36, actor1geo_countrycode: 37, actor1geo_adm1code: 38,
+  actor1geo_lat: 40, actor1geo_long: 41,
+  actor2geo_type: 43, actor2geo_fullname: 44, actor2geo_countrycode: 45, actor2geo_adm1code: 46,
+  actor2geo_lat: 48, actor2geo_long: 49,
+  actiongeo_type: 51, actiongeo_fullname: 52, actiongeo_countrycode: 53, actiongeo_adm1code: 54,
+  actiongeo_lat: 56, actiongeo_long: 57,
+  dateadded: 59, sourceurl: 60,
+};
+const NUMERIC_EXPORT_FIELDS = new Set([
+  'fractiondate', 'isrootevent', 'quadclass', 'goldsteinscale', 'nummentions', 'numsources', 'numarticles', 'avgtone',
+  'actor1geo_type', 'actor1geo_lat', 'actor1geo_long', 'actor2geo_type', 'actor2geo_lat', 'actor2geo_long',
+  'actiongeo_type', 'actiongeo_lat', 'actiongeo_long',
+]);
+const GKG_COLUMNS = { documentIdentifier: 4, themes: 7, persons: 11, organisations: 13, v2Tone: 15 };
 
 @Injectable()
 export class GdeltService {
-  async getEvents() {
-    // Placeholder for GDELT API integration
-    return [];
+  private readonly logger = new Logger(GdeltService.name);
+  private readonly baseUrl = process.env.GDELT_DATA_BASE_URL || 'http://data.gdeltproject.org/gdeltv2';
+  // When set, export and GKG files are read from this directory instead of being downloaded
+  private readonly localDir = process.env.GDELT_LOCAL_DIR;
+
+  /**
+   * London events from the latest 15-minute GDELT update, or from every
+   * export file in GDELT_LOCAL_DIR when running offline. baseUrl overrides
+   * GDELT_DATA_BASE_URL, e.g. to read from a mirror. onRequest is called
+   * before each HTTP request.
+   */
+  async getEvents(baseUrl = this.baseUrl, onRequest: () => void = () => undefined): Promise<GdeltLondonEvent[]> {
+    const { exportFiles, gkgFiles } = this.localDir
+      ? await this.listLocalFiles(this.localDir)
+      : await this.getLatestFileUrls(baseUrl, onRequest);
+
+    const events: GDELTEvent[] = [];
+    for (const file of exportFiles) {
+      events.push(...parseExport(await this.readFile(file, onRequest)).filter(isInLondon));
+    }
+
+    // Only parse GKG rows for articles behind London events; the files are large
+    const sourceUrls = new Set(events.map(event => event.sourceurl).filter(Boolean));
+    const gkgByUrl = new Map<string, GdeltGkgRecord>();
+    for (const file of sourceUrls.size > 0 ? gkgFiles : []) {
+      parseGkg(await this.readFile(file, onRequest), sourceUrls).forEach((record, url) => gkgByUrl.set(url, record));
+    }
+
+    this.logger.log(`Parsed ${events.length} London GDELT events (${gkgByUrl.size} with GKG records)`);
+
+    return events.map(event => {
+      const gkg = gkgByUrl.get(event.sourceurl);
+      return {
+        ...event,
+        themes: gkg?.themes || [],
+        persons: gkg?.persons || [],
+        organisations: gkg?.organisations || [],
+        documentTone: gkg?.tone,
+      };
+    });
+  }
+
+  private async getLatestFileUrls(baseUrl: string, onRequest: () => void): Promise<{ exportFiles: string[]; gkgFiles: string[] }> {
+    // Each line is "<size> <md5> <url>" for the export, mentions and GKG files
+    onRequest();
+    const response = await axios.get(`${baseUrl.replace(/\/$/, '')}/lastupdate.txt`, { responseType: 'text' });
+    const urls = String(response.data)
+      .split('\n')
+      .map(line => line.trim().split(/\s+/)[2])
+      .filter(Boolean);
+
+    return {
+      exportFiles: urls.filter(url => /\.export\.csv\.zip$/i.test(url)),
+      gkgFiles: urls.filter(url => /\.gkg\.csv\.zip$/i.test(url)),
+    };
+  }
+
+  private async listLocalFiles(dir: string): Promise<{ exportFiles: string[]; gkgFiles: string[] }> {
+    const files = (await fs.readdir(dir)).sort().map(file => path.join(dir, file));
+    return {
+      exportFiles: files.filter(file => /\.export\.csv(\.zip)?$/i.test(file)),
+      gkgFiles: files.filter(file => /\.gkg\.csv(\.zip)?$/i.test(file)),
+    };
+  }
+
+  private async readFile(location: string, onRequest: () => void): Promise<string> {
+    const isRemote = /^https?:\/\//.test(location);
+    if (isRemote) onRequest();
+
+    const data = isRemote
+      ? Buffer.from((await axios.get(location, { responseType: 'arraybuffer' })).data)
+      : await fs.readFile(location);
+
+    if (!/\.zip$/i.test(location)) {
+      return data.toString('utf8');
+    }
+
+    // GDELT zips hold a single CSV
+    const entry = new AdmZip(data).getEntries().find(candidate => !candidate.isDirectory);
+    return entry ? entry.getData().toString('utf8') : '';
+  }
+}
+
+function parseExport(text: string): GDELTEvent[] {
+  const events: GDELTEvent[] = [];
+
+  for (const line of text.split('\n')) {
+    const columns = line.replace(/\r$/, '').split('\t');
+    if (columns.length < EXPORT_COLUMN_COUNT) continue;
+
+    const event: any = {};
+    for (const [field, index] of Object.entries(EXPORT_COLUMNS)) {
+      const value = columns[index];
+      event[field] = NUMERIC_EXPORT_FIELDS.has(field) ? (value === '' ? NaN : Number(value)) : value;
+    }
+    events.push(event as GDELTEvent);
   }
+
+  return events;
+}
+
+function parseGkg(text: string, documentUrls: Set<string>): Map<string, GdeltGkgRecord> {
+  const records = new Map<string, GdeltGkgRecord>();
+
+  for (const line of text.split('\n')) {
+    const columns = line.replace(/\r$/, '').split('\t');
+    const url = columns[GKG_COLUMNS.documentIdentifier];
+    if (!url || !documentUrls.has(url)) continue;
+
+    // V2Tone is "tone,positive,negative,polarity,activity,selfGroup,wordCount"
+    const tone = parseFloat((columns[GKG_COLUMNS.v2Tone] || '').split(',')[0]);
+    records.set(url, {
+      themes: splitList(columns[GKG_COLUMNS.themes]),
+      persons: splitList(columns[GKG_COLUMNS.persons]),
+      organisations: splitList(columns[GKG_COLUMNS.organisations]),
+      tone: isNaN(tone) ? undefined : tone,
+    });
+  }
+
+  return records;
+}
+
+function splitList(value: string | undefined): string[] {
+  return Array.from(new Set((value || '').split(';').map(item => item.trim()).filter(Boolean)));
+}
+
+function isInLondon(event: GDELTEvent): boolean {
+  const { actiongeo_lat: lat, actiongeo_long: lng } = event;
+  if (isNaN(lat) || isNaN(lng)) return false;
+
+  return lat >= LONDON_BOUNDS.minLat && lat <= LONDON_BOUNDS.maxLat
+    && lng >= LONDON_BOUNDS.minLng && lng <= LONDON_BOUNDS.maxLng;
 }
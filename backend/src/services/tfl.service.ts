@@ -1,66 +1,69 @@
 import { Injectable } from '@nestjs/common';
 import axios from 'axios';
 
+// A config's own base url, e.g. a caching proxy, and app key
+export interface TflRequestOptions {
+  baseUrl?: string;
+  appKey?: string;
+}
+
 @Injectable()
 export class TflService {
   private readonly baseUrl = 'https://api.tfl.gov.uk';
 
-  async getLineStatus(modes: string) {
-    const response = await axios.get(`${this.baseUrl}/Line/Mode/${modes}/Status`);
+  // The unified API works without a key but rate limits anonymous callers harder
+  private async get(path: string, { baseUrl = this.baseUrl, appKey }: TflRequestOptions = {}) {
+    const response = await axios.get(`${baseUrl}${path}`, { params: appKey ? { app_key: appKey } : undefined });
     return response.data;
   }
 
-  async getAccidentStats(year: number) {
-    const response = await axios.get(`${this.baseUrl}/AccidentStats/${year}`);
-    return response.data;
+  async getLineStatus(modes: string, options?: TflRequestOptions) {
+    return this.get(`/Line/Mode/${modes}/Status`, options);
   }
 
-  async getBusStatus() {
-    const response = await axios.get(`${this.baseUrl}/Line/Mode/bus/Status`);
-    return response.data;
+  async getAccidentStats(year: number, options?: TflRequestOptions) {
+    return this.get(`/AccidentStats/${year}`, options);
   }
 
-  async getOvergroundStatus() {
-    const response = await axios.get(`${this.baseUrl}/Line/Mode/overground/Status`);
-    return response.data;
+  async getBusStatus(options?: TflRequestOptions) {
+    return this.get('/Line/Mode/bus/Status', options);
   }
 
-  async getDlrStatus() {
-    const response = await axios.get(`${this.baseUrl}/Line/Mode/dlr/Status`);
-    return response.data;
+  async getOvergroundStatus(options?: TflRequestOptions) {
+    return this.get('/Line/Mode/overground/Status', options);
   }
 
-  async getElizabethLineStatus() {
-    const response = await axios.get(`${this.baseUrl}/Line/Mode/elizabeth-line/Status`);
-    return response.data;
+  async getDlrStatus(options?: TflRequestOptions) {
+    return this.get('/Line/Mode/dlr/Status', options);
   }
 
-  async getRoadStatus() {
-    const response = await axios.get(`${this.baseUrl}/Road`);
-    return response.data;
+  async getElizabethLineStatus(options?: TflRequestOptions) {
+    return this.get('/Line/Mode/elizabeth-line/Status', options);
+  }
+
+  async getRoadStatus(options?: TflRequestOptions) {
+    return this.get('/Road', options);
   }
 
-  async getRoadDisruptions() {
+  async getRoadDisruptions(options?: TflRequestOptions) {
     // Get all active road disruptions - use 'all' to get all road IDs
-    const response = await axios.get(`${this.baseUrl}/Road/all/Disruption`);
-    return response.data;
+    return this.get('/Road/all/Disruption', options);
   }
 
-  async getBikePoints() {
-    const response = await axios.get(`${this.baseUrl}/BikePoint`);
-    return response.data;
+  async getBikePoints(options?: TflRequestOptions) {
+    return this.get('/BikePoint', options);
   }
 
-  async getAllTransportModes() {
+  async getAllTransportModes(options?: TflRequestOptions) {
     const [tube, bus, overground, dlr, elizabeth, roads, roadDisruptions, bikes] = await Promise.all([
-      this.getLineStatus('tube'),
-      this.getBusStatus(),
-      this.getOvergroundStatus(),
-      this.getDlrStatus(),
-      this.getElizabethLineStatus(),
-      this.getRoadStatus(),
-      this.getRoadDisruptions(),
-      this.getBikePoints()
+      this.getLineStatus('tube', options),
+      this.getBusStatus(options),
+      this.getOvergroundStatus(options),
+      this.getDlrStatus(options),
+      this.getElizabethLineStatus(options),
+      this.getRoadStatus(options),
+      this.getRoadDisruptions(options),
+      this.getBikePoints(options)
     ]);
 
     return {
@@ -1,30 +1,40 @@
 import { Injectable } from '@nestjs/common';
 import axios from 'axios';
 
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+// One month of /crimes-street-dates: the forces whose stop and search data it holds
+export interface CrimeDateAvailability {
+  date: string;
+  'stop-and-search': string[];
+}
+
 @Injectable()
 export class UkPoliceService {
   private readonly baseUrl = 'https://data.police.uk/api';
 
-  async getStreetCrime(lat: number, lng: number, date: string) {
-    const response = await axios.get(
-      `${this.baseUrl}/crimes-street/all-crime?lat=${lat}&lng=${lng}&date=${date}`,
-    );
-    return response.data;
+  async getStreetCrime(lat: number, lng: number, date: string, baseUrl = this.baseUrl) {
+    return this.get(`/crimes-street/all-crime?lat=${lat}&lng=${lng}&date=${date}`, baseUrl);
+  }
+
+  /**
+   * Months with street-level crime data, newest first, with the YYYY-MM
+   * date and the forces each month covers.
+   */
+  async getCrimeDates(baseUrl = this.baseUrl): Promise<CrimeDateAvailability[]> {
+    return this.get('/crimes-street-dates', baseUrl);
   }
 
   async getForces() {
-    const response = await axios.get(`${this.baseUrl}/forces`);
-    return response.data;
+    return this.get('/forces');
   }
 
   async getNeighbourhoods(forceId: string) {
-    const response = await axios.get(`${this.baseUrl}/${forceId}/neighbourhoods`);
-    return response.data;
+    return this.get(`/${forceId}/neighbourhoods`);
   }
 
   async getNeighbourhoodBoundary(forceId: string, neighbourhoodId: string) {
-    const response = await axios.get(`${this.baseUrl}/${forceId}/${neighbourhoodId}/boundary`);
-    return response.data;
+    return this.get(`/${forceId}/${neighbourhoodId}/boundary`);
   }
 
   async getNeighbourhoodCrimes(forceId: string, neighbourhoodId: string, date: string) {
@@ -36,11 +46,9 @@ export class UkPoliceService {
         // Create polygon string for neighbourhood crimes
         const poly = boundary.map(point => `${point.latitude},${point.longitude}`).join(':');
 
-        const response = await axios.get(
-          `${this.baseUrl}/crimes-street/all-crime?poly=${poly}&date=${date}`
-        );
+        const crimes = await this.get(`/crimes-street/all-crime?poly=${poly}&date=${date}`);
 
-        return response.data.map(crime => ({
+        return crimes.map(crime => ({
           ...crime,
           _neighbourhood: neighbourhoodId,
           _force: forceId
@@ -53,4 +61,21 @@ export class UkPoliceService {
       return [];
     }
   }
+
+  // data.police.uk allows 15 requests a second and answers 429 beyond that
+  private async get(path: string, baseUrl = this.baseUrl, attempt = 0): Promise<any> {
+    try {
+      const response = await axios.get(`${baseUrl}${path}`);
+      return response.data;
+    } catch (error) {
+      if (error.response?.status !== 429 || attempt >= MAX_RATE_LIMIT_RETRIES) {
+        throw error;
+      }
+
+      const retryAfter = Number(error.response.headers?.['retry-after']);
+      const delay = retryAfter > 0 ? retryAfter * 1000 : 1000 * 2 ** attempt;
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return this.get(path, baseUrl, attempt + 1);
+    }
+  }
 }
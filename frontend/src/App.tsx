@@ -5,44 +5,71 @@ import Dashboard from './pages/Dashboard'
 import MapDashboard from './pages/MapDashboard'
 import IncidentExplorer from './pages/IncidentExplorer'
 import EntityGraph from './pages/EntityGraph'
+import EntityProfile from './pages/EntityProfile'
 import Timeline from './pages/Timeline'
 import CaseBuilder from './pages/CaseBuilder'
 import { Settings } from './pages/Settings'
+import Login from './pages/Login'
+import { RequireAuth } from './components/auth/RequireAuth'
 
 export default function App() {
   return (
     <>
       <Routes>
-        <Route path="/" element={<MapDashboard />} />
+        <Route path="/login" element={<Login />} />
+        <Route path="/" element={
+          <RequireAuth>
+            <MapDashboard />
+          </RequireAuth>
+        } />
         <Route path="/classic" element={
-          <Layout>
-            <Dashboard />
-          </Layout>
+          <RequireAuth>
+            <Layout>
+              <Dashboard />
+            </Layout>
+          </RequireAuth>
         } />
         <Route path="/incidents" element={
-          <Layout>
-            <IncidentExplorer />
-          </Layout>
+          <RequireAuth>
+            <Layout>
+              <IncidentExplorer />
+            </Layout>
+          </RequireAuth>
         } />
         <Route path="/entities" element={
-          <Layout>
-            <EntityGraph />
-          </Layout>
+          <RequireAuth>
+            <Layout>
+              <EntityGraph />
+            </Layout>
+          </RequireAuth>
+        } />
+        <Route path="/entities/:id" element={
+          <RequireAuth>
+            <Layout>
+              <EntityProfile />
+            </Layout>
+          </RequireAuth>
         } />
         <Route path="/timeline" element={
-          <Layout>
-            <Timeline />
-          </Layout>
+          <RequireAuth>
+            <Layout>
+              <Timeline />
+            </Layout>
+          </RequireAuth>
         } />
         <Route path="/cases" element={
-          <Layout>
-            <CaseBuilder />
-          </Layout>
+          <RequireAuth>
+            <Layout>
+              <CaseBuilder />
+            </Layout>
+          </RequireAuth>
         } />
         <Route path="/settings" element={
-          <Layout>
-            <Settings />
-          </Layout>
+          <RequireAuth>
+            <Layout>
+              <Settings />
+            </Layout>
+          </RequireAuth>
         } />
       </Routes>
       <Toaster />
@@ -0,0 +1,18 @@
+import type { ReactNode } from 'react'
+import { Navigate, useLocation } from 'react-router-dom'
+import { getAuthToken } from '../../utils/auth'
+
+interface RequireAuthProps {
+  children: ReactNode
+}
+
+export const RequireAuth = ({ children }: RequireAuthProps) => {
+  const location = useLocation()
+
+  if (!getAuthToken()) {
+    const redirect = encodeURIComponent(location.pathname + location.search)
+    return <Navigate to={`/login?redirect=${redirect}`} replace />
+  }
+
+  return <>{children}</>
+}
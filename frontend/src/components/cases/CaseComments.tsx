@@ -0,0 +1,218 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { MessageSquare, Reply, Send, Trash2, User } from 'lucide-react';
+import { getCaseComments, addCaseComment, deleteCaseComment } from '../../services/api';
+import { getCurrentUser } from '../../utils/auth';
+import type { CaseComment, CaseIncident } from './types';
+
+interface CaseCommentsProps {
+  caseId: string;
+  incidents: CaseIncident[];
+  // Thread to show first, e.g. when opened from an incident row
+  initialIncidentId?: string | null;
+  readOnly?: boolean;
+}
+
+interface CommentNode {
+  comment: CaseComment;
+  replies: CommentNode[];
+}
+
+const CASE_THREAD = '';
+
+// Highlight @handles so mentions stand out in the thread
+const renderBody = (body: string) =>
+  body.split(/(@[A-Za-z0-9][\w.-]*)/g).map((part, idx) =>
+    part.startsWith('@')
+      ? <span key={idx} className="text-purple-300 font-medium">{part}</span>
+      : <React.Fragment key={idx}>{part}</React.Fragment>
+  );
+
+const CaseComments: React.FC<CaseCommentsProps> = ({ caseId, incidents, initialIncidentId, readOnly = false }) => {
+  const [comments, setComments] = useState<CaseComment[]>([]);
+  const [thread, setThread] = useState<string>(initialIncidentId || CASE_THREAD);
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<CaseComment | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [posting, setPosting] = useState(false);
+  const username = getCurrentUser()?.username;
+
+  const fetchComments = async () => {
+    setLoading(true);
+    try {
+      const response = await getCaseComments(caseId);
+      setComments(response.data || []);
+    } catch (error) {
+      console.error('Failed to fetch comments:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchComments();
+  }, [caseId]);
+
+  useEffect(() => {
+    setThread(initialIncidentId || CASE_THREAD);
+  }, [initialIncidentId]);
+
+  const countsByThread = useMemo(() => {
+    const counts = new Map<string, number>();
+    comments.forEach(comment => {
+      const key = comment.incidentId || CASE_THREAD;
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    return counts;
+  }, [comments]);
+
+  const tree = useMemo(() => {
+    const nodes = new Map<string, CommentNode>();
+    const roots: CommentNode[] = [];
+
+    comments
+      .filter(comment => (comment.incidentId || CASE_THREAD) === thread)
+      .forEach(comment => nodes.set(comment.id, { comment, replies: [] }));
+
+    nodes.forEach(node => {
+      const parent = node.comment.parentId ? nodes.get(node.comment.parentId) : undefined;
+      if (parent) {
+        parent.replies.push(node);
+      } else {
+        roots.push(node);
+      }
+    });
+
+    return roots;
+  }, [comments, thread]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    setPosting(true);
+    try {
+      const response = await addCaseComment(caseId, {
+        body: draft.trim(),
+        incidentId: replyTo ? undefined : thread || undefined,
+        parentId: replyTo?.id
+      });
+      setComments(prev => [...prev, response.data]);
+      setDraft('');
+      setReplyTo(null);
+    } catch (error) {
+      console.error('Failed to post comment:', error);
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleDelete = async (comment: CaseComment) => {
+    if (!window.confirm('Delete this comment and its replies?')) return;
+
+    try {
+      await deleteCaseComment(caseId, comment.id);
+      await fetchComments();
+    } catch (error) {
+      console.error('Failed to delete comment:', error);
+    }
+  };
+
+  const renderNode = (node: CommentNode, depth: number): React.ReactNode => (
+    <div key={node.comment.id} className={depth > 0 ? 'ml-6 pl-3 border-l border-gray-700/50' : ''}>
+      <div className="py-2">
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          <User className="w-3 h-3" />
+          <span className="text-slate-300 font-medium">{node.comment.author}</span>
+          <span>{new Date(node.comment.createdAt).toLocaleString('en-GB')}</span>
+        </div>
+        <p className="mt-1 text-sm text-white whitespace-pre-wrap break-words">{renderBody(node.comment.body)}</p>
+        <div className="flex items-center gap-3 mt-1 text-xs">
+          {!readOnly && (
+            <button
+              onClick={() => setReplyTo(node.comment)}
+              className="flex items-center gap-1 text-slate-500 hover:text-purple-400"
+            >
+              <Reply className="w-3 h-3" />
+              Reply
+            </button>
+          )}
+          {!readOnly && node.comment.author === username && (
+            <button
+              onClick={() => handleDelete(node.comment)}
+              className="flex items-center gap-1 text-slate-500 hover:text-red-400"
+            >
+              <Trash2 className="w-3 h-3" />
+              Delete
+            </button>
+          )}
+        </div>
+      </div>
+      {node.replies.map(reply => renderNode(reply, depth + 1))}
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-900/30 border border-purple-800/30 rounded-lg p-4">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+          <MessageSquare className="w-4 h-4 text-purple-400" />
+          Discussion
+        </h3>
+        <select
+          value={thread}
+          onChange={(e) => {
+            setThread(e.target.value);
+            setReplyTo(null);
+          }}
+          className="max-w-xs px-2 py-1 bg-gray-800/50 border border-gray-700/50 text-slate-300 text-xs rounded"
+        >
+          <option value={CASE_THREAD}>Case discussion ({countsByThread.get(CASE_THREAD) || 0})</option>
+          {incidents.map(incident => (
+            <option key={incident.id} value={incident.id}>
+              {incident.title} ({countsByThread.get(incident.id) || 0})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="divide-y divide-gray-800/50 mb-4">
+        {loading ? (
+          <p className="text-sm text-slate-500">Loading comments...</p>
+        ) : tree.length === 0 ? (
+          <p className="text-sm text-slate-500">No comments yet. Use @name to bring a colleague in.</p>
+        ) : (
+          tree.map(node => renderNode(node, 0))
+        )}
+      </div>
+
+      {!readOnly && (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          {replyTo && (
+            <div className="flex items-center justify-between px-2 py-1 bg-gray-800/50 rounded text-xs text-slate-400">
+              <span>Replying to {replyTo.author}</span>
+              <button type="button" onClick={() => setReplyTo(null)} className="hover:text-white">Cancel</button>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={2}
+              placeholder="Add a comment... use @name to notify an analyst"
+              className="flex-1 px-3 py-2 bg-gray-800/50 border border-gray-700/50 text-sm text-white rounded-lg placeholder-slate-600 focus:ring-2 focus:ring-purple-500"
+            />
+            <button
+              type="submit"
+              disabled={posting || !draft.trim()}
+              className="self-end p-2 bg-purple-600/20 border border-purple-500 text-purple-300 rounded-lg hover:bg-purple-600/30 disabled:opacity-50 transition-colors"
+            >
+              <Send className="w-4 h-4" />
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default CaseComments;
@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { History, RefreshCw, User } from 'lucide-react';
+import { getCaseHistory } from '../../services/api';
+import type { CaseAuditEvent } from './types';
+
+interface CaseHistoryProps {
+  caseId: string;
+  // Changes whenever the case is modified so the log refreshes after each edit
+  version: string;
+}
+
+const describeEvent = (event: CaseAuditEvent): string => {
+  const details = event.details || {};
+
+  switch (event.action) {
+    case 'case_created':
+      return `Created case "${details.title}"`;
+    case 'title_changed':
+      return `Renamed case from "${details.from}" to "${details.to}"`;
+    case 'notes_edited':
+      return 'Edited analyst notes';
+    case 'status_changed':
+      return `Changed status from ${details.from} to ${details.to}`;
+    case 'tags_changed':
+      return [
+        details.added?.length ? `added tags ${details.added.map((tag: string) => `#${tag}`).join(', ')}` : '',
+        details.removed?.length ? `removed tags ${details.removed.map((tag: string) => `#${tag}`).join(', ')}` : ''
+      ].filter(Boolean).join('; ').replace(/^./, c => c.toUpperCase());
+    case 'entities_changed':
+      return `Updated pinned entities (+${details.added?.length || 0} / -${details.removed?.length || 0})`;
+    case 'assignee_changed':
+      return details.to ? `Assigned case to ${details.to}` : `Unassigned ${details.from}`;
+    case 'comment_added':
+      return details.parentId ? 'Replied to a comment' : details.incidentId ? 'Commented on an incident' : 'Commented on the case';
+    case 'comment_deleted':
+      return 'Deleted a comment';
+    case 'incidents_added':
+      return `Added ${details.incidentIds?.length || 0} incident${details.incidentIds?.length === 1 ? '' : 's'}`;
+    case 'incident_removed':
+      return 'Removed incident';
+    case 'case_exported':
+      return `Exported case as ${String(details.format).toUpperCase()}`;
+    case 'visibility_changed':
+      return `Changed visibility from ${details.from} to ${details.to}`;
+    case 'share_granted':
+      return details.previous
+        ? `Changed ${details.username}'s access from ${details.previous} to ${details.permission}`
+        : `Shared case with ${details.username} (${details.permission})`;
+    case 'share_revoked':
+      return `Revoked ${details.username}'s access`;
+    case 'case_deleted':
+      return 'Deleted case';
+    default:
+      return event.action;
+  }
+};
+
+const actionColors: Record<string, string> = {
+  incidents_added: 'bg-green-500',
+  incident_removed: 'bg-red-500',
+  status_changed: 'bg-amber-500',
+  case_exported: 'bg-cyan-500',
+  visibility_changed: 'bg-indigo-500',
+  share_granted: 'bg-indigo-500',
+  share_revoked: 'bg-indigo-700',
+  case_deleted: 'bg-red-700'
+};
+
+const CaseHistory: React.FC<CaseHistoryProps> = ({ caseId, version }) => {
+  const [events, setEvents] = useState<CaseAuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const fetchHistory = async () => {
+    setLoading(true);
+    try {
+      const response = await getCaseHistory(caseId);
+      setEvents(response.data || []);
+    } catch (error) {
+      console.error('Failed to fetch case history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, [caseId, version]);
+
+  return (
+    <div className="bg-gray-900/30 border border-purple-800/30 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+          <History className="w-4 h-4 text-purple-400" />
+          Audit Trail
+        </h3>
+        <button onClick={fetchHistory} disabled={loading} className="p-1 text-slate-400 hover:text-purple-400 disabled:opacity-50">
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {events.length === 0 ? (
+        <p className="text-sm text-slate-500">{loading ? 'Loading history...' : 'No recorded changes'}</p>
+      ) : (
+        <ol className="relative border-l border-gray-700/50 ml-2 space-y-4">
+          {events.map(event => (
+            <li key={event.id} className="ml-4">
+              <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-gray-900 ${actionColors[event.action] || 'bg-purple-500'}`} />
+              <div className="text-sm text-white">{describeEvent(event)}</div>
+              <div className="flex items-center gap-3 mt-1 text-xs text-slate-500">
+                <span className="flex items-center gap-1">
+                  <User className="w-3 h-3" />
+                  {event.actor}
+                </span>
+                <span>{new Date(event.createdAt).toLocaleString('en-GB')}</span>
+                {event.details && (
+                  <button
+                    onClick={() => setExpanded(expanded === event.id ? null : event.id)}
+                    className="text-purple-400 hover:text-purple-300"
+                  >
+                    {expanded === event.id ? 'Hide details' : 'Details'}
+                  </button>
+                )}
+              </div>
+              {expanded === event.id && event.details && (
+                <pre className="mt-2 p-2 bg-gray-800/50 rounded text-xs text-slate-300 whitespace-pre-wrap break-words">
+                  {JSON.stringify(event.details, null, 2)}
+                </pre>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default CaseHistory;
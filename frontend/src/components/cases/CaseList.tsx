@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Plus, Briefcase, Search, Lock, Users } from 'lucide-react';
+import type { CaseStatus, CaseSummary } from './types';
+
+interface CaseListProps {
+  cases: CaseSummary[];
+  selectedCaseId: string | null;
+  loading: boolean;
+  onSelect: (caseId: string) => void;
+  // Omitted for read-only users
+  onCreate?: (title: string) => void;
+}
+
+export const caseStatusColors: Record<CaseStatus, string> = {
+  draft: 'bg-slate-800/50 text-slate-300 border-slate-700/50',
+  active: 'bg-green-900/20 text-green-400 border-green-800/30',
+  closed: 'bg-gray-800/50 text-gray-500 border-gray-700/50'
+};
+
+const CaseList: React.FC<CaseListProps> = ({ cases, selectedCaseId, loading, onSelect, onCreate }) => {
+  const [newTitle, setNewTitle] = useState('');
+  const [filter, setFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<CaseStatus | 'all'>('all');
+
+  const visibleCases = cases.filter(caseFile =>
+    (statusFilter === 'all' || caseFile.status === statusFilter) &&
+    caseFile.title.toLowerCase().includes(filter.toLowerCase())
+  );
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTitle.trim() || !onCreate) return;
+    onCreate(newTitle.trim());
+    setNewTitle('');
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b border-gray-800/50">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2 mb-4">
+          <Briefcase className="w-5 h-5 text-purple-400" />
+          Case Files
+        </h2>
+
+        {onCreate && (
+          <form onSubmit={handleCreate} className="flex gap-2 mb-3">
+            <input
+              type="text"
+              value={newTitle}
+              onChange={(e) => setNewTitle(e.target.value)}
+              placeholder="New case title..."
+              className="flex-1 px-3 py-2 bg-gray-800/50 border border-gray-700/50 text-white text-sm rounded-lg placeholder-slate-500 focus:ring-2 focus:ring-purple-500"
+            />
+            <button
+              type="submit"
+              disabled={!newTitle.trim()}
+              className="p-2 bg-purple-600/20 border border-purple-500 text-purple-400 rounded-lg hover:bg-purple-600/30 disabled:opacity-50 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </form>
+        )}
+
+        <div className="relative mb-3">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-500 w-4 h-4" />
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter cases..."
+            className="w-full pl-9 pr-3 py-2 bg-gray-800/50 border border-gray-700/50 text-white text-sm rounded-lg placeholder-slate-500 focus:ring-2 focus:ring-purple-500"
+          />
+        </div>
+
+        <div className="flex gap-1">
+          {(['all', 'draft', 'active', 'closed'] as const).map(status => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`px-2 py-1 text-xs rounded capitalize transition-colors ${
+                statusFilter === status
+                  ? 'bg-purple-600/30 text-purple-300'
+                  : 'text-slate-400 hover:bg-gray-800/50'
+              }`}
+            >
+              {status}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto divide-y divide-gray-800/50">
+        {loading && cases.length === 0 ? (
+          <div className="p-4 text-sm text-slate-500">Loading cases...</div>
+        ) : visibleCases.length === 0 ? (
+          <div className="p-4 text-sm text-slate-500">No cases found</div>
+        ) : (
+          visibleCases.map(caseFile => (
+            <button
+              key={caseFile.id}
+              onClick={() => onSelect(caseFile.id)}
+              className={`w-full text-left p-4 transition-colors ${
+                caseFile.id === selectedCaseId ? 'bg-purple-900/20' : 'hover:bg-gray-800/30'
+              }`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <span className="text-sm font-medium text-white line-clamp-2">{caseFile.title}</span>
+                <span className={`px-2 py-0.5 rounded-full text-xs border capitalize ${caseStatusColors[caseFile.status]}`}>
+                  {caseFile.status}
+                </span>
+              </div>
+              <div className="flex items-center gap-3 mt-2 text-xs text-slate-500">
+                {caseFile.visibility === 'private' && <Lock className="w-3 h-3" aria-label="Private" />}
+                {caseFile.visibility === 'shared' && <Users className="w-3 h-3" aria-label="Shared" />}
+                <span>{caseFile.incidentCount ?? 0} incidents</span>
+                <span>Updated {new Date(caseFile.updatedAt).toLocaleDateString('en-GB')}</span>
+              </div>
+              {caseFile.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {caseFile.tags.map(tag => (
+                    <span key={tag} className="px-1.5 py-0.5 bg-gray-800/50 text-slate-400 rounded text-xs">
+                      #{tag}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CaseList;
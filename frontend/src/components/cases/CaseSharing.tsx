@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { Lock, Users, Globe, UserPlus, X } from 'lucide-react';
+import type { CaseDetail, CaseSharePermission, CaseVisibility } from './types';
+
+interface CaseSharingProps {
+  caseFile: CaseDetail;
+  onVisibilityChange: (visibility: CaseVisibility) => void;
+  onShare: (username: string, permission: CaseSharePermission) => void;
+  onUnshare: (username: string) => void;
+}
+
+const visibilityOptions: { value: CaseVisibility; label: string; description: string; icon: React.ReactNode }[] = [
+  { value: 'private', label: 'Private', description: 'Only the owner and assignee', icon: <Lock className="w-3 h-3" /> },
+  { value: 'shared', label: 'Shared', description: 'The owner and the people listed below', icon: <Users className="w-3 h-3" /> },
+  { value: 'team', label: 'Team', description: 'Everyone signed in can read', icon: <Globe className="w-3 h-3" /> }
+];
+
+const CaseSharing: React.FC<CaseSharingProps> = ({ caseFile, onVisibilityChange, onShare, onUnshare }) => {
+  const [username, setUsername] = useState('');
+  const [permission, setPermission] = useState<CaseSharePermission>('read');
+  const canManage = !!caseFile.access?.canManage;
+  const current = visibilityOptions.find(option => option.value === caseFile.visibility) || visibilityOptions[0];
+
+  const handleShare = (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = username.trim().replace(/^@/, '');
+    if (!target) return;
+    onShare(target, permission);
+    setUsername('');
+  };
+
+  return (
+    <div className="bg-gray-900/30 border border-purple-800/30 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold text-white">Access</h3>
+          <p className="text-xs text-slate-500 mt-1">
+            Owned by {caseFile.owner || 'nobody (legacy case)'} · {current.description}
+          </p>
+        </div>
+        <select
+          value={caseFile.visibility}
+          onChange={(e) => onVisibilityChange(e.target.value as CaseVisibility)}
+          disabled={!canManage}
+          className="px-2 py-1 bg-gray-800/50 border border-gray-700/50 text-slate-300 text-xs rounded"
+        >
+          {visibilityOptions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {caseFile.visibility === 'private' && caseFile.shares.length > 0 && (
+        <p className="text-xs text-amber-400">Shares below only apply while visibility is set to Shared or Team.</p>
+      )}
+
+      <div className="divide-y divide-gray-800/50">
+        {caseFile.shares.length === 0 ? (
+          <p className="text-sm text-slate-500">Not shared with anyone</p>
+        ) : (
+          caseFile.shares.map(share => (
+            <div key={share.id} className="flex items-center justify-between gap-3 py-2">
+              <span className="text-sm text-white">{share.username}</span>
+              <div className="flex items-center gap-2">
+                <select
+                  value={share.permission}
+                  onChange={(e) => onShare(share.username, e.target.value as CaseSharePermission)}
+                  disabled={!canManage}
+                  className="px-2 py-0.5 bg-gray-800/50 border border-gray-700/50 text-slate-300 text-xs rounded"
+                >
+                  <option value="read">Can read</option>
+                  <option value="edit">Can edit</option>
+                </select>
+                {canManage && (
+                  <button
+                    onClick={() => onUnshare(share.username)}
+                    className="p-1 text-slate-500 hover:text-red-400"
+                    title="Revoke access"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {canManage && (
+        <form onSubmit={handleShare} className="flex items-center gap-2">
+          <input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Username"
+            className="flex-1 px-2 py-1 bg-gray-800/50 border border-gray-700/50 text-sm text-white rounded placeholder-slate-600 focus:border-purple-500"
+          />
+          <select
+            value={permission}
+            onChange={(e) => setPermission(e.target.value as CaseSharePermission)}
+            className="px-2 py-1 bg-gray-800/50 border border-gray-700/50 text-slate-300 text-xs rounded"
+          >
+            <option value="read">Can read</option>
+            <option value="edit">Can edit</option>
+          </select>
+          <button
+            type="submit"
+            disabled={!username.trim()}
+            className="p-1.5 bg-purple-600/20 border border-purple-500 text-purple-300 rounded hover:bg-purple-600/30 disabled:opacity-50 transition-colors"
+            title="Share case"
+          >
+            <UserPlus className="w-4 h-4" />
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default CaseSharing;
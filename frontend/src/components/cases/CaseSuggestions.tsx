@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { Lightbulb, Plus, RefreshCw, Sparkles, MapPin, AlertTriangle, Calendar } from 'lucide-react';
+import { getCaseSuggestions } from '../../services/api';
+import { setIncidentDragData } from '../../utils/dragAndDrop';
+import type { CaseSuggestion, CaseSuggestionReason } from './types';
+
+interface CaseSuggestionsProps {
+  caseId: string;
+  // Changes whenever the case is modified so suggestions follow the evidence
+  version: string;
+  disabled: boolean;
+  onAdd: (incidentIds: string[]) => void;
+}
+
+const reasonIcons: Record<CaseSuggestionReason['type'], React.ReactNode> = {
+  similar: <Sparkles className="w-3 h-3 text-purple-400" />,
+  shared_location: <MapPin className="w-3 h-3 text-cyan-400" />,
+  same_threat_category: <AlertTriangle className="w-3 h-3 text-red-400" />
+};
+
+const CaseSuggestions: React.FC<CaseSuggestionsProps> = ({ caseId, version, disabled, onAdd }) => {
+  const [suggestions, setSuggestions] = useState<CaseSuggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [windowDays, setWindowDays] = useState(14);
+
+  const fetchSuggestions = async () => {
+    setLoading(true);
+    try {
+      const response = await getCaseSuggestions(caseId, { days: windowDays });
+      setSuggestions(response.data.suggestions || []);
+    } catch (error) {
+      console.error('Failed to fetch case suggestions:', error);
+      setSuggestions([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSuggestions();
+  }, [caseId, version, windowDays]);
+
+  return (
+    <div className="bg-gray-900/30 border border-purple-800/30 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+          <Lightbulb className="w-4 h-4 text-amber-400" />
+          You may also want to add
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={windowDays}
+            onChange={(e) => setWindowDays(parseInt(e.target.value))}
+            className="px-2 py-1 bg-gray-800/50 border border-gray-700/50 text-slate-300 text-xs rounded"
+            title="Time window for threat category matches"
+          >
+            {[7, 14, 30, 90].map(days => (
+              <option key={days} value={days}>±{days} days</option>
+            ))}
+          </select>
+          <button onClick={fetchSuggestions} disabled={loading} className="p-1 text-slate-400 hover:text-purple-400 disabled:opacity-50">
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {suggestions.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          {loading ? 'Looking for related incidents...' : 'No suggestions yet. Add incidents to the case to get recommendations.'}
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-800/50">
+          {suggestions.map(({ incident, score, reasons }) => (
+            <div
+              key={incident.id}
+              draggable={!disabled}
+              onDragStart={(e) => setIncidentDragData(e, [incident.id])}
+              className={`flex items-start justify-between gap-3 py-3 ${disabled ? '' : 'cursor-grab active:cursor-grabbing'}`}
+            >
+              <div className="min-w-0">
+                <div className="text-sm text-white">{incident.title}</div>
+                <div className="flex items-center gap-3 mt-1 text-xs text-slate-500">
+                  <span className="flex items-center gap-1">
+                    <Calendar className="w-3 h-3" />
+                    {new Date(incident.datetime).toLocaleString('en-GB')}
+                  </span>
+                  {incident.category && <span>{incident.category}</span>}
+                  <span title="Combined relevance score">score {score.toFixed(2)}</span>
+                </div>
+                <ul className="mt-2 space-y-1">
+                  {reasons.map((reason, idx) => (
+                    <li key={idx} className="flex items-center gap-1 text-xs text-slate-400">
+                      {reasonIcons[reason.type]}
+                      {reason.description}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <button
+                onClick={() => onAdd([incident.id])}
+                disabled={disabled}
+                className="p-1.5 bg-purple-600/20 border border-purple-500 text-purple-300 rounded hover:bg-purple-600/30 disabled:opacity-50 transition-colors"
+                title="Add to case"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CaseSuggestions;
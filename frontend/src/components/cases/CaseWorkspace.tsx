@@ -0,0 +1,374 @@
+import React, { useState, useEffect } from 'react';
+import { Trash2, X, FileText, Inbox, MapPin, Calendar, Save, Tag, Edit3, Download, MessageSquare, UserCheck } from 'lucide-react';
+import { getIncidentDragData, hasIncidentDragData } from '../../utils/dragAndDrop';
+import EntitySummary from './EntitySummary';
+import CaseHistory from './CaseHistory';
+import CaseComments from './CaseComments';
+import CaseSuggestions from './CaseSuggestions';
+import CaseSharing from './CaseSharing';
+import { caseStatusColors } from './CaseList';
+import type { CaseDetail, CaseStatus, CaseSharePermission } from './types';
+
+interface CaseWorkspaceProps {
+  caseFile: CaseDetail;
+  saving: boolean;
+  onUpdate: (changes: Partial<Pick<CaseDetail, 'title' | 'notes' | 'status' | 'tags' | 'assignee' | 'visibility'>>) => void;
+  onDelete: () => void;
+  onExport: (format: 'pdf' | 'html') => void;
+  onAddIncidents: (incidentIds: string[]) => void;
+  onRemoveIncident: (incidentId: string) => void;
+  onShare: (username: string, permission: CaseSharePermission) => void;
+  onUnshare: (username: string) => void;
+  readOnly?: boolean;
+  // Read-only collaborators can still join the discussion
+  canComment?: boolean;
+}
+
+const CaseWorkspace: React.FC<CaseWorkspaceProps> = ({
+  caseFile,
+  saving,
+  onUpdate,
+  onDelete,
+  onExport,
+  onAddIncidents,
+  onRemoveIncident,
+  onShare,
+  onUnshare,
+  readOnly = false,
+  canComment = !readOnly
+}) => {
+  const [editingTitle, setEditingTitle] = useState(false);
+  const [title, setTitle] = useState(caseFile.title);
+  const [notes, setNotes] = useState(caseFile.notes);
+  const [newTag, setNewTag] = useState('');
+  const [dragActive, setDragActive] = useState(false);
+  const [activeTab, setActiveTab] = useState<'evidence' | 'discussion' | 'access' | 'history'>('evidence');
+  const [discussionIncidentId, setDiscussionIncidentId] = useState<string | null>(null);
+  const [assignee, setAssignee] = useState(caseFile.assignee || '');
+
+  const isClosed = caseFile.status === 'closed';
+  const evidenceLocked = isClosed || readOnly;
+  const notesDirty = notes !== caseFile.notes;
+
+  useEffect(() => {
+    setTitle(caseFile.title);
+    setNotes(caseFile.notes);
+    setAssignee(caseFile.assignee || '');
+  }, [caseFile.id, caseFile.title, caseFile.notes, caseFile.assignee]);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (evidenceLocked || !hasIncidentDragData(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setDragActive(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragActive(false);
+    if (evidenceLocked) return;
+
+    const existing = new Set(caseFile.incidents.map(incident => incident.id));
+    const incidentIds = getIncidentDragData(e).filter(id => !existing.has(id));
+    if (incidentIds.length > 0) {
+      onAddIncidents(incidentIds);
+    }
+  };
+
+  const saveTitle = () => {
+    setEditingTitle(false);
+    if (title.trim() && title.trim() !== caseFile.title) {
+      onUpdate({ title: title.trim() });
+    } else {
+      setTitle(caseFile.title);
+    }
+  };
+
+  const saveAssignee = () => {
+    const next = assignee.trim().replace(/^@/, '');
+    if (next !== (caseFile.assignee || '')) {
+      onUpdate({ assignee: next || null });
+    }
+  };
+
+  const openDiscussion = (incidentId: string | null) => {
+    setDiscussionIncidentId(incidentId);
+    setActiveTab('discussion');
+  };
+
+  const addTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = newTag.trim().replace(/^#/, '');
+    if (tag && !caseFile.tags.includes(tag)) {
+      onUpdate({ tags: [...caseFile.tags, tag] });
+    }
+    setNewTag('');
+  };
+
+  const sortedIncidents = [...caseFile.incidents].sort(
+    (a, b) => new Date(a.datetime).getTime() - new Date(b.datetime).getTime()
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Case Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex-1 min-w-0">
+          {editingTitle ? (
+            <input
+              autoFocus
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              onBlur={saveTitle}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') saveTitle();
+                if (e.key === 'Escape') {
+                  setTitle(caseFile.title);
+                  setEditingTitle(false);
+                }
+              }}
+              className="w-full px-2 py-1 bg-gray-800/50 border border-purple-500 text-2xl font-bold text-white rounded"
+            />
+          ) : (
+            <h1
+              onClick={() => !readOnly && setEditingTitle(true)}
+              className={`text-2xl font-bold text-white flex items-center gap-2 ${readOnly ? '' : 'cursor-text hover:text-purple-200'}`}
+            >
+              {caseFile.title}
+              {!readOnly && <Edit3 className="w-4 h-4 text-slate-500" />}
+            </h1>
+          )}
+          <p className="text-sm text-slate-500 mt-1">
+            Created {new Date(caseFile.createdAt).toLocaleString('en-GB')} · Updated {new Date(caseFile.updatedAt).toLocaleString('en-GB')}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <select
+            value={caseFile.status}
+            onChange={(e) => onUpdate({ status: e.target.value as CaseStatus })}
+            disabled={readOnly}
+            className={`px-3 py-1.5 rounded-lg border text-sm capitalize bg-transparent ${caseStatusColors[caseFile.status]}`}
+          >
+            <option value="draft">Draft</option>
+            <option value="active">Active</option>
+            <option value="closed">Closed</option>
+          </select>
+          <button
+            onClick={() => onExport('pdf')}
+            className="flex items-center gap-1 px-3 py-1.5 bg-gray-800/50 border border-gray-700/50 text-slate-300 text-sm rounded-lg hover:text-purple-300 transition-colors"
+            title="Download PDF briefing"
+          >
+            <Download className="w-4 h-4" />
+            PDF
+          </button>
+          <button
+            onClick={() => onExport('html')}
+            className="flex items-center gap-1 px-3 py-1.5 bg-gray-800/50 border border-gray-700/50 text-slate-300 text-sm rounded-lg hover:text-purple-300 transition-colors"
+            title="Download offline HTML pack"
+          >
+            <Download className="w-4 h-4" />
+            HTML
+          </button>
+          {!readOnly && caseFile.access?.canManage && (
+            <button
+              onClick={onDelete}
+              className="p-2 bg-red-900/20 border border-red-800/30 text-red-400 rounded-lg hover:bg-red-900/30 transition-colors"
+              title="Delete case"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Assignment */}
+      <div className="flex items-center gap-2 text-sm">
+        <UserCheck className="w-4 h-4 text-slate-500" />
+        <span className="text-slate-400">Assigned to</span>
+        <input
+          value={assignee}
+          onChange={(e) => setAssignee(e.target.value)}
+          onBlur={saveAssignee}
+          onKeyDown={(e) => e.key === 'Enter' && saveAssignee()}
+          disabled={readOnly || !caseFile.access?.canManage}
+          placeholder="Unassigned"
+          className="px-2 py-0.5 w-40 bg-transparent border border-gray-700/50 text-sm text-white rounded placeholder-slate-600 focus:border-purple-500"
+        />
+      </div>
+
+      {/* Tags */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Tag className="w-4 h-4 text-slate-500" />
+        {caseFile.tags.map(tag => (
+          <span key={tag} className="flex items-center gap-1 px-2 py-0.5 bg-gray-800/50 text-slate-300 rounded text-xs">
+            #{tag}
+            {!readOnly && (
+              <button
+                onClick={() => onUpdate({ tags: caseFile.tags.filter(t => t !== tag) })}
+                className="text-slate-500 hover:text-red-400"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </span>
+        ))}
+        {!readOnly && (
+          <form onSubmit={addTag}>
+            <input
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+              placeholder="Add tag"
+              className="px-2 py-0.5 w-24 bg-transparent border border-dashed border-gray-700/50 text-xs text-slate-300 rounded placeholder-slate-600 focus:border-purple-500"
+            />
+          </form>
+        )}
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-1 border-b border-gray-800/50">
+        {(['evidence', 'discussion', 'access', 'history'] as const).map(tab => (
+          <button
+            key={tab}
+            onClick={() => tab === 'discussion' ? openDiscussion(null) : setActiveTab(tab)}
+            className={`px-4 py-2 text-sm capitalize border-b-2 -mb-px transition-colors ${
+              activeTab === tab
+                ? 'border-purple-500 text-purple-300'
+                : 'border-transparent text-slate-400 hover:text-white'
+            }`}
+          >
+            {tab}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'history' ? (
+        <CaseHistory caseId={caseFile.id} version={caseFile.updatedAt} />
+      ) : activeTab === 'access' ? (
+        <CaseSharing
+          caseFile={caseFile}
+          onVisibilityChange={(visibility) => onUpdate({ visibility })}
+          onShare={onShare}
+          onUnshare={onUnshare}
+        />
+      ) : activeTab === 'discussion' ? (
+        <CaseComments
+          caseId={caseFile.id}
+          incidents={sortedIncidents}
+          initialIncidentId={discussionIncidentId}
+          readOnly={!canComment}
+        />
+      ) : (
+        <>
+          {/* Incident Drop Zone */}
+          <div
+            onDragOver={handleDragOver}
+            onDragLeave={() => setDragActive(false)}
+            onDrop={handleDrop}
+            className={`border-2 border-dashed rounded-lg transition-colors ${
+              dragActive ? 'border-purple-500 bg-purple-900/10' : 'border-gray-800/70'
+            }`}
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800/50">
+              <h3 className="text-sm font-semibold text-white">
+                Evidence ({caseFile.incidents.length} incidents)
+              </h3>
+              {isClosed && <span className="text-xs text-slate-500">Case is closed — reopen to change evidence</span>}
+            </div>
+
+            {sortedIncidents.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-slate-500">
+                <Inbox className="w-10 h-10 mb-3" />
+                <p className="text-sm">Drag incidents here to add them to the case</p>
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-800/50">
+                {sortedIncidents.map(incident => (
+                  <div key={incident.id} className="flex items-start justify-between gap-3 px-4 py-3 hover:bg-gray-800/20">
+                    <div className="min-w-0">
+                      <div className="text-sm text-white">{incident.title}</div>
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 text-xs text-slate-500">
+                        <span className="flex items-center gap-1">
+                          <Calendar className="w-3 h-3" />
+                          {new Date(incident.datetime).toLocaleString('en-GB')}
+                        </span>
+                        {incident.location?.address && (
+                          <span className="flex items-center gap-1">
+                            <MapPin className="w-3 h-3" />
+                            {incident.location.address}
+                          </span>
+                        )}
+                        {incident.category && <span>{incident.category}</span>}
+                        <span>{incident.source}</span>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => openDiscussion(incident.id)}
+                        className="p-1 text-slate-500 hover:text-purple-400"
+                        title="Discuss this incident"
+                      >
+                        <MessageSquare className="w-4 h-4" />
+                      </button>
+                      {!evidenceLocked && (
+                        <button
+                          onClick={() => onRemoveIncident(incident.id)}
+                          className="p-1 text-slate-500 hover:text-red-400"
+                          title="Remove from case"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <CaseSuggestions
+            caseId={caseFile.id}
+            version={caseFile.updatedAt}
+            disabled={evidenceLocked}
+            onAdd={onAddIncidents}
+          />
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            {/* Notes */}
+            <div className="bg-gray-900/30 border border-purple-800/30 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+                  <FileText className="w-4 h-4 text-purple-400" />
+                  Analyst Notes
+                </h3>
+                {notesDirty && (
+                  <button
+                    onClick={() => onUpdate({ notes })}
+                    disabled={saving}
+                    className="flex items-center gap-1 px-2 py-1 bg-purple-600/20 border border-purple-500 text-purple-300 text-xs rounded hover:bg-purple-600/30 disabled:opacity-50"
+                  >
+                    <Save className="w-3 h-3" />
+                    Save
+                  </button>
+                )}
+              </div>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                onBlur={() => notesDirty && onUpdate({ notes })}
+                readOnly={readOnly}
+                rows={10}
+                placeholder="Record hypotheses, lines of enquiry and key observations..."
+                className="w-full px-3 py-2 bg-gray-800/50 border border-gray-700/50 text-sm text-white rounded-lg placeholder-slate-600 focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+
+            <EntitySummary incidents={caseFile.incidents} pinnedEntities={caseFile.entities} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CaseWorkspace;
@@ -0,0 +1,95 @@
+import React, { useMemo } from 'react';
+import { Users } from 'lucide-react';
+import type { CaseEntity, CaseIncident } from './types';
+
+interface EntitySummaryProps {
+  incidents: CaseIncident[];
+  pinnedEntities: CaseEntity[];
+}
+
+interface EntityTally {
+  entity: CaseEntity;
+  incidentCount: number;
+  pinned: boolean;
+}
+
+const typeColors: Record<string, string> = {
+  person: 'bg-violet-900/20 text-violet-300 border-violet-800/30',
+  location: 'bg-cyan-900/20 text-cyan-300 border-cyan-800/30',
+  organisation: 'bg-amber-900/20 text-amber-300 border-amber-800/30',
+  object: 'bg-lime-900/20 text-lime-300 border-lime-800/30',
+  temporal: 'bg-pink-900/20 text-pink-300 border-pink-800/30',
+  threat_category: 'bg-red-900/20 text-red-300 border-red-800/30'
+};
+
+const EntitySummary: React.FC<EntitySummaryProps> = ({ incidents, pinnedEntities }) => {
+  // Tally entities across every incident in the case so shared links stand out
+  const groups = useMemo(() => {
+    const tallies = new Map<string, EntityTally>();
+
+    pinnedEntities.forEach(entity => {
+      tallies.set(entity.id, { entity, incidentCount: 0, pinned: true });
+    });
+
+    incidents.forEach(incident => {
+      incident.entities?.forEach(entity => {
+        const tally = tallies.get(entity.id) || { entity, incidentCount: 0, pinned: false };
+        tally.incidentCount += 1;
+        tallies.set(entity.id, tally);
+      });
+    });
+
+    const byType = new Map<string, EntityTally[]>();
+    tallies.forEach(tally => {
+      const list = byType.get(tally.entity.type) || [];
+      list.push(tally);
+      byType.set(tally.entity.type, list);
+    });
+
+    return Array.from(byType.entries())
+      .map(([type, list]) => ({
+        type,
+        entities: list.sort((a, b) => b.incidentCount - a.incidentCount)
+      }))
+      .sort((a, b) => a.type.localeCompare(b.type));
+  }, [incidents, pinnedEntities]);
+
+  return (
+    <div className="bg-gray-900/30 border border-purple-800/30 rounded-lg p-4">
+      <h3 className="text-sm font-semibold text-white flex items-center gap-2 mb-3">
+        <Users className="w-4 h-4 text-purple-400" />
+        Linked Entities
+      </h3>
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-slate-500">Entities appear here as incidents are added</p>
+      ) : (
+        <div className="space-y-3">
+          {groups.map(group => (
+            <div key={group.type}>
+              <div className="text-xs uppercase tracking-wide text-slate-500 mb-1">
+                {group.type.replace('_', ' ')} ({group.entities.length})
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {group.entities.map(({ entity, incidentCount, pinned }) => (
+                  <span
+                    key={entity.id}
+                    title={`${incidentCount} incident${incidentCount === 1 ? '' : 's'} in this case`}
+                    className={`px-2 py-0.5 rounded border text-xs ${typeColors[entity.type] || 'bg-gray-800/50 text-slate-300 border-gray-700/50'} ${
+                      pinned ? 'ring-1 ring-purple-500' : ''
+                    }`}
+                  >
+                    {entity.name}
+                    {incidentCount > 1 && <span className="ml-1 opacity-70">×{incidentCount}</span>}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EntitySummary;
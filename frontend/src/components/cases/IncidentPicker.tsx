@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import { Search, GripVertical, MapPin, Calendar, RefreshCw, Sparkles } from 'lucide-react';
+import { getIncidents, semanticSearch } from '../../services/api';
+import { setIncidentDragData } from '../../utils/dragAndDrop';
+import CONFIG from '../../constants/config';
+import type { CaseIncident } from './types';
+
+interface IncidentPickerProps {
+  excludeIds: Set<string>;
+  onAdd: (incidentIds: string[]) => void;
+  disabled?: boolean;
+}
+
+const INCIDENT_TYPES = ['crime', 'tfl', 'road_incident', 'bike_anomaly', 'news'];
+
+const LOOKBACK_OPTIONS = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: '2 years', days: 730 }
+];
+
+const IncidentPicker: React.FC<IncidentPickerProps> = ({ excludeIds, onAdd, disabled = false }) => {
+  const [query, setQuery] = useState('');
+  const [semantic, setSemantic] = useState(false);
+  const [lookbackDays, setLookbackDays] = useState(90);
+  const [results, setResults] = useState<CaseIncident[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+
+  const runSearch = async () => {
+    setLoading(true);
+    try {
+      const startDate = new Date();
+      startDate.setDate(startDate.getDate() - lookbackDays);
+
+      if (semantic && query.trim()) {
+        const response = await semanticSearch(query.trim(), CONFIG.DEFAULT_SEMANTIC_SEARCH_LIMIT);
+        setResults(Array.isArray(response.data) ? response.data : []);
+      } else {
+        const response = await getIncidents({
+          limit: CONFIG.DEFAULT_SEARCH_LIMIT,
+          startDate: startDate.toISOString(),
+          endDate: new Date().toISOString(),
+          search: query.trim() || undefined,
+          type: query.trim() ? undefined : INCIDENT_TYPES
+        });
+        setResults(response.data.incidents || []);
+      }
+      setSelected(new Set());
+    } catch (error) {
+      console.error('Incident search failed:', error);
+      setResults([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    runSearch();
+  }, [lookbackDays]);
+
+  const toggleSelected = (incidentId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(incidentId)) {
+        next.delete(incidentId);
+      } else {
+        next.add(incidentId);
+      }
+      return next;
+    });
+  };
+
+  const handleDragStart = (e: React.DragEvent, incidentId: string) => {
+    // Dragging a selected row carries the whole selection with it
+    const ids = selected.has(incidentId) ? Array.from(selected) : [incidentId];
+    setIncidentDragData(e, ids);
+  };
+
+  const addSelected = () => {
+    onAdd(Array.from(selected));
+    setSelected(new Set());
+  };
+
+  const availableResults = results.filter(incident => !excludeIds.has(incident.id));
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b border-gray-800/50 space-y-3">
+        <h2 className="text-lg font-semibold text-white">Find Incidents</h2>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            runSearch();
+          }}
+          className="relative"
+        >
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-500 w-4 h-4" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={semantic ? 'Describe what you are looking for...' : 'Search title, description, category...'}
+            className="w-full pl-9 pr-3 py-2 bg-gray-800/50 border border-gray-700/50 text-white text-sm rounded-lg placeholder-slate-500 focus:ring-2 focus:ring-purple-500"
+          />
+        </form>
+        <div className="flex items-center justify-between gap-2">
+          <button
+            onClick={() => setSemantic(!semantic)}
+            className={`flex items-center gap-1 px-2 py-1 text-xs rounded border transition-colors ${
+              semantic
+                ? 'bg-purple-600/20 border-purple-500 text-purple-300'
+                : 'border-gray-700/50 text-slate-400 hover:text-purple-400'
+            }`}
+          >
+            <Sparkles className="w-3 h-3" />
+            AI search
+          </button>
+          <select
+            value={lookbackDays}
+            onChange={(e) => setLookbackDays(parseInt(e.target.value))}
+            className="px-2 py-1 bg-gray-800/50 border border-gray-700/50 text-slate-300 text-xs rounded"
+          >
+            {LOOKBACK_OPTIONS.map(option => (
+              <option key={option.days} value={option.days}>Last {option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={runSearch}
+            disabled={loading}
+            className="p-1 text-slate-400 hover:text-purple-400 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+        {selected.size > 0 && (
+          <button
+            onClick={addSelected}
+            disabled={disabled}
+            className="w-full px-3 py-2 bg-purple-600/20 border border-purple-500 text-purple-300 text-sm rounded-lg hover:bg-purple-600/30 disabled:opacity-50 transition-colors"
+          >
+            Add {selected.size} selected to case
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto divide-y divide-gray-800/50">
+        {loading ? (
+          <div className="p-4 text-sm text-slate-500">Searching...</div>
+        ) : availableResults.length === 0 ? (
+          <div className="p-4 text-sm text-slate-500">No incidents found</div>
+        ) : (
+          availableResults.map(incident => (
+            <div
+              key={incident.id}
+              draggable={!disabled}
+              onDragStart={(e) => handleDragStart(e, incident.id)}
+              className={`flex gap-2 p-3 transition-colors ${
+                selected.has(incident.id) ? 'bg-purple-900/20' : 'hover:bg-gray-800/30'
+              } ${disabled ? '' : 'cursor-grab active:cursor-grabbing'}`}
+            >
+              <GripVertical className="w-4 h-4 text-slate-600 flex-shrink-0 mt-0.5" />
+              <input
+                type="checkbox"
+                checked={selected.has(incident.id)}
+                onChange={() => toggleSelected(incident.id)}
+                className="w-4 h-4 mt-0.5 text-purple-600 bg-gray-800/50 border-gray-700/50 rounded focus:ring-purple-500"
+              />
+              <div className="min-w-0">
+                <div className="text-sm text-white truncate">{incident.title}</div>
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-xs text-slate-500">
+                  <span className="flex items-center gap-1">
+                    <Calendar className="w-3 h-3" />
+                    {new Date(incident.datetime).toLocaleDateString('en-GB')}
+                  </span>
+                  {incident.location?.address && (
+                    <span className="flex items-center gap-1 truncate">
+                      <MapPin className="w-3 h-3" />
+                      {incident.location.address}
+                    </span>
+                  )}
+                  {incident.category && <span>{incident.category}</span>}
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IncidentPicker;
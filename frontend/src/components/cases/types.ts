@@ -0,0 +1,116 @@
+// Shapes returned by the /cases API
+
+export type CaseStatus = 'draft' | 'active' | 'closed';
+
+export type CaseVisibility = 'private' | 'shared' | 'team';
+
+export type CaseSharePermission = 'read' | 'edit';
+
+export interface CaseEntity {
+  id: string;
+  type: string;
+  name: string;
+}
+
+export interface CaseIncident {
+  id: string;
+  type: string;
+  title: string;
+  description?: string;
+  category?: string;
+  source: string;
+  location: {
+    lat: number;
+    lng: number;
+    address?: string;
+  };
+  datetime: string;
+  entities?: CaseEntity[];
+}
+
+export interface CaseSummary {
+  id: string;
+  title: string;
+  notes: string;
+  status: CaseStatus;
+  tags: string[];
+  assignee?: string | null;
+  owner?: string | null;
+  visibility: CaseVisibility;
+  createdAt: string;
+  updatedAt: string;
+  incidentCount?: number;
+}
+
+export interface CaseShare {
+  id: string;
+  caseId: string;
+  username: string;
+  permission: CaseSharePermission;
+  grantedBy: string;
+  createdAt: string;
+}
+
+export interface CaseDetail extends CaseSummary {
+  incidents: CaseIncident[];
+  entities: CaseEntity[];
+  shares: CaseShare[];
+  // What the signed-in user may do with this case
+  access?: {
+    permission: CaseSharePermission;
+    canManage: boolean;
+  };
+}
+
+export type CaseAuditAction =
+  | 'case_created'
+  | 'title_changed'
+  | 'notes_edited'
+  | 'status_changed'
+  | 'tags_changed'
+  | 'entities_changed'
+  | 'assignee_changed'
+  | 'comment_added'
+  | 'comment_deleted'
+  | 'incidents_added'
+  | 'incident_removed'
+  | 'case_exported'
+  | 'visibility_changed'
+  | 'share_granted'
+  | 'share_revoked'
+  | 'case_deleted';
+
+export interface CaseAuditEvent {
+  id: string;
+  caseId: string;
+  action: CaseAuditAction;
+  actor: string;
+  details?: Record<string, any>;
+  createdAt: string;
+}
+
+export interface CaseComment {
+  id: string;
+  caseId: string;
+  incidentId?: string | null;
+  parentId?: string | null;
+  author: string;
+  body: string;
+  mentions: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CaseSuggestionReason {
+  type: 'similar' | 'shared_location' | 'same_threat_category';
+  description: string;
+  seedIncidentId?: string;
+  entityId?: string;
+  similarity?: number;
+}
+
+export interface CaseSuggestion {
+  incident: CaseIncident;
+  score: number;
+  reasons: CaseSuggestionReason[];
+}
@@ -0,0 +1,759 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GraphEdge, GraphNode, GraphView, LayoutRequest, LayoutResponse } from './types';
+
+interface GraphCanvasProps {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  view: GraphView;
+  onViewChange: (view: GraphView) => void;
+  nodeColor: (node: GraphNode) => string;
+  nodeRadius: (node: GraphNode) => number;
+  // Path to draw over the graph, as node ids and edgeKey()s
+  highlightedNodes: Set<string>;
+  highlightedEdges: Set<string>;
+  selectedIds: Set<string>;
+  showLabels: boolean;
+  physics: boolean;
+  linkDistance: number;
+  charge: number;
+  onSelect: (node: GraphNode | null) => void;
+  onOpen: (node: GraphNode) => void;
+  onLasso: (nodes: GraphNode[]) => void;
+}
+
+// Edges are undirected, so either end may come first
+export const edgeKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+// Labels and edge counts past this many on screen are left out
+const MAX_LABELS = 300;
+// Nodes never shrink below this many pixels across, and are easier to hit than to see
+const MIN_NODE_PX = 3;
+const MIN_HIT_RADIUS_PX = 4;
+// Pointer movement under this many pixels is a click rather than a drag
+const CLICK_TOLERANCE_PX = 4;
+const MIN_ZOOM = 0.02;
+const MAX_ZOOM = 5;
+
+const CONTAINS_COLOR = '#8B5CF6';
+const LINK_COLOR = '#64748B';
+const EDGE_ALPHA = 0.6;
+const BORDER_COLOR = '#FFFFFF';
+const SELECTED_COLOR = '#C084FC';
+const PATH_COLOR = '#FACC15';
+const HOVER_COLOR = '#E2E8F0';
+
+const NODE_VERTEX_SHADER = `
+  attribute vec2 a_position;
+  attribute float a_radius;
+  attribute vec4 a_color;
+  attribute vec4 a_border;
+  uniform vec2 u_scale;
+  uniform vec2 u_offset;
+  uniform float u_zoom;
+  uniform float u_pixelRatio;
+  varying vec4 v_color;
+  varying vec4 v_border;
+  varying float v_size;
+  void main() {
+    gl_Position = vec4(a_position * u_scale + u_offset, 0.0, 1.0);
+    v_size = max(${MIN_NODE_PX.toFixed(1)}, a_radius * 2.0 * u_zoom) * u_pixelRatio;
+    gl_PointSize = v_size;
+    v_color = a_color;
+    v_border = a_border;
+  }
+`;
+
+// Points are drawn as discs with a two-pixel border once they are big enough to show one
+const NODE_FRAGMENT_SHADER = `
+  precision mediump float;
+  uniform float u_pixelRatio;
+  varying vec4 v_color;
+  varying vec4 v_border;
+  varying float v_size;
+  void main() {
+    float radius = v_size * 0.5;
+    float distance = length(gl_PointCoord - 0.5) * v_size;
+    if (distance > radius) discard;
+    bool border = v_size > 8.0 * u_pixelRatio && distance > radius - 2.0 * u_pixelRatio;
+    gl_FragColor = border ? v_border : v_color;
+  }
+`;
+
+const EDGE_VERTEX_SHADER = `
+  attribute vec2 a_position;
+  uniform vec2 u_scale;
+  uniform vec2 u_offset;
+  void main() {
+    gl_Position = vec4(a_position * u_scale + u_offset, 0.0, 1.0);
+  }
+`;
+
+const EDGE_FRAGMENT_SHADER = `
+  precision mediump float;
+  uniform vec4 u_color;
+  void main() {
+    gl_FragColor = u_color;
+  }
+`;
+
+interface Renderer {
+  gl: WebGLRenderingContext;
+  nodeProgram: WebGLProgram;
+  edgeProgram: WebGLProgram;
+  positionBuffer: WebGLBuffer;
+  radiusBuffer: WebGLBuffer;
+  colorBuffer: WebGLBuffer;
+  borderBuffer: WebGLBuffer;
+  containsBuffer: WebGLBuffer;
+  linkBuffer: WebGLBuffer;
+  // Element indices are 32-bit where the extension allows, so graphs may pass 65,536 nodes
+  indexType: number;
+}
+
+// Everything the draw loop needs about the current graph, by node and edge index
+interface GraphState {
+  nodes: GraphNode[];
+  index: Map<string, number>;
+  positions: Float32Array;
+  radii: Float32Array;
+  edgeNodes: Uint32Array;
+  edgeKeys: string[];
+  edgeData: (GraphEdge['data'] | undefined)[];
+  // Edges touching each node: adjacency[adjacencyStart[i]..adjacencyStart[i + 1]]
+  adjacencyStart: Uint32Array;
+  adjacency: Uint32Array;
+  containsCount: number;
+  linkCount: number;
+  highlightedNodes: number[];
+  highlightedEdges: number[];
+}
+
+type Gesture =
+  | { mode: 'node'; index: number; startX: number; startY: number; moved: boolean }
+  | { mode: 'pan'; startX: number; startY: number; view: GraphView; moved: boolean }
+  | { mode: 'lasso'; points: [number, number][] };
+
+/**
+ * Draws large graphs with WebGL: nodes as point sprites and edges as lines
+ * over a shared position buffer, with labels, path highlights and the lasso
+ * on a 2D canvas on top. Layout runs in a Web Worker; nodes keep their
+ * positions by id when the graph is replaced.
+ */
+const GraphCanvas: React.FC<GraphCanvasProps> = (props) => {
+  const { nodes, edges, view, nodeColor, nodeRadius, highlightedNodes, highlightedEdges, selectedIds } = props;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const glCanvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<Renderer | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const graphRef = useRef<GraphState | null>(null);
+  const sizeRef = useRef({ width: 0, height: 0 });
+  const hoverRef = useRef(-1);
+  const gestureRef = useRef<Gesture | null>(null);
+  const dirtyRef = useRef(true);
+  const positionsDirtyRef = useRef(true);
+  // Bumped with each new graph, so positions still in flight for the last one are dropped
+  const generationRef = useRef(0);
+  const [webglMissing, setWebglMissing] = useState(false);
+
+  // Handlers registered once read the latest props from here
+  const propsRef = useRef(props);
+  propsRef.current = props;
+
+  useEffect(() => {
+    const container = containerRef.current!;
+    const glCanvas = glCanvasRef.current!;
+    const overlay = overlayRef.current!;
+
+    const renderer = createRenderer(glCanvas);
+    if (!renderer) {
+      setWebglMissing(true);
+      return;
+    }
+    rendererRef.current = renderer;
+
+    const worker = new Worker(new URL('./layout.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<LayoutResponse>) => {
+      const graph = graphRef.current;
+      if (!graph || event.data.generation !== generationRef.current) return;
+      graph.positions.set(event.data.positions);
+
+      // The pointer wins over the layout for a node being dragged
+      const gesture = gestureRef.current;
+      if (gesture?.mode === 'node' && gesture.moved) {
+        const node = graph.nodes[gesture.index];
+        graph.positions[gesture.index * 2] = node.x!;
+        graph.positions[gesture.index * 2 + 1] = node.y!;
+      }
+      graph.nodes.forEach((node, i) => {
+        node.x = graph.positions[i * 2];
+        node.y = graph.positions[i * 2 + 1];
+      });
+      positionsDirtyRef.current = true;
+      dirtyRef.current = true;
+    };
+    workerRef.current = worker;
+
+    const resize = () => {
+      const { width, height } = container.getBoundingClientRect();
+      const ratio = window.devicePixelRatio || 1;
+      sizeRef.current = { width, height };
+      for (const canvas of [glCanvas, overlay]) {
+        canvas.width = Math.max(1, Math.round(width * ratio));
+        canvas.height = Math.max(1, Math.round(height * ratio));
+      }
+      dirtyRef.current = true;
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+
+    // React listens to wheel events passively, so zooming needs its own listener to stop the page scrolling
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const { view: current, onViewChange } = propsRef.current;
+      const [x, y] = localPoint(overlay, event);
+      const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.zoom * Math.exp(-event.deltaY * 0.001)));
+      onViewChange({
+        zoom,
+        panX: x - ((x - current.panX) * zoom) / current.zoom,
+        panY: y - ((y - current.panY) * zoom) / current.zoom
+      });
+    };
+    overlay.addEventListener('wheel', handleWheel, { passive: false });
+
+    let frame = requestAnimationFrame(function render() {
+      if (dirtyRef.current) {
+        dirtyRef.current = false;
+        draw();
+      }
+      frame = requestAnimationFrame(render);
+    });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      overlay.removeEventListener('wheel', handleWheel);
+      observer.disconnect();
+      worker.terminate();
+      workerRef.current = null;
+      rendererRef.current = null;
+    };
+  }, []);
+
+  // New graph: index it, carry positions over by id and restart the layout
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    const { gl } = renderer;
+    const previous = graphRef.current;
+
+    const index = new Map(nodes.map((node, i) => [node.id, i]));
+    const positions = new Float32Array(nodes.length * 2).fill(NaN);
+    nodes.forEach((node, i) => {
+      const before = previous?.index.get(node.id);
+      if (before !== undefined) {
+        positions[i * 2] = previous!.positions[before * 2];
+        positions[i * 2 + 1] = previous!.positions[before * 2 + 1];
+      }
+    });
+
+    // Incident links are drawn first and in their own colour
+    const usable = edges.filter(edge => index.has(edge.source) && index.has(edge.target));
+    const contains = usable.filter(edge => edge.type === 'contains');
+    const ordered = [...contains, ...usable.filter(edge => edge.type !== 'contains')];
+    const containsCount = contains.length;
+    const edgeNodes = new Uint32Array(ordered.length * 2);
+    const weights = new Float32Array(ordered.length);
+    const degree = new Uint32Array(nodes.length + 1);
+    ordered.forEach((edge, e) => {
+      edgeNodes[e * 2] = index.get(edge.source)!;
+      edgeNodes[e * 2 + 1] = index.get(edge.target)!;
+      weights[e] = edge.weight;
+      degree[edgeNodes[e * 2]]++;
+      degree[edgeNodes[e * 2 + 1]]++;
+    });
+
+    const adjacencyStart = new Uint32Array(nodes.length + 1);
+    for (let i = 0; i < nodes.length; i++) adjacencyStart[i + 1] = adjacencyStart[i] + degree[i];
+    const adjacency = new Uint32Array(ordered.length * 2);
+    const fill = adjacencyStart.slice(0, nodes.length);
+    for (let e = 0; e < ordered.length; e++) {
+      adjacency[fill[edgeNodes[e * 2]]++] = e;
+      adjacency[fill[edgeNodes[e * 2 + 1]]++] = e;
+    }
+
+    const indices = renderer.indexType === gl.UNSIGNED_INT ? edgeNodes : Uint16Array.from(edgeNodes);
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, renderer.containsBuffer);
+    gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, indices.subarray(0, containsCount * 2), gl.STATIC_DRAW);
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, renderer.linkBuffer);
+    gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, indices.subarray(containsCount * 2), gl.STATIC_DRAW);
+
+    graphRef.current = {
+      nodes,
+      index,
+      positions,
+      radii: new Float32Array(nodes.length),
+      edgeNodes,
+      edgeKeys: ordered.map(edge => edgeKey(edge.source, edge.target)),
+      edgeData: ordered.map(edge => edge.data),
+      adjacencyStart,
+      adjacency,
+      containsCount,
+      linkCount: ordered.length - containsCount,
+      highlightedNodes: [],
+      highlightedEdges: []
+    };
+    hoverRef.current = -1;
+    gestureRef.current = null;
+
+    const { width, height } = sizeRef.current;
+    const request: LayoutRequest = {
+      type: 'init',
+      generation: ++generationRef.current,
+      positions: positions.slice(),
+      edges: edgeNodes.slice(),
+      weights,
+      width,
+      height,
+      linkDistance: propsRef.current.linkDistance,
+      charge: propsRef.current.charge,
+      running: propsRef.current.physics
+    };
+    workerRef.current?.postMessage(request, [request.positions.buffer, request.edges.buffer, weights.buffer]);
+  }, [nodes, edges]);
+
+  // Colours, sizes, borders and highlights
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    const graph = graphRef.current;
+    if (!renderer || !graph) return;
+    const { gl } = renderer;
+
+    const colors = new Uint8Array(graph.nodes.length * 4);
+    const borders = new Uint8Array(graph.nodes.length * 4);
+    graph.nodes.forEach((node, i) => {
+      graph.radii[i] = nodeRadius(node);
+      colors.set(parseColor(nodeColor(node)), i * 4);
+      const border = highlightedNodes.has(node.id) ? PATH_COLOR : selectedIds.has(node.id) ? SELECTED_COLOR : BORDER_COLOR;
+      borders.set(parseColor(border), i * 4);
+    });
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, renderer.radiusBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, graph.radii, gl.STATIC_DRAW);
+    gl.bindBuffer(gl.ARRAY_BUFFER, renderer.colorBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, colors, gl.STATIC_DRAW);
+    gl.bindBuffer(gl.ARRAY_BUFFER, renderer.borderBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, borders, gl.STATIC_DRAW);
+
+    graph.highlightedNodes = Array.from(highlightedNodes)
+      .map(id => graph.index.get(id))
+      .filter((i): i is number => i !== undefined);
+    graph.highlightedEdges = [];
+    if (highlightedEdges.size > 0) {
+      graph.edgeKeys.forEach((key, e) => {
+        if (highlightedEdges.has(key)) graph.highlightedEdges.push(e);
+      });
+    }
+    dirtyRef.current = true;
+  }, [nodes, edges, nodeColor, nodeRadius, highlightedNodes, highlightedEdges, selectedIds]);
+
+  useEffect(() => {
+    workerRef.current?.postMessage({ type: 'settings', linkDistance: props.linkDistance, charge: props.charge } as LayoutRequest);
+  }, [props.linkDistance, props.charge]);
+
+  useEffect(() => {
+    workerRef.current?.postMessage({ type: 'running', running: props.physics } as LayoutRequest);
+  }, [props.physics]);
+
+  useEffect(() => {
+    dirtyRef.current = true;
+  }, [view, props.showLabels]);
+
+  const draw = () => {
+    const renderer = rendererRef.current;
+    const graph = graphRef.current;
+    const glCanvas = glCanvasRef.current;
+    const overlay = overlayRef.current;
+    if (!renderer || !graph || !glCanvas || !overlay) return;
+
+    const { gl } = renderer;
+    const { width, height } = sizeRef.current;
+    const { zoom, panX, panY } = propsRef.current.view;
+    const ratio = window.devicePixelRatio || 1;
+    if (width === 0 || height === 0) return;
+
+    gl.viewport(0, 0, glCanvas.width, glCanvas.height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, renderer.positionBuffer);
+    if (positionsDirtyRef.current) {
+      gl.bufferData(gl.ARRAY_BUFFER, graph.positions, gl.DYNAMIC_DRAW);
+      positionsDirtyRef.current = false;
+    }
+
+    // World coordinates to clip space, with y pointing down as on the 2D canvas
+    const scale = [(2 * zoom) / width, (-2 * zoom) / height];
+    const offset = [(2 * panX) / width - 1, 1 - (2 * panY) / height];
+
+    gl.useProgram(renderer.edgeProgram);
+    gl.uniform2fv(gl.getUniformLocation(renderer.edgeProgram, 'u_scale'), scale);
+    gl.uniform2fv(gl.getUniformLocation(renderer.edgeProgram, 'u_offset'), offset);
+    const edgeColor = gl.getUniformLocation(renderer.edgeProgram, 'u_color');
+    const edgePosition = bindAttribute(gl, renderer.edgeProgram, 'a_position', renderer.positionBuffer, 2, gl.FLOAT, false);
+    for (const [buffer, count, color] of [
+      [renderer.containsBuffer, graph.containsCount, CONTAINS_COLOR],
+      [renderer.linkBuffer, graph.linkCount, LINK_COLOR]
+    ] as [WebGLBuffer, number, string][]) {
+      if (count === 0) continue;
+      const [r, g, b] = parseColor(color);
+      gl.uniform4f(edgeColor, r / 255, g / 255, b / 255, EDGE_ALPHA);
+      gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, buffer);
+      gl.drawElements(gl.LINES, count * 2, renderer.indexType, 0);
+    }
+    gl.disableVertexAttribArray(edgePosition);
+
+    gl.useProgram(renderer.nodeProgram);
+    gl.uniform2fv(gl.getUniformLocation(renderer.nodeProgram, 'u_scale'), scale);
+    gl.uniform2fv(gl.getUniformLocation(renderer.nodeProgram, 'u_offset'), offset);
+    gl.uniform1f(gl.getUniformLocation(renderer.nodeProgram, 'u_zoom'), zoom);
+    gl.uniform1f(gl.getUniformLocation(renderer.nodeProgram, 'u_pixelRatio'), ratio);
+    const attributes = [
+      bindAttribute(gl, renderer.nodeProgram, 'a_position', renderer.positionBuffer, 2, gl.FLOAT, false),
+      bindAttribute(gl, renderer.nodeProgram, 'a_radius', renderer.radiusBuffer, 1, gl.FLOAT, false),
+      bindAttribute(gl, renderer.nodeProgram, 'a_color', renderer.colorBuffer, 4, gl.UNSIGNED_BYTE, true),
+      bindAttribute(gl, renderer.nodeProgram, 'a_border', renderer.borderBuffer, 4, gl.UNSIGNED_BYTE, true)
+    ];
+    gl.drawArrays(gl.POINTS, 0, graph.nodes.length);
+    attributes.forEach(location => gl.disableVertexAttribArray(location));
+
+    drawOverlay(overlay, graph, width, height, ratio);
+  };
+
+  const drawOverlay = (overlay: HTMLCanvasElement, graph: GraphState, width: number, height: number, ratio: number) => {
+    const ctx = overlay.getContext('2d');
+    if (!ctx) return;
+    const { view: { zoom, panX, panY }, showLabels } = propsRef.current;
+    const screenX = (i: number) => graph.positions[i * 2] * zoom + panX;
+    const screenY = (i: number) => graph.positions[i * 2 + 1] * zoom + panY;
+    const screenRadius = (i: number) => Math.max(MIN_NODE_PX / 2, graph.radii[i] * zoom);
+    const visible = (x: number, y: number) => x >= -50 && x <= width + 50 && y >= -50 && y <= height + 50;
+
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const strokeEdges = (edgeIndices: Iterable<number>, color: string, lineWidth: number) => {
+      ctx.beginPath();
+      for (const e of edgeIndices) {
+        const s = graph.edgeNodes[e * 2];
+        const t = graph.edgeNodes[e * 2 + 1];
+        ctx.moveTo(screenX(s), screenY(s));
+        ctx.lineTo(screenX(t), screenY(t));
+      }
+      ctx.strokeStyle = color;
+      ctx.lineWidth = lineWidth;
+      ctx.stroke();
+    };
+
+    const ring = (i: number, color: string, lineWidth: number) => {
+      ctx.beginPath();
+      ctx.arc(screenX(i), screenY(i), screenRadius(i) + lineWidth / 2, 0, 2 * Math.PI);
+      ctx.strokeStyle = color;
+      ctx.lineWidth = lineWidth;
+      ctx.stroke();
+    };
+
+    const hover = hoverRef.current;
+    strokeEdges(graph.highlightedEdges, PATH_COLOR, 4);
+    if (hover >= 0) {
+      strokeEdges(graph.adjacency.subarray(graph.adjacencyStart[hover], graph.adjacencyStart[hover + 1]), HOVER_COLOR, 1.5);
+    }
+    graph.highlightedNodes.forEach(i => ring(i, PATH_COLOR, 4));
+    if (hover >= 0) ring(hover, HOVER_COLOR, 2);
+
+    const label = (i: number) => {
+      const text = graph.nodes[i].label || '';
+      const radius = screenRadius(i);
+      ctx.font = `${Math.max(10, radius / 2)}px Inter, sans-serif`;
+      ctx.fillText(text.length > 20 ? text.substring(0, 20) + '...' : text, screenX(i), screenY(i) + radius + 15);
+    };
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#fff';
+
+    if (showLabels && zoom > 0.5) {
+      // Past the label budget only nodes drawn large enough to read get one
+      let onScreen: number[] = [];
+      for (let i = 0; i < graph.nodes.length; i++) {
+        if (visible(screenX(i), screenY(i))) onScreen.push(i);
+      }
+      if (onScreen.length > MAX_LABELS) {
+        onScreen = onScreen.filter(i => screenRadius(i) >= 12).slice(0, MAX_LABELS);
+      }
+      onScreen.forEach(label);
+
+      // Co-occurrence edges are labelled with how many incidents the pair shares
+      const counts: number[] = [];
+      for (let e = graph.containsCount; e < graph.edgeData.length && counts.length <= MAX_LABELS; e++) {
+        if (!graph.edgeData[e]?.coOccurrences) continue;
+        const s = graph.edgeNodes[e * 2];
+        const t = graph.edgeNodes[e * 2 + 1];
+        if (visible((screenX(s) + screenX(t)) / 2, (screenY(s) + screenY(t)) / 2)) counts.push(e);
+      }
+      if (counts.length <= MAX_LABELS) {
+        ctx.fillStyle = '#CBD5E1';
+        ctx.font = '10px Inter, sans-serif';
+        counts.forEach(e => {
+          const s = graph.edgeNodes[e * 2];
+          const t = graph.edgeNodes[e * 2 + 1];
+          ctx.fillText(String(graph.edgeData[e].coOccurrences), (screenX(s) + screenX(t)) / 2, (screenY(s) + screenY(t)) / 2 - 4);
+        });
+      }
+    } else {
+      // Path and hovered nodes are always named
+      graph.highlightedNodes.forEach(label);
+      if (hover >= 0) label(hover);
+    }
+
+    const gesture = gestureRef.current;
+    if (gesture?.mode === 'lasso' && gesture.points.length > 1) {
+      ctx.beginPath();
+      gesture.points.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+      ctx.closePath();
+      ctx.fillStyle = 'rgba(192, 132, 252, 0.1)';
+      ctx.fill();
+      ctx.setLineDash([4, 4]);
+      ctx.strokeStyle = SELECTED_COLOR;
+      ctx.lineWidth = 1;
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+  };
+
+  // Topmost node under a point on the canvas, or -1
+  const nodeAt = (x: number, y: number): number => {
+    const graph = graphRef.current;
+    if (!graph) return -1;
+    const { zoom, panX, panY } = propsRef.current.view;
+    for (let i = graph.nodes.length - 1; i >= 0; i--) {
+      const dx = graph.positions[i * 2] * zoom + panX - x;
+      const dy = graph.positions[i * 2 + 1] * zoom + panY - y;
+      const radius = Math.max(MIN_HIT_RADIUS_PX, graph.radii[i] * zoom);
+      if (dx * dx + dy * dy <= radius * radius) return i;
+    }
+    return -1;
+  };
+
+  const handleMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const [x, y] = localPoint(event.currentTarget, event);
+    const index = nodeAt(x, y);
+    if (event.shiftKey && index < 0) {
+      gestureRef.current = { mode: 'lasso', points: [[x, y]] };
+    } else if (index >= 0) {
+      gestureRef.current = { mode: 'node', index, startX: x, startY: y, moved: false };
+    } else {
+      gestureRef.current = { mode: 'pan', startX: x, startY: y, view: view, moved: false };
+    }
+  };
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const [x, y] = localPoint(canvas, event);
+    const gesture = gestureRef.current;
+    const graph = graphRef.current;
+
+    if (!gesture) {
+      const index = nodeAt(x, y);
+      if (index !== hoverRef.current) {
+        hoverRef.current = index;
+        canvas.style.cursor = index >= 0 ? 'pointer' : 'grab';
+        dirtyRef.current = true;
+      }
+      return;
+    }
+
+    if (gesture.mode === 'lasso') {
+      const [lastX, lastY] = gesture.points[gesture.points.length - 1];
+      if (Math.hypot(x - lastX, y - lastY) > 3) {
+        gesture.points.push([x, y]);
+        dirtyRef.current = true;
+      }
+      return;
+    }
+
+    if (!gesture.moved && Math.hypot(x - gesture.startX, y - gesture.startY) < CLICK_TOLERANCE_PX) return;
+    gesture.moved = true;
+
+    if (gesture.mode === 'pan') {
+      canvas.style.cursor = 'grabbing';
+      props.onViewChange({
+        ...gesture.view,
+        panX: gesture.view.panX + x - gesture.startX,
+        panY: gesture.view.panY + y - gesture.startY
+      });
+    } else if (graph) {
+      const node = graph.nodes[gesture.index];
+      node.x = (x - view.panX) / view.zoom;
+      node.y = (y - view.panY) / view.zoom;
+      graph.positions[gesture.index * 2] = node.x;
+      graph.positions[gesture.index * 2 + 1] = node.y;
+      workerRef.current?.postMessage({ type: 'drag', index: gesture.index, x: node.x, y: node.y } as LayoutRequest);
+      positionsDirtyRef.current = true;
+      dirtyRef.current = true;
+    }
+  };
+
+  const handleMouseUp = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const gesture = gestureRef.current;
+    const graph = graphRef.current;
+    gestureRef.current = null;
+    event.currentTarget.style.cursor = hoverRef.current >= 0 ? 'pointer' : 'grab';
+    if (!gesture || !graph) return;
+
+    if (gesture.mode === 'lasso') {
+      if (gesture.points.length < 3) {
+        props.onSelect(null);
+      } else {
+        const { zoom, panX, panY } = view;
+        props.onLasso(graph.nodes.filter((_, i) =>
+          insidePolygon(graph.positions[i * 2] * zoom + panX, graph.positions[i * 2 + 1] * zoom + panY, gesture.points)
+        ));
+      }
+      dirtyRef.current = true;
+    } else if (gesture.mode === 'node') {
+      if (gesture.moved) {
+        workerRef.current?.postMessage({ type: 'release', index: gesture.index } as LayoutRequest);
+      } else {
+        props.onSelect(graph.nodes[gesture.index]);
+      }
+    } else if (!gesture.moved) {
+      props.onSelect(null);
+    }
+  };
+
+  const handleMouseLeave = () => {
+    const gesture = gestureRef.current;
+    if (gesture?.mode === 'node' && gesture.moved) {
+      workerRef.current?.postMessage({ type: 'release', index: gesture.index } as LayoutRequest);
+    }
+    gestureRef.current = null;
+    hoverRef.current = -1;
+    dirtyRef.current = true;
+  };
+
+  // Double-clicking a node opens it
+  const handleDoubleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const [x, y] = localPoint(event.currentTarget, event);
+    const index = nodeAt(x, y);
+    if (index >= 0 && graphRef.current) {
+      props.onOpen(graphRef.current.nodes[index]);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="absolute inset-0">
+      <canvas ref={glCanvasRef} className="absolute inset-0 w-full h-full" />
+      <canvas
+        ref={overlayRef}
+        className="absolute inset-0 w-full h-full cursor-grab"
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseLeave}
+        onDoubleClick={handleDoubleClick}
+      />
+      {webglMissing && (
+        <div className="absolute inset-0 flex items-center justify-center text-slate-400">
+          This browser cannot draw the graph: WebGL is not available
+        </div>
+      )}
+    </div>
+  );
+};
+
+function createRenderer(canvas: HTMLCanvasElement): Renderer | null {
+  const gl = canvas.getContext('webgl', { antialias: true, premultipliedAlpha: false });
+  if (!gl) return null;
+
+  const indexType = gl.getExtension('OES_element_index_uint') ? gl.UNSIGNED_INT : gl.UNSIGNED_SHORT;
+  return {
+    gl,
+    nodeProgram: createProgram(gl, NODE_VERTEX_SHADER, NODE_FRAGMENT_SHADER),
+    edgeProgram: createProgram(gl, EDGE_VERTEX_SHADER, EDGE_FRAGMENT_SHADER),
+    positionBuffer: gl.createBuffer()!,
+    radiusBuffer: gl.createBuffer()!,
+    colorBuffer: gl.createBuffer()!,
+    borderBuffer: gl.createBuffer()!,
+    containsBuffer: gl.createBuffer()!,
+    linkBuffer: gl.createBuffer()!,
+    indexType
+  };
+}
+
+function createProgram(gl: WebGLRenderingContext, vertexSource: string, fragmentSource: string): WebGLProgram {
+  const program = gl.createProgram()!;
+  for (const [type, source] of [[gl.VERTEX_SHADER, vertexSource], [gl.FRAGMENT_SHADER, fragmentSource]] as [number, string][]) {
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(`Graph shader failed to compile: ${gl.getShaderInfoLog(shader)}`);
+    }
+    gl.attachShader(program, shader);
+  }
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Graph shaders failed to link: ${gl.getProgramInfoLog(program)}`);
+  }
+  return program;
+}
+
+function bindAttribute(
+  gl: WebGLRenderingContext,
+  program: WebGLProgram,
+  name: string,
+  buffer: WebGLBuffer,
+  size: number,
+  type: number,
+  normalized: boolean
+): number {
+  const location = gl.getAttribLocation(program, name);
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.enableVertexAttribArray(location);
+  gl.vertexAttribPointer(location, size, type, normalized, 0, 0);
+  return location;
+}
+
+const colorCache = new Map<string, [number, number, number, number]>();
+
+// '#RGB' or '#RRGGBB' as RGBA bytes; anything else is grey
+function parseColor(color: string): [number, number, number, number] {
+  let rgba = colorCache.get(color);
+  if (!rgba) {
+    let hex = color.replace('#', '');
+    if (hex.length === 3) hex = hex.split('').map(c => c + c).join('');
+    const value = /^[0-9a-f]{6}$/i.test(hex) ? parseInt(hex, 16) : 0x6b7280;
+    rgba = [(value >> 16) & 255, (value >> 8) & 255, value & 255, 255];
+    colorCache.set(color, rgba);
+  }
+  return rgba;
+}
+
+function localPoint(canvas: HTMLCanvasElement, event: { clientX: number; clientY: number }): [number, number] {
+  const rect = canvas.getBoundingClientRect();
+  return [event.clientX - rect.left, event.clientY - rect.top];
+}
+
+// Even-odd rule: a point is inside when a ray from it crosses the outline an odd number of times
+function insidePolygon(x: number, y: number, points: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, yi] = points[i];
+    const [xj, yj] = points[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+export default GraphCanvas;
@@ -0,0 +1,393 @@
+// Force-directed layout off the main thread. Repulsion between every pair
+// of nodes is approximated with a Barnes-Hut quadtree, so a tick costs
+// O(n log n) rather than O(n²); links pull like springs towards their rest
+// length and a weak pull towards the centre keeps separate components in view.
+// Forces follow d3-force, so the layout cools to a stop after about 300 ticks.
+import type { LayoutRequest, LayoutResponse } from './types';
+
+// Cells further away than their size divided by THETA are treated as one body
+const THETA2 = 0.81;
+const ALPHA_MIN = 0.001;
+const ALPHA_DECAY = 1 - Math.pow(ALPHA_MIN, 1 / 300);
+const VELOCITY_DECAY = 0.4;
+const GRAVITY = 0.02;
+// Closer pairs repel as if this far apart, so coincident nodes don't fly off
+const DISTANCE_MIN2 = 1;
+// Cells this small hold every body that falls in them instead of splitting
+const MIN_CELL = 1e-6;
+// Positions are posted at most this often while the layout runs
+const FRAME_MS = 16;
+
+const EMPTY = -1;
+const INTERNAL = -2;
+
+let generation = 0;
+let count = 0;
+let x = new Float64Array(0);
+let y = new Float64Array(0);
+let vx = new Float64Array(0);
+let vy = new Float64Array(0);
+// Dragged nodes are held at fx,fy
+let fixed = new Uint8Array(0);
+let fx = new Float64Array(0);
+let fy = new Float64Array(0);
+
+let sources = new Uint32Array(0);
+let targets = new Uint32Array(0);
+let strengths = new Float64Array(0);
+let biases = new Float64Array(0);
+
+let linkDistance = 100;
+let charge = -300;
+let centreX = 0;
+let centreY = 0;
+let alpha = 1;
+let alphaTarget = 0;
+let running = true;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let lastPost = 0;
+
+// Quadtree cells in flat arrays, rebuilt every tick
+let capacity = 0;
+let cellX0 = new Float64Array(0);
+let cellY0 = new Float64Array(0);
+let cellSize = new Float64Array(0);
+let cellBody = new Int32Array(0);
+let cellChildren = new Int32Array(0);
+let cellMass = new Float64Array(0);
+// Coordinate sums while building, centres of mass once built
+let cellSumX = new Float64Array(0);
+let cellSumY = new Float64Array(0);
+let cellCount = 0;
+// Further bodies sharing a minimum-size cell, chained from cellBody
+let nextBody = new Int32Array(0);
+let stack = new Int32Array(0);
+
+self.onmessage = (event: MessageEvent<LayoutRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'init':
+      init(message);
+      break;
+    case 'settings':
+      linkDistance = message.linkDistance;
+      charge = message.charge;
+      reheat(0.3);
+      break;
+    case 'running':
+      running = message.running;
+      if (running) reheat(0.3);
+      break;
+    case 'drag':
+      fixed[message.index] = 1;
+      fx[message.index] = x[message.index] = message.x;
+      fy[message.index] = y[message.index] = message.y;
+      // Keep the layout warm while a node is held, as d3's drag example does
+      alphaTarget = 0.3;
+      reheat(alpha);
+      break;
+    case 'release':
+      fixed[message.index] = 0;
+      alphaTarget = 0;
+      break;
+  }
+};
+
+function init(message: Extract<LayoutRequest, { type: 'init' }>) {
+  generation = message.generation;
+  count = message.positions.length / 2;
+  x = new Float64Array(count);
+  y = new Float64Array(count);
+  vx = new Float64Array(count);
+  vy = new Float64Array(count);
+  fixed = new Uint8Array(count);
+  fx = new Float64Array(count);
+  fy = new Float64Array(count);
+  nextBody = new Int32Array(count);
+  centreX = message.width / 2;
+  centreY = message.height / 2;
+  linkDistance = message.linkDistance;
+  charge = message.charge;
+  running = message.running;
+  alphaTarget = 0;
+
+  // New nodes go on a phyllotaxis spiral around the centre, as in d3
+  let placed = 0;
+  for (let i = 0; i < count; i++) {
+    const px = message.positions[i * 2];
+    const py = message.positions[i * 2 + 1];
+    if (Number.isNaN(px) || Number.isNaN(py)) {
+      const radius = 10 * Math.sqrt(0.5 + i);
+      const angle = i * Math.PI * (3 - Math.sqrt(5));
+      x[i] = centreX + radius * Math.cos(angle);
+      y[i] = centreY + radius * Math.sin(angle);
+      placed++;
+    } else {
+      x[i] = px;
+      y[i] = py;
+    }
+  }
+
+  // Links to well-connected nodes pull less, so hubs don't collapse onto their neighbours
+  const edgeCount = message.edges.length / 2;
+  sources = new Uint32Array(edgeCount);
+  targets = new Uint32Array(edgeCount);
+  strengths = new Float64Array(edgeCount);
+  biases = new Float64Array(edgeCount);
+  const degree = new Uint32Array(count);
+  for (let e = 0; e < edgeCount; e++) {
+    sources[e] = message.edges[e * 2];
+    targets[e] = message.edges[e * 2 + 1];
+    degree[sources[e]]++;
+    degree[targets[e]]++;
+  }
+  for (let e = 0; e < edgeCount; e++) {
+    const s = degree[sources[e]];
+    const t = degree[targets[e]];
+    strengths[e] = (message.weights[e] || 1) / Math.min(s, t);
+    biases[e] = s / (s + t);
+  }
+
+  // A graph whose nodes all kept their places only needs to settle
+  alpha = placed === 0 && count > 0 ? 0.3 : 1;
+  post();
+  if (running) reheat(alpha);
+}
+
+function reheat(value: number) {
+  alpha = Math.max(alpha, value);
+  if (running && timer === null) {
+    timer = setTimeout(loop, 0);
+  }
+}
+
+function loop() {
+  timer = null;
+  if (!running) return;
+
+  tick();
+  const now = Date.now();
+  const settled = alpha < ALPHA_MIN && alphaTarget === 0;
+  if (settled || now - lastPost >= FRAME_MS) {
+    post();
+    lastPost = now;
+  }
+  if (!settled) {
+    timer = setTimeout(loop, 0);
+  }
+}
+
+function post() {
+  const positions = new Float32Array(count * 2);
+  for (let i = 0; i < count; i++) {
+    positions[i * 2] = x[i];
+    positions[i * 2 + 1] = y[i];
+  }
+  const response: LayoutResponse = { type: 'positions', generation, positions };
+  self.postMessage(response, { transfer: [positions.buffer] });
+}
+
+function tick() {
+  alpha += (alphaTarget - alpha) * ALPHA_DECAY;
+
+  applyLinks();
+  buildQuadtree();
+  for (let i = 0; i < count; i++) {
+    applyRepulsion(i);
+    vx[i] += (centreX - x[i]) * GRAVITY * alpha;
+    vy[i] += (centreY - y[i]) * GRAVITY * alpha;
+  }
+
+  for (let i = 0; i < count; i++) {
+    if (fixed[i]) {
+      x[i] = fx[i];
+      y[i] = fy[i];
+      vx[i] = 0;
+      vy[i] = 0;
+    } else {
+      vx[i] *= 1 - VELOCITY_DECAY;
+      vy[i] *= 1 - VELOCITY_DECAY;
+      x[i] += vx[i];
+      y[i] += vy[i];
+    }
+  }
+}
+
+function applyLinks() {
+  for (let e = 0; e < sources.length; e++) {
+    const s = sources[e];
+    const t = targets[e];
+    let dx = x[t] + vx[t] - x[s] - vx[s] || jiggle();
+    let dy = y[t] + vy[t] - y[s] - vy[s] || jiggle();
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    const pull = ((distance - linkDistance) / distance) * alpha * strengths[e];
+    dx *= pull;
+    dy *= pull;
+    vx[t] -= dx * biases[e];
+    vy[t] -= dy * biases[e];
+    vx[s] += dx * (1 - biases[e]);
+    vy[s] += dy * (1 - biases[e]);
+  }
+}
+
+function applyRepulsion(i: number) {
+  const xi = x[i];
+  const yi = y[i];
+  const strength = charge * alpha;
+  let forceX = 0;
+  let forceY = 0;
+  let top = 0;
+  stack[top++] = 0;
+
+  while (top > 0) {
+    const cell = stack[--top];
+    const body = cellBody[cell];
+
+    if (body === INTERNAL) {
+      const dx = cellSumX[cell] - xi;
+      const dy = cellSumY[cell] - yi;
+      let distance2 = dx * dx + dy * dy;
+      const size = cellSize[cell];
+      if (size * size < THETA2 * distance2) {
+        if (distance2 < DISTANCE_MIN2) distance2 = Math.sqrt(DISTANCE_MIN2 * distance2);
+        const w = (strength * cellMass[cell]) / distance2;
+        forceX += dx * w;
+        forceY += dy * w;
+      } else {
+        for (let q = cell * 4; q < cell * 4 + 4; q++) {
+          if (cellChildren[q] !== EMPTY) stack[top++] = cellChildren[q];
+        }
+      }
+      continue;
+    }
+
+    for (let j = body; j >= 0; j = nextBody[j]) {
+      if (j === i) continue;
+      const dx = x[j] - xi || jiggle();
+      const dy = y[j] - yi || jiggle();
+      let distance2 = dx * dx + dy * dy;
+      if (distance2 < DISTANCE_MIN2) distance2 = Math.sqrt(DISTANCE_MIN2 * distance2);
+      const w = strength / distance2;
+      forceX += dx * w;
+      forceY += dy * w;
+    }
+  }
+
+  vx[i] += forceX;
+  vy[i] += forceY;
+}
+
+function buildQuadtree() {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (let i = 0; i < count; i++) {
+    if (x[i] < minX) minX = x[i];
+    if (y[i] < minY) minY = y[i];
+    if (x[i] > maxX) maxX = x[i];
+    if (y[i] > maxY) maxY = y[i];
+  }
+
+  cellCount = 0;
+  ensureCapacity(Math.max(16, count * 2));
+  const root = addCell();
+  cellX0[root] = minX;
+  cellY0[root] = minY;
+  // One unit of slack keeps the largest coordinates strictly inside the root
+  cellSize[root] = Math.max(maxX - minX, maxY - minY) + 1;
+
+  for (let i = 0; i < count; i++) {
+    insert(i);
+  }
+  for (let cell = 0; cell < cellCount; cell++) {
+    if (cellMass[cell] > 0) {
+      cellSumX[cell] /= cellMass[cell];
+      cellSumY[cell] /= cellMass[cell];
+    }
+  }
+  // A walk pushes each cell at most once
+  if (stack.length < cellCount) stack = new Int32Array(cellCount);
+}
+
+function insert(i: number) {
+  let cell = 0;
+  for (;;) {
+    cellMass[cell]++;
+    cellSumX[cell] += x[i];
+    cellSumY[cell] += y[i];
+
+    if (cellBody[cell] === EMPTY) {
+      cellBody[cell] = i;
+      nextBody[i] = -1;
+      return;
+    }
+
+    if (cellBody[cell] >= 0) {
+      if (cellSize[cell] < MIN_CELL) {
+        nextBody[i] = cellBody[cell];
+        cellBody[cell] = i;
+        return;
+      }
+
+      // Split the leaf, moving its body down a level
+      const j = cellBody[cell];
+      cellBody[cell] = INTERNAL;
+      const child = childCell(cell, quadrant(cell, x[j], y[j]));
+      cellBody[child] = j;
+      cellMass[child] = 1;
+      cellSumX[child] = x[j];
+      cellSumY[child] = y[j];
+    }
+
+    const q = quadrant(cell, x[i], y[i]);
+    cell = cellChildren[cell * 4 + q] === EMPTY ? childCell(cell, q) : cellChildren[cell * 4 + q];
+  }
+}
+
+function quadrant(cell: number, px: number, py: number): number {
+  const half = cellSize[cell] / 2;
+  return (px >= cellX0[cell] + half ? 1 : 0) | (py >= cellY0[cell] + half ? 2 : 0);
+}
+
+function childCell(parent: number, q: number): number {
+  const half = cellSize[parent] / 2;
+  const cell = addCell();
+  cellX0[cell] = cellX0[parent] + (q & 1 ? half : 0);
+  cellY0[cell] = cellY0[parent] + (q & 2 ? half : 0);
+  cellSize[cell] = half;
+  cellChildren[parent * 4 + q] = cell;
+  return cell;
+}
+
+function addCell(): number {
+  if (cellCount === capacity) ensureCapacity(capacity * 2);
+  const cell = cellCount++;
+  cellBody[cell] = EMPTY;
+  cellMass[cell] = 0;
+  cellSumX[cell] = 0;
+  cellSumY[cell] = 0;
+  cellChildren.fill(EMPTY, cell * 4, cell * 4 + 4);
+  return cell;
+}
+
+function ensureCapacity(size: number) {
+  if (size <= capacity) return;
+  const grow = <T extends Float64Array | Int32Array>(array: T, next: T): T => {
+    next.set(array);
+    return next;
+  };
+  cellX0 = grow(cellX0, new Float64Array(size));
+  cellY0 = grow(cellY0, new Float64Array(size));
+  cellSize = grow(cellSize, new Float64Array(size));
+  cellBody = grow(cellBody, new Int32Array(size));
+  cellChildren = grow(cellChildren, new Int32Array(size * 4));
+  cellMass = grow(cellMass, new Float64Array(size));
+  cellSumX = grow(cellSumX, new Float64Array(size));
+  cellSumY = grow(cellSumY, new Float64Array(size));
+  capacity = size;
+}
+
+function jiggle(): number {
+  return (Math.random() - 0.5) * 1e-6;
+}
@@ -0,0 +1,54 @@
+// Shapes drawn by GraphCanvas, as returned by /entities/relationships and /entities/co-occurrences
+
+export interface GraphNode {
+  id: string;
+  label: string;
+  type: string;
+  data: any;
+  size: number;
+  color: string;
+  // Layout position, kept up to date by GraphCanvas
+  x?: number;
+  y?: number;
+}
+
+export interface GraphEdge {
+  id: string;
+  source: string;
+  target: string;
+  type: string;
+  weight: number;
+  data?: any;
+}
+
+export interface GraphView {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+// Messages to the layout worker. Nodes and edges are addressed by index;
+// positions are x,y pairs, NaN for nodes the worker should place itself.
+export type LayoutRequest =
+  | {
+      type: 'init';
+      generation: number;
+      positions: Float32Array;
+      edges: Uint32Array;
+      weights: Float32Array;
+      width: number;
+      height: number;
+      linkDistance: number;
+      charge: number;
+      running: boolean;
+    }
+  | { type: 'settings'; linkDistance: number; charge: number }
+  | { type: 'running'; running: boolean }
+  | { type: 'drag'; index: number; x: number; y: number }
+  | { type: 'release'; index: number };
+
+export interface LayoutResponse {
+  type: 'positions';
+  generation: number;
+  positions: Float32Array;
+}
@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { Upload, X, FileText, AlertTriangle, CheckCircle, RefreshCw } from 'lucide-react';
+import { previewIncidentImport, importIncidents } from '../../services/api';
+
+type ImportField = 'id' | 'title' | 'description' | 'datetime' | 'lat' | 'lng' | 'address' | 'category' | 'type' | 'severity';
+
+interface ImportPreview {
+  format: string;
+  rowCount: number;
+  columns: string[];
+  sample: Record<string, any>[];
+  suggestedMapping: Partial<Record<ImportField, string>>;
+  hasGeometry: boolean;
+}
+
+interface ImportReport {
+  format: string;
+  source: string;
+  rowCount: number;
+  validRows: number;
+  invalidRows: number;
+  errors: { row: number; field?: string; message: string }[];
+  dryRun: boolean;
+  // Saving runs as an ingestion job, listed with the other jobs once queued
+  jobId?: string | number;
+}
+
+interface ImportIncidentsProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const mappingFields: { field: ImportField; label: string; required?: boolean }[] = [
+  { field: 'title', label: 'Title', required: true },
+  { field: 'datetime', label: 'Date / time', required: true },
+  { field: 'lat', label: 'Latitude', required: true },
+  { field: 'lng', label: 'Longitude', required: true },
+  { field: 'category', label: 'Category' },
+  { field: 'description', label: 'Description' },
+  { field: 'address', label: 'Address' },
+  { field: 'type', label: 'Type' },
+  { field: 'severity', label: 'Severity (low, medium, high, critical)' },
+  { field: 'id', label: 'Reference (keeps re-imports idempotent)' }
+];
+
+const inputClass = 'w-full px-3 py-2 bg-gray-800/50 border border-gray-700/50 text-white rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500';
+
+const ImportIncidents: React.FC<ImportIncidentsProps> = ({ onClose, onImported }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mapping, setMapping] = useState<Partial<Record<ImportField, string>>>({});
+  const [source, setSource] = useState('');
+  const [type, setType] = useState('crime');
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectFile = async (selected: File | null) => {
+    setFile(selected);
+    setPreview(null);
+    setReport(null);
+    setError(null);
+    if (!selected) return;
+
+    setBusy(true);
+    try {
+      const response = await previewIncidentImport(selected);
+      setPreview(response.data);
+      setMapping(response.data.suggestedMapping);
+      setSource(selected.name.replace(/\.[^.]+$/, ''));
+    } catch (err: any) {
+      setError(err?.response?.data?.message || 'Could not read the file');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file || !preview) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const cleanMapping = Object.fromEntries(Object.entries(mapping).filter(([, column]) => column)) as Record<string, string>;
+      const response = await importIncidents(file, { mapping: cleanMapping, format: preview.format, source, type, dryRun });
+      setReport(response.data);
+      if (!dryRun && response.data.validRows > 0) onImported();
+    } catch (err: any) {
+      setError(err?.response?.data?.message || 'Import failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // GeoJSON point geometries stand in for unmapped coordinates
+  const missing = mappingFields.filter(({ field, required }) =>
+    required && !mapping[field] && !(preview?.hasGeometry && (field === 'lat' || field === 'lng'))
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+      <div className="bg-gray-900 border border-purple-800/30 rounded-lg p-6 max-w-3xl w-full mx-4 max-h-[85vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-semibold text-white">Import Incidents</h2>
+            <p className="text-sm text-slate-400 mt-1">CSV, GeoJSON or JSON Lines files from partner spreadsheets and exports</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-300">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 px-4 py-3 bg-red-900/20 border border-red-800/30 text-red-300 text-sm rounded-lg flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            {error}
+          </div>
+        )}
+
+        <label className="flex items-center gap-3 px-4 py-3 mb-6 bg-gray-800/30 border border-dashed border-purple-800/50 rounded-lg cursor-pointer hover:bg-gray-800/50">
+          <Upload className="w-5 h-5 text-purple-400" />
+          <span className="text-sm text-slate-300">{file ? file.name : 'Choose a .csv, .geojson or .jsonl file'}</span>
+          <input
+            type="file"
+            accept=".csv,.geojson,.json,.jsonl,.ndjson"
+            onChange={(e) => selectFile(e.target.files?.[0] || null)}
+            className="hidden"
+          />
+          {busy && <RefreshCw className="w-4 h-4 ml-auto animate-spin text-purple-400" />}
+        </label>
+
+        {preview && (
+          <div className="space-y-6">
+            <div className="flex items-center gap-2 text-sm text-slate-400">
+              <FileText className="w-4 h-4" />
+              {preview.rowCount.toLocaleString()} rows · {preview.columns.length} columns · {preview.format.toUpperCase()}
+              {preview.hasGeometry && ' · point geometry found'}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-white mb-3">Column mapping</h3>
+              <div className="grid grid-cols-2 gap-4">
+                {mappingFields.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <label className="block text-xs font-medium text-slate-400 mb-1">
+                      {label}{required && <span className="text-purple-400"> *</span>}
+                    </label>
+                    <select
+                      value={mapping[field] || ''}
+                      onChange={(e) => setMapping({ ...mapping, [field]: e.target.value || undefined })}
+                      className={inputClass}
+                    >
+                      <option value="">
+                        {preview.hasGeometry && (field === 'lat' || field === 'lng') ? 'From geometry' : 'Not mapped'}
+                      </option>
+                      {preview.columns.map(column => (
+                        <option key={column} value={column}>{column}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-slate-500 mt-2">Unmapped columns are kept on each incident's metadata.</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">Source label</label>
+                <input type="text" value={source} onChange={(e) => setSource(e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">Default type</label>
+                <select value={type} onChange={(e) => setType(e.target.value)} className={inputClass}>
+                  <option value="crime">Crime</option>
+                  <option value="tfl">Transport</option>
+                  <option value="news">News</option>
+                </select>
+              </div>
+            </div>
+
+            {preview.sample.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-slate-500 border-b border-gray-800/50">
+                      {preview.columns.map(column => <th key={column} className="pb-2 pr-4 font-medium">{column}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-800/50">
+                    {preview.sample.map((row, index) => (
+                      <tr key={index}>
+                        {preview.columns.map(column => (
+                          <td key={column} className="py-2 pr-4 text-slate-300 truncate max-w-[12rem]">
+                            {typeof row[column] === 'object' ? JSON.stringify(row[column]) : String(row[column] ?? '')}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {report && (
+              <div className="bg-gray-800/30 border border-gray-700/50 rounded-lg p-4 space-y-3">
+                <div className="flex items-center gap-2 text-sm">
+                  <CheckCircle className="w-4 h-4 text-emerald-400" />
+                  <span className="text-white">
+                    {report.dryRun
+                      ? `${report.validRows} of ${report.rowCount} rows are valid`
+                      : report.jobId
+                        ? `${report.validRows} rows queued for import as job ${report.jobId}`
+                        : 'No valid rows to import'}
+                  </span>
+                  {report.invalidRows > 0 && (
+                    <span className="text-amber-400">· {report.invalidRows} rows rejected</span>
+                  )}
+                </div>
+                {report.errors.length > 0 && (
+                  <ul className="max-h-48 overflow-y-auto text-xs text-red-300 space-y-1 font-mono">
+                    {report.errors.map((rowError, index) => (
+                      <li key={index}>
+                        Row {rowError.row}{rowError.field && ` ${rowError.field}`}: {rowError.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => runImport(true)}
+                disabled={busy || missing.length > 0}
+                className="px-4 py-2 bg-gray-800/50 border border-gray-700/50 text-slate-300 rounded-lg hover:bg-gray-700/50 disabled:opacity-50 transition-colors"
+              >
+                Validate
+              </button>
+              <button
+                onClick={() => runImport(false)}
+                disabled={busy || missing.length > 0}
+                className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors"
+              >
+                <Upload className="w-4 h-4" />
+                Import
+              </button>
+              {missing.length > 0 && (
+                <span className="self-center text-xs text-amber-400">
+                  Map {missing.map(({ label }) => label.toLowerCase()).join(', ')} to continue
+                </span>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportIncidents;
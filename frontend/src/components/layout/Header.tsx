@@ -1,6 +1,17 @@
-import { Bell, User, Search } from 'lucide-react'
+import { useNavigate } from 'react-router-dom'
+import { LogOut, Search } from 'lucide-react'
+import { NotificationBell } from './NotificationBell'
+import { getCurrentUser, clearAuthSession } from '../../utils/auth'
 
 export const Header = () => {
+  const user = getCurrentUser()
+  const navigate = useNavigate()
+
+  const logout = () => {
+    clearAuthSession()
+    navigate('/login')
+  }
+
   return (
     <header className="bg-slate-800 border-b border-slate-700 px-6 py-4 shadow-lg">
       <div className="flex items-center justify-between">
@@ -18,17 +29,15 @@ export const Header = () => {
 
         {/* User actions */}
         <div className="flex items-center space-x-4">
-          <button className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors">
-            <Bell className="h-5 w-5" />
-          </button>
+          <NotificationBell />
 
           <div className="flex items-center space-x-3">
             <div className="text-right">
-              <p className="text-sm font-medium text-white">Analyst Demo</p>
-              <p className="text-xs text-slate-400">analyst@demo.com</p>
+              <p className="text-sm font-medium text-white">{user?.displayName || user?.username}</p>
+              <p className="text-xs text-slate-400 capitalize">@{user?.username} · {user?.role}</p>
             </div>
-            <button className="p-2 bg-slate-700 rounded-full hover:bg-slate-600 transition-colors">
-              <User className="h-5 w-5 text-slate-300" />
+            <button onClick={logout} title="Sign out" className="p-2 bg-slate-700 rounded-full hover:bg-slate-600 transition-colors">
+              <LogOut className="h-5 w-5 text-slate-300" />
             </button>
           </div>
         </div>
@@ -0,0 +1,109 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Bell, AtSign, UserCheck, Share2 } from 'lucide-react'
+import { getNotifications, markNotificationRead, markAllNotificationsRead } from '../../services/api'
+
+interface Notification {
+  id: string
+  type: 'mention' | 'assignment' | 'share'
+  message: string
+  actor: string
+  caseId?: string
+  read: boolean
+  createdAt: string
+}
+
+const POLL_INTERVAL_MS = 60_000
+
+export const NotificationBell = () => {
+  const [open, setOpen] = useState(false)
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [unread, setUnread] = useState(0)
+  const navigate = useNavigate()
+
+  const fetchNotifications = async () => {
+    try {
+      const response = await getNotifications({ limit: 20 })
+      setNotifications(response.data.notifications || [])
+      setUnread(response.data.unread || 0)
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchNotifications()
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  const openNotification = async (notification: Notification) => {
+    setOpen(false)
+    if (!notification.read) {
+      await markNotificationRead(notification.id).catch(() => undefined)
+      fetchNotifications()
+    }
+    if (notification.caseId) {
+      navigate(`/cases?case=${notification.caseId}`)
+    }
+  }
+
+  const markAllRead = async () => {
+    await markAllNotificationsRead().catch(() => undefined)
+    fetchNotifications()
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+      >
+        <Bell className="h-5 w-5" />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 bg-purple-600 text-white text-[10px] leading-[1.1rem] rounded-full text-center">
+            {unread > 9 ? '9+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+            <span className="text-sm font-medium text-white">Notifications</span>
+            {unread > 0 && (
+              <button onClick={markAllRead} className="text-xs text-purple-400 hover:text-purple-300">
+                Mark all read
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-slate-400">Nothing new</p>
+            ) : (
+              notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  onClick={() => openNotification(notification)}
+                  className={`w-full flex gap-3 px-4 py-3 text-left hover:bg-slate-700/50 transition-colors ${
+                    notification.read ? 'opacity-60' : ''
+                  }`}
+                >
+                  {notification.type === 'mention'
+                    ? <AtSign className="h-4 w-4 mt-0.5 text-purple-400 flex-shrink-0" />
+                    : notification.type === 'share'
+                      ? <Share2 className="h-4 w-4 mt-0.5 text-indigo-400 flex-shrink-0" />
+                      : <UserCheck className="h-4 w-4 mt-0.5 text-green-400 flex-shrink-0" />}
+                  <div>
+                    <p className="text-sm text-white">{notification.message}</p>
+                    <p className="text-xs text-slate-400 mt-1">{new Date(notification.createdAt).toLocaleString('en-GB')}</p>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
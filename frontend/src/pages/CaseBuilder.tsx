@@ -1,10 +1,209 @@
-import React from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Briefcase, RefreshCw } from 'lucide-react';
+import {
+  getCases,
+  getCase,
+  createCase,
+  updateCase,
+  deleteCase,
+  exportCase,
+  addCaseIncidents,
+  removeCaseIncident,
+  shareCase,
+  unshareCase
+} from '../services/api';
+import CaseList from '../components/cases/CaseList';
+import CaseWorkspace from '../components/cases/CaseWorkspace';
+import IncidentPicker from '../components/cases/IncidentPicker';
+import type { CaseDetail, CaseSummary } from '../components/cases/types';
+import { getCurrentUser, hasRole } from '../utils/auth';
 
 const CaseBuilder: React.FC = () => {
+  const [cases, setCases] = useState<CaseSummary[]>([]);
+  const [searchParams] = useSearchParams();
+  const [selectedCaseId, setSelectedCaseId] = useState<string | null>(searchParams.get('case'));
+  const [activeCase, setActiveCase] = useState<CaseDetail | null>(null);
+  const [loadingCases, setLoadingCases] = useState(true);
+  const [loadingCase, setLoadingCase] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Viewers can browse cases; only analysts and admins may change them
+  const canEdit = hasRole(getCurrentUser(), 'analyst');
+  // Analysts may still only hold read access to a particular case
+  const canEditCase = canEdit && activeCase?.access?.permission === 'edit';
+
+  const fetchCases = useCallback(async () => {
+    setLoadingCases(true);
+    try {
+      const response = await getCases({ limit: 200 });
+      setCases(response.data.cases || []);
+    } catch (err) {
+      console.error('Failed to fetch cases:', err);
+      setError('Failed to load case files');
+    } finally {
+      setLoadingCases(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCases();
+  }, [fetchCases]);
+
+  // Notification links open a specific case
+  useEffect(() => {
+    const linkedCaseId = searchParams.get('case');
+    if (linkedCaseId) {
+      setSelectedCaseId(linkedCaseId);
+    }
+  }, [searchParams]);
+
+  useEffect(() => {
+    if (!selectedCaseId) {
+      setActiveCase(null);
+      return;
+    }
+
+    const fetchCase = async () => {
+      setLoadingCase(true);
+      try {
+        const response = await getCase(selectedCaseId);
+        setActiveCase(response.data);
+      } catch (err) {
+        console.error('Failed to fetch case:', err);
+        setError('Failed to load case file');
+      } finally {
+        setLoadingCase(false);
+      }
+    };
+
+    fetchCase();
+  }, [selectedCaseId]);
+
+  // Every mutation returns the full case, so the workspace and list stay in sync
+  const applyCaseChange = async (change: () => Promise<{ data: CaseDetail }>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await change();
+      setActiveCase(response.data);
+      setCases(prev => prev.map(caseFile =>
+        caseFile.id === response.data.id
+          ? { ...caseFile, ...response.data, incidentCount: response.data.incidents.length }
+          : caseFile
+      ));
+    } catch (err: any) {
+      console.error('Case update failed:', err);
+      setError(err?.response?.data?.message || 'Case update failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async (title: string) => {
+    try {
+      const response = await createCase({ title, notes: '' });
+      await fetchCases();
+      setSelectedCaseId(response.data.id);
+    } catch (err) {
+      console.error('Failed to create case:', err);
+      setError('Failed to create case file');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeCase) return;
+    if (!window.confirm(`Delete case "${activeCase.title}"? This cannot be undone.`)) return;
+
+    try {
+      await deleteCase(activeCase.id);
+      setSelectedCaseId(null);
+      await fetchCases();
+    } catch (err) {
+      console.error('Failed to delete case:', err);
+      setError('Failed to delete case file');
+    }
+  };
+
+  const handleExport = async (format: 'pdf' | 'html') => {
+    if (!activeCase) return;
+
+    try {
+      const response = await exportCase(activeCase.id, format);
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${activeCase.title.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Failed to export case:', err);
+      setError('Failed to export case file');
+    }
+  };
+
+  const handleAddIncidents = (incidentIds: string[]) => {
+    if (!activeCase) return;
+    applyCaseChange(() => addCaseIncidents(activeCase.id, incidentIds));
+  };
+
   return (
-    <div>
-      <h1>Case Builder</h1>
-      <p>Drag and drop incidents to build a case file.</p>
+    <div className="h-full flex bg-gray-950 text-white">
+      {/* Case List */}
+      <div className="w-72 flex-shrink-0 border-r border-gray-800/50 bg-gray-900/30">
+        <CaseList
+          cases={cases}
+          selectedCaseId={selectedCaseId}
+          loading={loadingCases}
+          onSelect={setSelectedCaseId}
+          onCreate={canEdit ? handleCreate : undefined}
+        />
+      </div>
+
+      {/* Workspace */}
+      <div className="flex-1 overflow-y-auto">
+        {error && (
+          <div className="m-6 mb-0 px-4 py-3 bg-red-900/20 border border-red-800/30 text-red-400 text-sm rounded-lg flex items-center justify-between">
+            {error}
+            <button onClick={() => setError(null)} className="text-red-400 hover:text-red-300">×</button>
+          </div>
+        )}
+
+        {loadingCase ? (
+          <div className="flex items-center justify-center h-64">
+            <RefreshCw className="w-8 h-8 animate-spin text-purple-400" />
+          </div>
+        ) : activeCase ? (
+          <CaseWorkspace
+            caseFile={activeCase}
+            saving={saving}
+            readOnly={!canEditCase}
+            canComment={canEdit}
+            onUpdate={(changes) => applyCaseChange(() => updateCase(activeCase.id, changes))}
+            onDelete={handleDelete}
+            onExport={handleExport}
+            onAddIncidents={handleAddIncidents}
+            onRemoveIncident={(incidentId) => applyCaseChange(() => removeCaseIncident(activeCase.id, incidentId))}
+            onShare={(username, permission) => applyCaseChange(() => shareCase(activeCase.id, username, permission))}
+            onUnshare={(username) => applyCaseChange(() => unshareCase(activeCase.id, username))}
+          />
+        ) : (
+          <div className="flex flex-col items-center justify-center h-full text-slate-400">
+            <Briefcase className="w-12 h-12 mb-4" />
+            <p>Select a case file or create a new one</p>
+            <p className="text-sm mt-2">Drag incidents from the search panel to build up evidence</p>
+          </div>
+        )}
+      </div>
+
+      {/* Incident Search */}
+      <div className="w-80 flex-shrink-0 border-l border-gray-800/50 bg-gray-900/30">
+        <IncidentPicker
+          excludeIds={new Set(activeCase?.incidents.map(incident => incident.id) || [])}
+          onAdd={handleAddIncidents}
+          disabled={!canEditCase || !activeCase || activeCase.status === 'closed'}
+        />
+      </div>
     </div>
   );
 };
@@ -1,4 +1,5 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Search,
   Filter,
@@ -11,30 +12,22 @@ import {
   ChevronDown,
   ChevronUp,
   Download,
-  RotateCcw
+  RotateCcw,
+  ExternalLink,
+  Network,
+  Route
 } from 'lucide-react';
-import { getEntityRelationships, getDateRange } from '../services/api';
-
-interface GraphNode {
-  id: string;
-  label: string;
-  type: string;
-  data: any;
-  size: number;
-  color: string;
-  x?: number;
-  y?: number;
-  vx?: number;
-  vy?: number;
-}
-
-interface GraphEdge {
-  id: string;
-  source: string;
-  target: string;
-  type: string;
-  weight: number;
-}
+import {
+  getEntityRelationships,
+  getEntityCoOccurrences,
+  getEntityCentrality,
+  getEntityCommunities,
+  getEntityPath,
+  getDateRange
+} from '../services/api';
+import { exportGraph, GraphExportFormat } from '@intel-fusion/shared';
+import GraphCanvas, { edgeKey } from '../components/graph/GraphCanvas';
+import { GraphEdge, GraphNode, GraphView } from '../components/graph/types';
 
 interface GraphData {
   nodes: GraphNode[];
@@ -45,6 +38,9 @@ interface GraphData {
     incidentNodes: number;
     entityNodes: number;
   };
+  page?: number;
+  total?: number;
+  totalPages?: number;
 }
 
 interface FilterState {
@@ -54,10 +50,49 @@ interface FilterState {
   category: string[];
   source: string[];
   nodeTypes: string[];
+  incidentType: string[];
+}
+
+const INCIDENT_TYPES = ['crime', 'tfl', 'news', 'road_incident', 'bike_anomaly'];
+
+// 'incidents' links entities through incident nodes; 'co_occurrence' joins them directly
+type LinkMode = 'incidents' | 'co_occurrence';
+
+interface Centrality {
+  degree: number;
+  betweenness: number;
+  pageRank: number;
 }
 
+interface Analysis {
+  communities: Map<string, number>;
+  centrality: Map<string, Centrality>;
+  maxPageRank: number;
+  communityCount: number;
+  modularity: number;
+}
+
+interface PathStep {
+  id: string;
+  kind: 'entity' | 'incident';
+  label: string;
+  type: string;
+}
+
+const EXPORT_OPTIONS: { label: string; formats: GraphExportFormat[] }[] = [
+  { label: 'GraphML (yEd, Cytoscape)', formats: ['graphml'] },
+  { label: 'GEXF (Gephi)', formats: ['gexf'] },
+  { label: "i2 Analyst's Notebook CSV", formats: ['i2-entities', 'i2-links'] }
+];
+
+// Largest communities first, so the most distinct colours go to the biggest groups
+const COMMUNITY_COLORS = [
+  '#8B5CF6', '#06B6D4', '#F59E0B', '#10B981', '#EF4444', '#EC4899',
+  '#3B82F6', '#84CC16', '#F97316', '#14B8A6', '#A855F7', '#EAB308'
+];
+
 const EntityGraph: React.FC = () => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const navigate = useNavigate();
   const [graphData, setGraphData] = useState<GraphData | null>(null);
   const [loading, setLoading] = useState(true);
   const [showFilters, setShowFilters] = useState(false);
@@ -71,8 +106,21 @@ const EntityGraph: React.FC = () => {
     severity: [],
     category: [],
     source: [],
-    nodeTypes: []
+    nodeTypes: [],
+    incidentType: []
   });
+  const [page, setPage] = useState(1);
+  const [linkMode, setLinkMode] = useState<LinkMode>('incidents');
+  const [minCoOccurrences, setMinCoOccurrences] = useState(2);
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [analysis, setAnalysis] = useState<Analysis | null>(null);
+  const [analysing, setAnalysing] = useState(false);
+  const [pathEnds, setPathEnds] = useState<{ from: GraphNode | null; to: GraphNode | null }>({ from: null, to: null });
+  const [path, setPath] = useState<{ steps: PathStep[]; truncated: boolean } | null>(null);
+  const [findingPath, setFindingPath] = useState(false);
+  const [pathError, setPathError] = useState('');
+  const [lassoSelection, setLassoSelection] = useState<GraphNode[]>([]);
+  const [showExport, setShowExport] = useState(false);
 
   const [visualization, setVisualization] = useState({
     zoom: 1,
@@ -84,21 +132,44 @@ const EntityGraph: React.FC = () => {
     charge: -300
   });
 
-  const [simulation, setSimulation] = useState<any>(null);
-
   useEffect(() => {
     fetchDateRange();
   }, []);
 
   useEffect(() => {
     fetchGraphData();
-  }, [filters]);
+  }, [filters, page, linkMode, minCoOccurrences]);
 
   useEffect(() => {
-    if (graphData && canvasRef.current) {
-      initializeVisualization();
+    if (showAnalysis) {
+      fetchAnalysis();
+    } else {
+      setAnalysis(null);
     }
-  }, [graphData, visualization.physics]);
+  }, [showAnalysis, filters, page, linkMode, minCoOccurrences]);
+
+  const pathHighlights = useMemo(() => {
+    const steps = path?.steps || [];
+    const nodes = new Set(steps.map(step => step.id));
+    // Incident edges join consecutive steps; co-occurrence edges skip the incident between two entities
+    const edges = new Set<string>();
+    steps.forEach((step, i) => {
+      if (i > 0) edges.add(edgeKey(steps[i - 1].id, step.id));
+      if (i > 1) edges.add(edgeKey(steps[i - 2].id, step.id));
+    });
+    return { nodes, edges };
+  }, [path]);
+
+  const selectedIds = useMemo(() => {
+    const ids = new Set(lassoSelection.map(node => node.id));
+    if (selectedNode) ids.add(selectedNode.id);
+    return ids;
+  }, [lassoSelection, selectedNode]);
+
+  const view = useMemo<GraphView>(
+    () => ({ zoom: visualization.zoom, panX: visualization.panX, panY: visualization.panY }),
+    [visualization.zoom, visualization.panX, visualization.panY]
+  );
 
   const fetchDateRange = async () => {
     try {
@@ -118,19 +189,23 @@ const EntityGraph: React.FC = () => {
     }
   };
 
+  const relationshipParams = () => ({
+    startDate: filters.startDate,
+    endDate: filters.endDate,
+    severity: filters.severity.length ? filters.severity.join(',') : undefined,
+    category: filters.category.length ? filters.category.join(',') : undefined,
+    source: filters.source.length ? filters.source.join(',') : undefined,
+    type: filters.incidentType.length ? filters.incidentType.join(',') : undefined,
+    page
+  });
+
   const fetchGraphData = async () => {
     setLoading(true);
     try {
-      const params = {
-        startDate: filters.startDate,
-        endDate: filters.endDate,
-        severity: filters.severity.length ? filters.severity.join(',') : undefined,
-        category: filters.category.length ? filters.category.join(',') : undefined,
-        source: filters.source.length ? filters.source.join(',') : undefined
-      };
-
       // Get real data from API
-      const response = await getEntityRelationships(params);
+      const response = linkMode === 'co_occurrence'
+        ? await getEntityCoOccurrences({ minCount: minCoOccurrences })
+        : await getEntityRelationships(relationshipParams());
       let data = response.data;
 
       // Filter nodes by type if specified
@@ -159,183 +234,153 @@ const EntityGraph: React.FC = () => {
     }
   };
 
-
-  const initializeVisualization = () => {
-    if (!graphData || !canvasRef.current) return;
-
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Set canvas size
-    const rect = canvas.getBoundingClientRect();
-    canvas.width = rect.width * window.devicePixelRatio;
-    canvas.height = rect.height * window.devicePixelRatio;
-    ctx.scale(window.devicePixelRatio, window.devicePixelRatio);
-    canvas.style.width = rect.width + 'px';
-    canvas.style.height = rect.height + 'px';
-
-    // Simple force-directed layout simulation
-    const nodes = graphData.nodes.map(node => ({
-      ...node,
-      x: Math.random() * rect.width,
-      y: Math.random() * rect.height,
-      vx: 0,
-      vy: 0
-    }));
-
-    const edges = graphData.edges;
-
-    // Physics simulation
-    let animationId: number;
-    const animate = () => {
-      if (!visualization.physics) {
-        drawGraph(ctx, nodes, edges, rect.width, rect.height);
-        return;
-      }
-
-      // Apply forces
-      for (let i = 0; i < nodes.length; i++) {
-        const nodeA = nodes[i];
-
-        // Repulsion between nodes
-        for (let j = i + 1; j < nodes.length; j++) {
-          const nodeB = nodes[j];
-          const dx = nodeA.x! - nodeB.x!;
-          const dy = nodeA.y! - nodeB.y!;
-          const distance = Math.sqrt(dx * dx + dy * dy) || 1;
-          const force = visualization.charge / (distance * distance);
-          const fx = (dx / distance) * force;
-          const fy = (dy / distance) * force;
-
-          nodeA.vx! += fx;
-          nodeA.vy! += fy;
-          nodeB.vx! -= fx;
-          nodeB.vy! -= fy;
-        }
-
-        // Center force
-        nodeA.vx! += (rect.width / 2 - nodeA.x!) * 0.001;
-        nodeA.vy! += (rect.height / 2 - nodeA.y!) * 0.001;
-      }
-
-      // Apply edge forces
-      edges.forEach(edge => {
-        const source = nodes.find(n => n.id === edge.source);
-        const target = nodes.find(n => n.id === edge.target);
-        if (!source || !target) return;
-
-        const dx = target.x! - source.x!;
-        const dy = target.y! - source.y!;
-        const distance = Math.sqrt(dx * dx + dy * dy) || 1;
-        const targetDistance = visualization.linkDistance * edge.weight;
-        const force = (distance - targetDistance) * 0.1;
-        const fx = (dx / distance) * force;
-        const fy = (dy / distance) * force;
-
-        source.vx! += fx;
-        source.vy! += fy;
-        target.vx! -= fx;
-        target.vy! -= fy;
+  // Analyses the same graph the canvas shows: the current page of incidents, or the co-occurrence links
+  const fetchAnalysis = async () => {
+    setAnalysing(true);
+    try {
+      const params = linkMode === 'co_occurrence'
+        ? { mode: linkMode, minCount: minCoOccurrences }
+        : { mode: linkMode, ...relationshipParams() };
+      const [centralityResponse, communitiesResponse] = await Promise.all([
+        getEntityCentrality(params),
+        getEntityCommunities(params)
+      ]);
+
+      const centrality = new Map<string, Centrality>();
+      centralityResponse.data.nodes.forEach((node: any) => centrality.set(node.id, node));
+      const communities = new Map<string, number>();
+      communitiesResponse.data.communities.forEach((community: any) =>
+        community.nodeIds.forEach((id: string) => communities.set(id, community.id))
+      );
+
+      setAnalysis({
+        communities,
+        centrality,
+        maxPageRank: Math.max(0, ...centralityResponse.data.nodes.map((node: any) => node.pageRank)),
+        communityCount: communitiesResponse.data.communities.length,
+        modularity: communitiesResponse.data.modularity
       });
+    } catch (error) {
+      console.error('Failed to analyse graph:', error);
+      setAnalysis(null);
+    } finally {
+      setAnalysing(false);
+    }
+  };
 
-      // Update positions
-      nodes.forEach(node => {
-        node.vx! *= 0.9; // Damping
-        node.vy! *= 0.9;
-        node.x! += node.vx!;
-        node.y! += node.vy!;
-
-        // Boundary constraints
-        node.x! = Math.max(node.size, Math.min(rect.width - node.size, node.x!));
-        node.y! = Math.max(node.size, Math.min(rect.height - node.size, node.y!));
+  const findPath = async () => {
+    if (!pathEnds.from || !pathEnds.to) return;
+    setFindingPath(true);
+    setPathError('');
+    try {
+      const response = await getEntityPath(pathEnds.from.data.id, pathEnds.to.data.id, {
+        incidentTypes: filters.incidentType.length ? filters.incidentType.join(',') : undefined
       });
+      const steps: PathStep[] = response.data.nodes.map((node: any) => ({
+        id: `${node.properties.kind}_${node.id}`,
+        kind: node.properties.kind,
+        label: node.label,
+        type: node.type
+      }));
+      setPath({ steps, truncated: !!response.data.metadata.truncated });
+    } catch (err: any) {
+      setPath(null);
+      setPathError(err?.response?.data?.message || 'Failed to find a path');
+    } finally {
+      setFindingPath(false);
+    }
+  };
 
-      drawGraph(ctx, nodes, edges, rect.width, rect.height);
-      animationId = requestAnimationFrame(animate);
-    };
-
-    animate();
+  const setPathEnd = (end: 'from' | 'to', node: GraphNode) => {
+    setPathEnds(prev => ({ ...prev, [end]: node }));
+    setPath(null);
+    setPathError('');
+  };
 
-    return () => {
-      if (animationId) {
-        cancelAnimationFrame(animationId);
-      }
-    };
+  const clearPath = () => {
+    setPathEnds({ from: null, to: null });
+    setPath(null);
+    setPathError('');
   };
 
-  const drawGraph = (ctx: CanvasRenderingContext2D, nodes: GraphNode[], edges: GraphEdge[], width: number, height: number) => {
-    ctx.clearRect(0, 0, width, height);
-
-    // Apply zoom and pan
-    ctx.save();
-    ctx.translate(visualization.panX, visualization.panY);
-    ctx.scale(visualization.zoom, visualization.zoom);
-
-    // Draw edges
-    ctx.globalAlpha = 0.6;
-    edges.forEach(edge => {
-      const source = nodes.find(n => n.id === edge.source);
-      const target = nodes.find(n => n.id === edge.target);
-      if (!source || !target) return;
-
-      ctx.beginPath();
-      ctx.moveTo(source.x!, source.y!);
-      ctx.lineTo(target.x!, target.y!);
-      ctx.strokeStyle = edge.type === 'contains' ? '#8B5CF6' : '#64748B';
-      ctx.lineWidth = edge.weight * 2;
-      ctx.stroke();
-    });
+  // Nodes are sized by PageRank while analysing, relative to the highest-ranked node
+  const nodeRadius = useCallback((node: GraphNode) => {
+    const rank = analysis?.centrality.get(node.id)?.pageRank;
+    if (!analysis || rank === undefined || analysis.maxPageRank === 0) return node.size;
+    return 8 + 24 * Math.sqrt(rank / analysis.maxPageRank);
+  }, [analysis]);
+
+  const nodeColor = useCallback((node: GraphNode) => {
+    const community = analysis?.communities.get(node.id);
+    return community === undefined ? node.color : COMMUNITY_COLORS[community % COMMUNITY_COLORS.length];
+  }, [analysis]);
+
+  // Exports the graph as drawn: laid-out positions, current colours and sizes, and any analysis results
+  const handleExport = (formats: GraphExportFormat[]) => {
+    if (!graphData) return;
+    setShowExport(false);
+
+    const graph = {
+      nodes: graphData.nodes.map(node => {
+        const centrality = analysis?.centrality.get(node.id);
+        return {
+          id: node.id,
+          label: node.label,
+          type: node.type,
+          data: {
+            ...node.data,
+            community: analysis?.communities.get(node.id),
+            pageRank: centrality?.pageRank,
+            betweenness: centrality?.betweenness
+          },
+          size: nodeRadius(node),
+          color: nodeColor(node),
+          x: node.x,
+          y: node.y
+        };
+      }),
+      edges: graphData.edges
+    };
 
-    // Draw nodes
-    ctx.globalAlpha = 1;
-    nodes.forEach(node => {
-      ctx.beginPath();
-      ctx.arc(node.x!, node.y!, node.size, 0, 2 * Math.PI);
-      ctx.fillStyle = node.color;
-      ctx.fill();
-      ctx.strokeStyle = '#fff';
-      ctx.lineWidth = 2;
-      ctx.stroke();
-
-      // Draw labels
-      if (visualization.showLabels && visualization.zoom > 0.5) {
-        ctx.fillStyle = '#fff';
-        ctx.font = `${Math.max(10, node.size / 2)}px Inter, sans-serif`;
-        ctx.textAlign = 'center';
-        ctx.fillText(
-          node.label.length > 20 ? node.label.substring(0, 20) + '...' : node.label,
-          node.x!,
-          node.y! + node.size + 15
-        );
-      }
+    formats.forEach(format => {
+      const file = exportGraph(graph, format);
+      const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `entity-graph${format.startsWith('i2-') ? `-${format.slice(3)}` : ''}.${file.extension}`;
+      link.click();
+      URL.revokeObjectURL(url);
     });
-
-    ctx.restore();
   };
 
-  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!graphData || !canvasRef.current) return;
-
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = (event.clientX - rect.left - visualization.panX) / visualization.zoom;
-    const y = (event.clientY - rect.top - visualization.panY) / visualization.zoom;
+  const handleSelect = (node: GraphNode | null) => {
+    setSelectedNode(node);
+    setLassoSelection([]);
+  };
 
-    // Find clicked node
-    const clickedNode = graphData.nodes.find(node => {
-      if (!node.x || !node.y) return false;
-      const distance = Math.sqrt((x - node.x) ** 2 + (y - node.y) ** 2);
-      return distance <= node.size;
-    });
+  // Double-clicking an entity opens its profile
+  const handleOpen = (node: GraphNode) => {
+    if (node.type !== 'incident') {
+      navigate(`/entities/${node.data.id}`);
+    }
+  };
 
-    setSelectedNode(clickedNode || null);
+  const handleLasso = (nodes: GraphNode[]) => {
+    setSelectedNode(null);
+    setLassoSelection(nodes);
   };
 
+  const handleViewChange = useCallback((next: GraphView) => {
+    setVisualization(prev => ({ ...prev, ...next }));
+  }, []);
+
   const handleFilterChange = (key: keyof FilterState, value: any) => {
     setFilters(prev => ({ ...prev, [key]: value }));
+    setPage(1);
   };
 
-  const toggleArrayFilter = (key: 'severity' | 'category' | 'source' | 'nodeTypes', value: string) => {
+  const toggleArrayFilter = (key: 'severity' | 'category' | 'source' | 'nodeTypes' | 'incidentType', value: string) => {
+    setPage(1);
     setFilters(prev => ({
       ...prev,
       [key]: prev[key].includes(value)
@@ -363,6 +408,27 @@ const EntityGraph: React.FC = () => {
     )];
   };
 
+  // Strongest co-occurrence links of the selected entity
+  const selectedLinks = selectedNode && graphData
+    ? graphData.edges
+      .filter(edge => edge.data?.coOccurrences && (edge.source === selectedNode.id || edge.target === selectedNode.id))
+      .sort((a, b) => b.data.coOccurrences - a.data.coOccurrences)
+      .slice(0, 10)
+      .map(edge => ({
+        edge,
+        other: graphData.nodes.find(node => node.id === (edge.source === selectedNode.id ? edge.target : edge.source))
+      }))
+    : [];
+
+  const topNodes = analysis && graphData
+    ? graphData.nodes
+      .filter(node => analysis.centrality.has(node.id))
+      .sort((a, b) => analysis.centrality.get(b.id)!.pageRank - analysis.centrality.get(a.id)!.pageRank)
+      .slice(0, 5)
+    : [];
+  const selectedCentrality = selectedNode ? analysis?.centrality.get(selectedNode.id) : undefined;
+  const selectedCommunity = selectedNode ? analysis?.communities.get(selectedNode.id) : undefined;
+
   const resetView = () => {
     setVisualization(prev => ({
       ...prev,
@@ -383,6 +449,46 @@ const EntityGraph: React.FC = () => {
               <p className="text-slate-400">Interactive network visualization of entities and their relationships</p>
             </div>
             <div className="flex gap-2">
+              <div className="flex items-center bg-gray-800/50 border border-gray-700/50 rounded-lg overflow-hidden">
+                {(['incidents', 'co_occurrence'] as LinkMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => {
+                      setSelectedNode(null);
+                      setPage(1);
+                      setLinkMode(mode);
+                    }}
+                    className={`px-4 py-2 text-sm transition-colors ${
+                      linkMode === mode ? 'bg-purple-600/30 text-purple-300' : 'text-slate-400 hover:text-purple-400'
+                    }`}
+                  >
+                    {mode === 'incidents' ? 'Incidents' : 'Co-occurrence'}
+                  </button>
+                ))}
+              </div>
+              {linkMode === 'co_occurrence' && (
+                <label className="flex items-center gap-2 px-3 text-sm text-slate-400">
+                  Min shared
+                  <input
+                    type="number"
+                    min={1}
+                    value={minCoOccurrences}
+                    onChange={(e) => setMinCoOccurrences(Math.max(1, parseInt(e.target.value) || 1))}
+                    className="w-16 px-2 py-1 bg-gray-800/50 border border-gray-700/50 text-white rounded-lg focus:ring-2 focus:ring-purple-500"
+                  />
+                </label>
+              )}
+              <button
+                onClick={() => setShowAnalysis(!showAnalysis)}
+                className={`flex items-center gap-2 px-4 py-2 border rounded-lg transition-colors ${
+                  showAnalysis
+                    ? 'bg-purple-600/30 border-purple-500 text-purple-300'
+                    : 'bg-gray-800/50 border-gray-700/50 text-slate-400 hover:bg-gray-700/50 hover:text-purple-400'
+                }`}
+              >
+                <Network className={`w-4 h-4 ${analysing ? 'animate-pulse' : ''}`} />
+                Analyse
+              </button>
               <button
                 onClick={() => setShowFilters(!showFilters)}
                 className="flex items-center gap-2 px-4 py-2 bg-gray-800/50 border border-gray-700/50 text-slate-400 rounded-lg hover:bg-gray-700/50 hover:text-purple-400 transition-colors"
@@ -399,6 +505,30 @@ const EntityGraph: React.FC = () => {
                 View
                 {showSettings ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
               </button>
+              <div className="relative">
+                <button
+                  onClick={() => setShowExport(!showExport)}
+                  disabled={!graphData || graphData.nodes.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 bg-gray-800/50 border border-gray-700/50 text-slate-400 rounded-lg hover:bg-gray-700/50 hover:text-purple-400 disabled:opacity-50 transition-colors"
+                >
+                  <Download className="w-4 h-4" />
+                  Export
+                  {showExport ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                </button>
+                {showExport && (
+                  <div className="absolute right-0 mt-2 w-60 bg-gray-900 border border-gray-700/50 rounded-lg shadow-xl z-20 overflow-hidden">
+                    {EXPORT_OPTIONS.map(option => (
+                      <button
+                        key={option.label}
+                        onClick={() => handleExport(option.formats)}
+                        className="block w-full px-4 py-2 text-left text-sm text-slate-300 hover:bg-purple-600/20 hover:text-purple-300"
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
               <button
                 onClick={fetchGraphData}
                 disabled={loading}
@@ -413,7 +543,7 @@ const EntityGraph: React.FC = () => {
           {/* Filters Panel */}
           {showFilters && (
             <div className="mt-6 p-4 bg-gray-900/30 border border-purple-800/30 rounded-lg">
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-7 gap-4">
                 {/* Date Range */}
                 <div>
                   <label className="block text-sm font-medium text-slate-300 mb-2">Date From</label>
@@ -488,6 +618,24 @@ const EntityGraph: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Incident Type Filter */}
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Incident Type</label>
+                  <div className="space-y-2">
+                    {INCIDENT_TYPES.map(type => (
+                      <label key={type} className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={filters.incidentType.includes(type)}
+                          onChange={() => toggleArrayFilter('incidentType', type)}
+                          className="w-4 h-4 text-purple-600 bg-gray-800/50 border-gray-700/50 rounded focus:ring-purple-500"
+                        />
+                        <span className="text-sm text-slate-400">{type.replace(/_/g, ' ')}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
                 {/* Source Filter */}
                 <div>
                   <label className="block text-sm font-medium text-slate-300 mb-2">Source</label>
@@ -562,34 +710,45 @@ const EntityGraph: React.FC = () => {
         <div className="flex-1 flex">
           {/* Main Graph */}
           <div className="flex-1 relative">
-            {loading ? (
-              <div className="flex items-center justify-center h-full">
-                <RefreshCw className="w-8 h-8 animate-spin text-purple-400" />
-              </div>
-            ) : !graphData || graphData.nodes.length === 0 ? (
+            {!loading && (!graphData || graphData.nodes.length === 0) && (
               <div className="flex flex-col items-center justify-center h-full text-slate-400">
                 <Info className="w-12 h-12 mb-4" />
                 <p>No data available for the selected filters</p>
                 <p className="text-sm mt-2">Try adjusting your filter criteria</p>
               </div>
-            ) : (
+            )}
+            {/* The canvas stays mounted while reloading, so nodes on the next page keep their places */}
+            {graphData && graphData.nodes.length > 0 && (
               <>
-                <canvas
-                  ref={canvasRef}
-                  className="w-full h-full cursor-pointer"
-                  onClick={handleCanvasClick}
+                <GraphCanvas
+                  nodes={graphData.nodes}
+                  edges={graphData.edges}
+                  view={view}
+                  onViewChange={handleViewChange}
+                  nodeColor={nodeColor}
+                  nodeRadius={nodeRadius}
+                  highlightedNodes={pathHighlights.nodes}
+                  highlightedEdges={pathHighlights.edges}
+                  selectedIds={selectedIds}
+                  showLabels={visualization.showLabels}
+                  physics={visualization.physics}
+                  linkDistance={visualization.linkDistance}
+                  charge={visualization.charge}
+                  onSelect={handleSelect}
+                  onOpen={handleOpen}
+                  onLasso={handleLasso}
                 />
 
                 {/* Controls */}
                 <div className="absolute top-4 right-4 flex flex-col gap-2">
                   <button
-                    onClick={() => setVisualization(prev => ({ ...prev, zoom: Math.min(3, prev.zoom * 1.2) }))}
+                    onClick={() => setVisualization(prev => ({ ...prev, zoom: Math.min(5, prev.zoom * 1.2) }))}
                     className="p-2 bg-gray-900/80 border border-gray-700/50 text-slate-400 rounded-lg hover:bg-gray-800/80 hover:text-purple-400 transition-colors"
                   >
                     <ZoomIn className="w-4 h-4" />
                   </button>
                   <button
-                    onClick={() => setVisualization(prev => ({ ...prev, zoom: Math.max(0.1, prev.zoom / 1.2) }))}
+                    onClick={() => setVisualization(prev => ({ ...prev, zoom: Math.max(0.02, prev.zoom / 1.2) }))}
                     className="p-2 bg-gray-900/80 border border-gray-700/50 text-slate-400 rounded-lg hover:bg-gray-800/80 hover:text-purple-400 transition-colors"
                   >
                     <ZoomOut className="w-4 h-4" />
@@ -602,6 +761,77 @@ const EntityGraph: React.FC = () => {
                   </button>
                 </div>
 
+                {/* Analysis */}
+                {analysis && (
+                  <div className="absolute top-4 left-4 w-64 p-3 bg-gray-900/80 border border-gray-700/50 rounded-lg">
+                    <div className="text-sm text-slate-300">
+                      {analysis.communityCount} communities, modularity {analysis.modularity.toFixed(2)}
+                    </div>
+                    <div className="text-xs text-slate-400 mt-1">Colour shows community, size shows PageRank</div>
+                    {topNodes.length > 0 && (
+                      <div className="mt-2 space-y-1">
+                        <div className="text-xs text-slate-400">Most central</div>
+                        {topNodes.map(node => (
+                          <button
+                            key={node.id}
+                            onClick={() => setSelectedNode(node)}
+                            className="w-full flex items-center gap-2 text-left text-sm text-white hover:text-purple-300"
+                          >
+                            <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: nodeColor(node) }} />
+                            <span className="truncate">{node.label}</span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Path finder */}
+                {(pathEnds.from || pathEnds.to) && (
+                  <div className="absolute bottom-4 right-4 w-72 p-3 bg-gray-900/80 border border-gray-700/50 rounded-lg">
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="flex items-center gap-2 text-sm text-slate-300">
+                        <Route className="w-4 h-4" />
+                        Path
+                      </div>
+                      <button onClick={clearPath} className="text-slate-400 hover:text-white">×</button>
+                    </div>
+                    <div className="text-xs text-slate-400 space-y-1">
+                      <div>From: <span className="text-white">{pathEnds.from?.label || '—'}</span></div>
+                      <div>To: <span className="text-white">{pathEnds.to?.label || '—'}</span></div>
+                    </div>
+                    <button
+                      onClick={findPath}
+                      disabled={!pathEnds.from || !pathEnds.to || findingPath}
+                      className="w-full mt-2 px-3 py-1 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded-lg text-sm transition-colors"
+                    >
+                      {findingPath ? 'Searching...' : 'Find path'}
+                    </button>
+                    {pathError && <div className="mt-2 text-xs text-red-400">{pathError}</div>}
+                    {path && (
+                      path.steps.length === 0 ? (
+                        <div className="mt-2 text-xs text-slate-400">
+                          {path.truncated ? 'Search stopped before finding a path' : 'No path within 5 incidents'}
+                        </div>
+                      ) : (
+                        <div className="mt-2 space-y-1 max-h-48 overflow-y-auto">
+                          <div className="text-xs text-slate-400">
+                            {(path.steps.length - 1) / 2} shared incident{path.steps.length === 3 ? '' : 's'} apart
+                          </div>
+                          {path.steps.map(step => (
+                            <div
+                              key={step.id}
+                              className={`text-sm truncate ${step.kind === 'incident' ? 'pl-3 text-slate-400' : 'text-white'}`}
+                            >
+                              {step.kind === 'incident' ? '↳ ' : ''}{step.label}
+                            </div>
+                          ))}
+                        </div>
+                      )
+                    )}
+                  </div>
+                )}
+
                 {/* Stats */}
                 <div className="absolute bottom-4 left-4 p-3 bg-gray-900/80 border border-gray-700/50 rounded-lg">
                   <div className="text-sm text-slate-300">
@@ -609,12 +839,90 @@ const EntityGraph: React.FC = () => {
                     <div className="text-xs text-slate-400 mt-1">
                       {graphData.stats.incidentNodes} incidents, {graphData.stats.entityNodes} entities
                     </div>
+                    <div className="text-xs text-slate-500 mt-1">
+                      Scroll to zoom, drag to pan, shift-drag to select
+                    </div>
+                    {graphData.totalPages !== undefined && graphData.totalPages > 1 && (
+                      <div className="flex items-center gap-2 mt-2">
+                        <button
+                          onClick={() => setPage(prev => Math.max(1, prev - 1))}
+                          disabled={page === 1}
+                          className="px-2 py-1 bg-gray-800/50 border border-gray-700/50 text-slate-400 rounded hover:bg-gray-700/50 disabled:opacity-50 text-xs transition-colors"
+                        >
+                          Previous
+                        </button>
+                        <span className="text-xs text-slate-400">
+                          Page {page} of {graphData.totalPages} ({graphData.total} incidents)
+                        </span>
+                        <button
+                          onClick={() => setPage(prev => prev + 1)}
+                          disabled={page >= graphData.totalPages}
+                          className="px-2 py-1 bg-gray-800/50 border border-gray-700/50 text-slate-400 rounded hover:bg-gray-700/50 disabled:opacity-50 text-xs transition-colors"
+                        >
+                          Next
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
               </>
             )}
+            {loading && (
+              <div className="absolute inset-0 flex items-center justify-center bg-gray-950/50">
+                <RefreshCw className="w-8 h-8 animate-spin text-purple-400" />
+              </div>
+            )}
           </div>
 
+          {/* Lasso selection */}
+          {!selectedNode && lassoSelection.length > 0 && (
+            <div className="w-80 bg-gray-900/30 border-l border-gray-800/50 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-white">Selection</h3>
+                <button
+                  onClick={() => setLassoSelection([])}
+                  className="text-slate-400 hover:text-white"
+                >
+                  ×
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <div className="text-sm text-slate-400">{lassoSelection.length} nodes</div>
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {Object.entries(
+                      lassoSelection.reduce((counts: Record<string, number>, node) => {
+                        counts[node.type] = (counts[node.type] || 0) + 1;
+                        return counts;
+                      }, {})
+                    ).map(([type, count]) => (
+                      <span key={type} className="px-2 py-1 bg-gray-800/50 text-slate-300 rounded text-xs capitalize">
+                        {type.replace(/_/g, ' ')}: {count}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-1 max-h-[60vh] overflow-y-auto">
+                  {lassoSelection.slice(0, 200).map(node => (
+                    <button
+                      key={node.id}
+                      onClick={() => setSelectedNode(node)}
+                      className="w-full flex items-center gap-2 text-left text-sm text-white hover:text-purple-300"
+                    >
+                      <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: nodeColor(node) }} />
+                      <span className="truncate">{node.label}</span>
+                    </button>
+                  ))}
+                  {lassoSelection.length > 200 && (
+                    <div className="text-xs text-slate-500">and {lassoSelection.length - 200} more</div>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Side Panel */}
           {selectedNode && (
             <div className="w-80 bg-gray-900/30 border-l border-gray-800/50 p-6">
@@ -683,6 +991,68 @@ const EntityGraph: React.FC = () => {
                       <div className="text-sm text-slate-400">Entity Type</div>
                       <div className="text-white capitalize">{selectedNode.data.type}</div>
                     </div>
+
+                    {selectedCentrality && (
+                      <div>
+                        <div className="text-sm text-slate-400 mb-1">Centrality</div>
+                        <div className="grid grid-cols-3 gap-2 text-xs">
+                          <div>
+                            <div className="text-slate-500">PageRank</div>
+                            <div className="text-white">{selectedCentrality.pageRank.toFixed(4)}</div>
+                          </div>
+                          <div>
+                            <div className="text-slate-500">Betweenness</div>
+                            <div className="text-white">{selectedCentrality.betweenness.toFixed(3)}</div>
+                          </div>
+                          <div>
+                            <div className="text-slate-500">Degree</div>
+                            <div className="text-white">{selectedCentrality.degree.toFixed(3)}</div>
+                          </div>
+                        </div>
+                        {selectedCommunity !== undefined && (
+                          <div className="text-xs text-slate-400 mt-1">Community {selectedCommunity + 1}</div>
+                        )}
+                      </div>
+                    )}
+
+                    {selectedLinks.length > 0 && (
+                      <div>
+                        <div className="text-sm text-slate-400 mb-1">Co-occurs with</div>
+                        <div className="space-y-1 max-h-48 overflow-y-auto">
+                          {selectedLinks.map(({ edge, other }) => (
+                            <div key={edge.id} className="flex justify-between gap-2 text-sm">
+                              <span className="text-white truncate">{other?.label}</span>
+                              <span className="text-slate-400 shrink-0">{edge.data.coOccurrences} times</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-2">
+                      <button
+                        onClick={() => setPathEnd('from', selectedNode)}
+                        className="flex items-center justify-center gap-1 px-2 py-2 bg-gray-800/50 border border-gray-700/50 text-slate-300 rounded-lg hover:text-purple-400 text-xs transition-colors"
+                      >
+                        <Route className="w-3 h-3" />
+                        Path from here
+                      </button>
+                      <button
+                        onClick={() => setPathEnd('to', selectedNode)}
+                        className="flex items-center justify-center gap-1 px-2 py-2 bg-gray-800/50 border border-gray-700/50 text-slate-300 rounded-lg hover:text-purple-400 text-xs transition-colors"
+                      >
+                        <Route className="w-3 h-3" />
+                        Path to here
+                      </button>
+                    </div>
+
+                    <button
+                      onClick={() => navigate(`/entities/${selectedNode.data.id}`)}
+                      className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg text-sm transition-colors"
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                      View profile
+                    </button>
                   </>
                 )}
 
@@ -0,0 +1,439 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import Map, { Marker, Popup, NavigationControl } from 'react-map-gl';
+import {
+  ArrowLeft,
+  Calendar,
+  MapPin,
+  Tag,
+  Users,
+  Link2,
+  Clock,
+  AlertTriangle
+} from 'lucide-react';
+import {
+  getEntity,
+  getEntityIncidents,
+  getCoOccurringEntities,
+  getSimilarEntities
+} from '../services/api';
+import CONFIG from '../constants/config';
+
+interface EntityAlias {
+  id: string;
+  alias: string;
+  origin: 'observed' | 'manual';
+}
+
+interface EntityProfileData {
+  id: string;
+  type: string;
+  name: string;
+  metadata?: Record<string, any> | null;
+  location?: { lat: number; lng: number } | null;
+  incidentCount: number;
+  firstSeenAt?: string | null;
+  lastSeenAt?: string | null;
+  aliases?: EntityAlias[];
+}
+
+interface LinkedIncident {
+  id: string;
+  title: string;
+  category?: string;
+  source: string;
+  location: { lat: number; lng: number; address?: string };
+  datetime: string;
+}
+
+interface CoOccurringEntity {
+  id: string;
+  type: string;
+  name: string;
+  sharedIncidents: number;
+}
+
+interface SimilarEntity {
+  score: number;
+  reasons: string[];
+  entity: { id: string; type: string; name: string; incidentCount: number };
+}
+
+const typeColors: Record<string, string> = {
+  person: 'bg-violet-900/20 text-violet-300 border-violet-800/30',
+  location: 'bg-cyan-900/20 text-cyan-300 border-cyan-800/30',
+  organisation: 'bg-amber-900/20 text-amber-300 border-amber-800/30',
+  object: 'bg-lime-900/20 text-lime-300 border-lime-800/30',
+  temporal: 'bg-pink-900/20 text-pink-300 border-pink-800/30',
+  threat_category: 'bg-red-900/20 text-red-300 border-red-800/30'
+};
+
+const formatDate = (value?: string | null) =>
+  value
+    ? new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })
+    : '—';
+
+const EntityProfile: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const mapboxToken = import.meta.env.VITE_MAPBOX_TOKEN;
+
+  const [entity, setEntity] = useState<EntityProfileData | null>(null);
+  const [incidents, setIncidents] = useState<LinkedIncident[]>([]);
+  const [coOccurring, setCoOccurring] = useState<CoOccurringEntity[]>([]);
+  const [similar, setSimilar] = useState<SimilarEntity[]>([]);
+  const [selectedIncident, setSelectedIncident] = useState<LinkedIncident | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+
+    let cancelled = false;
+    const fetchProfile = async () => {
+      setLoading(true);
+      setError(null);
+      setSelectedIncident(null);
+      try {
+        const [entityResponse, incidentsResponse, coOccurringResponse, similarResponse] = await Promise.all([
+          getEntity(id),
+          getEntityIncidents(id),
+          getCoOccurringEntities(id),
+          getSimilarEntities(id)
+        ]);
+        if (cancelled) return;
+        setEntity(entityResponse.data);
+        setIncidents(incidentsResponse.data);
+        setCoOccurring(coOccurringResponse.data);
+        setSimilar(similarResponse.data);
+      } catch (err: any) {
+        if (cancelled) return;
+        setError(err?.response?.data?.message || 'Failed to load entity');
+        setEntity(null);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchProfile();
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  const mappedIncidents = useMemo(
+    () => incidents.filter(incident =>
+      Number.isFinite(incident.location?.lat) && Number.isFinite(incident.location?.lng) &&
+      (incident.location.lat !== 0 || incident.location.lng !== 0)
+    ),
+    [incidents]
+  );
+
+  // Centre on the entity's own coordinates, else on its incidents
+  const mapCentre = useMemo(() => {
+    if (entity?.location) {
+      return { latitude: entity.location.lat, longitude: entity.location.lng };
+    }
+    if (mappedIncidents.length > 0) {
+      return {
+        latitude: mappedIncidents.reduce((sum, incident) => sum + incident.location.lat, 0) / mappedIncidents.length,
+        longitude: mappedIncidents.reduce((sum, incident) => sum + incident.location.lng, 0) / mappedIncidents.length
+      };
+    }
+    return CONFIG.DEFAULT_MAP_CENTER;
+  }, [entity, mappedIncidents]);
+
+  // Incidents per month between first and last sighting, most recent months last
+  const months = useMemo(() => {
+    const counts = new globalThis.Map<string, number>();
+    incidents.forEach(incident => {
+      const key = incident.datetime.slice(0, 7);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    if (counts.size === 0) return [];
+
+    const keys = Array.from(counts.keys()).sort();
+    const [startYear, startMonth] = keys[0].split('-').map(Number);
+    const [endYear, endMonth] = keys[keys.length - 1].split('-').map(Number);
+    const buckets: { key: string; label: string; count: number }[] = [];
+    for (let year = startYear, month = startMonth; year < endYear || (year === endYear && month <= endMonth); ) {
+      const key = `${year}-${String(month).padStart(2, '0')}`;
+      buckets.push({
+        key,
+        label: new Date(year, month - 1).toLocaleDateString('en-GB', { month: 'short', year: '2-digit' }),
+        count: counts.get(key) || 0
+      });
+      month += 1;
+      if (month > 12) {
+        month = 1;
+        year += 1;
+      }
+    }
+    return buckets.slice(-CONFIG.MAX_MONTHLY_DISPLAY);
+  }, [incidents]);
+
+  const busiestMonth = Math.max(1, ...months.map(month => month.count));
+  const mostShared = Math.max(1, ...coOccurring.map(other => other.sharedIncidents));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-400"></div>
+      </div>
+    );
+  }
+
+  if (error || !entity) {
+    return (
+      <div className="p-6">
+        <button
+          onClick={() => navigate(-1)}
+          className="flex items-center gap-2 text-slate-400 hover:text-white mb-4"
+        >
+          <ArrowLeft className="w-4 h-4" /> Back
+        </button>
+        <div className="p-4 bg-red-900/20 border border-red-800/30 rounded-lg text-red-400 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4" />
+          {error || 'Entity not found'}
+        </div>
+      </div>
+    );
+  }
+
+  const attributes = Object.entries(entity.metadata || {});
+  const otherAliases = (entity.aliases || []).filter(alias => alias.alias !== entity.name);
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <button
+          onClick={() => navigate(-1)}
+          className="flex items-center gap-2 text-slate-400 hover:text-white mb-4"
+        >
+          <ArrowLeft className="w-4 h-4" /> Back
+        </button>
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="text-2xl font-bold text-white">{entity.name}</h1>
+          <span className={`px-2 py-1 rounded text-xs border capitalize ${typeColors[entity.type] || 'bg-gray-800/50 text-slate-300 border-gray-700/50'}`}>
+            {entity.type.replace(/_/g, ' ')}
+          </span>
+        </div>
+        {otherAliases.length > 0 && (
+          <div className="text-sm text-slate-400 mt-2">
+            Also known as {otherAliases.map(alias => alias.alias).join(', ')}
+          </div>
+        )}
+      </div>
+
+      {/* Statistics */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-gray-900/30 border border-purple-800/30 rounded-lg p-4">
+          <div className="text-sm text-slate-400 flex items-center gap-2"><AlertTriangle className="w-4 h-4" /> Incidents</div>
+          <div className="text-2xl font-bold text-white mt-1">{entity.incidentCount}</div>
+        </div>
+        <div className="bg-gray-900/30 border border-purple-800/30 rounded-lg p-4">
+          <div className="text-sm text-slate-400 flex items-center gap-2"><Calendar className="w-4 h-4" /> First seen</div>
+          <div className="text-lg text-white mt-1">{formatDate(entity.firstSeenAt)}</div>
+        </div>
+        <div className="bg-gray-900/30 border border-purple-800/30 rounded-lg p-4">
+          <div className="text-sm text-slate-400 flex items-center gap-2"><Clock className="w-4 h-4" /> Last seen</div>
+          <div className="text-lg text-white mt-1">{formatDate(entity.lastSeenAt)}</div>
+        </div>
+        <div className="bg-gray-900/30 border border-purple-800/30 rounded-lg p-4">
+          <div className="text-sm text-slate-400 flex items-center gap-2"><MapPin className="w-4 h-4" /> Coordinates</div>
+          <div className="text-sm text-white mt-2 font-mono">
+            {entity.location ? `${entity.location.lat.toFixed(5)}, ${entity.location.lng.toFixed(5)}` : '—'}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Map and timeline */}
+        <div className="lg:col-span-2 space-y-6">
+          <div className="bg-gray-900/30 border border-purple-800/30 rounded-lg overflow-hidden">
+            <div className="px-4 py-3 border-b border-purple-800/30 text-sm font-semibold text-white flex items-center gap-2">
+              <MapPin className="w-4 h-4 text-purple-400" />
+              Linked incidents
+              <span className="text-slate-400 font-normal">({mappedIncidents.length} mapped)</span>
+            </div>
+            <div className="h-80">
+              {mapboxToken ? (
+                <Map
+                  key={entity.id}
+                  mapboxAccessToken={mapboxToken}
+                  initialViewState={{ ...mapCentre, zoom: entity.location ? 14 : 11 }}
+                  style={{ width: '100%', height: '100%' }}
+                  mapStyle="mapbox://styles/mapbox/dark-v11"
+                >
+                  <NavigationControl position="top-right" />
+                  {mappedIncidents.map(incident => (
+                    <Marker
+                      key={incident.id}
+                      longitude={incident.location.lng}
+                      latitude={incident.location.lat}
+                      onClick={(e) => {
+                        e.originalEvent.stopPropagation();
+                        setSelectedIncident(incident);
+                      }}
+                    >
+                      <div className="w-3 h-3 rounded-full cursor-pointer border-2 border-white bg-purple-500 shadow-lg hover:scale-150 transition-all duration-200" />
+                    </Marker>
+                  ))}
+                  {selectedIncident && (
+                    <Popup
+                      longitude={selectedIncident.location.lng}
+                      latitude={selectedIncident.location.lat}
+                      onClose={() => setSelectedIncident(null)}
+                      closeOnClick={false}
+                      maxWidth="300px"
+                    >
+                      <div className="bg-gray-950 text-white p-3 rounded-lg border border-purple-900/40">
+                        <div className="text-sm font-semibold mb-1">{selectedIncident.title}</div>
+                        <div className="text-xs text-slate-400">
+                          {formatDate(selectedIncident.datetime)} · {selectedIncident.source}
+                        </div>
+                      </div>
+                    </Popup>
+                  )}
+                </Map>
+              ) : (
+                <div className="flex items-center justify-center h-full text-slate-400 text-sm">
+                  Map unavailable: Mapbox token not configured
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-gray-900/30 border border-purple-800/30 rounded-lg p-4">
+            <h3 className="text-sm font-semibold text-white flex items-center gap-2 mb-4">
+              <Calendar className="w-4 h-4 text-purple-400" />
+              Incidents per month
+            </h3>
+            {months.length === 0 ? (
+              <div className="text-sm text-slate-400">No linked incidents</div>
+            ) : (
+              <div className="flex items-end gap-1 h-32">
+                {months.map(month => (
+                  <div key={month.key} className="flex-1 flex flex-col items-center justify-end h-full min-w-0">
+                    <div
+                      className="w-full bg-purple-600/70 hover:bg-purple-500 rounded-t transition-colors"
+                      style={{ height: `${(month.count / busiestMonth) * 100}%` }}
+                      title={`${month.label}: ${month.count}`}
+                    />
+                    <div className="text-[10px] text-slate-500 mt-1 truncate w-full text-center">{month.label}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-gray-900/30 border border-purple-800/30 rounded-lg">
+            <div className="px-4 py-3 border-b border-purple-800/30 text-sm font-semibold text-white">
+              Incidents ({incidents.length}{incidents.length < entity.incidentCount ? ` of ${entity.incidentCount}` : ''})
+            </div>
+            <div className="max-h-96 overflow-y-auto divide-y divide-gray-800/50">
+              {incidents.map(incident => (
+                <button
+                  key={incident.id}
+                  onClick={() => setSelectedIncident(incident)}
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-800/30 transition-colors ${
+                    selectedIncident?.id === incident.id ? 'bg-purple-900/20' : ''
+                  }`}
+                >
+                  <div className="text-sm text-white">{incident.title}</div>
+                  <div className="text-xs text-slate-400 mt-1">
+                    {formatDate(incident.datetime)} · {incident.category || incident.source}
+                    {incident.location?.address ? ` · ${incident.location.address}` : ''}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Attributes and related entities */}
+        <div className="space-y-6">
+          <div className="bg-gray-900/30 border border-purple-800/30 rounded-lg p-4">
+            <h3 className="text-sm font-semibold text-white flex items-center gap-2 mb-3">
+              <Tag className="w-4 h-4 text-purple-400" />
+              Attributes
+            </h3>
+            {attributes.length === 0 ? (
+              <div className="text-sm text-slate-400">No attributes recorded</div>
+            ) : (
+              <dl className="space-y-2 text-sm">
+                {attributes.map(([key, value]) => (
+                  <div key={key} className="flex justify-between gap-4">
+                    <dt className="text-slate-400">{key}</dt>
+                    <dd className="text-white text-right break-all">
+                      {typeof value === 'object' ? JSON.stringify(value) : String(value)}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </div>
+
+          <div className="bg-gray-900/30 border border-purple-800/30 rounded-lg p-4">
+            <h3 className="text-sm font-semibold text-white flex items-center gap-2 mb-3">
+              <Users className="w-4 h-4 text-purple-400" />
+              Appears with
+            </h3>
+            {coOccurring.length === 0 ? (
+              <div className="text-sm text-slate-400">No co-occurring entities</div>
+            ) : (
+              <div className="space-y-2">
+                {coOccurring.map(other => (
+                  <Link key={other.id} to={`/entities/${other.id}`} className="block group">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-slate-300 group-hover:text-white truncate">{other.name}</span>
+                      <span className="text-xs text-slate-400 ml-2 shrink-0">{other.sharedIncidents}</span>
+                    </div>
+                    <div className="h-1 bg-gray-800/50 rounded mt-1">
+                      <div
+                        className="h-1 bg-purple-500/70 rounded"
+                        style={{ width: `${(other.sharedIncidents / mostShared) * 100}%` }}
+                      />
+                    </div>
+                    <div className="text-[10px] text-slate-500 capitalize">{other.type.replace(/_/g, ' ')}</div>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-gray-900/30 border border-purple-800/30 rounded-lg p-4">
+            <h3 className="text-sm font-semibold text-white flex items-center gap-2 mb-3">
+              <Link2 className="w-4 h-4 text-purple-400" />
+              Similar entities
+            </h3>
+            {similar.length === 0 ? (
+              <div className="text-sm text-slate-400">No similar names found</div>
+            ) : (
+              <div className="space-y-2">
+                {similar.map(({ entity: other, score, reasons }) => (
+                  <Link
+                    key={other.id}
+                    to={`/entities/${other.id}`}
+                    className="flex items-center justify-between p-2 rounded hover:bg-gray-800/30 transition-colors"
+                  >
+                    <div className="min-w-0">
+                      <div className="text-sm text-slate-300 truncate">{other.name}</div>
+                      <div className="text-[10px] text-slate-500">
+                        {other.incidentCount} incidents · {reasons.join(', ')}
+                      </div>
+                    </div>
+                    <span className="text-xs text-purple-400 ml-2 shrink-0">{Math.round(score * 100)}%</span>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EntityProfile;
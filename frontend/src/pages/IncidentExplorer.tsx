@@ -12,7 +12,9 @@ import {
   ChevronDown,
   ChevronUp
 } from 'lucide-react';
-import { getIncidents, semanticSearch, getDateRange } from '../services/api';
+import { Link } from 'react-router-dom';
+import { getIncidents, semanticSearch, getDateRange, getIncidentEntities } from '../services/api';
+import { setIncidentDragData } from '../utils/dragAndDrop';
 
 interface Incident {
   id: string;
@@ -29,7 +31,13 @@ interface Incident {
   date: string;
   source: string;
   confidence_score?: number;
-  entities?: string[];
+}
+
+interface IncidentEntity {
+  id: string;
+  type: string;
+  name: string;
+  confidence?: number;
 }
 
 interface FilterState {
@@ -46,6 +54,7 @@ const IncidentExplorer: React.FC = () => {
   const [filteredIncidents, setFilteredIncidents] = useState<Incident[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedIncident, setSelectedIncident] = useState<Incident | null>(null);
+  const [incidentEntities, setIncidentEntities] = useState<IncidentEntity[]>([]);
   const [showFilters, setShowFilters] = useState(false);
   const [dateRange, setDateRange] = useState({ min: '', max: '', suggested_start: '', suggested_end: '' });
 
@@ -83,6 +92,21 @@ const IncidentExplorer: React.FC = () => {
     fetchIncidents();
   }, []);
 
+  useEffect(() => {
+    setIncidentEntities([]);
+    if (!selectedIncident) return;
+
+    let cancelled = false;
+    getIncidentEntities(selectedIncident.id)
+      .then(response => {
+        if (!cancelled) setIncidentEntities(response.data);
+      })
+      .catch(error => console.error('Failed to fetch incident entities:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedIncident]);
+
   useEffect(() => {
     if (filters.search.trim() && filters.search.length > 2) {
       performSemanticSearch();
@@ -366,6 +390,8 @@ const IncidentExplorer: React.FC = () => {
               {Array.isArray(filteredIncidents) && filteredIncidents.map((incident) => (
                 <div
                   key={incident.id}
+                  draggable
+                  onDragStart={(e) => setIncidentDragData(e, [incident.id])}
                   className="p-6 hover:bg-gray-800/30 transition-colors cursor-pointer"
                   onClick={() => setSelectedIncident(incident)}
                 >
@@ -488,14 +514,19 @@ const IncidentExplorer: React.FC = () => {
                       {selectedIncident.confidence_score && (
                         <p><strong>Confidence Score:</strong> {(selectedIncident.confidence_score * 100).toFixed(1)}%</p>
                       )}
-                      {selectedIncident.entities && selectedIncident.entities.length > 0 && (
+                      {incidentEntities.length > 0 && (
                         <div>
                           <strong>Entities:</strong>
                           <div className="flex flex-wrap gap-2 mt-1">
-                            {selectedIncident.entities.map((entity, idx) => (
-                              <span key={idx} className="px-2 py-1 bg-purple-900/20 text-purple-400 rounded text-sm">
-                                {entity}
-                              </span>
+                            {incidentEntities.map(entity => (
+                              <Link
+                                key={entity.id}
+                                to={`/entities/${entity.id}`}
+                                title={`${entity.type}${entity.confidence !== undefined ? ` · ${Math.round(entity.confidence * 100)}% confidence` : ''}`}
+                                className="px-2 py-1 bg-purple-900/20 text-purple-400 hover:bg-purple-900/40 hover:text-purple-300 rounded text-sm transition-colors"
+                              >
+                                {entity.name}
+                              </Link>
                             ))}
                           </div>
                         </div>
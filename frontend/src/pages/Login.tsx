@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Shield, LogIn } from 'lucide-react';
+import { login } from '../services/api';
+import { setAuthSession } from '../utils/auth';
+
+const Login: React.FC = () => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await login(username.trim(), password);
+      setAuthSession(response.data.accessToken, response.data.user);
+      navigate(searchParams.get('redirect') || '/', { replace: true });
+    } catch (err: any) {
+      setError(err?.response?.status === 401 ? 'Invalid username or password' : 'Unable to reach the server');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-950 px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-gray-900/50 border border-purple-800/30 rounded-lg p-8 space-y-5"
+      >
+        <div className="text-center">
+          <Shield className="w-10 h-10 text-purple-400 mx-auto mb-3" />
+          <h1 className="text-xl font-bold text-white">Intel Fusion Dashboard</h1>
+          <p className="text-sm text-slate-400 mt-1">Sign in to continue</p>
+        </div>
+
+        {error && (
+          <div className="px-3 py-2 bg-red-900/20 border border-red-800/30 text-red-400 text-sm rounded-lg">
+            {error}
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm text-slate-300 mb-1">Username</label>
+          <input
+            type="text"
+            autoFocus
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            className="w-full px-3 py-2 bg-gray-800/50 border border-gray-700/50 text-white rounded-lg focus:ring-2 focus:ring-purple-500"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm text-slate-300 mb-1">Password</label>
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-3 py-2 bg-gray-800/50 border border-gray-700/50 text-white rounded-lg focus:ring-2 focus:ring-purple-500"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={submitting || !username.trim() || !password}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors"
+        >
+          <LogIn className="w-4 h-4" />
+          {submitting ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default Login;
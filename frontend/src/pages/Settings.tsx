@@ -15,27 +15,82 @@ import {
   Activity,
   Database,
   Globe,
-  Shield
+  Shield,
+  Upload
 } from 'lucide-react';
+import {
+  getIngestionStatus,
+  getIngestionRuns,
+  getIngestionSources,
+  getIngestionConfigs,
+  createIngestionConfig,
+  updateIngestionConfig,
+  deleteIngestionConfig,
+  triggerIngestionConfig,
+  retryIngestionJob
+} from '../services/api';
+import { getCurrentUser, hasRole } from '../utils/auth';
+import ImportIncidents from '../components/ingestion/ImportIncidents';
+
+interface DataSource {
+  id: string;
+  name: string;
+  description: string;
+  schedule: string | null;
+  usesApiKey: boolean;
+}
 
 interface IngestionConfig {
   id: string;
   name: string;
-  type: 'uk_police' | 'tfl' | 'gdelt' | 'custom';
+  source: string;
   enabled: boolean;
-  description: string;
-  frequency: string;
-  url?: string;
-  api_key?: string;
-  schedule: string;
+  description?: string;
+  schedule: string | null;
+  url?: string | null;
+  hasApiKey: boolean;
   last_run?: string;
   next_run?: string;
   total_runs: number;
-  success_rate: number;
-  avg_duration: number;
+  // null until the config has finished a run
+  success_rate: number | null;
+  avg_duration: number | null;
   data_points_collected: number;
 }
 
+interface IngestionRun {
+  id: string;
+  source: string;
+  configId?: string;
+  status: 'running' | 'succeeded' | 'failed';
+  startedAt: string;
+  durationMs?: number;
+  apiCalls: number;
+  recordsFetched: number;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  errorCount: number;
+  errors: string[];
+  dataCompleteness?: { overall: number; qualityIssues: string[] } | null;
+}
+
+// The API key is write-only; leave it blank to keep the stored one
+type IngestionConfigForm = Pick<IngestionConfig, 'name' | 'source' | 'enabled'> & {
+  description: string;
+  schedule: string;
+  url: string;
+  apiKey: string;
+};
+
+interface IngestionJob {
+  id: string | number;
+  name: string;
+  progress?: number;
+  attempts?: number;
+  failed?: string;
+}
+
 interface IngestionStatus {
   queues: {
     waiting: number;
@@ -44,81 +99,47 @@ interface IngestionStatus {
     failed: number;
   };
   jobs: {
-    waiting: any[];
-    active: any[];
-    recent_completed: any[];
-    recent_failed: any[];
-  };
-  settings: {
-    auto_ingestion_enabled: boolean;
+    waiting: IngestionJob[];
+    active: IngestionJob[];
+    recent_completed: IngestionJob[];
+    recent_failed: IngestionJob[];
   };
 }
 
 export const Settings = () => {
   const [ingestionConfigs, setIngestionConfigs] = useState<IngestionConfig[]>([]);
+  const [dataSources, setDataSources] = useState<DataSource[]>([]);
   const [ingestionStatus, setIngestionStatus] = useState<IngestionStatus | null>(null);
+  const [recentRuns, setRecentRuns] = useState<IngestionRun[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [editingConfig, setEditingConfig] = useState<IngestionConfig | null>(null);
   const [showAddForm, setShowAddForm] = useState(false);
-
-  // Mock data - in production this would come from API
-  const mockConfigs: IngestionConfig[] = [
-    {
-      id: 'uk-police-1',
-      name: 'UK Police Crime Data',
-      type: 'uk_police',
-      enabled: true,
-      description: 'Metropolitan Police crime and incident data for Greater London',
-      frequency: 'Monthly',
-      schedule: '0 0 1 * *', // First day of each month
-      last_run: '2025-09-01T00:00:00Z',
-      next_run: '2025-10-01T00:00:00Z',
-      total_runs: 24,
-      success_rate: 95.8,
-      avg_duration: 1200, // seconds
-      data_points_collected: 847320
-    },
-    {
-      id: 'tfl-realtime-1',
-      name: 'TfL Real-time Transport',
-      type: 'tfl',
-      enabled: true,
-      description: 'Live transport disruptions, line status, and incident reports',
-      frequency: 'Every 5 minutes',
-      schedule: '*/5 * * * *',
-      last_run: '2025-09-22T12:05:00Z',
-      next_run: '2025-09-22T12:10:00Z',
-      total_runs: 8760,
-      success_rate: 99.2,
-      avg_duration: 15, // seconds
-      data_points_collected: 125680
-    },
-    {
-      id: 'gdelt-news-1',
-      name: 'GDELT Global Events',
-      type: 'gdelt',
-      enabled: false,
-      description: 'Global news and events database for London-related incidents',
-      frequency: 'Daily',
-      schedule: '0 2 * * *', // 2 AM daily
-      last_run: '2025-09-21T02:00:00Z',
-      next_run: '2025-09-23T02:00:00Z',
-      total_runs: 90,
-      success_rate: 87.3,
-      avg_duration: 480, // seconds
-      data_points_collected: 45230
-    }
-  ];
+  const [showImport, setShowImport] = useState(false);
+  const isAdmin = hasRole(getCurrentUser(), 'admin');
+  const canImport = hasRole(getCurrentUser(), 'analyst');
 
   const fetchData = async () => {
     try {
-      // Mock API call - replace with real API
-      setIngestionConfigs(mockConfigs);
-
-      const statusRes = await fetch('/api/v1/ingestion/status');
-      const status = await statusRes.json();
-      setIngestionStatus(status);
+      const [configsRes, sourcesRes, statusRes, runsRes] = await Promise.all([
+        getIngestionConfigs(),
+        getIngestionSources(),
+        getIngestionStatus(),
+        getIngestionRuns({ limit: 10 })
+      ]);
+      setIngestionConfigs(configsRes.data.map((config: any) => ({
+        ...config,
+        last_run: config.lastRunAt || undefined,
+        next_run: config.nextRunAt || undefined,
+        total_runs: config.totalRuns,
+        success_rate: config.successRate,
+        avg_duration: config.avgDurationMs !== null ? Math.round(config.avgDurationMs / 1000) : null,
+        data_points_collected: config.dataPointsCollected
+      })));
+      setDataSources(sourcesRes.data);
+      setIngestionStatus(statusRes.data);
+      setRecentRuns(runsRes.data.runs);
     } catch (error) {
       console.error('Failed to fetch data:', error);
     } finally {
@@ -138,44 +159,58 @@ export const Settings = () => {
     await fetchData();
   };
 
-  const triggerIngestion = async (configId: string) => {
-    const config = ingestionConfigs.find(c => c.id === configId);
-    if (!config) return;
-
+  // Runs an API call and surfaces the server's message, e.g. an invalid cron schedule
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
     try {
-      await fetch(`/api/v1/ingestion/${config.type}`, { method: 'POST' });
+      setError(null);
+      await action();
       await fetchData();
-    } catch (error) {
-      console.error(`Failed to trigger ${config.name}:`, error);
+      return true;
+    } catch (error: any) {
+      console.error(failure, error);
+      setError(error.response?.data?.message || failure);
+      return false;
     }
   };
 
-  const toggleConfig = (configId: string) => {
-    setIngestionConfigs(configs =>
-      configs.map(config =>
-        config.id === configId
-          ? { ...config, enabled: !config.enabled }
-          : config
-      )
-    );
-  };
+  const triggerIngestion = (config: IngestionConfig) =>
+    runAction(() => triggerIngestionConfig(config.id), `Failed to trigger ${config.name}`);
+
+  const retryJob = (jobId: string | number) =>
+    runAction(() => retryIngestionJob(jobId), `Failed to retry job ${jobId}`);
 
-  const deleteConfig = (configId: string) => {
-    setIngestionConfigs(configs => configs.filter(c => c.id !== configId));
+  const toggleConfig = (config: IngestionConfig) =>
+    runAction(() => updateIngestionConfig(config.id, { enabled: !config.enabled }), `Failed to update ${config.name}`);
+
+  const deleteConfig = (config: IngestionConfig) => {
+    if (!window.confirm(`Delete ${config.name}? Its schedule will stop immediately.`)) return;
+    runAction(() => deleteIngestionConfig(config.id), `Failed to delete ${config.name}`);
   };
 
-  const saveConfig = (config: IngestionConfig) => {
-    if (editingConfig) {
-      setIngestionConfigs(configs =>
-        configs.map(c => c.id === config.id ? config : c)
-      );
-    } else {
-      setIngestionConfigs(configs => [...configs, { ...config, id: Date.now().toString() }]);
+  const saveConfig = async (form: IngestionConfigForm) => {
+    const payload = {
+      name: form.name,
+      description: form.description,
+      enabled: form.enabled,
+      schedule: form.schedule.trim() || null,
+      url: form.url.trim() || null,
+      ...(form.apiKey ? { apiKey: form.apiKey } : {})
+    };
+
+    const saved = await runAction(
+      () => editingConfig
+        ? updateIngestionConfig(editingConfig.id, payload)
+        : createIngestionConfig({ ...payload, source: form.source }),
+      `Failed to save ${form.name}`
+    );
+    if (saved) {
+      setEditingConfig(null);
+      setShowAddForm(false);
     }
-    setEditingConfig(null);
-    setShowAddForm(false);
   };
 
+  const ratedConfigs = ingestionConfigs.filter(c => c.success_rate !== null);
+
   if (loading) {
     return (
       <div className="max-w-7xl mx-auto p-6 bg-gray-950 min-h-screen">
@@ -202,16 +237,47 @@ export const Settings = () => {
             <RefreshCw className={`w-4 h-4 ${refreshing ? 'animate-spin' : ''}`} />
             Refresh
           </button>
-          <button
-            onClick={() => setShowAddForm(true)}
-            className="flex items-center gap-2 px-4 py-2 bg-purple-600/20 border border-purple-500 text-purple-400 rounded-lg hover:bg-purple-600/30 hover:text-purple-300 transition-colors"
-          >
-            <Plus className="w-4 h-4" />
-            Add New Source
-          </button>
+          {canImport && (
+            <button
+              onClick={() => setShowImport(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-900/50 border border-purple-800/30 text-slate-400 rounded-lg hover:bg-gray-800/50 hover:text-purple-400 transition-colors"
+            >
+              <Upload className="w-4 h-4" />
+              Import File
+            </button>
+          )}
+          {isAdmin && (
+            <button
+              onClick={() => setShowAddForm(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-purple-600/20 border border-purple-500 text-purple-400 rounded-lg hover:bg-purple-600/30 hover:text-purple-300 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add New Source
+            </button>
+          )}
         </div>
       </div>
 
+      {!isAdmin && (
+        <div className="mb-6 px-4 py-3 bg-amber-900/20 border border-amber-800/30 text-amber-300 text-sm rounded-lg flex items-center gap-2">
+          <Shield className="w-4 h-4" />
+          Only administrators can change data source configs, trigger ingestion runs or clear queues.
+          {canImport && ' Analysts can still import incident files.'}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 px-4 py-3 bg-red-900/20 border border-red-800/30 text-red-300 text-sm rounded-lg flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            {error}
+          </span>
+          <button onClick={() => setError(null)} className="text-red-400 hover:text-red-300">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* System Overview Cards */}
       <div className="grid grid-cols-4 gap-6 mb-8">
         <SystemCard
@@ -230,7 +296,9 @@ export const Settings = () => {
         />
         <SystemCard
           title="Success Rate"
-          value={`${(ingestionConfigs.reduce((acc, c) => acc + c.success_rate, 0) / ingestionConfigs.length).toFixed(1)}%`}
+          value={ratedConfigs.length > 0
+            ? `${(ratedConfigs.reduce((acc, c) => acc + (c.success_rate || 0), 0) / ratedConfigs.length).toFixed(1)}%`
+            : 'n/a'}
           subtitle="Average"
           icon={<CheckCircle className="w-6 h-6" />}
           color="emerald"
@@ -256,24 +324,30 @@ export const Settings = () => {
             <ConfigurationCard
               key={config.id}
               config={config}
-              onToggle={() => toggleConfig(config.id)}
+              sourceName={dataSources.find(source => source.id === config.source)?.name || config.source}
+              canManage={isAdmin}
+              onToggle={() => toggleConfig(config)}
               onEdit={() => setEditingConfig(config)}
-              onDelete={() => deleteConfig(config.id)}
-              onTrigger={() => triggerIngestion(config.id)}
+              onDelete={() => deleteConfig(config)}
+              onTrigger={() => triggerIngestion(config)}
             />
           ))}
         </div>
       </div>
 
+      {/* Recent Runs */}
+      <RecentRunsSection runs={recentRuns} configs={ingestionConfigs} />
+
       {/* Queue Status */}
       {ingestionStatus && (
-        <QueueStatusSection status={ingestionStatus} />
+        <QueueStatusSection status={ingestionStatus} onRetry={isAdmin ? retryJob : undefined} />
       )}
 
       {/* Add/Edit Modal */}
       {(showAddForm || editingConfig) && (
         <ConfigurationModal
           config={editingConfig}
+          dataSources={dataSources}
           onSave={saveConfig}
           onCancel={() => {
             setEditingConfig(null);
@@ -281,6 +355,10 @@ export const Settings = () => {
           }}
         />
       )}
+
+      {showImport && (
+        <ImportIncidents onClose={() => setShowImport(false)} onImported={fetchData} />
+      )}
     </div>
   );
 };
@@ -321,16 +399,19 @@ const SystemCard = ({ title, value, subtitle, total, icon, color }: SystemCardPr
 // Configuration Card Component
 interface ConfigurationCardProps {
   config: IngestionConfig;
+  sourceName: string;
+  // Non-admins see configs read-only
+  canManage: boolean;
   onToggle: () => void;
   onEdit: () => void;
   onDelete: () => void;
   onTrigger: () => void;
 }
 
-const ConfigurationCard = ({ config, onToggle, onEdit, onDelete, onTrigger }: ConfigurationCardProps) => {
+const ConfigurationCard = ({ config, sourceName, canManage, onToggle, onEdit, onDelete, onTrigger }: ConfigurationCardProps) => {
   const getTypeIcon = () => {
-    switch (config.type) {
-      case 'uk_police': return <Shield className="w-5 h-5" />;
+    switch (config.source) {
+      case 'uk-police': return <Shield className="w-5 h-5" />;
       case 'tfl': return <Activity className="w-5 h-5" />;
       case 'gdelt': return <Globe className="w-5 h-5" />;
       default: return <Database className="w-5 h-5" />;
@@ -339,6 +420,7 @@ const ConfigurationCard = ({ config, onToggle, onEdit, onDelete, onTrigger }: Co
 
   const getStatusColor = () => {
     if (!config.enabled) return 'bg-gray-800/30 border-gray-700/50';
+    if (config.success_rate === null) return 'bg-blue-900/10 border-blue-800/30';
     return config.success_rate > 95 ? 'bg-green-900/20 border-green-800/30' :
            config.success_rate > 85 ? 'bg-yellow-900/20 border-yellow-800/30' :
            'bg-red-900/20 border-red-800/30';
@@ -353,47 +435,63 @@ const ConfigurationCard = ({ config, onToggle, onEdit, onDelete, onTrigger }: Co
           </div>
           <div>
             <h3 className="font-semibold text-white text-lg">{config.name}</h3>
-            <p className="text-slate-400 mt-1">{config.description}</p>
+            {config.description && <p className="text-slate-400 mt-1">{config.description}</p>}
             <div className="flex items-center gap-4 mt-2 text-sm text-slate-500">
-              <span>Frequency: {config.frequency}</span>
+              <span>Source: {sourceName}</span>
+              <span>•</span>
+              <span>Schedule: <span className="font-mono">{config.schedule || 'On demand'}</span></span>
               <span>•</span>
               <span>Total Runs: {config.total_runs}</span>
               <span>•</span>
-              <span>Success Rate: {config.success_rate}%</span>
+              <span>Success Rate: {config.success_rate !== null ? `${config.success_rate}%` : 'n/a'}</span>
+              {config.url && (
+                <>
+                  <span>•</span>
+                  <span className="truncate max-w-xs">{config.url}</span>
+                </>
+              )}
+              {config.hasApiKey && (
+                <>
+                  <span>•</span>
+                  <span>API key set</span>
+                </>
+              )}
             </div>
           </div>
         </div>
 
-        <div className="flex items-center gap-2">
-          <button
-            onClick={onToggle}
-            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-              config.enabled ? 'bg-purple-600' : 'bg-gray-700'
-            }`}
-          >
-            <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
-              config.enabled ? 'translate-x-6' : 'translate-x-1'
-            }`} />
-          </button>
-        </div>
+        {canManage && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onToggle}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                config.enabled ? 'bg-purple-600' : 'bg-gray-700'
+              }`}
+            >
+              <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                config.enabled ? 'translate-x-6' : 'translate-x-1'
+              }`} />
+            </button>
+          </div>
+        )}
       </div>
 
       <div className="grid grid-cols-4 gap-4 mb-4 text-sm">
         <div>
           <div className="text-slate-500">Last Run</div>
           <div className="font-medium text-slate-300">
-            {config.last_run ? new Date(config.last_run).toLocaleDateString() : 'Never'}
+            {config.last_run ? new Date(config.last_run).toLocaleString() : 'Never'}
           </div>
         </div>
         <div>
           <div className="text-slate-500">Next Run</div>
           <div className="font-medium text-slate-300">
-            {config.next_run ? new Date(config.next_run).toLocaleDateString() : 'Not scheduled'}
+            {config.next_run ? new Date(config.next_run).toLocaleString() : 'Not scheduled'}
           </div>
         </div>
         <div>
           <div className="text-slate-500">Avg Duration</div>
-          <div className="font-medium text-slate-300">{config.avg_duration}s</div>
+          <div className="font-medium text-slate-300">{config.avg_duration !== null ? `${config.avg_duration}s` : 'n/a'}</div>
         </div>
         <div>
           <div className="text-slate-500">Data Points</div>
@@ -409,37 +507,106 @@ const ConfigurationCard = ({ config, onToggle, onEdit, onDelete, onTrigger }: Co
           </span>
         </div>
 
-        <div className="flex gap-2">
-          <button
-            onClick={onTrigger}
-            disabled={!config.enabled}
-            className="flex items-center gap-1 px-3 py-1 bg-purple-600/20 border border-purple-500 text-purple-400 rounded text-sm hover:bg-purple-600/30 disabled:opacity-50 transition-colors"
-          >
-            <Play className="w-3 h-3" />
-            Trigger
-          </button>
-          <button
-            onClick={onEdit}
-            className="flex items-center gap-1 px-3 py-1 bg-gray-800/50 border border-gray-700/50 text-slate-400 rounded text-sm hover:bg-gray-700/50 hover:text-slate-300 transition-colors"
-          >
-            <Edit3 className="w-3 h-3" />
-            Edit
-          </button>
-          <button
-            onClick={onDelete}
-            className="flex items-center gap-1 px-3 py-1 bg-red-900/20 border border-red-800/30 text-red-400 rounded text-sm hover:bg-red-900/30 hover:text-red-300 transition-colors"
-          >
-            <Trash2 className="w-3 h-3" />
-            Delete
-          </button>
-        </div>
+        {canManage && (
+          <div className="flex gap-2">
+            <button
+              onClick={onTrigger}
+              disabled={!config.enabled}
+              className="flex items-center gap-1 px-3 py-1 bg-purple-600/20 border border-purple-500 text-purple-400 rounded text-sm hover:bg-purple-600/30 disabled:opacity-50 transition-colors"
+            >
+              <Play className="w-3 h-3" />
+              Trigger
+            </button>
+            <button
+              onClick={onEdit}
+              className="flex items-center gap-1 px-3 py-1 bg-gray-800/50 border border-gray-700/50 text-slate-400 rounded text-sm hover:bg-gray-700/50 hover:text-slate-300 transition-colors"
+            >
+              <Edit3 className="w-3 h-3" />
+              Edit
+            </button>
+            <button
+              onClick={onDelete}
+              className="flex items-center gap-1 px-3 py-1 bg-red-900/20 border border-red-800/30 text-red-400 rounded text-sm hover:bg-red-900/30 hover:text-red-300 transition-colors"
+            >
+              <Trash2 className="w-3 h-3" />
+              Delete
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
+// Recent Runs Section
+interface RecentRunsSectionProps {
+  runs: IngestionRun[];
+  configs: IngestionConfig[];
+}
+
+const RecentRunsSection = ({ runs, configs }: RecentRunsSectionProps) => {
+  const statusClasses = {
+    running: 'text-blue-400',
+    succeeded: 'text-green-400',
+    failed: 'text-red-400'
+  };
+
+  return (
+    <div className="bg-gray-900/30 border border-purple-800/30 rounded-lg p-6 mb-8">
+      <h2 className="text-xl font-semibold text-white mb-6 flex items-center gap-2">
+        <Clock className="w-5 h-5 text-purple-400" />
+        Recent Runs
+      </h2>
+
+      {runs.length === 0 ? (
+        <p className="text-sm text-slate-500">No ingestion runs recorded yet</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 border-b border-gray-800/50">
+              <th className="pb-2 font-medium">Source</th>
+              <th className="pb-2 font-medium">Started</th>
+              <th className="pb-2 font-medium">Status</th>
+              <th className="pb-2 font-medium text-right">Duration</th>
+              <th className="pb-2 font-medium text-right">API Calls</th>
+              <th className="pb-2 font-medium text-right">Fetched</th>
+              <th className="pb-2 font-medium text-right">Inserted / Updated / Skipped</th>
+              <th className="pb-2 font-medium text-right">Completeness</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-800/50">
+            {runs.map(run => (
+              <tr key={run.id} className="text-slate-300" title={run.errors.join('\n')}>
+                <td className="py-2 text-white">{configs.find(c => c.id === run.configId)?.name || run.source}</td>
+                <td className="py-2">{new Date(run.startedAt).toLocaleString()}</td>
+                <td className={`py-2 ${statusClasses[run.status]}`}>
+                  {run.status}
+                  {run.errorCount > 0 && <span className="text-xs text-red-400 ml-2">{run.errorCount} errors</span>}
+                </td>
+                <td className="py-2 text-right">{run.durationMs ? `${(run.durationMs / 1000).toFixed(1)}s` : '-'}</td>
+                <td className="py-2 text-right">{run.apiCalls}</td>
+                <td className="py-2 text-right">{run.recordsFetched.toLocaleString()}</td>
+                <td className="py-2 text-right">{run.inserted} / {run.updated} / {run.skipped}</td>
+                <td className="py-2 text-right" title={run.dataCompleteness?.qualityIssues.join(', ')}>
+                  {run.dataCompleteness ? `${run.dataCompleteness.overall}%` : '-'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
 // Queue Status Section
-const QueueStatusSection = ({ status }: { status: IngestionStatus }) => (
+interface QueueStatusSectionProps {
+  status: IngestionStatus;
+  // Omitted for non-admins, who cannot retry jobs
+  onRetry?: (jobId: string | number) => void;
+}
+
+const QueueStatusSection = ({ status, onRetry }: QueueStatusSectionProps) => (
   <div className="bg-gray-900/30 border border-purple-800/30 rounded-lg p-6">
     <h2 className="text-xl font-semibold text-white mb-6">Queue Status</h2>
     <div className="grid grid-cols-4 gap-4">
@@ -464,37 +631,100 @@ const QueueStatusSection = ({ status }: { status: IngestionStatus }) => (
         <div className="text-sm text-slate-400">Failed</div>
       </div>
     </div>
+
+    {status.jobs.active.length > 0 && (
+      <div className="mt-6 space-y-3">
+        <h3 className="text-sm font-medium text-slate-300">Running</h3>
+        {status.jobs.active.map(job => (
+          <div key={job.id}>
+            <div className="flex items-center justify-between text-sm mb-1">
+              <span className="text-white">{job.name}</span>
+              <span className="text-slate-400">
+                {job.progress || 0}%{job.attempts ? ` · attempt ${job.attempts + 1}` : ''}
+              </span>
+            </div>
+            <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+              <div className="h-full bg-green-500 transition-all" style={{ width: `${job.progress || 0}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+    )}
+
+    {status.jobs.recent_failed.length > 0 && (
+      <div className="mt-6 space-y-2">
+        <h3 className="text-sm font-medium text-slate-300">Recent failures</h3>
+        {status.jobs.recent_failed.map(job => (
+          <div key={job.id} className="flex items-center justify-between gap-3 p-3 bg-red-900/10 border border-red-800/30 rounded-lg">
+            <div className="min-w-0">
+              <div className="text-sm text-white">{job.name}</div>
+              <div className="text-xs text-red-400 truncate">
+                {job.failed} · {job.attempts || 0} attempts · stopped at {job.progress || 0}%
+              </div>
+            </div>
+            {onRetry && (
+              <button
+                onClick={() => onRetry(job.id)}
+                className="flex items-center gap-1 px-3 py-1 bg-purple-600/20 border border-purple-500 text-purple-300 rounded text-sm hover:bg-purple-600/30 transition-colors"
+              >
+                <RefreshCw className="w-3 h-3" />
+                Retry
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    )}
   </div>
 );
 
 // Configuration Modal
 interface ConfigurationModalProps {
   config?: IngestionConfig | null;
-  onSave: (config: IngestionConfig) => void;
+  dataSources: DataSource[];
+  onSave: (form: IngestionConfigForm) => void;
   onCancel: () => void;
 }
 
-const ConfigurationModal = ({ config, onSave, onCancel }: ConfigurationModalProps) => {
-  const [formData, setFormData] = useState<Partial<IngestionConfig>>(
-    config || {
-      name: '',
-      type: 'custom',
-      enabled: true,
-      description: '',
-      frequency: 'Daily',
-      schedule: '0 2 * * *',
-      url: '',
-      api_key: '',
-      total_runs: 0,
-      success_rate: 0,
-      avg_duration: 0,
-      data_points_collected: 0
-    }
+const ConfigurationModal = ({ config, dataSources, onSave, onCancel }: ConfigurationModalProps) => {
+  const [formData, setFormData] = useState<IngestionConfigForm>(
+    config
+      ? {
+          name: config.name,
+          source: config.source,
+          enabled: config.enabled,
+          description: config.description || '',
+          schedule: config.schedule || '',
+          url: config.url || '',
+          apiKey: ''
+        }
+      : {
+          name: '',
+          source: dataSources[0]?.id || '',
+          enabled: true,
+          description: dataSources[0]?.description || '',
+          schedule: dataSources[0]?.schedule || '',
+          url: '',
+          apiKey: ''
+        }
   );
 
+  // New configs start from the source's defaults
+  const selectSource = (sourceId: string) => {
+    const source = dataSources.find(candidate => candidate.id === sourceId);
+    setFormData({
+      ...formData,
+      source: sourceId,
+      description: source?.description || '',
+      schedule: source?.schedule || ''
+    });
+  };
+
+  const usesApiKey = !!dataSources.find(candidate => candidate.id === formData.source)?.usesApiKey;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSave(formData as IngestionConfig);
+    onSave(usesApiKey ? formData : { ...formData, apiKey: '' });
   };
 
   return (
@@ -522,16 +752,16 @@ const ConfigurationModal = ({ config, onSave, onCancel }: ConfigurationModalProp
               />
             </div>
             <div>
-              <label className="block text-sm font-medium text-slate-300 mb-1">Type</label>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Source</label>
               <select
-                value={formData.type}
-                onChange={(e) => setFormData({...formData, type: e.target.value as any})}
-                className="w-full px-3 py-2 bg-gray-800/50 border border-gray-700/50 text-white rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                value={formData.source}
+                onChange={(e) => selectSource(e.target.value)}
+                disabled={!!config}
+                className="w-full px-3 py-2 bg-gray-800/50 border border-gray-700/50 text-white rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 disabled:opacity-60"
               >
-                <option value="uk_police">UK Police</option>
-                <option value="tfl">Transport for London</option>
-                <option value="gdelt">GDELT</option>
-                <option value="custom">Custom</option>
+                {dataSources.map(source => (
+                  <option key={source.id} value={source.id}>{source.name}</option>
+                ))}
               </select>
             </div>
           </div>
@@ -543,60 +773,47 @@ const ConfigurationModal = ({ config, onSave, onCancel }: ConfigurationModalProp
               onChange={(e) => setFormData({...formData, description: e.target.value})}
               rows={3}
               className="w-full px-3 py-2 bg-gray-800/50 border border-gray-700/50 text-white rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
-              required
             />
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-slate-300 mb-1">Frequency</label>
-              <select
-                value={formData.frequency}
-                onChange={(e) => setFormData({...formData, frequency: e.target.value})}
-                className="w-full px-3 py-2 bg-gray-800/50 border border-gray-700/50 text-white rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
-              >
-                <option value="Every 5 minutes">Every 5 minutes</option>
-                <option value="Hourly">Hourly</option>
-                <option value="Daily">Daily</option>
-                <option value="Weekly">Weekly</option>
-                <option value="Monthly">Monthly</option>
-              </select>
-            </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Cron Schedule</label>
+            <input
+              type="text"
+              value={formData.schedule}
+              onChange={(e) => setFormData({...formData, schedule: e.target.value})}
+              placeholder="Leave blank to run on demand only, e.g. */5 * * * *"
+              className="w-full px-3 py-2 bg-gray-800/50 border border-gray-700/50 text-white font-mono rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+            />
+          </div>
+
+          <div className={`grid gap-4 ${usesApiKey ? 'grid-cols-2' : 'grid-cols-1'}`}>
             <div>
-              <label className="block text-sm font-medium text-slate-300 mb-1">Cron Schedule</label>
+              <label className="block text-sm font-medium text-slate-300 mb-1">API URL</label>
               <input
-                type="text"
-                value={formData.schedule}
-                onChange={(e) => setFormData({...formData, schedule: e.target.value})}
-                placeholder="0 2 * * *"
+                type="url"
+                value={formData.url}
+                onChange={(e) => setFormData({...formData, url: e.target.value})}
+                placeholder="Source default"
                 className="w-full px-3 py-2 bg-gray-800/50 border border-gray-700/50 text-white rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
-                required
               />
             </div>
-          </div>
-
-          {formData.type === 'custom' && (
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-slate-300 mb-1">API URL</label>
-                <input
-                  type="url"
-                  value={formData.url}
-                  onChange={(e) => setFormData({...formData, url: e.target.value})}
-                  className="w-full px-3 py-2 bg-gray-800/50 border border-gray-700/50 text-white rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
-                />
-              </div>
+            {usesApiKey && (
               <div>
                 <label className="block text-sm font-medium text-slate-300 mb-1">API Key</label>
                 <input
                   type="password"
-                  value={formData.api_key}
-                  onChange={(e) => setFormData({...formData, api_key: e.target.value})}
+                  value={formData.apiKey}
+                  onChange={(e) => setFormData({...formData, apiKey: e.target.value})}
+                  placeholder={config?.hasApiKey ? 'Saved; type to replace' : 'None'}
                   className="w-full px-3 py-2 bg-gray-800/50 border border-gray-700/50 text-white rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
                 />
               </div>
-            </div>
-          )}
+            )}
+          </div>
+          <p className="text-xs text-slate-500">
+            The URL replaces the source's default API base, e.g. a GDELT mirror or a caching proxy.
+          </p>
 
           <div className="flex items-center gap-2">
             <input
@@ -1,9 +1,41 @@
 import axios from 'axios';
+import { getAuthToken, clearAuthSession } from '../utils/auth';
 
 const api = axios.create({
   baseURL: import.meta.env.VITE_API_URL || 'http://localhost:3001/api/v1',
 });
 
+api.interceptors.request.use((config) => {
+  const token = getAuthToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+// An expired or revoked token sends the analyst back to the login page
+api.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    if (error.response?.status === 401 && window.location.pathname !== '/login') {
+      clearAuthSession();
+      window.location.assign(`/login?redirect=${encodeURIComponent(window.location.pathname + window.location.search)}`);
+    }
+    return Promise.reject(error);
+  }
+);
+
+export const login = (username: string, password: string) =>
+  api.post('/auth/login', { username, password });
+
+export const getCurrentUserProfile = () => api.get('/auth/me');
+
+export const getUsers = () => api.get('/users');
+
+export const createUser = (data: any) => api.post('/users', data);
+
+export const updateUser = (id: string, data: any) => api.patch(`/users/${id}`, data);
+
 export const getIncidents = (params: any) => api.get('/incidents', { params });
 
 export const semanticSearch = (query: string, limit?: number) =>
@@ -26,8 +58,120 @@ export const getDateRange = () =>
 
 export const getEntity = (id: string) => api.get(`/entities/${id}`);
 
+export const getEntityIncidents = (id: string, limit?: number) =>
+  api.get(`/entities/${id}/incidents`, { params: { limit } });
+
+export const getCoOccurringEntities = (id: string, limit?: number) =>
+  api.get(`/entities/${id}/co-occurring`, { params: { limit } });
+
+export const getEntityGraph = (id: string, params?: { depth?: number; types?: string; incidentTypes?: string; limit?: number }) =>
+  api.get(`/entities/${id}/graph`, { params });
+
+export const getSimilarEntities = (id: string, limit?: number) =>
+  api.get(`/entities/${id}/similar`, { params: { limit } });
+
+export const getIncidentEntities = (incidentId: string) =>
+  api.get(`/incidents/${incidentId}/entities`);
+
 export const createCase = (data: any) => api.post('/cases', data);
 
 export const getEntities = (params?: any) => api.get('/entities', { params });
 
 export const getEntityRelationships = (params?: any) => api.get('/entities/relationships', { params });
+
+export const getEntityCoOccurrences = (params?: { types?: string; minCount?: number; limit?: number }) =>
+  api.get('/entities/co-occurrences', { params });
+
+export const getEntityCentrality = (params?: any) => api.get('/entities/analytics/centrality', { params });
+
+export const getEntityCommunities = (params?: any) => api.get('/entities/analytics/communities', { params });
+
+export const getEntityPath = (id: string, targetId: string, params?: { maxHops?: number; types?: string; incidentTypes?: string }) =>
+  api.get(`/entities/${id}/path/${targetId}`, { params });
+
+export const getCases = (params?: any) => api.get('/cases', { params });
+
+export const getCase = (id: string) => api.get(`/cases/${id}`);
+
+export const updateCase = (id: string, data: any) => api.patch(`/cases/${id}`, data);
+
+export const deleteCase = (id: string) => api.delete(`/cases/${id}`);
+
+export const addCaseIncidents = (id: string, incidentIds: string[]) =>
+  api.post(`/cases/${id}/incidents`, { incidentIds });
+
+export const removeCaseIncident = (id: string, incidentId: string) =>
+  api.delete(`/cases/${id}/incidents/${incidentId}`);
+
+export const exportCase = (id: string, format: 'pdf' | 'html', params?: any) =>
+  api.get(`/cases/${id}/export`, { params: { format, ...params }, responseType: 'blob' });
+
+export const getCaseHistory = (id: string) => api.get(`/cases/${id}/history`);
+
+export const shareCase = (id: string, username: string, permission: 'read' | 'edit') =>
+  api.put(`/cases/${id}/shares/${encodeURIComponent(username)}`, { permission });
+
+export const unshareCase = (id: string, username: string) =>
+  api.delete(`/cases/${id}/shares/${encodeURIComponent(username)}`);
+
+export const getCaseComments = (id: string, params?: any) =>
+  api.get(`/cases/${id}/comments`, { params });
+
+export const addCaseComment = (id: string, data: { body: string; incidentId?: string; parentId?: string }) =>
+  api.post(`/cases/${id}/comments`, data);
+
+export const deleteCaseComment = (id: string, commentId: string) =>
+  api.delete(`/cases/${id}/comments/${commentId}`);
+
+export const getNotifications = (params?: any) => api.get('/notifications', { params });
+
+export const markNotificationRead = (id: string) => api.patch(`/notifications/${id}/read`);
+
+export const markAllNotificationsRead = () => api.post('/notifications/read-all');
+
+export const getCaseSuggestions = (id: string, params?: any) =>
+  api.get(`/cases/${id}/suggestions`, { params });
+
+export const getIngestionStatus = () => api.get('/ingestion/status');
+
+export const triggerIngestion = (source: string) => api.post(`/ingestion/${source}`);
+
+export const retryIngestionJob = (jobId: string | number) => api.post(`/ingestion/jobs/${jobId}/retry`);
+
+export const getIngestionSources = () => api.get('/ingestion/sources');
+
+export const getIngestionRuns = (params?: any) => api.get('/ingestion/runs', { params });
+
+export const getIngestionConfigs = () => api.get('/ingestion/configs');
+
+export const createIngestionConfig = (data: any) => api.post('/ingestion/configs', data);
+
+export const updateIngestionConfig = (id: string, data: any) => api.put(`/ingestion/configs/${id}`, data);
+
+export const deleteIngestionConfig = (id: string) => api.delete(`/ingestion/configs/${id}`);
+
+export const triggerIngestionConfig = (id: string) => api.post(`/ingestion/configs/${id}/trigger`);
+
+const toUploadForm = (file: File, fields: Record<string, string | undefined>) => {
+  const form = new FormData();
+  form.append('file', file);
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') form.append(key, value);
+  });
+  return form;
+};
+
+export const previewIncidentImport = (file: File, format?: string) =>
+  api.post('/ingestion/upload/preview', toUploadForm(file, { format }));
+
+export const importIncidents = (
+  file: File,
+  options: { mapping: Record<string, string>; format?: string; source?: string; type?: string; dryRun?: boolean }
+) =>
+  api.post('/ingestion/upload', toUploadForm(file, {
+    mapping: JSON.stringify(options.mapping),
+    format: options.format,
+    source: options.source,
+    type: options.type,
+    dryRun: options.dryRun ? 'true' : undefined
+  }));
@@ -0,0 +1,45 @@
+// Bearer token and signed-in user, persisted so a page reload keeps the session.
+export type UserRole = 'viewer' | 'analyst' | 'admin';
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  displayName?: string;
+  role: UserRole;
+}
+
+const TOKEN_STORAGE_KEY = 'intel-fusion:token';
+const USER_STORAGE_KEY = 'intel-fusion:user';
+
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 0,
+  analyst: 1,
+  admin: 2
+};
+
+export const getAuthToken = (): string | null => localStorage.getItem(TOKEN_STORAGE_KEY);
+
+export const getCurrentUser = (): AuthUser | null => {
+  const stored = localStorage.getItem(USER_STORAGE_KEY);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return null;
+  }
+};
+
+export const setAuthSession = (token: string, user: AuthUser) => {
+  localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
+};
+
+export const clearAuthSession = () => {
+  localStorage.removeItem(TOKEN_STORAGE_KEY);
+  localStorage.removeItem(USER_STORAGE_KEY);
+};
+
+// Mirrors the backend: a higher role includes every permission of the lower ones
+export const hasRole = (user: AuthUser | null, role: UserRole): boolean =>
+  !!user && ROLE_RANK[user.role] >= ROLE_RANK[role];
@@ -0,0 +1,27 @@
+import type { DragEvent } from 'react';
+
+// Drag-and-drop payload types shared between incident lists and the Case Builder.
+// The payload is a JSON-encoded array of incident ids so that several pages
+// (or browser windows) can feed the same drop zone.
+export const INCIDENT_DRAG_TYPE = 'application/x-intel-fusion-incidents';
+
+export const setIncidentDragData = (event: DragEvent, incidentIds: string[]) => {
+  event.dataTransfer.setData(INCIDENT_DRAG_TYPE, JSON.stringify(incidentIds));
+  event.dataTransfer.setData('text/plain', incidentIds.join('\n'));
+  event.dataTransfer.effectAllowed = 'copy';
+};
+
+export const getIncidentDragData = (event: DragEvent): string[] => {
+  const payload = event.dataTransfer.getData(INCIDENT_DRAG_TYPE);
+  if (!payload) return [];
+
+  try {
+    const ids = JSON.parse(payload);
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const hasIncidentDragData = (event: DragEvent): boolean =>
+  Array.from(event.dataTransfer.types).includes(INCIDENT_DRAG_TYPE);
@@ -29,6 +29,7 @@ export const IncidentSchema = z.object({
   source: z.string().min(1),
   location: LocationSchema,
   datetime: z.string().datetime(),
+  severity: z.enum(["low", "medium", "high", "critical"]).optional(),
   entities: z.array(EntityRefSchema),
   metadata: z.record(z.unknown()).optional()
 })
@@ -39,7 +40,12 @@ export const EntitySchema = z.object({
   type: z.enum(["person", "location", "organisation", "object"]),
   name: z.string().min(1),
   linkedIncidents: z.array(z.string()),
+  aliases: z.array(z.string()).optional(),
   metadata: z.record(z.unknown()).optional(),
+  location: LocationSchema.pick({ lat: true, lng: true }).optional(),
+  incidentCount: z.number().int().min(0).optional(),
+  firstSeenAt: z.string().datetime().optional(),
+  lastSeenAt: z.string().datetime().optional(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime()
 })
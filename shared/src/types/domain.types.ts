@@ -3,6 +3,7 @@
  */
 
 export type IncidentType = "crime" | "tfl" | "news"
+export type IncidentSeverity = "low" | "medium" | "high" | "critical"
 export type EntityType = "person" | "location" | "organisation" | "object"
 export type CrimeCategory = "burglary" | "robbery" | "drugs" | "violence" | "theft" | "antisocial" | "other"
 export type OutcomeStatus = "investigation_ongoing" | "suspect_charged" | "no_further_action" | "court_case" | "fine" | "caution"
@@ -29,6 +30,7 @@ export interface Incident {
   source: string
   location: Location
   datetime: string
+  severity?: IncidentSeverity
   entities: EntityRef[]
   metadata?: Record<string, unknown>
 }
@@ -38,7 +40,13 @@ export interface Entity {
   type: EntityType
   name: string
   linkedIncidents: string[]
+  aliases?: string[]
   metadata?: Record<string, unknown>
+  // Centre of the linked incidents, for location entities
+  location?: Pick<Location, "lat" | "lng">
+  incidentCount?: number
+  firstSeenAt?: string
+  lastSeenAt?: string
   createdAt: string
   updatedAt: string
 }
@@ -121,5 +129,7 @@ export interface GraphResult {
     totalNodes: number
     totalEdges: number
     maxDepth: number
+    // Set when the node limit cut the traversal short
+    truncated?: boolean
   }
 }
\ No newline at end of file
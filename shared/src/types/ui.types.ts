@@ -178,12 +178,46 @@ export interface GraphEdgeData {
 
 // Export Types
 export interface ExportOptions {
-  format: "json" | "csv" | "pdf"
+  format: "json" | "csv" | "pdf" | "html"
   includeEntities: boolean
   includeTimeline: boolean
   includeMap: boolean
 }
 
+// i2 Analyst's Notebook imports entities and links from separate CSV files
+export type GraphExportFormat = "graphml" | "gexf" | "i2-entities" | "i2-links"
+
+export interface GraphExportNode {
+  id: string
+  label: string
+  type: string
+  data?: Record<string, unknown>
+  size?: number
+  color?: string
+  x?: number
+  y?: number
+}
+
+export interface GraphExportEdge {
+  id?: string
+  source: string
+  target: string
+  type: string
+  weight?: number
+  data?: Record<string, unknown>
+}
+
+export interface GraphExportData {
+  nodes: GraphExportNode[]
+  edges: GraphExportEdge[]
+}
+
+export interface GraphExportFile {
+  content: string
+  mimeType: string
+  extension: string
+}
+
 // Loading States
 export interface LoadingState {
   incidents: boolean
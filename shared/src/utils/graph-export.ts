@@ -0,0 +1,300 @@
+/**
+ * Graph serializers for desktop link analysis tools
+ */
+
+import type {
+  GraphExportData,
+  GraphExportEdge,
+  GraphExportFile,
+  GraphExportFormat,
+  GraphExportNode,
+} from "../types/ui.types"
+
+export const GRAPH_EXPORT_FORMATS: GraphExportFormat[] = ["graphml", "gexf", "i2-entities", "i2-links"]
+
+type Scalar = string | number | boolean
+
+interface Attribute {
+  name: string
+  type: "string" | "double" | "boolean"
+}
+
+// Built-in fields of each element, so data keys of the same name are not written twice
+const NODE_FIELDS = ["id", "label", "type", "size", "color", "x", "y"]
+const EDGE_FIELDS = ["id", "source", "target", "type", "weight"]
+
+/**
+ * Serialize a graph to one of the export formats
+ */
+export const exportGraph = (graph: GraphExportData, format: GraphExportFormat): GraphExportFile => {
+  switch (format) {
+    case "graphml":
+      return { content: toGraphML(graph), mimeType: "application/graphml+xml", extension: "graphml" }
+    case "gexf":
+      return { content: toGEXF(graph), mimeType: "application/gexf+xml", extension: "gexf" }
+    case "i2-entities":
+      return { content: toI2EntitiesCsv(graph), mimeType: "text/csv", extension: "csv" }
+    case "i2-links":
+      return { content: toI2LinksCsv(graph), mimeType: "text/csv", extension: "csv" }
+  }
+}
+
+/**
+ * GraphML with label, type, position and every scalar data field as keys,
+ * readable by yEd, Gephi, Cytoscape and NetworkX
+ */
+export const toGraphML = (graph: GraphExportData): string => {
+  const nodeAttributes = collectAttributes(graph.nodes, NODE_FIELDS)
+  const edgeAttributes = collectAttributes(graph.edges, EDGE_FIELDS)
+  const hasPositions = graph.nodes.some(hasPosition)
+
+  const keys = [
+    key("n_label", "node", "label", "string"),
+    key("n_type", "node", "type", "string"),
+    ...(hasPositions ? [key("n_x", "node", "x", "double"), key("n_y", "node", "y", "double")] : []),
+    key("n_size", "node", "size", "double"),
+    key("n_color", "node", "color", "string"),
+    ...nodeAttributes.map((attribute, i) => key(`n${i}`, "node", attribute.name, attribute.type)),
+    key("e_type", "edge", "type", "string"),
+    key("e_weight", "edge", "weight", "double"),
+    ...edgeAttributes.map((attribute, i) => key(`e${i}`, "edge", attribute.name, attribute.type)),
+  ]
+
+  const nodes = graph.nodes.map(node => {
+    const values: [string, Scalar | undefined][] = [
+      ["n_label", node.label],
+      ["n_type", node.type],
+      ["n_x", hasPosition(node) ? node.x : undefined],
+      ["n_y", hasPosition(node) ? node.y : undefined],
+      ["n_size", node.size],
+      ["n_color", node.color],
+      ...nodeAttributes.map((attribute, i): [string, Scalar | undefined] => [`n${i}`, scalar(node.data?.[attribute.name])]),
+    ]
+    return `    <node id="${escapeXml(node.id)}">\n${dataElements(values)}    </node>`
+  })
+
+  const edges = graph.edges.map((edge, i) => {
+    const values: [string, Scalar | undefined][] = [
+      ["e_type", edge.type],
+      ["e_weight", edge.weight],
+      ...edgeAttributes.map((attribute, j): [string, Scalar | undefined] => [`e${j}`, scalar(edge.data?.[attribute.name])]),
+    ]
+    return `    <edge id="${escapeXml(edge.id ?? `e${i}`)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">\n${dataElements(values)}    </edge>`
+  })
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">`,
+    ...keys,
+    `  <graph id="G" edgedefault="undirected">`,
+    ...nodes,
+    ...edges,
+    `  </graph>`,
+    `</graphml>`,
+    "",
+  ].join("\n")
+}
+
+/**
+ * GEXF 1.3 with attributes and viz position, size and colour, for Gephi.
+ * Gephi's y axis points up, so y is flipped to keep the layout as drawn.
+ */
+export const toGEXF = (graph: GraphExportData): string => {
+  const nodeAttributes = [{ name: "type", type: "string" } as Attribute, ...collectAttributes(graph.nodes, NODE_FIELDS)]
+  const edgeAttributes = collectAttributes(graph.edges, EDGE_FIELDS)
+
+  const nodes = graph.nodes.map(node => {
+    const values = nodeAttributes.map((attribute, i) =>
+      [i, i === 0 ? node.type : scalar(node.data?.[attribute.name])] as [number, Scalar | undefined]
+    )
+    const viz: string[] = []
+    if (hasPosition(node)) {
+      viz.push(`        <viz:position x="${node.x}" y="${-node.y}" z="0"/>`)
+    }
+    if (node.size !== undefined) {
+      viz.push(`        <viz:size value="${node.size}"/>`)
+    }
+    const rgb = node.color ? parseHexColor(node.color) : null
+    if (rgb) {
+      viz.push(`        <viz:color r="${rgb[0]}" g="${rgb[1]}" b="${rgb[2]}"/>`)
+    }
+    return [
+      `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.label)}">`,
+      ...attributeValues(values),
+      ...viz,
+      `      </node>`,
+    ].join("\n")
+  })
+
+  const edges = graph.edges.map((edge, i) => {
+    const values = edgeAttributes.map((attribute, j) =>
+      [j, scalar(edge.data?.[attribute.name])] as [number, Scalar | undefined]
+    )
+    const weight = edge.weight !== undefined ? ` weight="${edge.weight}"` : ""
+    return [
+      `      <edge id="${escapeXml(edge.id ?? `e${i}`)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" label="${escapeXml(edge.type)}"${weight}>`,
+      ...attributeValues(values),
+      `      </edge>`,
+    ].join("\n")
+  })
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">`,
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">`,
+    `    <creator>Analyst Fusion Dashboard</creator>`,
+    `  </meta>`,
+    `  <graph defaultedgetype="undirected" mode="static">`,
+    attributeDeclarations("node", nodeAttributes),
+    attributeDeclarations("edge", edgeAttributes),
+    `    <nodes>`,
+    ...nodes,
+    `    </nodes>`,
+    `    <edges>`,
+    ...edges,
+    `    </edges>`,
+    `  </graph>`,
+    `</gexf>`,
+    "",
+  ].join("\n")
+}
+
+/**
+ * Entity rows for an i2 Analyst's Notebook import specification, one
+ * column per scalar data field and the layout position last
+ */
+export const toI2EntitiesCsv = (graph: GraphExportData): string => {
+  const attributes = collectAttributes(graph.nodes, NODE_FIELDS)
+  const header = ["Entity ID", "Label", "Entity Type", ...attributes.map(attribute => attribute.name), "X", "Y"]
+  const rows = graph.nodes.map(node => [
+    node.id,
+    node.label,
+    node.type,
+    ...attributes.map(attribute => scalar(node.data?.[attribute.name])),
+    hasPosition(node) ? Math.round(node.x) : undefined,
+    hasPosition(node) ? Math.round(node.y) : undefined,
+  ])
+  return toCsv(header, rows)
+}
+
+/**
+ * Link rows for an i2 Analyst's Notebook import specification, joined to
+ * the entity rows by Entity ID
+ */
+export const toI2LinksCsv = (graph: GraphExportData): string => {
+  const attributes = collectAttributes(graph.edges, EDGE_FIELDS)
+  const header = ["Link ID", "From Entity ID", "To Entity ID", "Link Type", "Weight", ...attributes.map(attribute => attribute.name)]
+  const rows = graph.edges.map((edge, i) => [
+    edge.id ?? `e${i}`,
+    edge.source,
+    edge.target,
+    edge.type,
+    edge.weight,
+    ...attributes.map(attribute => scalar(edge.data?.[attribute.name])),
+  ])
+  return toCsv(header, rows)
+}
+
+/**
+ * Escape text for an XML attribute or element
+ */
+export const escapeXml = (value: string): string => {
+  return value
+    // Control characters other than tab and newlines are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+/**
+ * Quote a CSV cell when needed. Text starting with a formula character is
+ * prefixed with an apostrophe so spreadsheets do not evaluate it.
+ */
+export const escapeCsv = (value: Scalar | undefined): string => {
+  if (value === undefined) return ""
+  let text = String(value)
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text
+}
+
+const toCsv = (header: string[], rows: (Scalar | undefined)[][]): string => {
+  // CRLF line endings and no BOM, as the Analyst's Notebook importer expects
+  return [header, ...rows].map(row => row.map(escapeCsv).join(",")).join("\r\n") + "\r\n"
+}
+
+const hasPosition = (node: GraphExportNode): node is GraphExportNode & { x: number; y: number } => {
+  return Number.isFinite(node.x) && Number.isFinite(node.y)
+}
+
+/**
+ * Data fields holding a scalar on any element, typed double or boolean when
+ * every value is one, otherwise string
+ */
+const collectAttributes = (elements: (GraphExportNode | GraphExportEdge)[], reserved: string[]): Attribute[] => {
+  const types = new Map<string, Set<string>>()
+  for (const element of elements) {
+    for (const [name, value] of Object.entries(element.data ?? {})) {
+      const converted = scalar(value)
+      if (converted === undefined || reserved.includes(name)) continue
+      const seen = types.get(name) ?? new Set<string>()
+      seen.add(typeof converted)
+      types.set(name, seen)
+    }
+  }
+
+  return Array.from(types.entries()).map(([name, seen]) => {
+    const only = seen.size === 1 ? Array.from(seen)[0] : "string"
+    return { name, type: only === "number" ? "double" : only === "boolean" ? "boolean" : "string" }
+  })
+}
+
+// Dates become ISO strings; nested objects and arrays are left out
+const scalar = (value: unknown): Scalar | undefined => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value.toISOString()
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined
+  if (typeof value === "string" || typeof value === "boolean") return value
+  return undefined
+}
+
+const key = (id: string, domain: "node" | "edge", name: string, type: Attribute["type"]): string => {
+  return `  <key id="${id}" for="${domain}" attr.name="${escapeXml(name)}" attr.type="${type}"/>`
+}
+
+const dataElements = (values: [string, Scalar | undefined][]): string => {
+  return values
+    .filter(([, value]) => value !== undefined)
+    .map(([id, value]) => `      <data key="${id}">${escapeXml(String(value))}</data>\n`)
+    .join("")
+}
+
+const attributeDeclarations = (domain: "node" | "edge", attributes: Attribute[]): string => {
+  return [
+    `    <attributes class="${domain}">`,
+    ...attributes.map((attribute, i) =>
+      `      <attribute id="${i}" title="${escapeXml(attribute.name)}" type="${attribute.type}"/>`
+    ),
+    `    </attributes>`,
+  ].join("\n")
+}
+
+const attributeValues = (values: [number, Scalar | undefined][]): string[] => {
+  const present = values.filter(([, value]) => value !== undefined)
+  if (present.length === 0) return []
+  return [
+    `        <attvalues>`,
+    ...present.map(([id, value]) => `          <attvalue for="${id}" value="${escapeXml(String(value))}"/>`),
+    `        </attvalues>`,
+  ]
+}
+
+const parseHexColor = (color: string): [number, number, number] | null => {
+  const match = /^#([0-9a-f]{6})$/i.exec(color)
+  if (!match?.[1]) return null
+  const value = parseInt(match[1], 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
@@ -202,4 +202,6 @@ export const objectSnakeToCamel = <T extends Record<string, unknown>>(obj: T): R
     }
   }
   return result
-}
\ No newline at end of file
+}
+
+export * from "./graph-export"